@@ -48,7 +48,7 @@ echo "==> Installing packages inside chroot"
 chroot "$MOUNT_DIR" /bin/sh -c '
   set -e
   apk update
-  apk add alpine-base openrc git curl unzip libstdc++ libgcc dropbear
+  apk add alpine-base openrc git curl unzip libstdc++ libgcc dropbear e2fsprogs-extra util-linux-misc
 '
 
 echo "==> Installing Bun (musl build)"
@@ -83,6 +83,10 @@ cat > "$MOUNT_DIR/usr/bin/openclaw" <<'WRAPPER'
 exec /usr/local/bin/bun /opt/openclaw/openclaw.mjs "$@"
 WRAPPER
 chmod 0755 "$MOUNT_DIR/usr/bin/openclaw"
+# Tenant secrets written by the agent (lobsterd secrets set)
+cat > "$MOUNT_DIR/etc/profile.d/lobster-secrets.sh" <<'PROFILE'
+[ -r /run/lobster-agent/secrets.env ] && . /run/lobster-agent/secrets.env
+PROFILE
 
 echo "==> Installing overlay-init"
 install -m 0755 "$SCRIPT_DIR/overlay-init" "$MOUNT_DIR/sbin/overlay-init"
@@ -1,8 +1,8 @@
 #!/usr/bin/env bun
 
 // lobster-agent.mjs — In-VM agent for lobsterd Firecracker microVMs
-// Listens on TCP for host commands: inject-secrets, health-ping, launch-openclaw, shutdown
-// Authenticated via agent_token passed in kernel command line.
+// Listens on TCP for host commands: inject-secrets, health-ping, launch-openclaw, fs-freeze, rekey, shutdown
+// Authenticated via agent_token passed in kernel command line (or a later rekey).
 
 import { execSync, spawn } from "node:child_process";
 import crypto, { timingSafeEqual } from "node:crypto";
@@ -65,6 +65,7 @@ const HEALTH_PORT = 53;
 const MAX_MESSAGE_SIZE = 1024 * 1024; // 1MB
 let gatewayProcess = null;
 let secrets = {};
+let userEnv = {}; // tenant secrets from `lobsterd secrets`, gateway env
 const holds = new Map(); // holdId → expiresAtMs
 
 /** Parse a key=value parameter from /proc/cmdline */
@@ -93,7 +94,20 @@ function parseGuestIp() {
   return "0.0.0.0"; // Fallback
 }
 
-const AGENT_TOKEN = parseCmdlineParam("agent_token");
+// A rekey outlives agent restarts but not a reboot (/run is a tmpfs)
+const AGENT_TOKEN_FILE = "/run/lobster-agent/token";
+const MIN_TOKEN_LENGTH = 16;
+
+function readRekeyedToken() {
+  try {
+    const token = readFileSync(AGENT_TOKEN_FILE, "utf-8").trim();
+    return token.length >= MIN_TOKEN_LENGTH ? token : null;
+  } catch {
+    return null;
+  }
+}
+
+let AGENT_TOKEN = readRekeyedToken() ?? parseCmdlineParam("agent_token");
 const BIND_ADDR = parseGuestIp();
 
 function validateToken(msg) {
@@ -231,6 +245,14 @@ async function handleMessage(msg) {
       return handleHoldAcquire(msg.holdId, msg.ttlMs);
     case "hold-release":
       return handleHoldRelease(msg.holdId);
+    case "resize-fs":
+      return handleResizeFs();
+    case "fs-freeze":
+      return handleFsFreeze(msg.ttlMs);
+    case "fs-thaw":
+      return handleFsThaw();
+    case "rekey":
+      return handleRekey(msg.newToken);
     case "shutdown":
       return handleShutdown();
     default:
@@ -254,8 +276,140 @@ function handleSetTime(timestampMs) {
   }
 }
 
+function handleResizeFs() {
+  // The host has already grown the overlay drive; ext4 grows online
+  try {
+    execSync("resize2fs /dev/vdb", { stdio: "pipe" });
+    console.log("[lobster-agent] Resized overlay filesystem");
+    return JSON.stringify({ ok: true });
+  } catch (e) {
+    return JSON.stringify({ error: `resize2fs failed: ${e.message}` });
+  }
+}
+
+// The overlay drive's boot-time mount went away with the old root; a second
+// mount of the same device shares its superblock, so freezing it freezes /
+const FREEZE_MOUNT = "/run/lobster-freeze";
+let thawTimer = null;
+
+function handleFsFreeze(ttlMs) {
+  if (typeof ttlMs !== "number" || ttlMs <= 0) {
+    return JSON.stringify({ error: "Invalid ttlMs" });
+  }
+  if (thawTimer) {
+    return JSON.stringify({ error: "Filesystem already frozen" });
+  }
+  try {
+    mkdirSync(FREEZE_MOUNT, { recursive: true });
+    execSync(
+      `mountpoint -q ${FREEZE_MOUNT} || mount -t ext4 /dev/vdb ${FREEZE_MOUNT}`,
+      { stdio: "pipe" },
+    );
+    console.log(`[lobster-agent] Freezing overlay filesystem (ttl=${ttlMs}ms)`);
+    execSync("sync", { stdio: "pipe" });
+    execSync(`fsfreeze -f ${FREEZE_MOUNT}`, { stdio: "pipe" });
+  } catch (e) {
+    return JSON.stringify({ error: `fsfreeze failed: ${e.message}` });
+  }
+  // Writes (our own log included) block until thaw, so a detached process
+  // enforces the ttl even if this one gets stuck
+  thawTimer = spawn(
+    "sh",
+    ["-c", `sleep ${Math.ceil(ttlMs / 1000)}; fsfreeze -u ${FREEZE_MOUNT}`],
+    { detached: true, stdio: "ignore" },
+  );
+  thawTimer.unref();
+  return JSON.stringify({ ok: true });
+}
+
+function handleFsThaw() {
+  const timer = thawTimer;
+  thawTimer = null;
+  if (!timer || timer.exitCode !== null || timer.signalCode !== null) {
+    console.log("[lobster-agent] Thaw requested but the freeze had expired");
+    return JSON.stringify({ ok: true, wasFrozen: false });
+  }
+  timer.kill("SIGKILL");
+  try {
+    execSync(`fsfreeze -u ${FREEZE_MOUNT}`, { stdio: "pipe" });
+  } catch (e) {
+    return JSON.stringify({ error: `fsfreeze -u failed: ${e.message}` });
+  }
+  console.log("[lobster-agent] Thawed overlay filesystem");
+  return JSON.stringify({ ok: true, wasFrozen: true });
+}
+
+function handleRekey(newToken) {
+  if (typeof newToken !== "string" || newToken.length < MIN_TOKEN_LENGTH) {
+    return JSON.stringify({ ok: false, error: "token too short" });
+  }
+  try {
+    mkdirSync("/run/lobster-agent", { recursive: true, mode: 0o700 });
+    writeFileSync(AGENT_TOKEN_FILE, newToken, { mode: 0o600 });
+  } catch (e) {
+    return JSON.stringify({ ok: false, error: e.message });
+  }
+  AGENT_TOKEN = newToken;
+  console.log("[lobster-agent] Re-keyed agent token");
+  return JSON.stringify({ ok: true });
+}
+
+/** Point the existing OpenClaw config at a rotated gateway token */
+function rewriteConfigToken(token) {
+  const path = "/root/.openclaw/openclaw.json";
+  try {
+    const config = JSON.parse(readFileSync(path, "utf-8"));
+    if (!config.gateway?.auth || config.gateway.auth.token === token) {
+      return;
+    }
+    config.gateway.auth.token = token;
+    writeFileSync(path, JSON.stringify(config, null, 2));
+    console.log("[lobster-agent] Updated gateway token in OpenClaw config");
+  } catch (e) {
+    if (e.code !== "ENOENT") {
+      console.error(`[lobster-agent] Failed to update config: ${e.message}`);
+    }
+  }
+}
+
+// Sourced by login shells via /etc/profile.d/lobster-secrets.sh
+const SECRETS_ENV_FILE = "/run/lobster-agent/secrets.env";
+
+/** Replace the tenant secrets; true if they changed */
+function applyUserEnv(json) {
+  let next;
+  try {
+    next = JSON.parse(json);
+  } catch (e) {
+    console.error(`[lobster-agent] Ignoring bad LOBSTER_SECRETS: ${e.message}`);
+    return false;
+  }
+  if (JSON.stringify(next) === JSON.stringify(userEnv)) {
+    return false;
+  }
+  userEnv = next;
+  const quote = (v) => `'${v.replaceAll("'", "'\\''")}'`;
+  const lines = Object.entries(userEnv).map(
+    ([k, v]) => `export ${k}=${quote(v)}\n`,
+  );
+  try {
+    mkdirSync("/run/lobster-agent", { recursive: true, mode: 0o700 });
+    writeFileSync(SECRETS_ENV_FILE, lines.join(""), { mode: 0o600 });
+  } catch (e) {
+    console.error(`[lobster-agent] Failed to write secrets env: ${e.message}`);
+  }
+  console.log(
+    `[lobster-agent] Tenant secrets updated (${lines.length} key(s))`,
+  );
+  return true;
+}
+
 function handleInjectSecrets(newSecrets) {
-  secrets = { ...secrets, ...newSecrets };
+  const previousToken = secrets.OPENCLAW_GATEWAY_TOKEN;
+  const { LOBSTER_SECRETS, ...fixed } = newSecrets;
+  secrets = { ...secrets, ...fixed };
+  const envChanged =
+    LOBSTER_SECRETS !== undefined && applyUserEnv(LOBSTER_SECRETS);
 
   // Write OpenClaw config if provided
   if (secrets.OPENCLAW_CONFIG) {
@@ -284,6 +438,23 @@ function handleInjectSecrets(newSecrets) {
     }
   }
 
+  // A gateway token without a full config (boot, rotation) only swaps the token
+  if (newSecrets.OPENCLAW_GATEWAY_TOKEN && !newSecrets.OPENCLAW_CONFIG) {
+    rewriteConfigToken(newSecrets.OPENCLAW_GATEWAY_TOKEN);
+  }
+
+  // The gateway reads its token and env at launch, so restart it on a change
+  if (
+    gatewayProcess &&
+    ((previousToken && secrets.OPENCLAW_GATEWAY_TOKEN !== previousToken) ||
+      envChanged)
+  ) {
+    console.log("[lobster-agent] Gateway token or env changed, restarting");
+    gatewayProcess.once("exit", () => handleLaunchOpenclaw());
+    gatewayProcess.kill("SIGTERM");
+    return "ACK";
+  }
+
   // Launch OpenClaw gateway if we have the token
   if (secrets.OPENCLAW_GATEWAY_TOKEN && !gatewayProcess) {
     handleLaunchOpenclaw();
@@ -309,6 +480,7 @@ function handleLaunchOpenclaw() {
   gatewayProcess = spawn("bun", ["/opt/openclaw/openclaw.mjs", "gateway"], {
     env: {
       ...process.env,
+      ...userEnv,
       HOME: "/root",
       OPENCLAW_GATEWAY_TOKEN: token,
       OPENCLAW_GATEWAY_PORT: "9000",
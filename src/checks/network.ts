@@ -40,11 +40,11 @@ export function checkGatewayPort(
   tenant: Tenant,
   config: LobsterdConfig,
 ): ResultAsync<HealthCheckResult, LobsterError> {
-  if (tenant.status === "suspended") {
+  if (tenant.status === "suspended" || tenant.status === "stopped") {
     return okAsync({
       check: "net.gateway",
       status: "ok",
-      message: "Skipped — tenant is suspended",
+      message: `Skipped — tenant is ${tenant.status}`,
     } as HealthCheckResult);
   }
   // Check via the agent's get-stats (which reports gatewayPid) instead of
@@ -78,25 +78,27 @@ export function checkGatewayPort(
 export function checkCaddyRoute(
   tenant: Tenant,
   adminApi: string,
+  instance?: string,
 ): ResultAsync<HealthCheckResult, LobsterError> {
+  const routeId = caddy.routeId(tenant.name, instance);
   return caddy
     .listRoutes(adminApi)
     .map((routes): HealthCheckResult => {
       const id = (r: unknown) =>
         (r as Record<string, unknown>)?.["@id"] as string | undefined;
       const found =
-        routes.some((r) => id(r) === `lobster-${tenant.name}`) &&
-        routes.some((r) => id(r) === `lobster-${tenant.name}-ws`);
+        routes.some((r) => id(r) === routeId) &&
+        routes.some((r) => id(r) === `${routeId}-ws`);
       return found
         ? {
             check: "net.caddy-route",
             status: "ok",
-            message: `Caddy route lobster-${tenant.name} exists`,
+            message: `Caddy route ${routeId} exists`,
           }
         : {
             check: "net.caddy-route",
             status: "failed",
-            message: `Caddy route lobster-${tenant.name} not found`,
+            message: `Caddy route ${routeId} not found`,
           };
     })
     .orElse(() =>
@@ -116,6 +118,6 @@ export function runNetworkChecks(
   return ResultAsync.combine([
     checkTapDevice(tenant),
     checkGatewayPort(tenant, config),
-    checkCaddyRoute(tenant, adminApi),
+    checkCaddyRoute(tenant, adminApi, config.instance),
   ]);
 }
@@ -0,0 +1,225 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { errAsync, okAsync } from "neverthrow";
+import * as loader from "../config/loader.js";
+import * as manifest from "../config/manifest.js";
+import {
+  makeConfig,
+  makeRegistry,
+  makeTenant,
+  unwrapOk,
+} from "../test-helpers.js";
+import type { LobsterError, TenantRegistry } from "../types/index.js";
+import { planApply, runApply } from "./apply.js";
+import * as evict from "./evict.js";
+import * as grow from "./grow.js";
+import * as spawn from "./spawn.js";
+import * as throttle from "./throttle.js";
+
+const RESOURCES = { vcpuCount: 2, memSizeMb: 1024, diskSizeMb: 4096 };
+const TEN_MB = { bandwidth: { size: 10_485_760, refillTime: 1000 } };
+
+const s = {} as Record<string, ReturnType<typeof spyOn>>;
+
+beforeEach(() => {
+  s.loadManifest = spyOn(manifest, "loadManifest").mockReturnValue(
+    okAsync([]) as never,
+  );
+  s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
+    okAsync(makeConfig()) as never,
+  );
+  s.loadRegistry = spyOn(loader, "loadRegistry").mockReturnValue(
+    okAsync(makeRegistry([])) as never,
+  );
+  s.saveRegistry = spyOn(loader, "saveRegistry").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.runSpawn = spyOn(spawn, "runSpawn").mockReturnValue(
+    okAsync(makeTenant()) as never,
+  );
+  s.runEvict = spyOn(evict, "runEvict").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.runGrow = spyOn(grow, "runGrow").mockReturnValue(
+    okAsync(makeTenant()) as never,
+  );
+  s.runThrottle = spyOn(throttle, "runThrottle").mockReturnValue(
+    okAsync(makeTenant()) as never,
+  );
+});
+
+afterEach(() => {
+  for (const spy of Object.values(s)) {
+    spy.mockRestore();
+  }
+});
+
+// ── planApply ───────────────────────────────────────────────────────────────
+
+describe("planApply", () => {
+  const config = makeConfig();
+
+  test("spawns new tenants and evicts unlisted ones, evicts first", () => {
+    const registry = makeRegistry([makeTenant({ name: "old" })]);
+    const plan = planApply([{ name: "new" }], registry, config);
+    expect(plan.map((a) => [a.op, a.tenant])).toEqual([
+      ["evict", "old"],
+      ["spawn", "new"],
+    ]);
+  });
+
+  test("is empty when the registry already matches", () => {
+    const registry = makeRegistry([
+      makeTenant({ resources: RESOURCES, labels: { team: "a" } }),
+    ]);
+    const plan = planApply(
+      [{ name: "test-tenant", resources: RESOURCES, labels: { team: "a" } }],
+      registry,
+      config,
+    );
+    expect(plan).toEqual([]);
+  });
+
+  test("grows disks, changes limits and replaces labels in place", () => {
+    const registry = makeRegistry([makeTenant({ resources: RESOURCES })]);
+    const [action] = planApply(
+      [
+        {
+          name: "test-tenant",
+          resources: { diskSizeMb: 8192 },
+          rateLimits: { networkRx: TEN_MB },
+          labels: { team: "b" },
+        },
+      ],
+      registry,
+      config,
+    );
+    expect(action.op).toBe("update");
+    expect(action.change).toEqual({
+      diskSizeMb: 8192,
+      rateLimits: { networkRx: TEN_MB },
+      labels: { team: "b" },
+    });
+  });
+
+  test("reports shrinks, resizes and template changes as conflicts", () => {
+    const registry = makeRegistry([makeTenant({ resources: RESOURCES })]);
+    const plan = planApply(
+      [
+        {
+          name: "test-tenant",
+          template: "big",
+          resources: { vcpuCount: 4, diskSizeMb: 1024 },
+        },
+      ],
+      registry,
+      config,
+    );
+    expect(plan).toHaveLength(1);
+    expect(plan[0].op).toBe("conflict");
+    expect(plan[0].detail).toContain("template");
+    expect(plan[0].detail).toContain("vcpuCount");
+    expect(plan[0].detail).toContain("diskSizeMb");
+  });
+
+  test("leaves tenants that are being removed alone", () => {
+    const registry = makeRegistry([makeTenant({ status: "removing" })]);
+    expect(planApply([], registry, config)).toEqual([]);
+  });
+});
+
+// ── runApply ────────────────────────────────────────────────────────────────
+
+describe("runApply", () => {
+  test("--dry-run plans without running anything", async () => {
+    s.loadManifest.mockReturnValue(okAsync([{ name: "new" }]) as never);
+    const results = await unwrapOk(runApply("t.json", { dryRun: true }));
+    expect(results.map((r) => r.status)).toEqual(["planned"]);
+    expect(s.runSpawn).not.toHaveBeenCalled();
+  });
+
+  test("spawns with the manifest's template, resources, limits and labels", async () => {
+    s.loadManifest.mockReturnValue(
+      okAsync([
+        {
+          name: "new",
+          template: "small",
+          resources: { memSizeMb: 512 },
+          rateLimits: { disk: TEN_MB },
+          labels: { team: "a" },
+        },
+      ]) as never,
+    );
+    const [result] = await unwrapOk(runApply("t.json"));
+    expect(result.status).toBe("applied");
+    expect(s.runSpawn.mock.calls[0].slice(0, 2)).toEqual([
+      "new",
+      {
+        template: "small",
+        resources: { memSizeMb: 512 },
+        labels: { team: "a" },
+      },
+    ]);
+    expect(s.runThrottle.mock.calls[0].slice(0, 2)).toEqual([
+      "new",
+      { disk: TEN_MB },
+    ]);
+  });
+
+  test("replaces labels on existing tenants", async () => {
+    s.loadManifest.mockReturnValue(
+      okAsync([{ name: "test-tenant", labels: { team: "b" } }]) as never,
+    );
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([makeTenant({ labels: { team: "a", env: "prod" } })]),
+      ) as never,
+    );
+
+    const [result] = await unwrapOk(runApply("t.json"));
+    expect(result.status).toBe("applied");
+    const saved = s.saveRegistry.mock.calls[0][0] as TenantRegistry;
+    expect(saved.tenants[0].labels).toEqual({ team: "b" });
+  });
+
+  test("evicts to the trash and grows in place", async () => {
+    s.loadManifest.mockReturnValue(
+      okAsync([
+        { name: "test-tenant", resources: { diskSizeMb: 8192 } },
+      ]) as never,
+    );
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([
+          makeTenant({ resources: RESOURCES }),
+          makeTenant({ name: "old" }),
+        ]),
+      ) as never,
+    );
+
+    const results = await unwrapOk(runApply("t.json"));
+    expect(results.map((r) => [r.op, r.status])).toEqual([
+      ["evict", "applied"],
+      ["update", "applied"],
+    ]);
+    expect(s.runEvict.mock.calls[0].slice(0, 2)).toEqual(["old", {}]);
+    expect(s.runGrow.mock.calls[0].slice(0, 2)).toEqual(["test-tenant", 8192]);
+  });
+
+  test("keeps going after a failed action", async () => {
+    s.loadManifest.mockReturnValue(
+      okAsync([{ name: "a" }, { name: "b" }]) as never,
+    );
+    s.runSpawn
+      .mockReturnValueOnce(
+        errAsync<never, LobsterError>({
+          code: "SUBNET_EXHAUSTED",
+          message: "no subnets",
+        }) as never,
+      )
+      .mockReturnValue(okAsync(makeTenant({ name: "b" })) as never);
+
+    const results = await unwrapOk(runApply("t.json"));
+    expect(results.map((r) => r.status)).toEqual(["failed", "applied"]);
+    expect(results[0].error).toBe("no subnets");
+  });
+});
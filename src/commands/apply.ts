@@ -0,0 +1,312 @@
+import { okAsync, type ResultAsync } from "neverthrow";
+import { loadConfig, loadRegistry } from "../config/loader.js";
+import { type DesiredTenant, loadManifest } from "../config/manifest.js";
+import { tenantResources } from "../config/resources.js";
+import { tenantConfig } from "../config/templates.js";
+import type {
+  LobsterdConfig,
+  LobsterError,
+  Tenant,
+  TenantRateLimits,
+  TenantRegistry,
+  TenantResources,
+} from "../types/index.js";
+import { runEvict } from "./evict.js";
+import { runGrow } from "./grow.js";
+import { runLabel } from "./label.js";
+import { runSpawn } from "./spawn.js";
+import { runThrottle } from "./throttle.js";
+
+export interface ApplyProgress {
+  tenant: string;
+  step: string;
+  detail: string;
+}
+
+export interface ApplyOpts {
+  /** Plan only — report what would change without touching anything */
+  dryRun?: boolean;
+}
+
+/** What an update changes; only the fields that differ are set */
+export interface ApplyChange {
+  diskSizeMb?: number;
+  rateLimits?: TenantRateLimits;
+  labels?: Record<string, string>;
+}
+
+export interface ApplyAction {
+  /** "conflict" is a difference apply cannot converge and leaves alone */
+  op: "spawn" | "evict" | "update" | "conflict";
+  tenant: string;
+  detail: string;
+  spec?: DesiredTenant;
+  change?: ApplyChange;
+}
+
+export interface ApplyResult extends ApplyAction {
+  status: "planned" | "applied" | "failed" | "skipped";
+  error?: string;
+}
+
+const sameJson = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+function sameLabels(
+  a: Record<string, string> | undefined,
+  b: Record<string, string>,
+): boolean {
+  const left = a ?? {};
+  const keys = Object.keys(left);
+  return (
+    keys.length === Object.keys(b).length && keys.every((k) => left[k] === b[k])
+  );
+}
+
+function diffTenant(
+  tenant: Tenant,
+  spec: DesiredTenant,
+  config: LobsterdConfig,
+): ApplyAction[] {
+  const actions: ApplyAction[] = [];
+  const conflicts: string[] = [];
+  const change: ApplyChange = {};
+  const notes: string[] = [];
+
+  if ((spec.template ?? null) !== (tenant.template ?? null)) {
+    conflicts.push(
+      `template ${tenant.template ?? "(none)"} → ${spec.template ?? "(none)"}`,
+    );
+  }
+
+  const actual = tenantResources(tenant, tenantConfig(tenant, config));
+  for (const key of ["vcpuCount", "memSizeMb", "diskSizeMb"] as const) {
+    const want = spec.resources?.[key];
+    if (want === undefined || want === actual[key]) {
+      continue;
+    }
+    if (key === "diskSizeMb" && want > actual.diskSizeMb) {
+      change.diskSizeMb = want;
+      notes.push(`disk ${actual.diskSizeMb}MB → ${want}MB`);
+    } else {
+      conflicts.push(`${key} ${actual[key]} → ${want}`);
+    }
+  }
+
+  if (spec.rateLimits) {
+    const changed: TenantRateLimits = {};
+    for (const [key, limiter] of Object.entries(spec.rateLimits) as [
+      keyof TenantRateLimits,
+      TenantRateLimits[keyof TenantRateLimits],
+    ][]) {
+      if (!sameJson(limiter, tenant.rateLimits?.[key])) {
+        changed[key] = limiter;
+      }
+    }
+    if (Object.keys(changed).length > 0) {
+      change.rateLimits = changed;
+      notes.push(`rate limits (${Object.keys(changed).join(", ")})`);
+    }
+  }
+
+  if (spec.labels && !sameLabels(tenant.labels, spec.labels)) {
+    change.labels = spec.labels;
+    notes.push("labels");
+  }
+
+  if (notes.length > 0) {
+    actions.push({
+      op: "update",
+      tenant: tenant.name,
+      detail: notes.join(", "),
+      spec,
+      change,
+    });
+  }
+  if (conflicts.length > 0) {
+    actions.push({
+      op: "conflict",
+      tenant: tenant.name,
+      detail: `${conflicts.join(", ")} — evict and re-apply to change`,
+      spec,
+    });
+  }
+  return actions;
+}
+
+function describeSpawn(spec: DesiredTenant): string {
+  const parts: string[] = [];
+  if (spec.template) {
+    parts.push(`template ${spec.template}`);
+  }
+  const r: Partial<TenantResources> = spec.resources ?? {};
+  if (r.vcpuCount !== undefined) {
+    parts.push(`vcpu ${r.vcpuCount}`);
+  }
+  if (r.memSizeMb !== undefined) {
+    parts.push(`mem ${r.memSizeMb}MB`);
+  }
+  if (r.diskSizeMb !== undefined) {
+    parts.push(`disk ${r.diskSizeMb}MB`);
+  }
+  return parts.length > 0 ? parts.join(", ") : "defaults";
+}
+
+/**
+ * Diff a desired tenant list against the registry. Tenants missing from the
+ * manifest are evicted (to the trash), new ones spawned, and existing ones
+ * updated where that can be done in place: growing the disk, changing rate
+ * limits and replacing labels. Fields a manifest entry omits are left as
+ * they are. Anything else — a shrink, a vCPU or memory change, a different
+ * template — is reported as a conflict.
+ */
+export function planApply(
+  desired: DesiredTenant[],
+  registry: TenantRegistry,
+  config: LobsterdConfig,
+): ApplyAction[] {
+  const wanted = new Set(desired.map((d) => d.name));
+  const evicts: ApplyAction[] = registry.tenants
+    .filter((t) => !wanted.has(t.name) && t.status !== "removing")
+    .map((t) => ({ op: "evict", tenant: t.name, detail: "not in manifest" }));
+
+  const spawns: ApplyAction[] = [];
+  const updates: ApplyAction[] = [];
+  for (const spec of desired) {
+    const tenant = registry.tenants.find((t) => t.name === spec.name);
+    if (!tenant) {
+      spawns.push({
+        op: "spawn",
+        tenant: spec.name,
+        detail: describeSpawn(spec),
+        spec,
+      });
+    } else if (tenant.status === "removing") {
+      updates.push({
+        op: "conflict",
+        tenant: spec.name,
+        detail: "tenant is being removed",
+        spec,
+      });
+    } else {
+      updates.push(...diffTenant(tenant, spec, config));
+    }
+  }
+
+  // Evict first so freed slots and capacity are available to new spawns
+  return [...evicts, ...spawns, ...updates];
+}
+
+function applyChange(
+  name: string,
+  change: ApplyChange,
+  progress: (step: string, detail: string) => void,
+): ResultAsync<void, LobsterError> {
+  const onProgress = (p: { step: string; detail: string }) =>
+    progress(p.step, p.detail);
+  const grow = (): ResultAsync<unknown, LobsterError> =>
+    change.diskSizeMb !== undefined
+      ? runGrow(name, change.diskSizeMb, onProgress)
+      : okAsync(undefined);
+  const throttle = (): ResultAsync<unknown, LobsterError> =>
+    change.rateLimits
+      ? runThrottle(name, change.rateLimits, onProgress)
+      : okAsync(undefined);
+
+  return grow()
+    .andThen(throttle)
+    .andThen(() => {
+      if (!change.labels) {
+        return okAsync(undefined);
+      }
+      progress("labels", "Replacing labels");
+      return runLabel(
+        name,
+        { set: change.labels, remove: [] },
+        { replace: true },
+      ).map(() => undefined);
+    });
+}
+
+function runAction(
+  action: ApplyAction,
+  progress: (step: string, detail: string) => void,
+): ResultAsync<void, LobsterError> {
+  const onProgress = (p: { step: string; detail: string }) =>
+    progress(p.step, p.detail);
+
+  switch (action.op) {
+    case "evict":
+      return runEvict(action.tenant, {}, onProgress);
+    case "spawn": {
+      const spec = action.spec as DesiredTenant;
+      return runSpawn(
+        action.tenant,
+        {
+          template: spec.template,
+          resources: spec.resources,
+          labels: spec.labels,
+        },
+        onProgress,
+      ).andThen(() =>
+        applyChange(action.tenant, { rateLimits: spec.rateLimits }, progress),
+      );
+    }
+    case "update":
+      return applyChange(action.tenant, action.change ?? {}, progress);
+    case "conflict":
+      return okAsync(undefined);
+  }
+}
+
+/**
+ * Converge the registry on a manifest file. Actions run one at a time and a
+ * failure does not stop the rest; each result records its own outcome.
+ */
+export function runApply(
+  path: string,
+  opts: ApplyOpts = {},
+  onProgress?: (p: ApplyProgress) => void,
+): ResultAsync<ApplyResult[], LobsterError> {
+  return loadManifest(path).andThen((desired) =>
+    loadConfig().andThen((config) =>
+      loadRegistry().andThen((registry) => {
+        const actions = planApply(desired, registry, config);
+        if (opts.dryRun) {
+          return okAsync<ApplyResult[], LobsterError>(
+            actions.map((a) => ({
+              ...a,
+              status: a.op === "conflict" ? "skipped" : "planned",
+            })),
+          );
+        }
+
+        return actions.reduce<ResultAsync<ApplyResult[], LobsterError>>(
+          (acc, action) =>
+            acc.andThen((results) => {
+              if (action.op === "conflict") {
+                return okAsync([
+                  ...results,
+                  { ...action, status: "skipped" as const },
+                ]);
+              }
+              const progress = (step: string, detail: string) =>
+                onProgress?.({ tenant: action.tenant, step, detail });
+              return runAction(action, progress)
+                .map((): ApplyResult[] => [
+                  ...results,
+                  { ...action, status: "applied" },
+                ])
+                .orElse((e) =>
+                  okAsync<ApplyResult[], LobsterError>([
+                    ...results,
+                    { ...action, status: "failed", error: e.message },
+                  ]),
+                );
+            }),
+          okAsync([]),
+        );
+      }),
+    ),
+  );
+}
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { errAsync, okAsync } from "neverthrow";
+import * as loader from "../config/loader.js";
+import * as fc from "../system/firecracker.js";
+import {
+  makeConfig,
+  makeRegistry,
+  makeTenant,
+  unwrapErr,
+  unwrapOk,
+} from "../test-helpers.js";
+import type { LobsterError } from "../types/index.js";
+import { parseBalloonTarget, runBalloon } from "./balloon.js";
+
+const s = {} as Record<string, ReturnType<typeof spyOn>>;
+
+beforeEach(() => {
+  s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
+    okAsync(makeConfig()) as never,
+  );
+  s.loadRegistry = spyOn(loader, "loadRegistry").mockReturnValue(
+    okAsync(makeRegistry([makeTenant({ vmPid: 1234 })])) as never,
+  );
+  s.updateBalloon = spyOn(fc, "updateBalloon").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.getBalloonStats = spyOn(fc, "getBalloonStats").mockReturnValue(
+    okAsync({ targetMib: 256, actualMib: 128 }) as never,
+  );
+});
+
+afterEach(() => {
+  for (const spy of Object.values(s)) {
+    spy.mockRestore();
+  }
+});
+
+describe("parseBalloonTarget", () => {
+  test("accepts sizes and zero", () => {
+    expect(parseBalloonTarget("256M")).toBe(256);
+    expect(parseBalloonTarget("1G")).toBe(1024);
+    expect(parseBalloonTarget("0")).toBe(0);
+    expect(parseBalloonTarget("lots")).toBeNull();
+  });
+});
+
+// ── runBalloon ──────────────────────────────────────────────────────────────
+
+describe("runBalloon", () => {
+  test("only reads stats without a target", async () => {
+    const stats = await unwrapOk(runBalloon("test-tenant"));
+    expect(stats.actualMib).toBe(128);
+    expect(s.updateBalloon).not.toHaveBeenCalled();
+  });
+
+  test("sets the target then reports stats", async () => {
+    await unwrapOk(runBalloon("test-tenant", { targetMb: 256 }));
+    expect(s.updateBalloon).toHaveBeenCalledWith(makeTenant().socketPath, 256);
+  });
+
+  test("refuses to starve the guest", async () => {
+    // Default tenant memory is 1024MB
+    const err = await unwrapErr(runBalloon("test-tenant", { targetMb: 1000 }));
+    expect(err.code).toBe("VALIDATION_FAILED");
+    expect(s.updateBalloon).not.toHaveBeenCalled();
+  });
+
+  test("reports the requested target when stats are disabled", async () => {
+    s.getBalloonStats.mockReturnValue(
+      errAsync<never, LobsterError>({
+        code: "BALLOON_FAILED",
+        message: "statistics not enabled",
+      }) as never,
+    );
+    const stats = await unwrapOk(runBalloon("test-tenant", { targetMb: 256 }));
+    expect(stats.targetMib).toBe(256);
+  });
+
+  test("rejects a suspended tenant", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([makeTenant({ status: "suspended", vmPid: null })]),
+      ) as never,
+    );
+    const err = await unwrapErr(runBalloon("test-tenant"));
+    expect(err.code).toBe("VALIDATION_FAILED");
+  });
+});
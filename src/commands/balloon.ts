@@ -0,0 +1,73 @@
+import { errAsync, okAsync, type ResultAsync } from "neverthrow";
+import { loadConfig, loadRegistry } from "../config/loader.js";
+import { parseSizeMb, tenantResources } from "../config/resources.js";
+import { tenantConfig } from "../config/templates.js";
+import * as fc from "../system/firecracker.js";
+import type { BalloonStats, LobsterError } from "../types/index.js";
+
+/** Never balloon a guest below this much usable memory */
+export const MIN_GUEST_MEM_MB = 64;
+
+/** Parse a balloon target like "256M"; "0" deflates. Null when malformed. */
+export function parseBalloonTarget(input: string): number | null {
+  return /^0+\s*[MGT]?i?B?$/i.test(input.trim()) ? 0 : parseSizeMb(input);
+}
+
+export interface BalloonOpts {
+  /** Balloon size in MiB — memory taken away from the guest. Omit to only read stats. */
+  targetMb?: number;
+}
+
+/**
+ * Set a running tenant's balloon target and/or read its statistics. The
+ * device is attached at boot when `balloon.enabled` is set, so VMs booted
+ * before that have no balloon until their next cold boot.
+ */
+export function runBalloon(
+  name: string,
+  opts: BalloonOpts = {},
+): ResultAsync<BalloonStats, LobsterError> {
+  return loadConfig().andThen((config) =>
+    loadRegistry().andThen((registry) => {
+      const tenant = registry.tenants.find((t) => t.name === name);
+      if (!tenant) {
+        return errAsync<BalloonStats, LobsterError>({
+          code: "TENANT_NOT_FOUND",
+          message: `Tenant "${name}" not found`,
+        });
+      }
+      if (tenant.status !== "active" || !tenant.vmPid) {
+        return errAsync<BalloonStats, LobsterError>({
+          code: "VALIDATION_FAILED",
+          message: `Tenant "${name}" has no running VM (status: ${tenant.status})`,
+        });
+      }
+
+      const { targetMb } = opts;
+      if (targetMb === undefined) {
+        return fc.getBalloonStats(tenant.socketPath);
+      }
+      const { memSizeMb } = tenantResources(
+        tenant,
+        tenantConfig(tenant, config),
+      );
+      if (targetMb > memSizeMb - MIN_GUEST_MEM_MB) {
+        return errAsync<BalloonStats, LobsterError>({
+          code: "VALIDATION_FAILED",
+          message: `Balloon target ${targetMb}MB would leave the guest less than ${MIN_GUEST_MEM_MB}MB of its ${memSizeMb}MB`,
+        });
+      }
+      return fc.updateBalloon(tenant.socketPath, targetMb).andThen(() =>
+        fc
+          .getBalloonStats(tenant.socketPath)
+          // Stats are off when statsIntervalS is 0 — report what we asked for
+          .orElse(() =>
+            okAsync<BalloonStats, LobsterError>({
+              targetMib: targetMb,
+              actualMib: 0,
+            }),
+          ),
+      );
+    }),
+  );
+}
@@ -0,0 +1,228 @@
+import { okAsync, ResultAsync } from "neverthrow";
+import { tenantResources } from "../config/resources.js";
+import { execUnchecked } from "../system/exec.js";
+import * as fc from "../system/firecracker.js";
+import * as jailer from "../system/jailer.js";
+import * as vsock from "../system/vsock.js";
+import type { LobsterdConfig, LobsterError, Tenant } from "../types/index.js";
+import { injectStoredSecrets } from "./secrets.js";
+
+export interface BootProgress {
+  step: string;
+  detail: string;
+}
+
+/**
+ * Cold-boot a tenant from its overlay: kill whatever is left of the previous
+ * Firecracker process, rebuild the jailer chroot and start a fresh VM.
+ * Updates `tenant.vmPid` (and drops `tenant.snapshotBase`) in place —
+ * callers persist the registry.
+ */
+export function coldBoot(
+  tenant: Tenant,
+  config: LobsterdConfig,
+  onProgress?: (p: BootProgress) => void,
+): ResultAsync<void, LobsterError> {
+  const progress = (step: string, detail: string) =>
+    onProgress?.({ step, detail });
+
+  // Kill ALL firecracker processes for this vmId (not just the recorded PID)
+  // to prevent zombie processes from previous repair cycles hijacking the API socket
+  return ResultAsync.fromSafePromise(
+    (async () => {
+      if (tenant.vmPid) {
+        try {
+          process.kill(tenant.vmPid, "SIGKILL");
+        } catch {}
+        progress("kill", `Killed recorded VM process ${tenant.vmPid}`);
+      }
+      // Also kill any orphaned firecracker processes for the same VM ID
+      await execUnchecked(["pkill", "-9", "-f", `--id ${tenant.vmId}`]);
+      await Bun.sleep(200);
+      // The fresh VM can't diff-snapshot onto the memory file its
+      // predecessor was resumed from, so don't keep a full-size copy around
+      const base = tenant.snapshotBase;
+      if (base) {
+        await execUnchecked(["rm", "-rf", base.dir]);
+        delete tenant.snapshotBase;
+        progress("snapshot", `Removed stale snapshot base ${base.dir}`);
+      }
+    })(),
+  )
+    .andThen(() =>
+      jailer.cleanupChroot(config.jailer.chrootBaseDir, tenant.vmId),
+    )
+    .andThen(() => {
+      progress("chroot", "Cleaned up stale jailer chroot");
+
+      // Re-spawn via jailer
+      return ResultAsync.fromPromise(
+        (async () => {
+          const { vcpuCount, memSizeMb } = tenantResources(tenant, config);
+          const args = jailer.buildJailerArgs(
+            config.jailer,
+            config.firecracker.binaryPath,
+            tenant.vmId,
+            tenant.jailUid,
+            jailer.cgroupLimits(vcpuCount, memSizeMb),
+          );
+          const proc = Bun.spawn(args, {
+            stdout: "ignore",
+            stderr: "ignore",
+          });
+          proc.unref();
+          tenant.vmPid = proc.pid;
+          await Bun.sleep(800);
+          progress(
+            "firecracker",
+            `Started new Firecracker via jailer (PID ${proc.pid})`,
+          );
+        })(),
+        (e): LobsterError => ({ code: "VM_BOOT_FAILED", message: String(e) }),
+      );
+    })
+    .andThen(() =>
+      jailer.linkChrootFiles(
+        config.jailer.chrootBaseDir,
+        tenant.vmId,
+        config.firecracker.kernelPath,
+        config.firecracker.rootfsPath,
+        tenant.overlayPath,
+        tenant.jailUid,
+      ),
+    )
+    .andThen(() => {
+      const { vcpuCount, memSizeMb } = tenantResources(tenant, config);
+      return fc.configureVm(tenant.socketPath, {
+        vcpuCount,
+        memSizeMib: memSizeMb,
+      });
+    })
+    .andThen(() => {
+      const bootArgs = [
+        "reboot=k",
+        "panic=1",
+        "pci=off",
+        "8250.nr_uarts=0",
+        "init=/sbin/overlay-init",
+        `ip=${tenant.ipAddress}::${tenant.hostIp}:255.255.255.252::eth0:off`,
+        `agent_token=${tenant.agentToken}`,
+      ].join(" ");
+      return fc.setBootSource(tenant.socketPath, "/vmlinux", bootArgs);
+    })
+    .andThen(() =>
+      fc.addDrive(
+        tenant.socketPath,
+        "rootfs",
+        "/rootfs.ext4",
+        true,
+        config.firecracker.diskRateLimit,
+      ),
+    )
+    .andThen(() =>
+      fc.addDrive(
+        tenant.socketPath,
+        "overlay",
+        "/overlay.ext4",
+        false,
+        config.firecracker.diskRateLimit,
+      ),
+    )
+    .andThen(() =>
+      fc.addNetworkInterface(
+        tenant.socketPath,
+        "eth0",
+        tenant.tapDev,
+        config.firecracker.networkRxRateLimit,
+        config.firecracker.networkTxRateLimit,
+      ),
+    )
+    .andThen(() => addBalloonDevice(tenant, config, progress))
+    .andThen(() => fc.startInstance(tenant.socketPath))
+    .andThen(() => {
+      progress("start", "VM started successfully");
+      return vsock.waitForAgent(
+        tenant.ipAddress,
+        config.vsock.agentPort,
+        config.vsock.connectTimeoutMs,
+      );
+    })
+    .andThen(() => {
+      progress("agent", "Guest agent responded");
+      return vsock.injectSecrets(
+        tenant.ipAddress,
+        config.vsock.agentPort,
+        {
+          OPENCLAW_GATEWAY_TOKEN: tenant.gatewayToken,
+        },
+        tenant.agentToken,
+      );
+    })
+    .andThen(() => {
+      progress("secrets", "Gateway token injected");
+      // Same policy as resume: a VM that booted is not failed over its secrets
+      return injectStoredSecrets(tenant, config, progress).orElse((e) => {
+        progress("secrets", `Failed to inject secrets: ${e.message}`);
+        return okAsync(undefined);
+      });
+    });
+}
+
+/** Attach a deflated balloon device if enabled in config; a no-op otherwise. */
+export function addBalloonDevice(
+  tenant: Tenant,
+  config: LobsterdConfig,
+  progress: (step: string, detail: string) => void = () => {},
+): ResultAsync<void, LobsterError> {
+  if (!config.balloon?.enabled) {
+    return okAsync(undefined);
+  }
+  progress("balloon", "Adding balloon device");
+  return fc.addBalloon(tenant.socketPath, {
+    amountMib: 0,
+    deflateOnOom: config.balloon.deflateOnOom,
+    statsIntervalS: config.balloon.statsIntervalS,
+  });
+}
+
+/**
+ * Ask the guest to shut down with Ctrl+Alt+Del, then SIGKILL the Firecracker
+ * process if it is still alive after `timeoutMs`. Resolves `true` when the
+ * guest went down on its own. No-op when nothing is running.
+ */
+export function shutdownVm(
+  tenant: Tenant,
+  timeoutMs = 5000,
+): ResultAsync<boolean, LobsterError> {
+  const pid = tenant.vmPid;
+  if (!pid) {
+    return okAsync(true);
+  }
+  return fc
+    .sendCtrlAltDel(tenant.socketPath)
+    .orElse(() => okAsync(undefined))
+    .andThen(() =>
+      ResultAsync.fromPromise(
+        (async () => {
+          const deadline = Date.now() + timeoutMs;
+          while (Date.now() < deadline) {
+            try {
+              process.kill(pid, 0);
+            } catch {
+              return true; // Process is dead
+            }
+            await Bun.sleep(500);
+          }
+          // Force kill
+          try {
+            process.kill(pid, "SIGKILL");
+          } catch {}
+          return false;
+        })(),
+        () => ({
+          code: "EXEC_FAILED" as const,
+          message: "Failed to stop VM",
+        }),
+      ),
+    );
+}
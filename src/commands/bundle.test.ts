@@ -0,0 +1,454 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import { DEFAULT_CONFIG } from "../config/defaults.js";
+import * as loader from "../config/loader.js";
+import * as exec_ from "../system/exec.js";
+import * as image from "../system/image.js";
+import * as ssh from "../system/ssh.js";
+import {
+  makeConfig,
+  makeRegistry,
+  makeTenant,
+  unwrapErr,
+  unwrapOk,
+} from "../test-helpers.js";
+import type {
+  BundleManifest,
+  SuspendInfo,
+  Tenant,
+  TenantSecrets,
+} from "../types/index.js";
+import { runExport, runImport } from "./bundle.js";
+import * as snap from "./snap.js";
+import * as tenantNetwork from "./tenant-network.js";
+
+const suspendInfo: SuspendInfo = {
+  suspendedAt: "2025-01-01T00:00:00.000Z",
+  snapshotDir: "/var/lib/lobsterd/snapshots/test-tenant",
+  cronSchedules: [],
+  nextWakeAtMs: null,
+  wakeReason: null,
+  lastRxBytes: 0,
+  heartbeatSchedule: null,
+  overlayCaptured: true,
+};
+
+/** A suspended tenant in the first tenant subnet, as on the exporting host */
+function sourceTenant(overrides?: Partial<Tenant>): Tenant {
+  return makeTenant({
+    cid: 3,
+    hostIp: "10.0.0.5",
+    ipAddress: "10.0.0.6",
+    gatewayPort: 9000,
+    jailUid: 10000,
+    status: "suspended",
+    vmPid: null,
+    suspendInfo,
+    labels: { team: "a" },
+    resources: { vcpuCount: 2, memSizeMb: 2048, diskSizeMb: 4096 },
+    ...overrides,
+  });
+}
+
+function makeManifest(overrides?: Partial<BundleManifest>): BundleManifest {
+  return {
+    format: 1,
+    lobsterdVersion: "0.2.0",
+    firecrackerVersion: "1.7.0",
+    exportedAt: "2025-01-02T00:00:00.000Z",
+    tenant: sourceTenant(),
+    snapshot: true,
+    ...overrides,
+  };
+}
+
+const s = {} as Record<string, ReturnType<typeof spyOn>>;
+let dir: string;
+let manifest: unknown;
+let bundleSecrets: unknown;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "lobsterd-bundle-"));
+  manifest = makeManifest();
+  bundleSecrets = null;
+  s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
+    okAsync(
+      makeConfig({ overlay: { ...DEFAULT_CONFIG.overlay, baseDir: dir } }),
+    ) as never,
+  );
+  s.loadRegistry = spyOn(loader, "loadRegistry").mockReturnValue(
+    okAsync(makeRegistry([])) as never,
+  );
+  s.loadJournals = spyOn(loader, "loadJournals").mockReturnValue(
+    okAsync([]) as never,
+  );
+  s.loadTrash = spyOn(loader, "loadTrash").mockReturnValue(
+    okAsync([]) as never,
+  );
+  s.saveRegistry = spyOn(loader, "saveRegistry").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.loadSecrets = spyOn(loader, "loadSecrets").mockReturnValue(
+    okAsync({}) as never,
+  );
+  s.updateSecrets = spyOn(loader, "updateSecrets").mockImplementation(((
+    _name: string,
+    update: (secrets: TenantSecrets) => TenantSecrets,
+  ) => okAsync(update({}))) as never);
+  s.deleteSecrets = spyOn(loader, "deleteSecrets").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.exec = spyOn(exec_, "exec").mockImplementation(((args: string[]) => {
+    const result = {
+      exitCode: 0,
+      stdout: args[1] === "--version" ? "Firecracker v1.7.0\n" : "",
+      stderr: "",
+    };
+    // Unpacking a bundle drops its manifest into the staging dir
+    if (args[0] === "tar" && args.includes("-xf")) {
+      const dest = args[args.indexOf("-C") + 1];
+      return ResultAsync.fromSafePromise(
+        Promise.all([
+          Bun.write(join(dest, "manifest.json"), JSON.stringify(manifest)),
+          bundleSecrets &&
+            Bun.write(
+              join(dest, "secrets.json"),
+              JSON.stringify(bundleSecrets),
+            ),
+        ]),
+      ).map(() => result);
+    }
+    return okAsync(result);
+  }) as never);
+  s.moveOverlay = spyOn(image, "moveOverlay").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.deleteOverlay = spyOn(image, "deleteOverlay").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.copyKeypair = spyOn(ssh, "copyKeypair").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.unstashKeypair = spyOn(ssh, "unstashKeypair").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.removeKeypair = spyOn(ssh, "removeKeypair").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.copyOverlayQuiesced = spyOn(snap, "copyOverlayQuiesced").mockReturnValue(
+    okAsync("offline") as never,
+  );
+  s.attachNetwork = spyOn(tenantNetwork, "attachNetwork").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+});
+
+afterEach(() => {
+  for (const spy of Object.values(s)) {
+    spy.mockRestore();
+  }
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const execCalls = () =>
+  s.exec.mock.calls.map((c: unknown[]) => (c[0] as string[]).join(" "));
+
+// ── runExport ───────────────────────────────────────────────────────────────
+
+describe("runExport", () => {
+  test("returns TENANT_NOT_FOUND for unknown tenant", async () => {
+    const err = await unwrapErr(runExport("nope", join(dir, "b.tar")));
+    expect(err.code).toBe("TENANT_NOT_FOUND");
+  });
+
+  test("bundles overlay, snapshot, keys and a manifest", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(makeRegistry([sourceTenant()])) as never,
+    );
+    const out = join(dir, "b.tar");
+    const staging = join(dir, ".export-test-tenant");
+
+    const result = await unwrapOk(runExport("test-tenant", out));
+
+    expect(result.path).toBe(out);
+    expect(result.manifest.snapshot).toBe(true);
+    expect(result.manifest.firecrackerVersion).toBe("1.7.0");
+    expect(result.manifest.tenant.agentToken).toBe("agent-token-test");
+    expect(s.copyOverlayQuiesced.mock.calls[0][2]).toBe(
+      join(staging, "overlay.ext4"),
+    );
+    expect(s.copyKeypair).toHaveBeenCalledWith(
+      "test-tenant",
+      join(staging, "ssh"),
+    );
+    expect(execCalls()).toContain(
+      `cp --sparse=always ${suspendInfo.snapshotDir}/mem_file ${staging}/snapshot`,
+    );
+    expect(execCalls()).toContain(`mkdir -p -m 0700 ${staging}`);
+    // Created private before tar writes keys and tokens into it
+    const calls = execCalls();
+    expect(calls.indexOf(`install -m 0600 /dev/null ${out}`)).toBeLessThan(
+      calls.indexOf(`tar --sparse -cf ${out} -C ${staging} .`),
+    );
+    expect(calls.indexOf(`install -m 0600 /dev/null ${out}`)).not.toBe(-1);
+    const written = await Bun.file(join(staging, "manifest.json")).json();
+    expect(written.tenant.name).toBe("test-tenant");
+    expect(written.secrets).toBeUndefined();
+  });
+
+  test("carries the tenant's secrets", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(makeRegistry([sourceTenant()])) as never,
+    );
+    s.loadSecrets.mockReturnValue(okAsync({ API_KEY: "s3cret" }) as never);
+    const staging = join(dir, ".export-test-tenant");
+
+    const result = await unwrapOk(runExport("test-tenant", join(dir, "b.tar")));
+
+    expect(result.manifest.secrets).toBe(true);
+    expect(await Bun.file(join(staging, "secrets.json")).json()).toEqual({
+      API_KEY: "s3cret",
+    });
+  });
+
+  test("leaves out the snapshot of a tenant that isn't suspended", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([sourceTenant({ status: "stopped", suspendInfo: null })]),
+      ) as never,
+    );
+    const result = await unwrapOk(runExport("test-tenant", join(dir, "b.tar")));
+    expect(result.manifest.snapshot).toBe(false);
+  });
+
+  test("removes a partial bundle on failure", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(makeRegistry([sourceTenant()])) as never,
+    );
+    s.copyOverlayQuiesced.mockReturnValue(
+      errAsync({ code: "SNAPSHOT_FAILED", message: "thawed early" }) as never,
+    );
+    const out = join(dir, "b.tar");
+    const err = await unwrapErr(runExport("test-tenant", out));
+
+    expect(err.message).toContain("thawed early");
+    expect(execCalls()).toContain(`rm -f ${out}`);
+  });
+});
+
+// ── runImport ───────────────────────────────────────────────────────────────
+
+describe("runImport", () => {
+  let bundle: string;
+
+  beforeEach(async () => {
+    bundle = join(dir, "bundle.tar");
+    await Bun.write(bundle, "");
+  });
+
+  test("fails on a missing bundle", async () => {
+    const err = await unwrapErr(runImport(join(dir, "nope.tar")));
+    expect(err.code).toBe("VALIDATION_FAILED");
+  });
+
+  test("comes back suspended on its original slots when they are free", async () => {
+    const t = await unwrapOk(runImport(bundle));
+
+    expect(t.status).toBe("suspended");
+    expect(t.ipAddress).toBe("10.0.0.6");
+    expect(t.cid).toBe(3);
+    expect(t.suspendInfo?.snapshotDir).toBe(
+      "/var/lib/lobsterd/snapshots/test-tenant",
+    );
+    expect(t.suspendInfo?.overlayCaptured).toBeUndefined();
+    expect(t.gatewayToken).toBe("gw-token-test");
+    expect(t.labels).toEqual({ team: "a" });
+    expect(t.overlayPath).toBe(`${dir}/test-tenant.ext4`);
+    expect(s.attachNetwork).toHaveBeenCalledTimes(1);
+    expect(s.saveRegistry).toHaveBeenCalledTimes(1);
+    expect(s.updateSecrets).not.toHaveBeenCalled();
+  });
+
+  test("stores bundled secrets under the imported name", async () => {
+    manifest = makeManifest({ secrets: true });
+    bundleSecrets = { API_KEY: "s3cret" };
+
+    await unwrapOk(runImport(bundle, { as: "copy" }));
+
+    const [name, update] = s.updateSecrets.mock.calls[0];
+    expect(name).toBe("copy");
+    expect(update({ STALE: "x" })).toEqual({ API_KEY: "s3cret" });
+  });
+
+  test("removes stored secrets again when the import fails later", async () => {
+    manifest = makeManifest({ secrets: true });
+    bundleSecrets = { API_KEY: "s3cret" };
+    s.attachNetwork.mockReturnValue(
+      errAsync({ code: "TAP_CREATE_FAILED", message: "no tap" }) as never,
+    );
+
+    await unwrapErr(runImport(bundle));
+    expect(s.deleteSecrets).toHaveBeenCalledWith("test-tenant");
+  });
+
+  test("rejects bundled secrets with invalid keys", async () => {
+    manifest = makeManifest({ secrets: true });
+    bundleSecrets = { "not-an-env-var": "x" };
+
+    const err = await unwrapErr(runImport(bundle));
+    expect(err.code).toBe("VALIDATION_FAILED");
+    expect(s.updateSecrets).not.toHaveBeenCalled();
+  });
+
+  test("re-allocates and drops the snapshot when the slots are taken", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([sourceTenant({ name: "other", status: "active" })]),
+      ) as never,
+    );
+    const t = await unwrapOk(runImport(bundle));
+
+    expect(t.status).toBe("stopped");
+    expect(t.stopInfo?.networkParked).toBe(true);
+    expect(t.suspendInfo).toBeNull();
+    expect(t.ipAddress).not.toBe("10.0.0.6");
+    expect(t.cid).not.toBe(3);
+    expect(t.agentToken).toBe("agent-token-test");
+  });
+
+  test("drops the snapshot across Firecracker versions", async () => {
+    manifest = makeManifest({ firecrackerVersion: "1.6.0" });
+    const t = await unwrapOk(runImport(bundle));
+    expect(t.status).toBe("stopped");
+  });
+
+  test("imports under another name with --as", async () => {
+    const t = await unwrapOk(runImport(bundle, { as: "copy" }));
+
+    expect(t.name).toBe("copy");
+    expect(t.tapDev).toBe("tap-copy");
+    expect(t.status).toBe("stopped");
+    expect(s.unstashKeypair.mock.calls[0][0]).toBe("copy");
+  });
+
+  test("takes this instance's TAP and VM ids, dropping the snapshot", async () => {
+    s.loadConfig.mockReturnValue(
+      okAsync(
+        makeConfig({
+          instance: "b",
+          overlay: { ...DEFAULT_CONFIG.overlay, baseDir: dir },
+        }),
+      ) as never,
+    );
+    const t = await unwrapOk(runImport(bundle));
+
+    expect(t.tapDev).toBe("tapb-test-tenant");
+    expect(t.vmId).toBe("vmb-test-tenant");
+    expect(t.socketPath).toContain("/vmb-test-tenant/");
+    expect(t.status).toBe("stopped");
+  });
+
+  test("refuses a name that is already registered", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(makeRegistry([makeTenant({ hostIp: "10.0.0.9" })])) as never,
+    );
+    const err = await unwrapErr(runImport(bundle));
+    expect(err.code).toBe("TENANT_EXISTS");
+    expect(s.moveOverlay).not.toHaveBeenCalled();
+  });
+
+  test("rejects an invalid manifest", async () => {
+    manifest = { format: 2 };
+    const err = await unwrapErr(runImport(bundle));
+    expect(err.code).toBe("VALIDATION_FAILED");
+  });
+
+  test("rolls back when the network can't be attached", async () => {
+    s.attachNetwork.mockReturnValue(
+      errAsync({ code: "TAP_CREATE_FAILED", message: "no tap" }) as never,
+    );
+    const err = await unwrapErr(runImport(bundle));
+
+    expect(err.code).toBe("TAP_CREATE_FAILED");
+    expect(s.deleteOverlay).toHaveBeenCalledTimes(1);
+    expect(s.saveRegistry).not.toHaveBeenCalled();
+  });
+
+  test("unpacks without the bundle's owners and modes", async () => {
+    await unwrapOk(runImport(bundle));
+    const tar = execCalls().find((c: string) => c.includes(" -xf "));
+    expect(tar).toContain("--no-same-owner --no-same-permissions");
+    expect(execCalls()).toContainEqual(
+      expect.stringMatching(/^chmod -R go-rwx .*\/ssh$/),
+    );
+  });
+
+  describe("untrusted members", () => {
+    // Other test files mock the exec module, so run the real tools directly
+    const run = (...args: string[]) =>
+      execFileSync(args[0], args.slice(1)).toString();
+
+    /** Pack `setup`'s files with real tar and list them with real tar */
+    async function craftBundle(setup: (src: string) => unknown) {
+      const src = join(dir, "src");
+      run("mkdir", "-p", src);
+      await setup(src);
+      run("tar", "-cPf", bundle, "-C", src, ".");
+      s.exec.mockImplementation(((args: string[]) =>
+        okAsync({
+          exitCode: 0,
+          stdout: args.includes("-tvf") ? run(...args) : "",
+          stderr: "",
+        })) as never);
+    }
+
+    test("refuses a symlink", async () => {
+      await craftBundle((src) =>
+        run("ln", "-s", "/etc/shadow", join(src, "overlay.ext4")),
+      );
+      const err = await unwrapErr(runImport(bundle));
+
+      expect(err.code).toBe("VALIDATION_FAILED");
+      expect(err.message).toContain("not a regular file or directory");
+      expect(execCalls().some((c: string) => c.includes(" -xf "))).toBe(false);
+    });
+
+    test("refuses a hardlink", async () => {
+      await craftBundle(async (src) => {
+        await Bun.write(join(src, "manifest.json"), "{}");
+        run("ln", join(src, "manifest.json"), join(src, "copy"));
+      });
+      const err = await unwrapErr(runImport(bundle));
+      expect(err.message).toContain("not a regular file or directory");
+    });
+
+    test("refuses a path that climbs out of the staging dir", async () => {
+      await craftBundle((src) => Bun.write(join(src, "manifest.json"), "{}"));
+      run(
+        "tar",
+        "-cPf",
+        bundle,
+        "-C",
+        join(dir, "src"),
+        "--transform",
+        "s,^\\./manifest,../evil,",
+        "./manifest.json",
+      );
+      const err = await unwrapErr(runImport(bundle));
+
+      expect(err.code).toBe("VALIDATION_FAILED");
+      expect(err.message).toContain("escapes the bundle: ../evil.json");
+    });
+
+    test("refuses an absolute path", async () => {
+      await craftBundle((src) => Bun.write(join(src, "manifest.json"), "{}"));
+      run("tar", "-cPf", bundle, join(dir, "src", "manifest.json"));
+      const err = await unwrapErr(runImport(bundle));
+      expect(err.message).toContain(`escapes the bundle: ${dir}/src/`);
+    });
+  });
+});
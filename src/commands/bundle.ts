@@ -0,0 +1,592 @@
+import { join, resolve } from "node:path";
+import { errAsync, ok, okAsync, type Result, ResultAsync } from "neverthrow";
+import {
+  type Allocation,
+  allocate,
+  subnetCapacity,
+  subnetIndexOf,
+  tenantIds,
+} from "../config/allocator.js";
+import { LOBSTERD_VERSION, SNAPSHOTS_DIR } from "../config/defaults.js";
+import {
+  deleteSecrets,
+  loadConfig,
+  loadJournals,
+  loadRegistry,
+  loadSecrets,
+  loadTrash,
+  saveRegistry,
+  updateSecrets,
+} from "../config/loader.js";
+import {
+  bundleManifestSchema,
+  TENANT_NAME_REGEX,
+  tenantSecretsSchema,
+} from "../config/schema.js";
+import { tenantConfig } from "../config/templates.js";
+import { exec } from "../system/exec.js";
+import * as image from "../system/image.js";
+import * as jailer from "../system/jailer.js";
+import * as ssh from "../system/ssh.js";
+import type {
+  BundleManifest,
+  LobsterdConfig,
+  LobsterError,
+  Tenant,
+  TenantRegistry,
+  TenantSecrets,
+} from "../types/index.js";
+import { copyOverlayQuiesced } from "./snap.js";
+import { computeSubnetIps } from "./spawn.js";
+import { attachNetwork } from "./tenant-network.js";
+import { rollback, type UndoFn } from "./undo.js";
+
+export interface BundleProgress {
+  step: string;
+  detail: string;
+}
+
+export interface ExportResult {
+  path: string;
+  manifest: BundleManifest;
+}
+
+export interface ImportOpts {
+  /** Register the bundled tenant under a different name */
+  as?: string;
+}
+
+const MANIFEST = "manifest.json";
+const OVERLAY = "overlay.ext4";
+const SSH_DIR = "ssh";
+const SNAPSHOT_DIR = "snapshot";
+const SNAPSHOT_FILES = ["snapshot_file", "mem_file"];
+const SECRETS = "secrets.json";
+
+/**
+ * Create `path` empty and readable by root only. Bundles carry the SSH
+ * private key and the tenant's tokens, so they are never left to the umask.
+ */
+export function createPrivateFile(
+  path: string,
+): ResultAsync<void, LobsterError> {
+  return exec(["install", "-m", "0600", "/dev/null", path]).map(
+    () => undefined,
+  );
+}
+
+function writeBundleFile(
+  path: string,
+  data: unknown,
+  what: string,
+): ResultAsync<void, LobsterError> {
+  return ResultAsync.fromPromise(
+    Bun.write(path, `${JSON.stringify(data, null, 2)}\n`),
+    (e): LobsterError => ({
+      code: "EXPORT_FAILED",
+      message: `Failed to write bundle ${what}: ${e instanceof Error ? e.message : String(e)}`,
+      cause: e,
+    }),
+  ).map(() => undefined);
+}
+
+/** `Firecracker v1.7.0` → `1.7.0`; null if the binary can't tell us */
+function firecrackerVersion(
+  config: LobsterdConfig,
+): ResultAsync<string | null, LobsterError> {
+  return exec([config.firecracker.binaryPath, "--version"])
+    .map((r) => r.stdout.match(/v?(\d+\.\d+\.\d+)/)?.[1] ?? null)
+    .orElse(() => okAsync(null));
+}
+
+/**
+ * Write a tenant to a portable tarball: overlay, suspend snapshot (if
+ * suspended), SSH keypair, secrets and a manifest holding the tenant record
+ * with its tokens, labels and resources. Secrets and tokens are decrypted,
+ * as the importing host has its own key. A running tenant keeps running;
+ * its overlay is quiesced for the copy like `snap` does.
+ */
+export function runExport(
+  name: string,
+  out: string,
+  onProgress?: (p: BundleProgress) => void,
+): ResultAsync<ExportResult, LobsterError> {
+  const progress = (step: string, detail: string) =>
+    onProgress?.({ step, detail });
+  const outPath = resolve(out);
+
+  let config: LobsterdConfig;
+  let tenant: Tenant;
+  let stagingDir: string;
+
+  const cleanupStaging = () =>
+    exec(["rm", "-rf", stagingDir])
+      .map(() => undefined)
+      .orElse(() => okAsync(undefined));
+
+  return loadConfig()
+    .andThen((c) => {
+      config = c;
+      return loadRegistry();
+    })
+    .andThen((registry): ResultAsync<void, LobsterError> => {
+      const found = registry.tenants.find((t) => t.name === name);
+      if (!found) {
+        return errAsync({
+          code: "TENANT_NOT_FOUND",
+          message: `Tenant "${name}" not found`,
+        });
+      }
+      if (found.status === "removing") {
+        return errAsync({
+          code: "VALIDATION_FAILED",
+          message: `Tenant "${name}" is being removed`,
+        });
+      }
+      tenant = found;
+      // Stage next to the overlays so the sparse copy stays on one fs
+      stagingDir = join(config.overlay.baseDir, `.export-${name}`);
+      return exec(["rm", "-rf", stagingDir])
+        .andThen(() => exec(["mkdir", "-p", "-m", "0700", stagingDir]))
+        .map(() => undefined);
+    })
+    .andThen(() => {
+      progress("overlay", `Copying overlay of "${name}"`);
+      return copyOverlayQuiesced(tenant, config, join(stagingDir, OVERLAY));
+    })
+    .andThen(() => {
+      progress("ssh", "Copying SSH keypair");
+      return ssh
+        .copyKeypair(name, join(stagingDir, SSH_DIR))
+        .orElse(() => okAsync(undefined));
+    })
+    .andThen((): ResultAsync<boolean, LobsterError> => {
+      const info = tenant.status === "suspended" ? tenant.suspendInfo : null;
+      if (!info) {
+        return okAsync(false);
+      }
+      progress("snapshot", `Copying suspend snapshot from ${info.snapshotDir}`);
+      const dest = join(stagingDir, SNAPSHOT_DIR);
+      return SNAPSHOT_FILES.reduce(
+        (chain, file) =>
+          chain.andThen(() =>
+            exec(
+              ["cp", "--sparse=always", join(info.snapshotDir, file), dest],
+              { timeout: 120_000 },
+            ),
+          ),
+        exec(["mkdir", "-p", dest]),
+      ).map(() => true);
+    })
+    .andThen((snapshot) =>
+      loadSecrets(name).andThen((secrets) => {
+        if (Object.keys(secrets).length === 0) {
+          return okAsync({ snapshot, secrets: false });
+        }
+        progress("secrets", "Copying secrets");
+        return writeBundleFile(
+          join(stagingDir, SECRETS),
+          secrets,
+          "secrets",
+        ).map(() => ({ snapshot, secrets: true }));
+      }),
+    )
+    .andThen(({ snapshot, secrets }) =>
+      firecrackerVersion(config).map(
+        (fcVersion): BundleManifest => ({
+          format: 1,
+          lobsterdVersion: LOBSTERD_VERSION,
+          firecrackerVersion: fcVersion,
+          exportedAt: new Date().toISOString(),
+          tenant,
+          snapshot,
+          ...(secrets ? { secrets } : {}),
+        }),
+      ),
+    )
+    .andThen((manifest) =>
+      writeBundleFile(join(stagingDir, MANIFEST), manifest, "manifest").map(
+        () => manifest,
+      ),
+    )
+    .andThen((manifest) => {
+      progress("bundle", `Writing ${outPath}`);
+      // tar writes into the existing file, keeping its mode
+      return createPrivateFile(outPath)
+        .andThen(() =>
+          exec(["tar", "--sparse", "-cf", outPath, "-C", stagingDir, "."], {
+            timeout: 600_000,
+          }),
+        )
+        .map(() => ({ path: outPath, manifest }));
+    })
+    .andThen((result) => cleanupStaging().map(() => result))
+    .orElse((error) => {
+      if (!stagingDir) {
+        return errAsync(error);
+      }
+      return cleanupStaging()
+        .andThen(() => exec(["rm", "-f", outPath]).orElse(() => okAsync()))
+        .andThen(() =>
+          errAsync<ExportResult, LobsterError>({
+            ...error,
+            message: `Export of "${name}" failed: ${error.message}`,
+          }),
+        );
+    });
+}
+
+/**
+ * Network slots for an imported tenant. A bundled suspend snapshot has the
+ * guest's address and CID baked in, so it keeps its original slots when this
+ * host has them free; otherwise fresh ones are allocated and the snapshot
+ * can't be used.
+ */
+function allocateImport(
+  config: LobsterdConfig,
+  held: Tenant[],
+  source: Tenant,
+  keepSlots: boolean,
+): Result<Allocation, LobsterError> {
+  if (keepSlots) {
+    const subnetIndex = subnetIndexOf(config.network.subnetBase, source.hostIp);
+    const free =
+      subnetIndex >= 1 &&
+      subnetIndex <= subnetCapacity(config) &&
+      computeSubnetIps(config.network.subnetBase, subnetIndex).guestIp ===
+        source.ipAddress &&
+      !held.some(
+        (t) =>
+          t.cid === source.cid ||
+          t.hostIp === source.hostIp ||
+          t.gatewayPort === source.gatewayPort ||
+          t.jailUid === source.jailUid,
+      );
+    if (free) {
+      return ok({
+        cid: source.cid,
+        subnetIndex,
+        gatewayPort: source.gatewayPort,
+        jailUid: source.jailUid,
+      });
+    }
+  }
+  return allocate(config, held);
+}
+
+/** `tar -tv` line: type and mode, owner, size, date, time, then the name */
+const LISTING_LINE = /^(\S)\S*\s+\S+\s+\S+\s+\S+\s+\S+\s(.*)$/;
+
+/**
+ * Refuse a bundle with anything but plain files and dirs inside the staging
+ * dir. Bundles arrive over the network on migration and are unpacked as
+ * root, so a symlink, hardlink or device node could point the import at
+ * arbitrary host paths.
+ */
+function checkBundleMembers(
+  bundlePath: string,
+): ResultAsync<void, LobsterError> {
+  return exec(["tar", "--quoting-style=escape", "-tvf", bundlePath], {
+    timeout: 600_000,
+  }).andThen(({ stdout }) => {
+    for (const line of stdout.split("\n").filter((l) => l !== "")) {
+      const match = LISTING_LINE.exec(line);
+      const [type, name] = match ? [match[1], match[2]] : ["?", line];
+      if (type !== "-" && type !== "d") {
+        return errAsync<void, LobsterError>({
+          code: "VALIDATION_FAILED",
+          message: `Bundle member is not a regular file or directory: ${line}`,
+        });
+      }
+      if (name.startsWith("/") || name.split("/").includes("..")) {
+        return errAsync<void, LobsterError>({
+          code: "VALIDATION_FAILED",
+          message: `Bundle member escapes the bundle: ${name}`,
+        });
+      }
+    }
+    return okAsync(undefined);
+  });
+}
+
+function readManifest(
+  stagingDir: string,
+): ResultAsync<BundleManifest, LobsterError> {
+  return ResultAsync.fromPromise(
+    Bun.file(join(stagingDir, MANIFEST)).json(),
+    (e): LobsterError => ({
+      code: "VALIDATION_FAILED",
+      message: `Bundle has no readable ${MANIFEST}`,
+      cause: e,
+    }),
+  ).andThen((data) => {
+    const parsed = bundleManifestSchema.safeParse(data);
+    if (!parsed.success) {
+      return errAsync<BundleManifest, LobsterError>({
+        code: "VALIDATION_FAILED",
+        message: `Invalid bundle manifest: ${parsed.error.message}`,
+      });
+    }
+    return okAsync(parsed.data as BundleManifest);
+  });
+}
+
+function readBundleSecrets(
+  stagingDir: string,
+): ResultAsync<TenantSecrets, LobsterError> {
+  return ResultAsync.fromPromise(
+    Bun.file(join(stagingDir, SECRETS)).json(),
+    (e): LobsterError => ({
+      code: "VALIDATION_FAILED",
+      message: `Bundle has no readable ${SECRETS}`,
+      cause: e,
+    }),
+  ).andThen((data) => {
+    const parsed = tenantSecretsSchema.safeParse(data);
+    if (!parsed.success) {
+      return errAsync<TenantSecrets, LobsterError>({
+        code: "VALIDATION_FAILED",
+        message: `Invalid bundle secrets: ${parsed.error.message}`,
+      });
+    }
+    return okAsync(parsed.data);
+  });
+}
+
+/**
+ * Register a tenant from a `runExport` bundle. The tenant gets network slots
+ * on this host, its TAP, NAT and Caddy route are set up, its secrets are
+ * sealed under this host's key, and it comes back suspended if the bundled
+ * snapshot is usable here, otherwise stopped.
+ */
+export function runImport(
+  bundle: string,
+  opts: ImportOpts = {},
+  onProgress?: (p: BundleProgress) => void,
+): ResultAsync<Tenant, LobsterError> {
+  const progress = (step: string, detail: string) =>
+    onProgress?.({ step, detail });
+  const bundlePath = resolve(bundle);
+
+  let config: LobsterdConfig;
+  let registry: TenantRegistry;
+  let held: Tenant[];
+  let manifest: BundleManifest;
+  let tenant: Tenant;
+  let stagingDir: string;
+  const undoStack: UndoFn[] = [];
+
+  const cleanupStaging = () =>
+    exec(["rm", "-rf", stagingDir])
+      .map(() => undefined)
+      .orElse(() => okAsync(undefined));
+
+  if (opts.as !== undefined && !TENANT_NAME_REGEX.test(opts.as)) {
+    return errAsync({
+      code: "VALIDATION_FAILED",
+      message: `Invalid tenant name "${opts.as}": must match ${TENANT_NAME_REGEX}`,
+    });
+  }
+
+  return ResultAsync.fromSafePromise(Bun.file(bundlePath).exists())
+    .andThen((exists): ResultAsync<LobsterdConfig, LobsterError> => {
+      if (!exists) {
+        return errAsync({
+          code: "VALIDATION_FAILED",
+          message: `Bundle not found: ${bundle}`,
+        });
+      }
+      return loadConfig();
+    })
+    .andThen((c) => {
+      config = c;
+      return ResultAsync.combine([loadJournals(), loadTrash(), loadRegistry()]);
+    })
+    .andThen(([journals, trash, r]) => {
+      registry = r;
+      // In-flight spawns and trashed tenants keep their slots, as for spawn
+      held = [
+        ...registry.tenants,
+        ...journals.map((j) => j.tenant),
+        ...trash.map((e) => e.tenant),
+      ];
+      stagingDir = join(
+        config.overlay.baseDir,
+        `.import-${crypto.randomUUID()}`,
+      );
+      progress("unpack", `Unpacking ${bundle}`);
+      return checkBundleMembers(bundlePath)
+        .andThen(() => exec(["mkdir", "-p", "-m", "0700", stagingDir]))
+        .andThen(() =>
+          exec(
+            [
+              "tar",
+              "--sparse",
+              "--no-same-owner",
+              "--no-same-permissions",
+              "-xf",
+              bundlePath,
+              "-C",
+              stagingDir,
+            ],
+            { timeout: 600_000 },
+          ),
+        )
+        .mapErr(
+          (e): LobsterError =>
+            e.code === "VALIDATION_FAILED"
+              ? e
+              : {
+                  code: "IMPORT_FAILED",
+                  message: `Failed to unpack ${bundle}: ${e.message}`,
+                  cause: e,
+                },
+        )
+        .andThen(() => readManifest(stagingDir));
+    })
+    .andThen((m) => firecrackerVersion(config).map((v) => ({ m, v })))
+    .andThen(({ m, v }): ResultAsync<void, LobsterError> => {
+      manifest = m;
+      const source = manifest.tenant;
+      const name = opts.as ?? source.name;
+      if (registry.tenants.some((t) => t.name === name)) {
+        return errAsync({
+          code: "TENANT_EXISTS",
+          message: `Tenant "${name}" already exists — import with --as <name>`,
+        });
+      }
+      if (held.some((t) => t.name === name)) {
+        return errAsync({
+          code: "TENANT_EXISTS",
+          message: `Tenant "${name}" is in the trash or mid-spawn`,
+        });
+      }
+
+      // Snapshots only restore on the same Firecracker and TAP name
+      const { vmId, tapDev } = tenantIds(config, name);
+      let snapshotUsable = manifest.snapshot && tapDev === source.tapDev;
+      if (snapshotUsable && (!v || v !== manifest.firecrackerVersion)) {
+        progress(
+          "snapshot",
+          `Firecracker ${manifest.firecrackerVersion ?? "unknown"} → ${v ?? "unknown"}, dropping suspend snapshot`,
+        );
+        snapshotUsable = false;
+      }
+      const allocation = allocateImport(config, held, source, snapshotUsable);
+      if (allocation.isErr()) {
+        return errAsync(allocation.error);
+      }
+      const { cid, subnetIndex, gatewayPort, jailUid } = allocation.value;
+      const { hostIp, guestIp } = computeSubnetIps(
+        config.network.subnetBase,
+        subnetIndex,
+      );
+      if (snapshotUsable && guestIp !== source.ipAddress) {
+        progress(
+          "snapshot",
+          "Original network slots are taken here, dropping suspend snapshot",
+        );
+        snapshotUsable = false;
+      }
+
+      tenant = {
+        name,
+        vmId,
+        cid,
+        ipAddress: guestIp,
+        hostIp,
+        tapDev,
+        gatewayPort,
+        overlayPath: `${config.overlay.baseDir}/${name}.ext4`,
+        socketPath: jailer.getApiSocketPath(config.jailer.chrootBaseDir, vmId),
+        vmPid: null,
+        createdAt: source.createdAt,
+        status: snapshotUsable ? "suspended" : "stopped",
+        gatewayToken: source.gatewayToken,
+        jailUid,
+        agentToken: source.agentToken,
+        // The overlay copy that makes a rollback point isn't bundled
+        suspendInfo:
+          snapshotUsable && source.suspendInfo
+            ? {
+                ...source.suspendInfo,
+                snapshotDir: `${SNAPSHOTS_DIR}/${name}`,
+                overlayCaptured: undefined,
+              }
+            : null,
+        stopInfo: snapshotUsable
+          ? null
+          : { stoppedAt: new Date().toISOString(), networkParked: true },
+        ...(source.resources ? { resources: source.resources } : {}),
+        ...(source.template ? { template: source.template } : {}),
+        ...(source.labels ? { labels: source.labels } : {}),
+        ...(source.rateLimits ? { rateLimits: source.rateLimits } : {}),
+      };
+      config = tenantConfig(tenant, config);
+
+      progress("overlay", `Moving overlay to ${tenant.overlayPath}`);
+      return image.moveOverlay(join(stagingDir, OVERLAY), tenant.overlayPath);
+    })
+    .andThen(() => {
+      undoStack.push(() => image.deleteOverlay(tenant.overlayPath));
+      progress("ssh", "Installing SSH keypair");
+      // Unpacked without the bundle's modes, so make the key private again
+      return exec(["chmod", "-R", "go-rwx", join(stagingDir, SSH_DIR)])
+        .andThen(() =>
+          ssh.unstashKeypair(tenant.name, join(stagingDir, SSH_DIR)),
+        )
+        .map(() => {
+          undoStack.push(() => ssh.removeKeypair(tenant.name));
+          return undefined;
+        })
+        .orElse(() => okAsync(undefined));
+    })
+    .andThen(() => {
+      if (!manifest.secrets) {
+        return okAsync(undefined);
+      }
+      progress("secrets", "Storing secrets");
+      return readBundleSecrets(stagingDir)
+        .andThen((secrets) => updateSecrets(tenant.name, () => secrets))
+        .map(() => {
+          undoStack.push(() => deleteSecrets(tenant.name));
+          return undefined;
+        });
+    })
+    .andThen(() => {
+      const info = tenant.suspendInfo;
+      if (!info) {
+        return okAsync(undefined);
+      }
+      progress("snapshot", `Moving suspend snapshot to ${info.snapshotDir}`);
+      return exec(["mkdir", "-p", SNAPSHOTS_DIR])
+        .andThen(() => exec(["rm", "-rf", info.snapshotDir]))
+        .andThen(() =>
+          exec(["mv", join(stagingDir, SNAPSHOT_DIR), info.snapshotDir]),
+        )
+        .map(() => {
+          undoStack.push(() =>
+            exec(["rm", "-rf", info.snapshotDir]).map(() => undefined),
+          );
+          return undefined;
+        });
+    })
+    .andThen(() => attachNetwork(tenant, config, undoStack, progress))
+    .andThen(() => {
+      progress("registry", `Registering tenant as ${tenant.status}`);
+      registry.tenants.push(tenant);
+      return saveRegistry(registry);
+    })
+    .andThen(() => cleanupStaging().map(() => tenant))
+    .orElse((error) => {
+      if (tenant) {
+        const idx = registry.tenants.indexOf(tenant);
+        if (idx !== -1) {
+          registry.tenants.splice(idx, 1);
+        }
+      }
+      return rollback(undoStack, error).orElse((e) =>
+        stagingDir ? cleanupStaging().andThen(() => errAsync(e)) : errAsync(e),
+      );
+    });
+}
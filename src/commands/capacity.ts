@@ -0,0 +1,79 @@
+import { okAsync, type ResultAsync } from "neverthrow";
+import {
+  type CapacityReport,
+  capacityReport,
+  checkAdmission,
+  type HostCapacity,
+} from "../config/capacity.js";
+import { DEFAULT_CAPACITY_CONFIG } from "../config/defaults.js";
+import { loadConfig, loadRegistry } from "../config/loader.js";
+import { hostLimits } from "../config/resources.js";
+import * as host from "../system/host.js";
+import type {
+  CapacityConfig,
+  LobsterdConfig,
+  LobsterError,
+  Tenant,
+  TenantResources,
+} from "../types/index.js";
+
+export interface CapacityResult extends CapacityReport {
+  /** False when config has no `capacity` section, so nothing is refused */
+  enforced: boolean;
+  policy: CapacityConfig;
+}
+
+export function readHostCapacity(
+  config: LobsterdConfig,
+): ResultAsync<HostCapacity, LobsterError> {
+  return host.hostMemInfo().andThen((mem) =>
+    host.hostDiskInfo(config.overlay.baseDir).map((disk) => ({
+      cpuCount: hostLimits().cpuCount,
+      memTotalMb: mem.totalMb,
+      memAvailableMb: mem.availableMb,
+      diskTotalMb: disk.totalMb,
+      diskFreeMb: disk.freeMb,
+    })),
+  );
+}
+
+/**
+ * Admission control for spawn, resume and start: fail with CAPACITY_EXCEEDED if
+ * starting a VM with `resources` would overcommit the host. `tenants` is the
+ * registry as it stands, without the tenant being admitted counted as
+ * running. Configs without a `capacity` section admit everything.
+ */
+export function admitTenant(
+  config: LobsterdConfig,
+  tenants: Tenant[],
+  resources: TenantResources,
+  opts: { newDisk: boolean },
+): ResultAsync<void, LobsterError> {
+  const policy = config.capacity;
+  if (!policy) {
+    return okAsync(undefined);
+  }
+  return readHostCapacity(config).andThen((hostCap) =>
+    checkAdmission(
+      capacityReport(hostCap, tenants, config, policy),
+      resources,
+      policy,
+      opts,
+    ),
+  );
+}
+
+export function runCapacity(): ResultAsync<CapacityResult, LobsterError> {
+  return loadConfig().andThen((config) =>
+    loadRegistry().andThen((registry) =>
+      readHostCapacity(config).map((hostCap) => {
+        const policy = config.capacity ?? DEFAULT_CAPACITY_CONFIG;
+        return {
+          ...capacityReport(hostCap, registry.tenants, config, policy),
+          enforced: config.capacity !== undefined,
+          policy,
+        };
+      }),
+    ),
+  );
+}
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { errAsync, okAsync } from "neverthrow";
+import * as loader from "../config/loader.js";
+import * as fc from "../system/firecracker.js";
+import * as image from "../system/image.js";
+import {
+  makeConfig,
+  makeRegistry,
+  makeTenant,
+  unwrapErr,
+  unwrapOk,
+} from "../test-helpers.js";
+import type { LobsterError } from "../types/index.js";
+import { runClone } from "./clone.js";
+import * as spawn from "./spawn.js";
+
+const STAGED = "/var/lib/lobsterd/overlays/.clone-copy.ext4";
+
+describe("runClone", () => {
+  const s = {} as Record<string, ReturnType<typeof spyOn>>;
+
+  beforeEach(() => {
+    s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
+      okAsync(makeConfig()) as never,
+    );
+    s.loadRegistry = spyOn(loader, "loadRegistry").mockReturnValue(
+      okAsync(
+        makeRegistry([
+          makeTenant({
+            vmPid: 1234,
+            template: "batch",
+            resources: { vcpuCount: 1, memSizeMb: 512, diskSizeMb: 2048 },
+          }),
+        ]),
+      ) as never,
+    );
+    s.pauseVm = spyOn(fc, "pauseVm").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.resumeVm = spyOn(fc, "resumeVm").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.copyOverlay = spyOn(image, "copyOverlay").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.deleteOverlay = spyOn(image, "deleteOverlay").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.runSpawn = spyOn(spawn, "runSpawn").mockImplementation(
+      (name: string) => okAsync(makeTenant({ name })) as never,
+    );
+  });
+
+  afterEach(() => {
+    for (const spy of Object.values(s)) {
+      spy.mockRestore();
+    }
+  });
+
+  test("rejects an unknown source", async () => {
+    const err = await unwrapErr(runClone("ghost", "copy"));
+    expect(err.code).toBe("TENANT_NOT_FOUND");
+  });
+
+  test("rejects an existing destination before copying", async () => {
+    const err = await unwrapErr(runClone("test-tenant", "test-tenant"));
+    expect(err.code).toBe("TENANT_EXISTS");
+    expect(s.copyOverlay).not.toHaveBeenCalled();
+  });
+
+  test("pauses a running source around the copy", async () => {
+    const tenant = await unwrapOk(runClone("test-tenant", "copy"));
+
+    expect(tenant.name).toBe("copy");
+    expect(s.pauseVm).toHaveBeenCalledTimes(1);
+    expect(s.copyOverlay).toHaveBeenCalledWith(expect.any(String), STAGED);
+    expect(s.resumeVm).toHaveBeenCalledTimes(1);
+    expect(s.runSpawn).toHaveBeenCalledWith(
+      "copy",
+      {
+        template: "batch",
+        resources: { vcpuCount: 1, memSizeMb: 512, diskSizeMb: 2048 },
+        overlayFrom: STAGED,
+      },
+      undefined,
+    );
+  });
+
+  test("copies a suspended source without pausing", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([makeTenant({ status: "suspended", vmPid: null })]),
+      ) as never,
+    );
+    await unwrapOk(runClone("test-tenant", "copy"));
+    expect(s.pauseVm).not.toHaveBeenCalled();
+    expect(s.copyOverlay).toHaveBeenCalledTimes(1);
+  });
+
+  test("resumes the source and drops the staged copy when copying fails", async () => {
+    s.copyOverlay.mockReturnValue(
+      errAsync<void, LobsterError>({
+        code: "EXEC_FAILED",
+        message: "disk full",
+      }) as never,
+    );
+
+    const err = await unwrapErr(runClone("test-tenant", "copy"));
+    expect(err.message).toBe("disk full");
+    expect(s.resumeVm).toHaveBeenCalledTimes(1);
+    expect(s.deleteOverlay).toHaveBeenCalledWith(STAGED);
+    expect(s.runSpawn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+import { join } from "node:path";
+import { errAsync, okAsync, type ResultAsync } from "neverthrow";
+import { loadConfig, loadRegistry } from "../config/loader.js";
+import * as fc from "../system/firecracker.js";
+import * as image from "../system/image.js";
+import type { LobsterError, Tenant } from "../types/index.js";
+import { runSpawn } from "./spawn.js";
+
+export interface CloneProgress {
+  step: string;
+  detail: string;
+}
+
+/**
+ * Copy `src`'s overlay into a brand new tenant `dst`. A running source is
+ * paused for the duration of the copy so the image is crash-consistent; the
+ * copy then goes through `runSpawn`, which allocates fresh identity.
+ */
+export function runClone(
+  src: string,
+  dst: string,
+  onProgress?: (p: CloneProgress) => void,
+): ResultAsync<Tenant, LobsterError> {
+  const progress = (step: string, detail: string) =>
+    onProgress?.({ step, detail });
+
+  let staged: string;
+
+  return loadConfig().andThen((config) =>
+    loadRegistry()
+      .andThen((registry): ResultAsync<Tenant, LobsterError> => {
+        const source = registry.tenants.find((t) => t.name === src);
+        if (!source) {
+          return errAsync({
+            code: "TENANT_NOT_FOUND",
+            message: `Tenant "${src}" not found`,
+          });
+        }
+        if (source.status === "removing") {
+          return errAsync({
+            code: "VALIDATION_FAILED",
+            message: `Tenant "${src}" is being removed`,
+          });
+        }
+        if (registry.tenants.some((t) => t.name === dst)) {
+          return errAsync({
+            code: "TENANT_EXISTS",
+            message: `Tenant "${dst}" already exists`,
+          });
+        }
+
+        // Stage next to the overlays so spawn can adopt it with a rename
+        staged = join(config.overlay.baseDir, `.clone-${dst}.ext4`);
+        return copySourceOverlay(source, staged, progress).andThen(() =>
+          runSpawn(
+            dst,
+            {
+              template: source.template,
+              resources: source.resources,
+              overlayFrom: staged,
+            },
+            onProgress,
+          ),
+        );
+      })
+      .orElse((error) =>
+        staged
+          ? image
+              .deleteOverlay(staged)
+              .orElse(() => okAsync(undefined))
+              .andThen(() => errAsync(error))
+          : errAsync(error),
+      ),
+  );
+}
+
+function copySourceOverlay(
+  source: Tenant,
+  dest: string,
+  progress: (step: string, detail: string) => void,
+): ResultAsync<void, LobsterError> {
+  // Suspended (or otherwise stopped) tenants have a quiescent overlay already
+  if (source.status !== "active" || !source.vmPid) {
+    progress("copy", `Copying overlay of "${source.name}"`);
+    return image.copyOverlay(source.overlayPath, dest);
+  }
+
+  progress("pause", `Pausing "${source.name}" for a consistent copy`);
+  return fc.pauseVm(source.socketPath).andThen(() => {
+    progress("copy", `Copying overlay of "${source.name}"`);
+    return image
+      .copyOverlay(source.overlayPath, dest)
+      .andThen(() => {
+        progress("resume", `Resuming "${source.name}"`);
+        return fc.resumeVm(source.socketPath);
+      })
+      .orElse((error) =>
+        // Never leave the source frozen, whatever happened to the copy
+        fc
+          .resumeVm(source.socketPath)
+          .orElse(() => okAsync(undefined))
+          .andThen(() => errAsync(error)),
+      );
+  });
+}
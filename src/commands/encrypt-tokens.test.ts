@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { errAsync, okAsync } from "neverthrow";
+import * as crypto from "../config/crypto.js";
+import {
+  CONFIG_PATH,
+  JOURNAL_DIR,
+  REGISTRY_PATH,
+  TRASH_DIR,
+} from "../config/defaults.js";
+import * as loader from "../config/loader.js";
+import {
+  makeConfig,
+  makeRegistry,
+  makeTenant,
+  unwrapErr,
+  unwrapOk,
+} from "../test-helpers.js";
+import { runEncryptTokens } from "./encrypt-tokens.js";
+
+const s = {} as Record<string, ReturnType<typeof spyOn>>;
+
+const journal = {
+  op: "spawn",
+  pid: 1234,
+  startedAt: "2025-01-01T00:00:00.000Z",
+  tenant: makeTenant(),
+  steps: ["overlay"],
+};
+const trashEntry = {
+  id: "test-tenant-1",
+  tenant: makeTenant(),
+  deletedAt: "2025-01-01T00:00:00.000Z",
+  expiresAt: "2025-01-08T00:00:00.000Z",
+};
+
+beforeEach(() => {
+  s.currentKekSource = spyOn(crypto, "currentKekSource").mockReturnValue(
+    "host-key",
+  );
+  s.tokenEncryptionState = spyOn(
+    loader,
+    "tokenEncryptionState",
+  ).mockReturnValue(
+    okAsync({
+      config: "plaintext",
+      registry: "plaintext",
+      journals: {},
+      trash: {},
+    }) as never,
+  );
+  s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
+    okAsync(makeConfig()) as never,
+  );
+  s.saveConfig = spyOn(loader, "saveConfig").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.updateRegistry = spyOn(loader, "updateRegistry").mockReturnValue(
+    okAsync(makeRegistry()) as never,
+  );
+  s.loadJournal = spyOn(loader, "loadJournal").mockReturnValue(
+    okAsync(journal) as never,
+  );
+  s.saveJournal = spyOn(loader, "saveJournal").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.loadTrashEntry = spyOn(loader, "loadTrashEntry").mockReturnValue(
+    okAsync(trashEntry) as never,
+  );
+  s.saveTrashEntry = spyOn(loader, "saveTrashEntry").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+});
+
+afterEach(() => {
+  for (const spy of Object.values(s)) {
+    spy.mockRestore();
+  }
+});
+
+describe("runEncryptTokens", () => {
+  test("rewrites plaintext files under the current key", async () => {
+    const result = await unwrapOk(runEncryptTokens());
+
+    expect(result).toEqual([
+      { path: CONFIG_PATH, before: "plaintext", after: "host-key" },
+      { path: REGISTRY_PATH, before: "plaintext", after: "host-key" },
+    ]);
+    expect(s.saveConfig).toHaveBeenCalledTimes(1);
+    expect(s.updateRegistry).toHaveBeenCalledTimes(1);
+  });
+
+  test("leaves files already sealed under the current key alone", async () => {
+    s.tokenEncryptionState.mockReturnValue(
+      okAsync({
+        config: "host-key",
+        registry: "missing",
+        journals: {},
+        trash: {},
+      }) as never,
+    );
+    const result = await unwrapOk(runEncryptTokens());
+
+    expect(result.map((r) => r.after)).toEqual(["host-key", "missing"]);
+    expect(s.saveConfig).not.toHaveBeenCalled();
+    expect(s.updateRegistry).not.toHaveBeenCalled();
+  });
+
+  test("re-wraps files sealed under the other kind of key", async () => {
+    s.currentKekSource.mockReturnValue("passphrase");
+    s.tokenEncryptionState.mockReturnValue(
+      okAsync({
+        config: "passphrase",
+        registry: "host-key",
+        journals: {},
+        trash: {},
+      }) as never,
+    );
+    const result = await unwrapOk(runEncryptTokens());
+
+    expect(result[1]).toEqual({
+      path: REGISTRY_PATH,
+      before: "host-key",
+      after: "passphrase",
+    });
+    expect(s.saveConfig).not.toHaveBeenCalled();
+    expect(s.updateRegistry).toHaveBeenCalledTimes(1);
+  });
+
+  test("rewrites plaintext spawn journals and trash entries", async () => {
+    s.tokenEncryptionState.mockReturnValue(
+      okAsync({
+        config: "host-key",
+        registry: "host-key",
+        journals: { "test-tenant": "plaintext" },
+        trash: { "test-tenant-1": "plaintext", "other-1": "host-key" },
+      }) as never,
+    );
+    const result = await unwrapOk(runEncryptTokens());
+
+    expect(result.slice(2)).toEqual([
+      {
+        path: `${JOURNAL_DIR}/test-tenant.json`,
+        before: "plaintext",
+        after: "host-key",
+      },
+      {
+        path: `${TRASH_DIR}/test-tenant-1/entry.json`,
+        before: "plaintext",
+        after: "host-key",
+      },
+      {
+        path: `${TRASH_DIR}/other-1/entry.json`,
+        before: "host-key",
+        after: "host-key",
+      },
+    ]);
+    expect(s.loadJournal).toHaveBeenCalledWith("test-tenant");
+    expect(s.saveJournal).toHaveBeenCalledWith(journal);
+    expect(s.loadTrashEntry).toHaveBeenCalledTimes(1);
+    expect(s.saveTrashEntry).toHaveBeenCalledWith(trashEntry);
+  });
+
+  test("dry run reports without writing", async () => {
+    const result = await unwrapOk(runEncryptTokens({ dryRun: true }));
+
+    expect(result.every((r) => r.after === "host-key")).toBe(true);
+    expect(s.saveConfig).not.toHaveBeenCalled();
+    expect(s.updateRegistry).not.toHaveBeenCalled();
+  });
+
+  test("propagates a failed rewrite", async () => {
+    s.saveConfig.mockReturnValue(
+      errAsync({ code: "CRYPTO_FAILED", message: "bad key" }) as never,
+    );
+    const err = await unwrapErr(runEncryptTokens());
+
+    expect(err.code).toBe("CRYPTO_FAILED");
+    expect(s.updateRegistry).not.toHaveBeenCalled();
+  });
+});
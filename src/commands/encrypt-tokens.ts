@@ -0,0 +1,104 @@
+import { okAsync, type ResultAsync } from "neverthrow";
+import { currentKekSource } from "../config/crypto.js";
+import { CONFIG_PATH, REGISTRY_PATH } from "../config/defaults.js";
+import {
+  journalPath,
+  loadConfig,
+  loadJournal,
+  loadTrashEntry,
+  saveConfig,
+  saveJournal,
+  saveTrashEntry,
+  tokenEncryptionState,
+  trashEntryPath,
+  updateRegistry,
+} from "../config/loader.js";
+import type { FileEncryption, LobsterError } from "../types/index.js";
+
+export interface EncryptTokensProgress {
+  step: string;
+  detail: string;
+}
+
+export interface EncryptTokensOpts {
+  /** Report what would change without writing */
+  dryRun?: boolean;
+}
+
+export interface EncryptTokensResult {
+  path: string;
+  before: FileEncryption;
+  after: FileEncryption;
+}
+
+/**
+ * Rewrite config.json, registry.json, spawn journals and trash entries with
+ * their tokens encrypted under the current key-encryption key:
+ * `LOBSTERD_PASSPHRASE` when set, the host key otherwise. Plaintext files are
+ * converted and files sealed under the other kind of key are re-wrapped; the
+ * rest is left alone. Every save encrypts anyway, so this is only needed once
+ * per host (or per key change).
+ */
+export function runEncryptTokens(
+  opts: EncryptTokensOpts = {},
+  onProgress?: (p: EncryptTokensProgress) => void,
+): ResultAsync<EncryptTokensResult[], LobsterError> {
+  const progress = (step: string, detail: string) =>
+    onProgress?.({ step, detail });
+  const target = currentKekSource();
+
+  return tokenEncryptionState().andThen((state) => {
+    const convert = (
+      step: string,
+      path: string,
+      before: FileEncryption,
+      rewrite: () => ResultAsync<unknown, LobsterError>,
+    ): ResultAsync<EncryptTokensResult, LobsterError> => {
+      if (before === "missing" || before === target) {
+        return okAsync({ path, before, after: before });
+      }
+      const result = { path, before, after: target };
+      if (opts.dryRun) {
+        return okAsync(result);
+      }
+      progress(step, `Encrypting tokens in ${path} (${before} → ${target})`);
+      return rewrite().map(() => result);
+    };
+
+    const conversions = [
+      () =>
+        convert("config", CONFIG_PATH, state.config, () =>
+          loadConfig().andThen(saveConfig),
+        ),
+      () =>
+        convert("registry", REGISTRY_PATH, state.registry, () =>
+          updateRegistry((registry) => registry),
+        ),
+      ...Object.entries(state.journals).map(
+        ([name, before]) =>
+          () =>
+            convert("journal", journalPath(name), before, () =>
+              loadJournal(name).andThen((j) =>
+                j ? saveJournal(j) : okAsync(undefined),
+              ),
+            ),
+      ),
+      ...Object.entries(state.trash).map(
+        ([id, before]) =>
+          () =>
+            convert("trash", trashEntryPath(id), before, () =>
+              loadTrashEntry(id).andThen((e) =>
+                e ? saveTrashEntry(e) : okAsync(undefined),
+              ),
+            ),
+      ),
+    ];
+
+    // One file at a time, stopping at the first that fails
+    return conversions.reduce(
+      (chain, next) =>
+        chain.andThen((results) => next().map((r) => [...results, r])),
+      okAsync<EncryptTokensResult[], LobsterError>([]),
+    );
+  });
+}
@@ -1,5 +1,5 @@
 import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
-import { okAsync } from "neverthrow";
+import { errAsync, okAsync } from "neverthrow";
 import * as loader from "../config/loader.js";
 import * as caddy from "../system/caddy.js";
 import * as exec from "../system/exec.js";
@@ -15,8 +15,13 @@ import {
   unwrapErr,
   unwrapOk,
 } from "../test-helpers.js";
-import type { ExecResult, LobsterError } from "../types/index.js";
-import { runEvict } from "./evict.js";
+import type {
+  ExecResult,
+  LobsterError,
+  TenantRegistry,
+  TrashEntry,
+} from "../types/index.js";
+import { makeTrashEntry, runEvict } from "./evict.js";
 
 let s: Record<string, ReturnType<typeof spyOn>>;
 
@@ -71,6 +76,21 @@ beforeEach(() => {
     removeKeypair: spyOn(ssh, "removeKeypair").mockReturnValue(
       okAsync(undefined) as never,
     ),
+    stashKeypair: spyOn(ssh, "stashKeypair").mockReturnValue(
+      okAsync(undefined) as never,
+    ),
+    moveOverlay: spyOn(image, "moveOverlay").mockReturnValue(
+      okAsync(undefined) as never,
+    ),
+    saveTrashEntry: spyOn(loader, "saveTrashEntry").mockReturnValue(
+      okAsync(undefined) as never,
+    ),
+    deleteSecrets: spyOn(loader, "deleteSecrets").mockReturnValue(
+      okAsync(undefined) as never,
+    ),
+    stashSecrets: spyOn(loader, "stashSecrets").mockReturnValue(
+      okAsync(undefined) as never,
+    ),
     // process.kill throws → simulates dead VM, exits shutdown loop immediately
     kill: spyOn(process, "kill").mockImplementation(() => {
       throw new Error("No such process");
@@ -93,7 +113,7 @@ describe("runEvict", () => {
   });
 
   test("full cleanup sequence for active tenant", async () => {
-    await unwrapOk(runEvict("test-tenant"));
+    await unwrapOk(runEvict("test-tenant", { archive: false }));
 
     // saveRegistry called twice: set "removing" + final removal
     expect(s.saveRegistry).toHaveBeenCalledTimes(2);
@@ -105,6 +125,50 @@ describe("runEvict", () => {
     expect(s.cleanupChroot).toHaveBeenCalledTimes(1);
     expect(s.deleteOverlay).toHaveBeenCalledTimes(1);
     expect(s.removeKeypair).toHaveBeenCalledTimes(1);
+    expect(s.deleteSecrets).toHaveBeenCalledWith("test-tenant");
+    expect(s.saveTrashEntry).not.toHaveBeenCalled();
+  });
+
+  test("archives overlay, SSH keys and registry entry by default", async () => {
+    await unwrapOk(runEvict("test-tenant"));
+
+    expect(s.deleteOverlay).not.toHaveBeenCalled();
+    expect(s.removeKeypair).not.toHaveBeenCalled();
+    const entry = s.saveTrashEntry.mock.calls[0][0] as TrashEntry;
+    expect(entry.id).toStartWith("test-tenant-");
+    expect(entry.tenant.status).toBe("stopped");
+    expect(entry.tenant.vmPid).toBeNull();
+    expect(entry.tenant.stopInfo?.networkParked).toBe(false);
+    expect(s.moveOverlay).toHaveBeenCalledWith(
+      "/var/lib/lobsterd/overlays/test-tenant",
+      `/var/lib/lobsterd/trash/${entry.id}/overlay.ext4`,
+    );
+    expect(s.stashKeypair).toHaveBeenCalledWith(
+      "test-tenant",
+      `/var/lib/lobsterd/trash/${entry.id}/ssh`,
+    );
+    expect(s.stashSecrets).toHaveBeenCalledWith(
+      "test-tenant",
+      `/var/lib/lobsterd/trash/${entry.id}`,
+    );
+    expect(s.deleteSecrets).not.toHaveBeenCalled();
+    // Still removed from the registry
+    const saved = s.saveRegistry.mock.calls[1][0] as TenantRegistry;
+    expect(saved.tenants).toEqual([]);
+  });
+
+  test("keeps the tenant registered when the overlay can't be archived", async () => {
+    s.moveOverlay.mockReturnValue(
+      errAsync<void, LobsterError>({
+        code: "EXEC_FAILED",
+        message: "mv failed",
+      }) as never,
+    );
+
+    const err = await unwrapErr(runEvict("test-tenant"));
+    expect(err.code).toBe("EXEC_FAILED");
+    // Only the "removing" save happened
+    expect(s.saveRegistry).toHaveBeenCalledTimes(1);
   });
 
   test("cleans up snapshot files for suspended tenant", async () => {
@@ -125,14 +189,28 @@ describe("runEvict", () => {
 
     await unwrapOk(runEvict("test-tenant"));
 
-    // exec called to rm -rf snapshot dir
+    // exec called to rm -rf snapshot dir and rollback points
     expect(s.exec).toHaveBeenCalledTimes(1);
     expect((s.exec.mock.calls[0] as unknown[])[0]).toEqual([
       "rm",
       "-rf",
       "/var/lib/lobsterd/snapshots/test-tenant",
+      "/var/lib/lobsterd/rollback/test-tenant",
     ]);
     // No VM shutdown (vmPid is null)
     expect(s.sendCtrlAltDel).not.toHaveBeenCalled();
   });
 });
+
+describe("makeTrashEntry", () => {
+  test("expires after the configured retention", () => {
+    const now = new Date("2025-01-01T00:00:00.000Z");
+    const entry = makeTrashEntry(
+      makeTenant(),
+      makeConfig({ trash: { retentionDays: 2 } }),
+      now,
+    );
+    expect(entry.id).toBe(`test-tenant-${now.getTime()}`);
+    expect(entry.expiresAt).toBe("2025-01-03T00:00:00.000Z");
+  });
+});
@@ -1,23 +1,72 @@
-import { errAsync, okAsync, ResultAsync } from "neverthrow";
-import { loadConfig, loadRegistry, saveRegistry } from "../config/loader.js";
+import { errAsync, okAsync, type ResultAsync } from "neverthrow";
+import { DEFAULT_CONFIG, ROLLBACK_DIR } from "../config/defaults.js";
+import {
+  deleteSecrets,
+  loadConfig,
+  loadRegistry,
+  saveRegistry,
+  saveTrashEntry,
+  stashSecrets,
+  trashEntryDir,
+} from "../config/loader.js";
 import * as caddy from "../system/caddy.js";
 import { exec } from "../system/exec.js";
-import * as fc from "../system/firecracker.js";
 import * as image from "../system/image.js";
 import * as jailer from "../system/jailer.js";
 import * as network from "../system/network.js";
 import * as ssh from "../system/ssh.js";
-import type { LobsterError, Tenant, TenantRegistry } from "../types/index.js";
+import type {
+  LobsterdConfig,
+  LobsterError,
+  Tenant,
+  TenantRegistry,
+  TrashEntry,
+} from "../types/index.js";
+import { shutdownVm } from "./boot.js";
 
 export interface EvictProgress {
   step: string;
   detail: string;
 }
 
+export interface EvictOpts {
+  /**
+   * Move the overlay, SSH keys and registry entry into the trash instead of
+   * deleting them (default). `lobsterd trash restore` brings the tenant back.
+   */
+  archive?: boolean;
+}
+
+/** Trash entry for a tenant evicted now, parked as stopped for restore */
+export function makeTrashEntry(
+  tenant: Tenant,
+  config: LobsterdConfig,
+  now = new Date(),
+): TrashEntry {
+  const retentionDays =
+    config.trash?.retentionDays ?? DEFAULT_CONFIG.trash?.retentionDays ?? 7;
+  return {
+    id: `${tenant.name}-${now.getTime()}`,
+    tenant: {
+      ...tenant,
+      status: "stopped",
+      vmPid: null,
+      suspendInfo: null,
+      stopInfo: { stoppedAt: now.toISOString(), networkParked: false },
+    },
+    deletedAt: now.toISOString(),
+    expiresAt: new Date(
+      now.getTime() + retentionDays * 24 * 60 * 60 * 1000,
+    ).toISOString(),
+  };
+}
+
 export function runEvict(
   name: string,
+  opts: EvictOpts = {},
   onProgress?: (p: EvictProgress) => void,
 ): ResultAsync<void, LobsterError> {
+  const archive = opts.archive ?? true;
   const progress = (step: string, detail: string) =>
     onProgress?.({ step, detail });
   let tenant: Tenant;
@@ -43,18 +92,24 @@ export function runEvict(
         // Step 1: Remove Caddy route
         progress("caddy", "Removing Caddy route");
         return caddy
-          .removeRoute(config.caddy.adminApi, name)
+          .removeRoute(config.caddy.adminApi, name, config.instance)
           .orElse(() => okAsync(undefined));
       })
       .andThen(() => {
-        // Step 1.5: Clean up snapshot files if suspended
-        if (tenant.suspendInfo) {
-          progress("snapshot", "Removing snapshot files");
-          return exec(["rm", "-rf", tenant.suspendInfo.snapshotDir])
-            .map(() => undefined)
-            .orElse(() => okAsync(undefined));
-        }
-        return okAsync(undefined);
+        // Step 1.5: Clean up snapshot files if suspended (or a diff base),
+        // and rollback points — a later tenant with this name must not
+        // inherit them
+        const snapshotDir =
+          tenant.suspendInfo?.snapshotDir ?? tenant.snapshotBase?.dir;
+        progress("snapshot", "Removing snapshot files and rollback points");
+        return exec([
+          "rm",
+          "-rf",
+          ...(snapshotDir ? [snapshotDir] : []),
+          `${ROLLBACK_DIR}/${name}`,
+        ])
+          .map(() => undefined)
+          .orElse(() => okAsync(undefined));
       })
       .andThen(() => {
         // Step 2: Send CtrlAltDel to VM, then SIGKILL if still alive
@@ -63,34 +118,7 @@ export function runEvict(
           return okAsync(undefined);
         }
         progress("vm", "Shutting down VM");
-        return fc
-          .sendCtrlAltDel(tenant.socketPath)
-          .orElse(() => okAsync(undefined))
-          .andThen(() =>
-            ResultAsync.fromPromise(
-              (async () => {
-                // Wait up to 5 seconds for graceful shutdown
-                if (tenant.vmPid) {
-                  for (let i = 0; i < 10; i++) {
-                    try {
-                      process.kill(tenant.vmPid, 0);
-                    } catch {
-                      return; // Process is dead
-                    }
-                    await Bun.sleep(500);
-                  }
-                  // Force kill
-                  try {
-                    process.kill(tenant.vmPid, "SIGKILL");
-                  } catch {}
-                }
-              })(),
-              () => ({
-                code: "EXEC_FAILED" as const,
-                message: "Failed to stop VM",
-              }),
-            ),
-          );
+        return shutdownVm(tenant);
       })
       .andThen(() => {
         // Step 3: Remove network isolation rules
@@ -127,16 +155,21 @@ export function runEvict(
         return jailer.cleanupChroot(config.jailer.chrootBaseDir, tenant.vmId);
       })
       .andThen(() => {
+        if (archive) {
+          return archiveTenant(tenant, config, progress);
+        }
         // Step 6: Delete overlay file
         progress("overlay", `Deleting overlay ${tenant.overlayPath}`);
         return image
           .deleteOverlay(tenant.overlayPath)
-          .orElse(() => okAsync(undefined));
-      })
-      .andThen(() => {
-        // Step 6b: Remove SSH keypair
-        progress("ssh", "Removing SSH keypair");
-        return ssh.removeKeypair(tenant.name);
+          .orElse(() => okAsync(undefined))
+          .andThen(() => {
+            // Step 6b: Remove SSH keypair and secrets
+            progress("ssh", "Removing SSH keypair");
+            return ssh
+              .removeKeypair(tenant.name)
+              .andThen(() => deleteSecrets(tenant.name));
+          });
       })
       .andThen(() => {
         // Step 7: Remove from registry
@@ -146,3 +179,30 @@ export function runEvict(
       }),
   );
 }
+
+/**
+ * Step 6 (archive): record the trash entry, then move the overlay, SSH
+ * keys and secrets under it. A failed overlay move aborts the evict rather
+ * than losing the data; missing keys (older tenants) are skipped.
+ */
+function archiveTenant(
+  tenant: Tenant,
+  config: LobsterdConfig,
+  progress: (step: string, detail: string) => void,
+): ResultAsync<void, LobsterError> {
+  const entry = makeTrashEntry(tenant, config);
+  const dir = trashEntryDir(entry.id);
+  progress("trash", `Moving overlay, SSH keys and secrets to ${dir}`);
+  return saveTrashEntry(entry)
+    .andThen(() => image.moveOverlay(tenant.overlayPath, `${dir}/overlay.ext4`))
+    .andThen(() =>
+      ssh
+        .stashKeypair(tenant.name, `${dir}/ssh`)
+        .orElse(() => okAsync(undefined)),
+    )
+    .andThen(() => stashSecrets(tenant.name, dir))
+    .map(() => {
+      progress("trash", `Restorable until ${entry.expiresAt} as ${entry.id}`);
+      return undefined;
+    });
+}
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { okAsync } from "neverthrow";
+import * as loader from "../config/loader.js";
+import * as fc from "../system/firecracker.js";
+import * as image from "../system/image.js";
+import * as vsock from "../system/vsock.js";
+import {
+  makeConfig,
+  makeRegistry,
+  makeTenant,
+  unwrapErr,
+  unwrapOk,
+} from "../test-helpers.js";
+import { runGrow } from "./grow.js";
+
+const s = {} as Record<string, ReturnType<typeof spyOn>>;
+
+beforeEach(() => {
+  s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
+    okAsync(makeConfig()) as never,
+  );
+  s.loadRegistry = spyOn(loader, "loadRegistry").mockReturnValue(
+    okAsync(makeRegistry([makeTenant({ vmPid: 1234 })])) as never,
+  );
+  s.saveRegistry = spyOn(loader, "saveRegistry").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.overlaySizeMb = spyOn(image, "overlaySizeMb").mockReturnValue(
+    okAsync(4096) as never,
+  );
+  s.extendOverlay = spyOn(image, "extendOverlay").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.resizeOverlay = spyOn(image, "resizeOverlay").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.updateDrive = spyOn(fc, "updateDrive").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.resizeGuestFs = spyOn(vsock, "resizeGuestFs").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+});
+
+afterEach(() => {
+  for (const spy of Object.values(s)) {
+    spy.mockRestore();
+  }
+});
+
+// ── runGrow ─────────────────────────────────────────────────────────────────
+
+describe("runGrow", () => {
+  test("grows a running tenant online and records the size", async () => {
+    const tenant = await unwrapOk(runGrow("test-tenant", 8192));
+
+    expect(s.extendOverlay).toHaveBeenCalledWith(tenant.overlayPath, 8192);
+    expect(s.updateDrive).toHaveBeenCalledWith(tenant.socketPath, "overlay", {
+      pathOnHost: "/overlay.ext4",
+    });
+    expect(s.resizeGuestFs).toHaveBeenCalledTimes(1);
+    expect(s.resizeOverlay).not.toHaveBeenCalled();
+    expect(tenant.resources?.diskSizeMb).toBe(8192);
+    expect(s.saveRegistry).toHaveBeenCalledTimes(1);
+  });
+
+  test("refuses to shrink", async () => {
+    const err = await unwrapErr(runGrow("test-tenant", 2048));
+    expect(err.code).toBe("VALIDATION_FAILED");
+    expect(err.message).toContain("shrink");
+    expect(s.extendOverlay).not.toHaveBeenCalled();
+    expect(s.saveRegistry).not.toHaveBeenCalled();
+  });
+
+  test("resizes a stopped tenant offline", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([makeTenant({ status: "stopped", vmPid: null })]),
+      ) as never,
+    );
+    await unwrapOk(runGrow("test-tenant", 8192));
+    expect(s.resizeOverlay).toHaveBeenCalledTimes(1);
+    expect(s.updateDrive).not.toHaveBeenCalled();
+  });
+
+  test("defers the filesystem grow of a suspended tenant to resume", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([
+          makeTenant({
+            status: "suspended",
+            vmPid: null,
+            suspendInfo: {
+              suspendedAt: "2025-01-01T00:00:00.000Z",
+              snapshotDir: "/var/lib/lobsterd/snapshots/test-tenant",
+              cronSchedules: [],
+              nextWakeAtMs: null,
+              wakeReason: null,
+              lastRxBytes: 0,
+            },
+          }),
+        ]),
+      ) as never,
+    );
+    const tenant = await unwrapOk(runGrow("test-tenant", 8192));
+    expect(s.extendOverlay).toHaveBeenCalledTimes(1);
+    expect(s.resizeOverlay).not.toHaveBeenCalled();
+    expect(s.resizeGuestFs).not.toHaveBeenCalled();
+    expect(tenant.suspendInfo?.pendingFsResize).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+import { errAsync, type ResultAsync } from "neverthrow";
+import { loadConfig, loadRegistry, saveRegistry } from "../config/loader.js";
+import { tenantResources } from "../config/resources.js";
+import { tenantConfig } from "../config/templates.js";
+import * as fc from "../system/firecracker.js";
+import * as image from "../system/image.js";
+import * as vsock from "../system/vsock.js";
+import type { LobsterdConfig, LobsterError, Tenant } from "../types/index.js";
+
+export interface GrowProgress {
+  step: string;
+  detail: string;
+}
+
+/**
+ * Grow a tenant's overlay disk to `sizeMb`. Running VMs are grown online
+ * (Firecracker picks up the new size, the guest agent runs resize2fs);
+ * stopped tenants are resized offline. A suspended guest still has the
+ * filesystem mounted in its memory image, so only the file is extended and
+ * the filesystem is grown on resume. Growing to the current size re-runs the
+ * filesystem step, which is how an interrupted grow is finished.
+ */
+export function runGrow(
+  name: string,
+  sizeMb: number,
+  onProgress?: (p: GrowProgress) => void,
+): ResultAsync<Tenant, LobsterError> {
+  const progress = (step: string, detail: string) =>
+    onProgress?.({ step, detail });
+
+  return loadConfig().andThen((globalConfig) =>
+    loadRegistry().andThen((registry) => {
+      const tenant = registry.tenants.find((t) => t.name === name);
+      if (!tenant) {
+        return errAsync<Tenant, LobsterError>({
+          code: "TENANT_NOT_FOUND",
+          message: `Tenant "${name}" not found`,
+        });
+      }
+      if (tenant.status === "removing") {
+        return errAsync<Tenant, LobsterError>({
+          code: "VALIDATION_FAILED",
+          message: `Tenant "${name}" is being removed`,
+        });
+      }
+      if (tenant.status === "active" && !tenant.vmPid) {
+        return errAsync<Tenant, LobsterError>({
+          code: "VALIDATION_FAILED",
+          message: `Tenant "${name}" has no running VM — wait for the watchdog to restart it or stop it first`,
+        });
+      }
+
+      const config = tenantConfig(tenant, globalConfig);
+
+      return image
+        .overlaySizeMb(tenant.overlayPath)
+        .andThen((currentMb) => {
+          if (sizeMb < currentMb) {
+            return errAsync<void, LobsterError>({
+              code: "VALIDATION_FAILED",
+              message: `Refusing to shrink overlay from ${currentMb}MB to ${sizeMb}MB`,
+            });
+          }
+          progress(
+            "overlay",
+            `Growing overlay from ${currentMb}MB to ${sizeMb}MB`,
+          );
+          return growOverlay(tenant, config, sizeMb, progress);
+        })
+        .andThen(() => {
+          progress("registry", "Recording new overlay size");
+          tenant.resources = {
+            ...tenantResources(tenant, config),
+            diskSizeMb: sizeMb,
+          };
+          return saveRegistry(registry).map(() => tenant);
+        });
+    }),
+  );
+}
+
+function growOverlay(
+  tenant: Tenant,
+  config: LobsterdConfig,
+  sizeMb: number,
+  progress: (step: string, detail: string) => void,
+): ResultAsync<void, LobsterError> {
+  switch (tenant.status) {
+    case "active":
+      progress("overlay", "Extending overlay file");
+      return image
+        .extendOverlay(tenant.overlayPath, sizeMb)
+        .andThen(() => {
+          progress("drive", "Notifying Firecracker of new drive size");
+          return fc.updateDrive(tenant.socketPath, "overlay", {
+            pathOnHost: "/overlay.ext4",
+          });
+        })
+        .andThen(() => {
+          progress("resize-fs", "Growing guest filesystem");
+          return vsock.resizeGuestFs(
+            tenant.ipAddress,
+            config.vsock.agentPort,
+            tenant.agentToken,
+          );
+        });
+    case "suspended":
+      progress("overlay", "Extending overlay file, filesystem grows on resume");
+      return image.extendOverlay(tenant.overlayPath, sizeMb).map(() => {
+        if (tenant.suspendInfo) {
+          tenant.suspendInfo.pendingFsResize = true;
+        }
+        return undefined;
+      });
+    default:
+      progress("overlay", "Resizing overlay filesystem offline");
+      return image.resizeOverlay(tenant.overlayPath, sizeMb);
+  }
+}
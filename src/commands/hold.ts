@@ -41,6 +41,13 @@ export function withHold(name: string): ResultAsync<HeldTenant, LobsterError> {
         });
       }
 
+      if (tenant.status === "stopped") {
+        return errAsync({
+          code: "VALIDATION_FAILED" as const,
+          message: `Tenant "${name}" is stopped — run \`lobsterd start ${name}\` first`,
+        });
+      }
+
       const resumeIfNeeded: ResultAsync<Tenant, LobsterError> =
         tenant.status === "suspended"
           ? runResume(name, (p) =>
@@ -18,8 +18,10 @@ import {
   ORIGIN_CERT_PATH,
   ORIGIN_KEY_PATH,
   OVERLAYS_DIR,
+  REBASE_SNAP_PATH,
   REGISTRY_PATH,
   SOCKETS_DIR,
+  WATCH_SERVICE,
 } from "../config/defaults.js";
 import * as caddy from "../system/caddy.js";
 import { exec, execUnchecked } from "../system/exec.js";
@@ -217,15 +219,25 @@ export function installFirecracker(
         "0755",
         `${prefix}/firecracker-v${FC_VERSION}-${arch}`,
         config.firecracker.binaryPath,
-      ]).andThen(() =>
-        exec([
-          "install",
-          "-m",
-          "0755",
-          `${prefix}/jailer-v${FC_VERSION}-${arch}`,
-          config.jailer.binaryPath,
-        ]),
-      );
+      ])
+        .andThen(() =>
+          exec([
+            "install",
+            "-m",
+            "0755",
+            `${prefix}/jailer-v${FC_VERSION}-${arch}`,
+            config.jailer.binaryPath,
+          ]),
+        )
+        .andThen(() =>
+          exec([
+            "install",
+            "-m",
+            "0755",
+            `${prefix}/rebase-snap-v${FC_VERSION}-${arch}`,
+            REBASE_SNAP_PATH,
+          ]),
+        );
     })
     .andThen(() =>
       exec([
@@ -512,8 +524,8 @@ export function runInit(
       const entryPoint = new URL("../index.tsx", import.meta.url).pathname;
       const unitContent = systemd.generateWatchUnit(bunPath, entryPoint);
       return systemd
-        .installService("lobsterd-watch", unitContent)
-        .andThen(() => systemd.enableAndStartService("lobsterd-watch"))
+        .installService(WATCH_SERVICE, unitContent)
+        .andThen(() => systemd.enableAndStartService(WATCH_SERVICE))
         .map(() => {
           result.servicesEnabled = true;
           return undefined;
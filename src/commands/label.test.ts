@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { okAsync } from "neverthrow";
+import * as loader from "../config/loader.js";
+import {
+  makeRegistry,
+  makeTenant,
+  unwrapErr,
+  unwrapOk,
+} from "../test-helpers.js";
+import type { TenantRegistry } from "../types/index.js";
+import { runLabel, selectTenantNames } from "./label.js";
+
+const s = {} as Record<string, ReturnType<typeof spyOn>>;
+
+beforeEach(() => {
+  s.loadRegistry = spyOn(loader, "loadRegistry").mockReturnValue(
+    okAsync(
+      makeRegistry([
+        makeTenant({ labels: { team: "a", env: "dev" } }),
+        makeTenant({ name: "other" }),
+      ]),
+    ) as never,
+  );
+  s.saveRegistry = spyOn(loader, "saveRegistry").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+});
+
+afterEach(() => {
+  for (const spy of Object.values(s)) {
+    spy.mockRestore();
+  }
+});
+
+describe("runLabel", () => {
+  test("sets and removes labels, keeping the rest", async () => {
+    const tenant = await unwrapOk(
+      runLabel("test-tenant", { set: { team: "b" }, remove: ["env"] }),
+    );
+    expect(tenant.labels).toEqual({ team: "b" });
+    const saved = s.saveRegistry.mock.calls[0][0] as TenantRegistry;
+    expect(saved.tenants[0].labels).toEqual({ team: "b" });
+  });
+
+  test("replace drops labels not given", async () => {
+    const tenant = await unwrapOk(
+      runLabel(
+        "test-tenant",
+        { set: { owner: "x" }, remove: [] },
+        { replace: true },
+      ),
+    );
+    expect(tenant.labels).toEqual({ owner: "x" });
+  });
+
+  test("clears the field when the last label is removed", async () => {
+    const tenant = await unwrapOk(
+      runLabel("test-tenant", { set: {}, remove: ["team", "env"] }),
+    );
+    expect(tenant.labels).toBeUndefined();
+  });
+
+  test("returns TENANT_NOT_FOUND for an unknown tenant", async () => {
+    const err = await unwrapErr(runLabel("nope", { set: {}, remove: [] }));
+    expect(err.code).toBe("TENANT_NOT_FOUND");
+  });
+});
+
+describe("selectTenantNames", () => {
+  test("returns matching tenant names", async () => {
+    const names = await unwrapOk(
+      selectTenantNames([{ key: "team", op: "exists" }]),
+    );
+    expect(names).toEqual(["test-tenant"]);
+  });
+});
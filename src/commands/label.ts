@@ -0,0 +1,51 @@
+import { errAsync, type ResultAsync } from "neverthrow";
+import type { LabelSelector, LabelUpdate } from "../config/labels.js";
+import { selectTenants } from "../config/labels.js";
+import { loadRegistry, saveRegistry } from "../config/loader.js";
+import type { LobsterError, Tenant } from "../types/index.js";
+
+export interface LabelOpts {
+  /** Drop every existing label before applying `update.set` */
+  replace?: boolean;
+}
+
+/** Set and remove labels on a tenant. Labels are registry-only metadata. */
+export function runLabel(
+  name: string,
+  update: LabelUpdate,
+  opts: LabelOpts = {},
+): ResultAsync<Tenant, LobsterError> {
+  return loadRegistry().andThen((registry) => {
+    const tenant = registry.tenants.find((t) => t.name === name);
+    if (!tenant) {
+      return errAsync<Tenant, LobsterError>({
+        code: "TENANT_NOT_FOUND",
+        message: `Tenant "${name}" not found`,
+      });
+    }
+
+    const labels: Record<string, string> = opts.replace
+      ? {}
+      : { ...tenant.labels };
+    for (const key of update.remove) {
+      delete labels[key];
+    }
+    Object.assign(labels, update.set);
+
+    if (Object.keys(labels).length > 0) {
+      tenant.labels = labels;
+    } else {
+      delete tenant.labels;
+    }
+    return saveRegistry(registry).map(() => tenant);
+  });
+}
+
+/** Names of the registered tenants matching a selector, in registry order. */
+export function selectTenantNames(
+  selector: LabelSelector,
+): ResultAsync<string[], LobsterError> {
+  return loadRegistry().map((registry) =>
+    selectTenants(registry.tenants, selector).map((t) => t.name),
+  );
+}
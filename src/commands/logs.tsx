@@ -1,5 +1,6 @@
 import { render, useApp, useInput } from "ink";
 import { useEffect, useState } from "react";
+import { WATCH_SERVICE } from "../config/defaults.js";
 import { fetchLogs } from "../system/logs.js";
 import type { Tenant } from "../types/index.js";
 import { LogStream } from "../ui/LogStream.js";
@@ -7,7 +8,7 @@ import { withHold } from "./hold.js";
 
 export async function runWatchdogLogs(): Promise<number> {
   const proc = Bun.spawn(
-    ["journalctl", "-u", "lobsterd-watch", "-f", "-n", "100", "--no-pager"],
+    ["journalctl", "-u", WATCH_SERVICE, "-f", "-n", "100", "--no-pager"],
     {
       stdout: "inherit",
       stderr: "inherit",
@@ -0,0 +1,304 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  spyOn,
+  test,
+} from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import * as checks from "../checks/index.js";
+import { DEFAULT_CONFIG } from "../config/defaults.js";
+import * as loader from "../config/loader.js";
+import { createBuoyApp } from "../reef/index.js";
+import * as exec_ from "../system/exec.js";
+import {
+  makeConfig,
+  makeRegistry,
+  makeTenant,
+  unwrapErr,
+  unwrapOk,
+} from "../test-helpers.js";
+import type { Tenant } from "../types/index.js";
+import * as bundle from "./bundle.js";
+import * as evict from "./evict.js";
+import { runMigrate, runReceive, runReceivePart } from "./migrate.js";
+import * as resume from "./resume.js";
+import * as start from "./start.js";
+import * as suspend from "./suspend.js";
+
+const suspended = (overrides?: Partial<Tenant>) =>
+  makeTenant({ status: "suspended", vmPid: null, ...overrides });
+
+const HEALTHY = [{ check: "vm.process", status: "ok", message: "running" }];
+
+// Two buoys on one machine: `source` holds the tenant, `dest` receives it
+let source: ReturnType<typeof Bun.serve>;
+let dest: ReturnType<typeof Bun.serve>;
+
+beforeAll(() => {
+  source = Bun.serve({ port: 0, fetch: createBuoyApp("source-token").fetch });
+  dest = Bun.serve({ port: 0, fetch: createBuoyApp("dest-token").fetch });
+});
+
+afterAll(() => {
+  source.stop(true);
+  dest.stop(true);
+});
+
+const s = {} as Record<string, ReturnType<typeof spyOn>>;
+let dir: string;
+let received: string | null;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "lobsterd-migrate-"));
+  received = null;
+  s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
+    okAsync(
+      makeConfig({ overlay: { ...DEFAULT_CONFIG.overlay, baseDir: dir } }),
+    ) as never,
+  );
+  s.loadRegistry = spyOn(loader, "loadRegistry").mockReturnValue(
+    okAsync(makeRegistry([suspended()])) as never,
+  );
+  s.exec = spyOn(exec_, "exec").mockReturnValue(
+    okAsync({ exitCode: 0, stdout: "", stderr: "" }) as never,
+  );
+  s.runSuspend = spyOn(suspend, "runSuspend").mockReturnValue(
+    okAsync(suspended()) as never,
+  );
+  s.runExport = spyOn(bundle, "runExport").mockImplementation(((
+    _name: string,
+    out: string,
+  ) =>
+    ResultAsync.fromSafePromise(Bun.write(out, "bundle-bytes")).map(() => ({
+      path: out,
+      manifest: {},
+    }))) as never);
+  s.runImport = spyOn(bundle, "runImport").mockImplementation(((path: string) =>
+    ResultAsync.fromSafePromise(Bun.file(path).text()).map((text) => {
+      received = text;
+      return suspended({ ipAddress: "10.0.0.10" });
+    })) as never);
+  s.runResume = spyOn(resume, "runResume").mockReturnValue(
+    okAsync(makeTenant({ ipAddress: "10.0.0.10" })) as never,
+  );
+  s.runStart = spyOn(start, "runStart").mockReturnValue(
+    okAsync(makeTenant()) as never,
+  );
+  s.runEvict = spyOn(evict, "runEvict").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.runAllChecks = spyOn(checks, "runAllChecks").mockReturnValue(
+    okAsync(HEALTHY) as never,
+  );
+});
+
+afterEach(() => {
+  for (const spy of Object.values(s)) {
+    spy.mockRestore();
+  }
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/** Ask the source buoy to migrate `name` to the destination buoy */
+function migrateViaBuoy(name: string, destToken = "dest-token") {
+  return fetch(`${source.url}tenants/${name}/migrate`, {
+    method: "POST",
+    headers: {
+      Authorization: "Bearer source-token",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ to: dest.url.origin, token: destToken }),
+  });
+}
+
+describe("migrate between two buoys", () => {
+  test("uploads the bundle, boots it on the destination, then evicts", async () => {
+    s.loadRegistry.mockReturnValueOnce(
+      okAsync(makeRegistry([makeTenant()])) as never,
+    );
+    const res = await migrateViaBuoy("test-tenant");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+
+    expect(body.destination).toBe(dest.url.origin);
+    expect(body.tenant.ipAddress).toBe("10.0.0.10");
+    expect(body.tenant.agentToken).toBeUndefined();
+    expect(body.checks).toEqual(HEALTHY);
+    expect(received).toBe("bundle-bytes");
+    expect(s.runSuspend).toHaveBeenCalledTimes(1);
+    expect(s.runResume).toHaveBeenCalledTimes(1);
+    expect(s.runEvict).toHaveBeenCalledTimes(1);
+    expect(s.runEvict.mock.calls[0].slice(0, 2)).toEqual(["test-tenant", {}]);
+  });
+
+  test("resumes the tenant locally when the destination refuses it", async () => {
+    s.loadRegistry.mockReturnValueOnce(
+      okAsync(makeRegistry([makeTenant()])) as never,
+    );
+    const res = await migrateViaBuoy("test-tenant", "wrong-token");
+    expect(res.status).toBe(500);
+    const body = await res.json();
+
+    expect(body.code).toBe("MIGRATE_FAILED");
+    expect(body.message).toContain("Invalid bearer token");
+    expect(s.runImport).not.toHaveBeenCalled();
+    expect(s.runResume).toHaveBeenCalledWith("test-tenant");
+    expect(s.runEvict).not.toHaveBeenCalled();
+  });
+
+  test("leaves a suspended tenant suspended when the import fails", async () => {
+    s.runImport.mockReturnValue(
+      errAsync({ code: "TENANT_EXISTS", message: "already here" }) as never,
+    );
+    const res = await migrateViaBuoy("test-tenant");
+    const body = await res.json();
+
+    expect(body.message).toContain("already here");
+    expect(s.runSuspend).not.toHaveBeenCalled();
+    expect(s.runResume).not.toHaveBeenCalled();
+    expect(s.runEvict).not.toHaveBeenCalled();
+  });
+
+  test("purges the remote copy if the local one woke up meanwhile", async () => {
+    s.loadRegistry
+      .mockReturnValueOnce(okAsync(makeRegistry([suspended()])) as never)
+      .mockReturnValueOnce(okAsync(makeRegistry([makeTenant()])) as never);
+    const res = await migrateViaBuoy("test-tenant");
+    const body = await res.json();
+
+    expect(body.message).toContain("changed locally");
+    // The only eviction is the destination's purge
+    expect(s.runEvict).toHaveBeenCalledTimes(1);
+    expect(s.runEvict.mock.calls[0].slice(0, 2)).toEqual([
+      "test-tenant",
+      { archive: false },
+    ]);
+  });
+});
+
+describe("runMigrate", () => {
+  test("uploads the bundle in parts", async () => {
+    const result = await unwrapOk(
+      runMigrate("test-tenant", {
+        to: dest.url.origin,
+        token: "dest-token",
+        partBytes: 5,
+      }),
+    );
+    expect(result.destination).toBe(dest.url.origin);
+    expect(received).toBe("bundle-bytes");
+  });
+
+  test("rejects an invalid buoy URL", async () => {
+    const err = await unwrapErr(
+      runMigrate("test-tenant", { to: "not a url", token: "t" }),
+    );
+    expect(err.code).toBe("VALIDATION_FAILED");
+  });
+
+  test("returns TENANT_NOT_FOUND for unknown tenant", async () => {
+    const err = await unwrapErr(
+      runMigrate("nope", { to: dest.url.origin, token: "dest-token" }),
+    );
+    expect(err.code).toBe("TENANT_NOT_FOUND");
+  });
+
+  test("refuses a tenant that is being removed", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(makeRegistry([makeTenant({ status: "removing" })])) as never,
+    );
+    const err = await unwrapErr(
+      runMigrate("test-tenant", { to: dest.url.origin, token: "dest-token" }),
+    );
+    expect(err.code).toBe("VALIDATION_FAILED");
+    expect(s.runExport).not.toHaveBeenCalled();
+  });
+});
+
+describe("runReceivePart", () => {
+  const id = crypto.randomUUID();
+
+  test("appends parts in order", async () => {
+    await unwrapOk(runReceivePart(id, 0, new Blob(["bundle-"])));
+    const result = await unwrapOk(runReceivePart(id, 7, new Blob(["bytes"])));
+    expect(result.received).toBe(12);
+    expect(await Bun.file(join(dir, `.receive-${id}.tar`)).text()).toBe(
+      "bundle-bytes",
+    );
+    const [install] = s.exec.mock.calls[0] as [string[]];
+    expect(install).toEqual([
+      "install",
+      "-m",
+      "0600",
+      "/dev/null",
+      join(dir, `.receive-${id}.tar`),
+    ]);
+  });
+
+  test("rejects a part at the wrong offset", async () => {
+    await unwrapOk(runReceivePart(id, 0, new Blob(["bundle-"])));
+    const err = await unwrapErr(runReceivePart(id, 3, new Blob(["bytes"])));
+    expect(err.code).toBe("VALIDATION_FAILED");
+    expect(err.message).toContain("has 7 bytes, not 3");
+  });
+
+  test("rejects continuing an upload that never started", async () => {
+    const err = await unwrapErr(runReceivePart(id, 7, new Blob(["bytes"])));
+    expect(err.code).toBe("VALIDATION_FAILED");
+    expect(err.message).toContain("No upload");
+  });
+});
+
+describe("runReceive", () => {
+  let id: string;
+
+  beforeEach(async () => {
+    id = crypto.randomUUID();
+    await unwrapOk(runReceivePart(id, 0, new Blob(["bundle-bytes"])));
+  });
+
+  test("cold-starts a tenant whose snapshot was dropped", async () => {
+    s.runImport.mockReturnValue(
+      okAsync(makeTenant({ status: "stopped", vmPid: null })) as never,
+    );
+    const result = await unwrapOk(runReceive(id));
+    expect(result.tenant.status).toBe("active");
+    expect(s.runStart).toHaveBeenCalledWith("test-tenant");
+    expect(s.runResume).not.toHaveBeenCalled();
+    expect(s.runImport.mock.calls[0][0]).toBe(join(dir, `.receive-${id}.tar`));
+  });
+
+  test("purges a tenant that doesn't come up healthy", async () => {
+    s.runAllChecks.mockReturnValue(
+      okAsync([
+        { check: "vm.health", status: "failed", message: "no answer" },
+      ]) as never,
+    );
+    const err = await unwrapErr(runReceive(id, { healthTimeoutMs: 0 }));
+    expect(err.code).toBe("MIGRATE_FAILED");
+    expect(err.message).toContain("vm.health: no answer");
+    expect(s.runEvict).toHaveBeenCalledWith("test-tenant", { archive: false });
+  });
+
+  test("doesn't evict when the import itself fails", async () => {
+    s.runImport.mockReturnValue(
+      errAsync({ code: "TENANT_EXISTS", message: "already here" }) as never,
+    );
+    const err = await unwrapErr(runReceive(id));
+    expect(err.code).toBe("TENANT_EXISTS");
+    expect(s.runEvict).not.toHaveBeenCalled();
+  });
+
+  test("refuses an upload id it has no bundle for", async () => {
+    const err = await unwrapErr(runReceive(crypto.randomUUID()));
+    expect(err.code).toBe("VALIDATION_FAILED");
+    expect(s.runImport).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,428 @@
+import { appendFile, stat } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  err,
+  errAsync,
+  ok,
+  okAsync,
+  type Result,
+  ResultAsync,
+} from "neverthrow";
+import { runAllChecks } from "../checks/index.js";
+import { loadConfig, loadRegistry } from "../config/loader.js";
+import { tenantConfig } from "../config/templates.js";
+import { exec } from "../system/exec.js";
+import type {
+  HealthCheckResult,
+  LobsterdConfig,
+  LobsterError,
+  MigrateResult,
+  Tenant,
+} from "../types/index.js";
+import { createPrivateFile, runExport, runImport } from "./bundle.js";
+import { runEvict } from "./evict.js";
+import { runResume } from "./resume.js";
+import { runStart } from "./start.js";
+import { runSuspend } from "./suspend.js";
+
+/** How long a receiving host waits for a migrated tenant to pass its checks */
+export const MIGRATE_HEALTH_TIMEOUT_MS = 60_000;
+const MIGRATE_HEALTH_POLL_MS = 2_000;
+
+/**
+ * Bundles are uploaded in parts that fit under the buoy's default request
+ * body limit (128 MiB)
+ */
+export const MIGRATE_PART_BYTES = 64 * 1024 * 1024;
+
+export interface MigrateProgress {
+  step: string;
+  detail: string;
+}
+
+export interface MigrateOpts {
+  /** Base URL of the receiving buoy, e.g. `http://host-b:7070` */
+  to: string;
+  /** API token of the receiving buoy */
+  token: string;
+  /** Upload size per request, {@link MIGRATE_PART_BYTES} by default */
+  partBytes?: number;
+}
+
+export interface ReceiveOpts {
+  healthTimeoutMs?: number;
+}
+
+export interface ReceivePartResult {
+  /** Bytes of the upload stored so far */
+  received: number;
+}
+
+export interface ReceiveResult {
+  tenant: Tenant;
+  checks: HealthCheckResult[];
+}
+
+const removeFile = (path: string) =>
+  exec(["rm", "-f", path])
+    .map(() => undefined)
+    .orElse(() => okAsync(undefined));
+
+function migrateError(message: string, cause?: unknown): LobsterError {
+  return { code: "MIGRATE_FAILED", message, cause };
+}
+
+const uploadPath = (config: LobsterdConfig, id: string) =>
+  join(config.overlay.baseDir, `.receive-${id}.tar`);
+
+/** Size of a partial upload, or null when there is none */
+function uploadSize(path: string): ResultAsync<number | null, LobsterError> {
+  return ResultAsync.fromPromise(
+    stat(path).then(
+      (st) => st.size,
+      (e: NodeJS.ErrnoException) => {
+        if (e.code === "ENOENT") {
+          return null;
+        }
+        throw e;
+      },
+    ),
+    (e) => migrateError(`Failed to read upload ${path}: ${e}`, e),
+  );
+}
+
+/**
+ * Poll the tenant's health checks until none of them fail. A freshly resumed
+ * guest can take a few seconds to answer on its health port.
+ */
+function awaitHealthy(
+  tenant: Tenant,
+  config: LobsterdConfig,
+  timeoutMs: number,
+): ResultAsync<HealthCheckResult[], LobsterError> {
+  return ResultAsync.fromSafePromise(
+    (async (): Promise<Result<HealthCheckResult[], LobsterError>> => {
+      const deadline = Date.now() + timeoutMs;
+      let failing = "checks did not run";
+      for (;;) {
+        const result = await runAllChecks(tenant, config);
+        if (result.isOk()) {
+          const failed = result.value.filter((c) => c.status === "failed");
+          if (failed.length === 0) {
+            return ok(result.value);
+          }
+          failing = failed.map((c) => `${c.check}: ${c.message}`).join("; ");
+        } else {
+          failing = result.error.message;
+        }
+        if (Date.now() >= deadline) {
+          return err(
+            migrateError(
+              `Tenant "${tenant.name}" is not healthy after ${timeoutMs}ms (${failing})`,
+            ),
+          );
+        }
+        await Bun.sleep(MIGRATE_HEALTH_POLL_MS);
+      }
+    })(),
+  ).andThen((r) => r);
+}
+
+/**
+ * Append one part of a migration bundle upload. Parts must arrive in order:
+ * `offset` has to match the bytes stored so far, and offset 0 starts the
+ * upload over.
+ */
+export function runReceivePart(
+  id: string,
+  offset: number,
+  body: ReadableStream<Uint8Array> | Blob,
+): ResultAsync<ReceivePartResult, LobsterError> {
+  let path: string;
+  return loadConfig()
+    .andThen((config) => {
+      path = uploadPath(config, id);
+      return offset === 0
+        ? createPrivateFile(path).map(() => 0)
+        : uploadSize(path);
+    })
+    .andThen((size) => {
+      if (size !== offset) {
+        return errAsync<number, LobsterError>({
+          code: "VALIDATION_FAILED",
+          message:
+            size === null
+              ? `No upload ${id} to continue at offset ${offset}`
+              : `Upload ${id} has ${size} bytes, not ${offset}`,
+        });
+      }
+      return ResultAsync.fromPromise(
+        new Response(body)
+          .bytes()
+          .then((bytes) => appendFile(path, bytes).then(() => bytes.length)),
+        (e) => migrateError(`Failed to receive bundle: ${e}`, e),
+      );
+    })
+    .map((length) => ({ received: offset + length }));
+}
+
+/** Drop a partial upload the sender gave up on */
+export function runDiscardReceive(id: string): ResultAsync<void, LobsterError> {
+  return loadConfig().andThen((config) => removeFile(uploadPath(config, id)));
+}
+
+/**
+ * Receiving half of a migration: import the bundle uploaded with
+ * {@link runReceivePart} with network slots on this host, boot it (resume
+ * from the bundled snapshot when it is usable here, otherwise cold start) and
+ * wait for it to pass its health checks. A tenant that doesn't come up
+ * healthy is purged again so the source can take it back.
+ */
+export function runReceive(
+  id: string,
+  opts: ReceiveOpts = {},
+  onProgress?: (p: MigrateProgress) => void,
+): ResultAsync<ReceiveResult, LobsterError> {
+  const progress = (step: string, detail: string) =>
+    onProgress?.({ step, detail });
+  const timeoutMs = opts.healthTimeoutMs ?? MIGRATE_HEALTH_TIMEOUT_MS;
+
+  let config: LobsterdConfig;
+  let bundlePath: string;
+  let imported: Tenant | null = null;
+
+  return loadConfig()
+    .andThen((c) => {
+      config = c;
+      return uploadSize(uploadPath(config, id));
+    })
+    .andThen((size) => {
+      if (size === null) {
+        return errAsync<void, LobsterError>({
+          code: "VALIDATION_FAILED",
+          message: `No upload ${id} to import`,
+        });
+      }
+      bundlePath = uploadPath(config, id);
+      progress("receive", `Received ${size} bytes`);
+      return okAsync(undefined);
+    })
+    .andThen(() => runImport(bundlePath, {}, (p) => progress(p.step, p.detail)))
+    .andThen((t) => {
+      imported = t;
+      if (t.status === "suspended") {
+        progress("boot", `Resuming "${t.name}" from its snapshot`);
+        return runResume(t.name);
+      }
+      progress("boot", `Starting "${t.name}" (snapshot not usable here)`);
+      return runStart(t.name);
+    })
+    .andThen((t) => {
+      progress("health", `Waiting for "${t.name}" to pass its health checks`);
+      return awaitHealthy(t, tenantConfig(t, config), timeoutMs).map(
+        (checks) => ({ tenant: t, checks }),
+      );
+    })
+    .orElse((e) => {
+      if (!imported) {
+        return errAsync(e);
+      }
+      progress("rollback", `Purging "${imported.name}"`);
+      return runEvict(imported.name, { archive: false })
+        .orElse(() => okAsync(undefined))
+        .andThen(() => errAsync(e));
+    })
+    .andThen((result) => removeFile(bundlePath).map(() => result))
+    .orElse((e) =>
+      (bundlePath ? removeFile(bundlePath) : okAsync(undefined)).andThen(() =>
+        errAsync(e),
+      ),
+    );
+}
+
+function buoyRequest(
+  to: string,
+  token: string,
+  path: string,
+  init: RequestInit,
+): ResultAsync<unknown, LobsterError> {
+  const url = `${to.replace(/\/+$/, "")}${path}`;
+  return ResultAsync.fromPromise(
+    fetch(url, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${token}` },
+    }),
+    (e) => migrateError(`Failed to reach ${to}: ${e}`, e),
+  ).andThen((res) =>
+    ResultAsync.fromPromise(res.json() as Promise<unknown>, (e) =>
+      migrateError(`Bad response from ${to} (HTTP ${res.status})`, e),
+    ).andThen((json) => {
+      if (!res.ok) {
+        const message =
+          (json as { message?: string } | null)?.message ??
+          `HTTP ${res.status}`;
+        return errAsync(migrateError(`${to}: ${message}`));
+      }
+      return okAsync(json);
+    }),
+  );
+}
+
+/** Upload a bundle in order, one part of at most `opts.partBytes` at a time */
+function sendBundle(
+  opts: MigrateOpts,
+  path: string,
+  bundle: Blob,
+): ResultAsync<void, LobsterError> {
+  const partBytes = opts.partBytes ?? MIGRATE_PART_BYTES;
+  const sendFrom = (offset: number): ResultAsync<void, LobsterError> =>
+    buoyRequest(opts.to, opts.token, `${path}?offset=${offset}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: bundle.slice(offset, offset + partBytes),
+    }).andThen((json) => {
+      const { received } = json as ReceivePartResult;
+      if (received >= bundle.size) {
+        return okAsync(undefined);
+      }
+      if (!(received > offset)) {
+        return errAsync(
+          migrateError(`${opts.to} stopped taking the bundle at ${offset}`),
+        );
+      }
+      return sendFrom(received);
+    });
+  return sendFrom(0);
+}
+
+/**
+ * Move a tenant to another host's buoy. The tenant is suspended and
+ * exported, the bundle is uploaded in parts to the destination's
+ * `PUT /tenants/receive/{id}` and imported with `POST /tenants/receive/{id}`,
+ * and the local copy is evicted (to the trash) only
+ * once the destination reports the tenant healthy. Any failure before that
+ * resumes the tenant here again.
+ */
+export function runMigrate(
+  name: string,
+  opts: MigrateOpts,
+  onProgress?: (p: MigrateProgress) => void,
+): ResultAsync<MigrateResult, LobsterError> {
+  const progress = (step: string, detail: string) =>
+    onProgress?.({ step, detail });
+
+  let bundlePath: string;
+  let suspendedHere = false;
+  let received: MigrateResult;
+
+  try {
+    new URL(opts.to);
+  } catch {
+    return errAsync({
+      code: "VALIDATION_FAILED",
+      message: `Invalid buoy URL: ${opts.to}`,
+    });
+  }
+
+  const resumeLocally = () =>
+    suspendedHere
+      ? runResume(name)
+          .map(() => undefined)
+          .orElse(() => okAsync(undefined))
+      : okAsync(undefined);
+
+  return loadConfig()
+    .andThen((config) => {
+      bundlePath = join(config.overlay.baseDir, `.migrate-${name}.tar`);
+      return loadRegistry();
+    })
+    .andThen((registry): ResultAsync<Tenant, LobsterError> => {
+      const tenant = registry.tenants.find((t) => t.name === name);
+      if (!tenant) {
+        return errAsync({
+          code: "TENANT_NOT_FOUND",
+          message: `Tenant "${name}" not found`,
+        });
+      }
+      if (tenant.status === "active") {
+        progress("suspend", "Pausing and snapshotting the VM");
+        return runSuspend(name).map((t) => {
+          suspendedHere = true;
+          return t;
+        });
+      }
+      if (tenant.status !== "suspended" && tenant.status !== "stopped") {
+        return errAsync({
+          code: "VALIDATION_FAILED",
+          message: `Tenant "${name}" cannot be migrated while ${tenant.status}`,
+        });
+      }
+      return okAsync(tenant);
+    })
+    .andThen((tenant) =>
+      runExport(name, bundlePath, (p) => progress(p.step, p.detail))
+        .andThen(() => {
+          const upload = crypto.randomUUID();
+          const path = `/tenants/receive/${upload}`;
+          progress("send", `Uploading bundle to ${opts.to}`);
+          return sendBundle(opts, path, Bun.file(bundlePath))
+            .andThen(() => {
+              progress("receive", `Importing and booting on ${opts.to}`);
+              return buoyRequest(opts.to, opts.token, path, { method: "POST" });
+            })
+            .orElse((e) =>
+              buoyRequest(opts.to, opts.token, path, { method: "DELETE" })
+                .orElse(() => okAsync(undefined))
+                .andThen(() => errAsync(e)),
+            );
+        })
+        .andThen((json) => {
+          const body = json as Omit<MigrateResult, "destination">;
+          received = { destination: opts.to, ...body };
+          progress("confirm", `"${name}" is healthy on ${opts.to}`);
+          // The watchdog may have woken the local copy on traffic meanwhile
+          return loadRegistry();
+        })
+        .andThen((registry) => {
+          const now = registry.tenants.find((t) => t.name === name);
+          if (now?.status === tenant.status) {
+            return okAsync(undefined);
+          }
+          progress("rollback", `Local "${name}" changed, purging remote copy`);
+          return buoyRequest(
+            opts.to,
+            opts.token,
+            `/tenants/${name}?purge=true`,
+            { method: "DELETE" },
+          )
+            .orElse(() => okAsync(undefined))
+            .andThen(() =>
+              errAsync(
+                migrateError(
+                  `Tenant "${name}" changed locally during migration (now ${now?.status ?? "gone"})`,
+                ),
+              ),
+            );
+        }),
+    )
+    .orElse((e) => {
+      progress("rollback", `Migration failed: ${e.message}`);
+      return resumeLocally().andThen(() => errAsync(e));
+    })
+    .andThen(() => {
+      progress("evict", "Evicting local copy");
+      return runEvict(name, {}, (p) => progress(p.step, p.detail)).mapErr((e) =>
+        migrateError(
+          `Tenant "${name}" is running on ${opts.to} but the local copy could not be evicted — run \`lobsterd evict ${name}\`: ${e.message}`,
+          e,
+        ),
+      );
+    })
+    .map(() => received)
+    .andThen((result) => removeFile(bundlePath).map(() => result))
+    .orElse((e) =>
+      (bundlePath ? removeFile(bundlePath) : okAsync(undefined)).andThen(() =>
+        errAsync(e),
+      ),
+    );
+}
@@ -21,6 +21,7 @@ import {
   unwrapOk,
 } from "../test-helpers.js";
 import type { GuestStats, LobsterError } from "../types/index.js";
+import * as recover from "./recover.js";
 
 // Mock hold.js entirely — no other test uses this module, so no leak concern.
 // This avoids loading the real hold.js (which does vsock calls, intervals, resume, etc.).
@@ -43,6 +44,10 @@ let s: Record<string, ReturnType<typeof spyOn>>;
 
 beforeEach(() => {
   s = {
+    // Crash recovery runs first — nothing to recover by default
+    runRecover: spyOn(recover, "runRecover").mockReturnValue(
+      okAsync([]) as never,
+    ),
     // Config loader (used by molt to find tenants)
     loadRegistry: spyOn(loader, "loadRegistry").mockReturnValue(
       okAsync(makeRegistry([tenant])) as never,
@@ -111,6 +116,35 @@ describe("runMolt", () => {
     expect(err.code).toBe("TENANT_NOT_FOUND");
   });
 
+  test("settles interrupted spawns before checking tenants", async () => {
+    const phases: string[] = [];
+    s.runRecover.mockImplementation(
+      (onProgress?: (p: { tenant: string; detail: string }) => void) => {
+        onProgress?.({ tenant: "half", detail: "Undoing tap" });
+        return okAsync([]) as never;
+      },
+    );
+
+    await unwrapOk(runMolt("test-tenant", (p) => phases.push(p.phase)));
+    expect(phases[0]).toBe("recovering");
+    expect(phases).toContain("checking");
+  });
+
+  test("narrows all-tenant runs to a label selector", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([
+          makeTenant({ labels: { team: "a" } }),
+          makeTenant({ name: "other", labels: { team: "b" } }),
+        ]),
+      ) as never,
+    );
+    const results = await unwrapOk(
+      runMolt(undefined, undefined, [{ key: "team", op: "=", value: "b" }]),
+    );
+    expect(results.map((r) => r.tenant)).toEqual(["other"]);
+  });
+
   test("all-healthy fast path skips repairs", async () => {
     const results = await unwrapOk(runMolt("test-tenant"));
     expect(results).toHaveLength(1);
@@ -1,5 +1,6 @@
 import { errAsync, okAsync, ResultAsync } from "neverthrow";
 import { runAllChecks } from "../checks/index.js";
+import { type LabelSelector, selectTenants } from "../config/labels.js";
 import { loadRegistry } from "../config/loader.js";
 import { runRepairs } from "../repair/index.js";
 import type {
@@ -9,6 +10,7 @@ import type {
   Tenant,
 } from "../types/index.js";
 import { withHold } from "./hold.js";
+import { runRecover } from "./recover.js";
 
 export interface MoltTenantResult {
   tenant: string;
@@ -20,13 +22,18 @@ export interface MoltTenantResult {
 
 export interface MoltProgress {
   tenant: string;
-  phase: "checking" | "repairing" | "verifying" | "done";
+  phase: "recovering" | "checking" | "repairing" | "verifying" | "done";
   detail?: string;
 }
 
+/**
+ * Check and repair one tenant by name, or every active tenant — narrowed to
+ * those matching `selector` when one is given.
+ */
 export function runMolt(
   name?: string,
   onProgress?: (p: MoltProgress) => void,
+  selector?: LabelSelector,
 ): ResultAsync<MoltTenantResult[], LobsterError> {
   const progress = (
     tenant: string,
@@ -34,8 +41,11 @@ export function runMolt(
     detail?: string,
   ) => onProgress?.({ tenant, phase, detail });
 
-  return loadRegistry().andThen(
-    (registry): ResultAsync<MoltTenantResult[], LobsterError> => {
+  // Settle spawns interrupted by a crash first, so a half-spawned tenant is
+  // either registered (and checked below) or fully cleaned up
+  return runRecover((p) => progress(p.tenant, "recovering", p.detail))
+    .andThen(() => loadRegistry())
+    .andThen((registry): ResultAsync<MoltTenantResult[], LobsterError> => {
       let tenants: Tenant[];
       if (name) {
         const found = registry.tenants.find((t) => t.name === name);
@@ -48,6 +58,9 @@ export function runMolt(
         tenants = [found];
       } else {
         tenants = registry.tenants.filter((t) => t.status === "active");
+        if (selector) {
+          tenants = selectTenants(tenants, selector);
+        }
       }
 
       if (tenants.length === 0) {
@@ -121,6 +134,5 @@ export function runMolt(
           ),
         okAsync<MoltTenantResult[], LobsterError>([]),
       );
-    },
-  );
+    });
 }
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { errAsync, okAsync } from "neverthrow";
+import * as loader from "../config/loader.js";
+import {
+  makeConfig,
+  makeRegistry,
+  makeTenant,
+  unwrapErr,
+  unwrapOk,
+} from "../test-helpers.js";
+import type { LobsterError } from "../types/index.js";
+import * as boot from "./boot.js";
+import { GRACEFUL_REBOOT_TIMEOUT_MS, runReboot } from "./reboot.js";
+
+const s = {} as Record<string, ReturnType<typeof spyOn>>;
+
+beforeEach(() => {
+  s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
+    okAsync(makeConfig()) as never,
+  );
+  s.loadRegistry = spyOn(loader, "loadRegistry").mockReturnValue(
+    okAsync(makeRegistry([makeTenant({ vmPid: 1234 })])) as never,
+  );
+  s.saveRegistry = spyOn(loader, "saveRegistry").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.shutdownVm = spyOn(boot, "shutdownVm").mockReturnValue(
+    okAsync(true) as never,
+  );
+  s.coldBoot = spyOn(boot, "coldBoot").mockImplementation(
+    (tenant: { vmPid: number | null }) => {
+      tenant.vmPid = 4321;
+      return okAsync(undefined) as never;
+    },
+  );
+});
+
+afterEach(() => {
+  for (const spy of Object.values(s)) {
+    spy.mockRestore();
+  }
+});
+
+// ── runReboot ───────────────────────────────────────────────────────────────
+
+describe("runReboot", () => {
+  test("shuts the guest down gracefully, then cold-boots", async () => {
+    const tenant = await unwrapOk(runReboot("test-tenant"));
+
+    expect(s.shutdownVm).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "test-tenant" }),
+      GRACEFUL_REBOOT_TIMEOUT_MS,
+    );
+    expect(s.coldBoot).toHaveBeenCalledTimes(1);
+    expect(tenant.vmPid).toBe(4321);
+    expect(s.saveRegistry).toHaveBeenCalledTimes(1);
+  });
+
+  test("--hard skips the graceful shutdown", async () => {
+    await unwrapOk(runReboot("test-tenant", { hard: true }));
+    expect(s.shutdownVm).not.toHaveBeenCalled();
+    expect(s.coldBoot).toHaveBeenCalledTimes(1);
+  });
+
+  test("reports when the guest had to be killed", async () => {
+    s.shutdownVm.mockReturnValue(okAsync(false) as never);
+    const details: string[] = [];
+    await unwrapOk(runReboot("test-tenant", {}, (p) => details.push(p.detail)));
+    expect(details).toContain("Guest did not exit in time, killed VM");
+  });
+
+  test("rejects a stopped tenant", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(makeRegistry([makeTenant({ status: "stopped" })])) as never,
+    );
+    const err = await unwrapErr(runReboot("test-tenant"));
+    expect(err.code).toBe("VALIDATION_FAILED");
+    expect(s.coldBoot).not.toHaveBeenCalled();
+  });
+
+  test("does not save the registry when the boot fails", async () => {
+    s.coldBoot.mockReturnValue(
+      errAsync<void, LobsterError>({
+        code: "VM_BOOT_FAILED",
+        message: "boom",
+      }) as never,
+    );
+    const err = await unwrapErr(runReboot("test-tenant"));
+    expect(err.code).toBe("VM_BOOT_FAILED");
+    expect(s.saveRegistry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import { errAsync, okAsync, type ResultAsync } from "neverthrow";
+import { loadConfig, loadRegistry, saveRegistry } from "../config/loader.js";
+import { tenantConfig } from "../config/templates.js";
+import type { LobsterError, Tenant } from "../types/index.js";
+import { coldBoot, shutdownVm } from "./boot.js";
+
+/** How long the guest gets to exit after Ctrl+Alt+Del before it is killed */
+export const GRACEFUL_REBOOT_TIMEOUT_MS = 15_000;
+
+export interface RebootProgress {
+  step: string;
+  detail: string;
+}
+
+export interface RebootOpts {
+  /** Skip Ctrl+Alt+Del and kill the VM straight away */
+  hard?: boolean;
+}
+
+/**
+ * Restart an active tenant's VM: graceful shutdown (falling back to SIGKILL
+ * after a timeout), then the same cold boot the watchdog uses for repair.
+ */
+export function runReboot(
+  name: string,
+  opts: RebootOpts = {},
+  onProgress?: (p: RebootProgress) => void,
+): ResultAsync<Tenant, LobsterError> {
+  const progress = (step: string, detail: string) =>
+    onProgress?.({ step, detail });
+
+  return loadConfig().andThen((globalConfig) =>
+    loadRegistry().andThen((registry) => {
+      const tenant = registry.tenants.find((t) => t.name === name);
+      if (!tenant) {
+        return errAsync<Tenant, LobsterError>({
+          code: "TENANT_NOT_FOUND",
+          message: `Tenant "${name}" not found`,
+        });
+      }
+      if (tenant.status !== "active") {
+        const hint =
+          tenant.status === "suspended"
+            ? " — resume it first"
+            : tenant.status === "stopped"
+              ? ` — run \`lobsterd start ${name}\` instead`
+              : "";
+        return errAsync<Tenant, LobsterError>({
+          code: "VALIDATION_FAILED",
+          message: `Tenant "${name}" is not active (status: ${tenant.status})${hint}`,
+        });
+      }
+      const config = tenantConfig(tenant, globalConfig);
+
+      const shutdown = (): ResultAsync<void, LobsterError> => {
+        if (opts.hard) {
+          progress("shutdown", "Hard reboot, skipping graceful shutdown");
+          return okAsync(undefined);
+        }
+        if (!tenant.vmPid) {
+          progress("shutdown", "VM not running, skipping shutdown");
+          return okAsync(undefined);
+        }
+        progress(
+          "shutdown",
+          `Sending Ctrl+Alt+Del (timeout ${GRACEFUL_REBOOT_TIMEOUT_MS / 1000}s)`,
+        );
+        return shutdownVm(tenant, GRACEFUL_REBOOT_TIMEOUT_MS).map(
+          (graceful) => {
+            progress(
+              "shutdown",
+              graceful
+                ? "Guest shut down cleanly"
+                : "Guest did not exit in time, killed VM",
+            );
+            return undefined;
+          },
+        );
+      };
+
+      return shutdown()
+        .andThen(() => {
+          progress("boot", "Cold-booting VM");
+          return coldBoot(tenant, config, (p) => progress(p.step, p.detail));
+        })
+        .andThen(() => {
+          progress("registry", "Updating registry");
+          return saveRegistry(registry).map(() => tenant);
+        });
+    }),
+  );
+}
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { errAsync, okAsync } from "neverthrow";
+import * as loader from "../config/loader.js";
+import * as caddy from "../system/caddy.js";
+import * as exec_ from "../system/exec.js";
+import * as image from "../system/image.js";
+import * as jailer from "../system/jailer.js";
+import * as network from "../system/network.js";
+import * as ssh from "../system/ssh.js";
+import {
+  makeConfig,
+  makeRegistry,
+  makeTenant,
+  unwrapOk,
+} from "../test-helpers.js";
+import type {
+  LobsterError,
+  SpawnJournal,
+  TenantRegistry,
+} from "../types/index.js";
+import { runRecover } from "./recover.js";
+
+// PID that is never alive, so journals look abandoned
+const DEAD_PID = 2 ** 22 + 1;
+
+function makeJournal(overrides?: Partial<SpawnJournal>): SpawnJournal {
+  return {
+    op: "spawn",
+    pid: DEAD_PID,
+    startedAt: "2025-01-01T00:00:00.000Z",
+    tenant: makeTenant({ name: "half", cid: 7, gatewayPort: 9005 }),
+    steps: ["overlay", "tap", "nat"],
+    ...overrides,
+  };
+}
+
+const s = {} as Record<string, ReturnType<typeof spyOn>>;
+
+beforeEach(() => {
+  s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
+    okAsync(makeConfig()) as never,
+  );
+  s.loadRegistry = spyOn(loader, "loadRegistry").mockReturnValue(
+    okAsync(makeRegistry([])) as never,
+  );
+  s.saveRegistry = spyOn(loader, "saveRegistry").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.loadJournals = spyOn(loader, "loadJournals").mockReturnValue(
+    okAsync([makeJournal()]) as never,
+  );
+  s.deleteJournal = spyOn(loader, "deleteJournal").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.deleteOverlay = spyOn(image, "deleteOverlay").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.deleteTap = spyOn(network, "deleteTap").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.removeNat = spyOn(network, "removeNat").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.removeIsolationRules = spyOn(
+    network,
+    "removeIsolationRules",
+  ).mockReturnValue(okAsync(undefined) as never);
+  s.execUnchecked = spyOn(exec_, "execUnchecked").mockReturnValue(
+    okAsync({ exitCode: 0, stdout: "", stderr: "" }) as never,
+  );
+  s.cleanupChroot = spyOn(jailer, "cleanupChroot").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.removeKeypair = spyOn(ssh, "removeKeypair").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.removeRoute = spyOn(caddy, "removeRoute").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+});
+
+afterEach(() => {
+  for (const spy of Object.values(s)) {
+    spy.mockRestore();
+  }
+});
+
+// ── runRecover ──────────────────────────────────────────────────────────────
+
+describe("runRecover", () => {
+  test("returns nothing when there are no journals", async () => {
+    s.loadJournals.mockReturnValue(okAsync([]) as never);
+    const results = await unwrapOk(runRecover());
+    expect(results).toEqual([]);
+  });
+
+  test("undoes journaled steps in reverse and clears the journal", async () => {
+    const order: string[] = [];
+    for (const key of ["deleteOverlay", "deleteTap", "removeNat"]) {
+      s[key].mockImplementation(() => {
+        order.push(key);
+        return okAsync(undefined) as never;
+      });
+    }
+
+    const [result] = await unwrapOk(runRecover());
+    expect(result.action).toBe("rolled-back");
+    expect(order).toEqual(["removeNat", "deleteTap", "deleteOverlay"]);
+    expect(s.deleteJournal).toHaveBeenCalledWith("half");
+    expect(s.saveRegistry).not.toHaveBeenCalled();
+  });
+
+  test("keeps undoing when a step fails", async () => {
+    s.removeNat.mockReturnValue(
+      errAsync<void, LobsterError>({
+        code: "EXEC_FAILED",
+        message: "no such rule",
+      }) as never,
+    );
+
+    const [result] = await unwrapOk(runRecover());
+    expect(result.detail).toContain("undo failed for: nat");
+    expect(s.deleteOverlay).toHaveBeenCalledTimes(1);
+    expect(s.deleteJournal).toHaveBeenCalledWith("half");
+  });
+
+  test("finishes a spawn that reached the registry step", async () => {
+    s.loadJournals.mockReturnValue(
+      okAsync([
+        makeJournal({
+          steps: [
+            "overlay",
+            "tap",
+            "nat",
+            "isolation",
+            "vm",
+            "ssh",
+            "caddy",
+            "registry",
+          ],
+        }),
+      ]) as never,
+    );
+
+    const [result] = await unwrapOk(runRecover());
+    expect(result.action).toBe("completed");
+    const saved = s.saveRegistry.mock.calls[0][0] as TenantRegistry;
+    expect(saved.tenants.map((t) => t.name)).toEqual(["half"]);
+    expect(s.deleteOverlay).not.toHaveBeenCalled();
+  });
+
+  test("clears the journal of an already registered tenant", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(makeRegistry([makeTenant({ name: "half" })])) as never,
+    );
+
+    const [result] = await unwrapOk(runRecover());
+    expect(result.action).toBe("cleared");
+    expect(s.deleteJournal).toHaveBeenCalledWith("half");
+    expect(s.deleteTap).not.toHaveBeenCalled();
+  });
+
+  test("skips journals owned by a live process", async () => {
+    s.loadJournals.mockReturnValue(
+      okAsync([makeJournal({ pid: process.ppid })]) as never,
+    );
+
+    const [result] = await unwrapOk(runRecover());
+    expect(result.action).toBe("skipped");
+    expect(s.deleteJournal).not.toHaveBeenCalled();
+    expect(s.deleteTap).not.toHaveBeenCalled();
+  });
+
+  test("skips journals of a spawn running in this process", async () => {
+    s.loadJournals.mockReturnValue(
+      okAsync([makeJournal({ pid: process.pid })]) as never,
+    );
+
+    const [result] = await unwrapOk(runRecover());
+    expect(result.action).toBe("skipped");
+    expect(s.deleteJournal).not.toHaveBeenCalled();
+    expect(s.deleteTap).not.toHaveBeenCalled();
+  });
+});
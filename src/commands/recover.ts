@@ -0,0 +1,149 @@
+import { okAsync, type ResultAsync } from "neverthrow";
+import {
+  deleteJournal,
+  loadConfig,
+  loadJournals,
+  loadRegistry,
+  saveRegistry,
+} from "../config/loader.js";
+import type {
+  LobsterdConfig,
+  LobsterError,
+  SpawnJournal,
+  TenantRegistry,
+} from "../types/index.js";
+import { undoSpawnStep } from "./spawn.js";
+
+export interface RecoverResult {
+  tenant: string;
+  action: "rolled-back" | "completed" | "cleared" | "skipped";
+  detail: string;
+}
+
+export interface RecoverProgress {
+  tenant: string;
+  detail: string;
+}
+
+function isPidAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve spawn journals left behind by a lobsterd process that died
+ * mid-spawn. A spawn that reached the registry step is finished (the tenant
+ * is registered and molt repairs anything that was left half-started);
+ * anything earlier is rolled back by undoing the journaled steps in reverse.
+ * Journals owned by a live process belong to a spawn still in progress and
+ * are left alone, including our own: the buoy serves spawns and molts from
+ * one process.
+ */
+export function runRecover(
+  onProgress?: (p: RecoverProgress) => void,
+): ResultAsync<RecoverResult[], LobsterError> {
+  return loadConfig().andThen((config) =>
+    loadJournals().andThen((journals) =>
+      journals.reduce<ResultAsync<RecoverResult[], LobsterError>>(
+        (acc, journal) =>
+          acc.andThen((results) =>
+            recoverOne(journal, config, onProgress).map((r) => [...results, r]),
+          ),
+        okAsync([]),
+      ),
+    ),
+  );
+}
+
+function recoverOne(
+  journal: SpawnJournal,
+  config: LobsterdConfig,
+  onProgress?: (p: RecoverProgress) => void,
+): ResultAsync<RecoverResult, LobsterError> {
+  const { tenant } = journal;
+  const progress = (detail: string) =>
+    onProgress?.({ tenant: tenant.name, detail });
+
+  if (isPidAlive(journal.pid)) {
+    progress(`Spawn still running in PID ${journal.pid}, skipping`);
+    return okAsync({
+      tenant: tenant.name,
+      action: "skipped",
+      detail: `Spawn in progress (PID ${journal.pid})`,
+    });
+  }
+
+  return loadRegistry().andThen((registry) => {
+    if (registry.tenants.some((t) => t.name === tenant.name)) {
+      progress("Tenant already registered, clearing journal");
+      return deleteJournal(tenant.name).map(
+        (): RecoverResult => ({
+          tenant: tenant.name,
+          action: "cleared",
+          detail: "Spawn had already completed",
+        }),
+      );
+    }
+    if (journal.steps.includes("registry")) {
+      return completeSpawn(journal, registry, progress);
+    }
+    return rollbackSpawn(journal, config, progress);
+  });
+}
+
+function completeSpawn(
+  journal: SpawnJournal,
+  registry: TenantRegistry,
+  progress: (detail: string) => void,
+): ResultAsync<RecoverResult, LobsterError> {
+  const { tenant } = journal;
+  progress("Spawn reached the registry step, registering tenant");
+  registry.tenants.push(tenant);
+  return saveRegistry(registry)
+    .andThen(() => deleteJournal(tenant.name))
+    .map(() => ({
+      tenant: tenant.name,
+      action: "completed" as const,
+      detail: "Registered tenant — run `lobsterd molt` to verify its VM",
+    }));
+}
+
+function rollbackSpawn(
+  journal: SpawnJournal,
+  config: LobsterdConfig,
+  progress: (detail: string) => void,
+): ResultAsync<RecoverResult, LobsterError> {
+  const { tenant } = journal;
+  const steps = [...journal.steps].reverse();
+  const failed: string[] = [];
+
+  // Best-effort, like the in-process rollback: the last journaled step may
+  // not have got far enough to leave anything behind, so a failing undo
+  // doesn't stop the rest
+  const chain = steps.reduce<ResultAsync<void, LobsterError>>(
+    (acc, step) =>
+      acc.andThen(() => {
+        progress(`Undoing ${step}`);
+        return undoSpawnStep(step, tenant, config).orElse(() => {
+          failed.push(step);
+          return okAsync(undefined);
+        });
+      }),
+    okAsync(undefined),
+  );
+
+  return chain
+    .andThen(() => deleteJournal(tenant.name))
+    .map(() => ({
+      tenant: tenant.name,
+      action: "rolled-back" as const,
+      detail:
+        failed.length > 0
+          ? `Undid ${steps.length - failed.length}/${steps.length} step(s), undo failed for: ${failed.join(", ")}`
+          : `Undid ${steps.length} step(s)`,
+    }));
+}
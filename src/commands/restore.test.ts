@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { errAsync, okAsync } from "neverthrow";
+import * as loader from "../config/loader.js";
+import * as exec_ from "../system/exec.js";
+import * as image from "../system/image.js";
+import * as jailer from "../system/jailer.js";
+import {
+  makeConfig,
+  makeRegistry,
+  makeTenant,
+  unwrapErr,
+  unwrapOk,
+} from "../test-helpers.js";
+import type { ExecResult, LobsterError } from "../types/index.js";
+import * as boot from "./boot.js";
+import { runRestore } from "./restore.js";
+import * as spawn from "./spawn.js";
+
+const OVERLAY = "/var/lib/lobsterd/overlays/test-tenant.ext4";
+
+describe("runRestore", () => {
+  const s = {} as Record<string, ReturnType<typeof spyOn>>;
+
+  beforeEach(() => {
+    s.file = spyOn(Bun, "file").mockReturnValue({
+      exists: () => Promise.resolve(true),
+    } as never);
+    s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
+      okAsync(makeConfig()) as never,
+    );
+    s.loadRegistry = spyOn(loader, "loadRegistry").mockReturnValue(
+      okAsync(
+        makeRegistry([makeTenant({ overlayPath: OVERLAY, vmPid: 1234 })]),
+      ) as never,
+    );
+    s.saveRegistry = spyOn(loader, "saveRegistry").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.exec = spyOn(exec_, "exec").mockReturnValue(
+      okAsync<ExecResult, LobsterError>({
+        exitCode: 0,
+        stdout: "",
+        stderr: "",
+      }) as never,
+    );
+    s.moveOverlay = spyOn(image, "moveOverlay").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.deleteOverlay = spyOn(image, "deleteOverlay").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.overlaySizeMb = spyOn(image, "overlaySizeMb").mockReturnValue(
+      okAsync(8192) as never,
+    );
+    s.cleanupChroot = spyOn(jailer, "cleanupChroot").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.coldBoot = spyOn(boot, "coldBoot").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.runSpawn = spyOn(spawn, "runSpawn").mockImplementation(
+      (name: string) => okAsync(makeTenant({ name })) as never,
+    );
+  });
+
+  afterEach(() => {
+    for (const spy of Object.values(s)) {
+      spy.mockRestore();
+    }
+  });
+
+  test("rejects a missing tarball", async () => {
+    s.file.mockReturnValue({ exists: () => Promise.resolve(false) } as never);
+    const err = await unwrapErr(runRestore("test-tenant", "/nope.tar.gz"));
+    expect(err.code).toBe("VALIDATION_FAILED");
+    expect(s.loadConfig).not.toHaveBeenCalled();
+  });
+
+  test("replaces an existing tenant's overlay and cold-boots it", async () => {
+    const tenant = await unwrapOk(runRestore("test-tenant", "/snap.tar.gz"));
+
+    expect(s.moveOverlay.mock.calls).toEqual([
+      [OVERLAY, `${OVERLAY}.pre-restore`],
+      ["/var/lib/lobsterd/overlays/.restore-test-tenant/overlay.ext4", OVERLAY],
+    ]);
+    expect(s.coldBoot).toHaveBeenCalledTimes(1);
+    expect(s.saveRegistry).toHaveBeenCalledTimes(1);
+    expect(s.runSpawn).not.toHaveBeenCalled();
+    expect(tenant.status).toBe("active");
+    expect(tenant.resources?.diskSizeMb).toBe(8192);
+  });
+
+  test("rolls back to the original overlay when the boot fails", async () => {
+    s.coldBoot
+      .mockReturnValueOnce(
+        errAsync<void, LobsterError>({
+          code: "VM_BOOT_FAILED",
+          message: "mock boot failure",
+        }) as never,
+      )
+      .mockReturnValueOnce(okAsync(undefined) as never);
+
+    const err = await unwrapErr(runRestore("test-tenant", "/snap.tar.gz"));
+
+    expect(err.code).toBe("RESTORE_FAILED");
+    expect(err.message).toContain("rolled back 3/3 steps");
+    expect(s.deleteOverlay).toHaveBeenCalledWith(OVERLAY);
+    expect(s.moveOverlay).toHaveBeenLastCalledWith(
+      `${OVERLAY}.pre-restore`,
+      OVERLAY,
+    );
+    // Original VM is booted again on its old overlay
+    expect(s.coldBoot).toHaveBeenCalledTimes(2);
+    expect(s.saveRegistry).not.toHaveBeenCalled();
+  });
+
+  test("does not reboot a healthy VM when the swap itself fails", async () => {
+    s.moveOverlay
+      .mockReturnValueOnce(okAsync(undefined) as never)
+      .mockReturnValueOnce(
+        errAsync<void, LobsterError>({
+          code: "EXEC_FAILED",
+          message: "mv failed",
+        }) as never,
+      );
+
+    await unwrapErr(runRestore("test-tenant", "/snap.tar.gz"));
+    expect(s.coldBoot).not.toHaveBeenCalled();
+  });
+
+  test("swaps the overlay of a stopped tenant without booting it", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([
+          makeTenant({ overlayPath: OVERLAY, status: "stopped", vmPid: null }),
+        ]),
+      ) as never,
+    );
+    const tenant = await unwrapOk(runRestore("test-tenant", "/snap.tar.gz"));
+    expect(tenant.status).toBe("stopped");
+    expect(s.coldBoot).not.toHaveBeenCalled();
+    expect(s.saveRegistry).toHaveBeenCalledTimes(1);
+  });
+
+  test("--as spawns a new tenant on the unpacked overlay", async () => {
+    const tenant = await unwrapOk(
+      runRestore("test-tenant", "/snap.tar.gz", { as: "copy" }),
+    );
+
+    expect(tenant.name).toBe("copy");
+    expect(s.runSpawn).toHaveBeenCalledWith(
+      "copy",
+      expect.objectContaining({
+        overlayFrom: "/var/lib/lobsterd/overlays/.restore-copy/overlay.ext4",
+      }),
+      undefined,
+    );
+    expect(s.moveOverlay).not.toHaveBeenCalled();
+  });
+
+  test("cleans up the staging directory on failure", async () => {
+    s.runSpawn.mockReturnValue(
+      errAsync<never, LobsterError>({
+        code: "TENANT_EXISTS",
+        message: "exists",
+      }) as never,
+    );
+
+    await unwrapErr(runRestore("test-tenant", "/snap.tar.gz", { as: "copy" }));
+    expect(s.exec).toHaveBeenLastCalledWith([
+      "rm",
+      "-rf",
+      "/var/lib/lobsterd/overlays/.restore-copy",
+    ]);
+  });
+});
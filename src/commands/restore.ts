@@ -0,0 +1,218 @@
+import { join, resolve } from "node:path";
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import { loadConfig, loadRegistry, saveRegistry } from "../config/loader.js";
+import { tenantResources } from "../config/resources.js";
+import { tenantConfig } from "../config/templates.js";
+import { exec } from "../system/exec.js";
+import * as image from "../system/image.js";
+import * as jailer from "../system/jailer.js";
+import type {
+  LobsterdConfig,
+  LobsterError,
+  Tenant,
+  TenantRegistry,
+} from "../types/index.js";
+import { coldBoot } from "./boot.js";
+import { runSpawn } from "./spawn.js";
+import { rollback, type UndoFn } from "./undo.js";
+
+export interface RestoreProgress {
+  step: string;
+  detail: string;
+}
+
+export interface RestoreOpts {
+  /** Spawn the restored overlay as a new tenant instead of replacing `name` */
+  as?: string;
+}
+
+/** Name of the overlay image inside a `runSnap` tarball */
+const TARBALL_OVERLAY = "overlay.ext4";
+
+/**
+ * Restore a tenant from a `runSnap` tarball. If `name` exists (and `--as` is
+ * not given) its overlay is swapped for the tarball's and the VM cold-booted;
+ * otherwise a new tenant is spawned on top of the unpacked overlay.
+ */
+export function runRestore(
+  name: string,
+  tarball: string,
+  opts: RestoreOpts = {},
+  onProgress?: (p: RestoreProgress) => void,
+): ResultAsync<Tenant, LobsterError> {
+  const progress = (step: string, detail: string) =>
+    onProgress?.({ step, detail });
+  const target = opts.as ?? name;
+  const tarPath = resolve(tarball);
+
+  let config: LobsterdConfig;
+  let registry: TenantRegistry;
+  let stagingDir: string;
+
+  const cleanupStaging = () =>
+    exec(["rm", "-rf", stagingDir])
+      .map(() => undefined)
+      .orElse(() => okAsync(undefined));
+
+  return ResultAsync.fromSafePromise(Bun.file(tarPath).exists())
+    .andThen((exists): ResultAsync<LobsterdConfig, LobsterError> => {
+      if (!exists) {
+        return errAsync({
+          code: "VALIDATION_FAILED",
+          message: `Snapshot tarball not found: ${tarball}`,
+        });
+      }
+      return loadConfig();
+    })
+    .andThen((c) => {
+      config = c;
+      return loadRegistry();
+    })
+    .andThen((r) => {
+      registry = r;
+      // Stage next to the overlays so adopting the image is a same-fs rename
+      stagingDir = join(config.overlay.baseDir, `.restore-${target}`);
+      progress("unpack", `Unpacking ${tarball}`);
+      return exec(["mkdir", "-p", stagingDir])
+        .andThen(() =>
+          exec(
+            [
+              "tar",
+              "--sparse",
+              "-xzf",
+              tarPath,
+              "-C",
+              stagingDir,
+              TARBALL_OVERLAY,
+            ],
+            { timeout: 120_000 },
+          ),
+        )
+        .mapErr(
+          (e): LobsterError => ({
+            code: "RESTORE_FAILED",
+            message: `Failed to unpack ${tarball}: ${e.message}`,
+            cause: e,
+          }),
+        );
+    })
+    .andThen(() => {
+      const staged = join(stagingDir, TARBALL_OVERLAY);
+      const source = registry.tenants.find((t) => t.name === name);
+      if (source && !opts.as) {
+        return replaceOverlay(source, staged, config, registry, progress);
+      }
+      // Carry the source's sizing and template over when it still exists
+      return runSpawn(
+        target,
+        {
+          template: source?.template,
+          resources: source?.resources,
+          overlayFrom: staged,
+        },
+        onProgress,
+      );
+    })
+    .andThen((tenant) => cleanupStaging().map(() => tenant))
+    .orElse((error) =>
+      stagingDir
+        ? cleanupStaging().andThen(() => errAsync(error))
+        : errAsync(error),
+    );
+}
+
+function replaceOverlay(
+  tenant: Tenant,
+  staged: string,
+  baseConfig: LobsterdConfig,
+  registry: TenantRegistry,
+  progress: (step: string, detail: string) => void,
+): ResultAsync<Tenant, LobsterError> {
+  if (tenant.status === "removing") {
+    return errAsync({
+      code: "VALIDATION_FAILED",
+      message: `Tenant "${tenant.name}" is being removed`,
+    });
+  }
+
+  const config = tenantConfig(tenant, baseConfig);
+  const backupPath = `${tenant.overlayPath}.pre-restore`;
+  const wasActive = tenant.status === "active";
+  const snapshotDir = tenant.suspendInfo?.snapshotDir ?? null;
+  const originalResources = tenant.resources;
+  const undoStack: UndoFn[] = [];
+
+  let bootAttempted = false;
+
+  // Swap files while the old VM (if any) still runs — Firecracker keeps the
+  // old inode open through its chroot hard link until it is killed
+  progress("overlay", `Backing up current overlay to ${backupPath}`);
+  return image
+    .moveOverlay(tenant.overlayPath, backupPath)
+    .andThen(() => {
+      // Registered before the file undos so it runs last, once the old
+      // overlay is back in place
+      undoStack.push(() => {
+        tenant.resources = originalResources;
+        if (!bootAttempted) {
+          return okAsync(undefined);
+        }
+        if (wasActive) {
+          return coldBoot(tenant, config);
+        }
+        // A suspended tenant stays suspended — its snapshot still matches the
+        // original overlay, so just tear down the half-booted VM
+        if (tenant.vmPid) {
+          try {
+            process.kill(tenant.vmPid, "SIGKILL");
+          } catch {}
+          tenant.vmPid = null;
+        }
+        return jailer.cleanupChroot(config.jailer.chrootBaseDir, tenant.vmId);
+      });
+      undoStack.push(() => image.moveOverlay(backupPath, tenant.overlayPath));
+      progress("overlay", "Swapping in restored overlay");
+      return image.moveOverlay(staged, tenant.overlayPath);
+    })
+    .andThen(() => {
+      undoStack.push(() => image.deleteOverlay(tenant.overlayPath));
+      return image.overlaySizeMb(tenant.overlayPath);
+    })
+    .andThen((diskSizeMb) => {
+      tenant.resources = {
+        ...tenantResources(tenant, config),
+        diskSizeMb,
+      };
+      if (tenant.status === "stopped") {
+        progress("boot", "Tenant is stopped, leaving it down");
+        return okAsync(undefined);
+      }
+      progress("boot", "Cold-booting VM on restored overlay");
+      bootAttempted = true;
+      return coldBoot(tenant, config, (p) => progress(p.step, p.detail)).map(
+        () => {
+          tenant.status = "active";
+          tenant.suspendInfo = null;
+          return undefined;
+        },
+      );
+    })
+    .andThen(() => {
+      progress("registry", "Updating registry");
+      return saveRegistry(registry);
+    })
+    .andThen(() => {
+      progress("cleanup", "Removing pre-restore backup");
+      const leftovers = [backupPath, ...(snapshotDir ? [snapshotDir] : [])];
+      return exec(["rm", "-rf", ...leftovers])
+        .map(() => tenant)
+        .orElse(() => okAsync(tenant));
+    })
+    .orElse((error) =>
+      rollback(undoStack, {
+        ...error,
+        code: "RESTORE_FAILED",
+        message: `Restore of "${tenant.name}" failed: ${error.message}`,
+      }),
+    );
+}
@@ -1,8 +1,9 @@
 import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
-import { okAsync } from "neverthrow";
+import { errAsync, okAsync } from "neverthrow";
 import * as loader from "../config/loader.js";
 import * as exec_ from "../system/exec.js";
 import * as fc from "../system/firecracker.js";
+import * as host from "../system/host.js";
 import * as jailer from "../system/jailer.js";
 import * as vsock from "../system/vsock.js";
 import {
@@ -15,6 +16,8 @@ import {
 import type { ExecResult, LobsterError } from "../types/index.js";
 
 import { runResume } from "./resume.js";
+import * as points from "./rollback-points.js";
+import * as secrets from "./secrets.js";
 
 const suspendedTenant = makeTenant({
   status: "suspended",
@@ -37,6 +40,12 @@ describe("runResume", () => {
     s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
       okAsync(makeConfig()) as never,
     );
+    s.hostMemInfo = spyOn(host, "hostMemInfo").mockReturnValue(
+      okAsync({ totalMb: 65536, availableMb: 60000 }) as never,
+    );
+    s.hostDiskInfo = spyOn(host, "hostDiskInfo").mockReturnValue(
+      okAsync({ totalMb: 1_000_000, freeMb: 900_000 }) as never,
+    );
     s.loadRegistry = spyOn(loader, "loadRegistry").mockReturnValue(
       okAsync(makeRegistry([suspendedTenant])) as never,
     );
@@ -69,6 +78,10 @@ describe("runResume", () => {
     s.setGuestTime = spyOn(vsock, "setGuestTime").mockReturnValue(
       okAsync(undefined) as never,
     );
+    s.injectStoredSecrets = spyOn(
+      secrets,
+      "injectStoredSecrets",
+    ).mockReturnValue(okAsync(undefined) as never);
     s.bunSpawn = spyOn(Bun, "spawn").mockReturnValue({
       pid: 99999,
       unref: () => {},
@@ -112,6 +125,56 @@ describe("runResume", () => {
     expect(err.code).toBe("RESUME_FAILED");
   });
 
+  test("refuses with CAPACITY_EXCEEDED when the host is out of memory", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(makeRegistry([suspendedTenant])) as never,
+    );
+    s.hostMemInfo.mockReturnValue(
+      okAsync({ totalMb: 65536, availableMb: 600 }) as never,
+    );
+
+    const err = await unwrapErr(runResume(suspendedTenant.name));
+    expect(err.code).toBe("CAPACITY_EXCEEDED");
+    expect(s.loadSnapshot).not.toHaveBeenCalled();
+  });
+
+  test("finishes an overlay grow made while suspended", async () => {
+    const grown = makeTenant({
+      status: "suspended",
+      vmPid: null,
+      suspendInfo: {
+        ...(suspendedTenant.suspendInfo as NonNullable<
+          typeof suspendedTenant.suspendInfo
+        >),
+        pendingFsResize: true,
+      },
+    });
+    s.loadRegistry.mockReturnValue(okAsync(makeRegistry([grown])) as never);
+    s.updateDrive = spyOn(fc, "updateDrive").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.resizeGuestFs = spyOn(vsock, "resizeGuestFs").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+
+    await unwrapOk(runResume(grown.name));
+    expect(s.updateDrive).toHaveBeenCalledWith(grown.socketPath, "overlay", {
+      pathOnHost: "/overlay.ext4",
+    });
+    expect(s.resizeGuestFs).toHaveBeenCalledTimes(1);
+  });
+
+  test("still resumes when the secrets can't be pushed", async () => {
+    s.injectStoredSecrets.mockReturnValue(
+      errAsync({ code: "CRYPTO_FAILED", message: "bad key" }) as never,
+    );
+    s.loadRegistry.mockReturnValue(
+      okAsync(makeRegistry([structuredClone(suspendedTenant)])) as never,
+    );
+    const tenant = await unwrapOk(runResume(suspendedTenant.name));
+    expect(tenant.status).toBe("active");
+  });
+
   test("happy path resumes suspended tenant", async () => {
     const tenant = await unwrapOk(runResume(suspendedTenant.name));
 
@@ -125,9 +188,87 @@ describe("runResume", () => {
 
     expect(s.loadSnapshot).toHaveBeenCalled();
     expect(s.setGuestTime).toHaveBeenCalled();
+    // Pushed even when empty: secrets may have been removed while suspended
+    expect(s.injectStoredSecrets.mock.calls[0][3]).toBe(true);
     expect(s.saveRegistry).toHaveBeenCalled();
 
     expect(tenant.status).toBe("active");
     expect(tenant.vmPid).toBe(99999);
+    expect(tenant.snapshotBase).toBeUndefined();
+  });
+
+  test("keeps the memory file as a diff base when diff snapshots are on", async () => {
+    const config = makeConfig();
+    s.loadConfig.mockReturnValue(
+      okAsync({
+        ...config,
+        firecracker: { ...config.firecracker, diffSnapshots: true },
+      }) as never,
+    );
+    const snapshotDir = "/var/lib/lobsterd/snapshots/test-tenant";
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([
+          makeTenant({
+            status: "suspended",
+            vmPid: null,
+            suspendInfo: {
+              suspendedAt: "2025-01-01T00:00:00.000Z",
+              snapshotDir,
+              cronSchedules: [],
+              nextWakeAtMs: null,
+              wakeReason: null,
+              lastRxBytes: 0,
+            },
+          }),
+        ]),
+      ) as never,
+    );
+    const tenant = await unwrapOk(runResume("test-tenant"));
+
+    expect(s.loadSnapshot.mock.calls[0][3]).toEqual({ trackDirtyPages: true });
+    expect(s.exec).not.toHaveBeenCalledWith(["rm", "-rf", expect.any(String)]);
+    expect(tenant.snapshotBase).toEqual({ dir: snapshotDir, vmPid: 99999 });
+  });
+
+  test("keeps a snapshot with a captured overlay as a rollback point", async () => {
+    s.pruneRollbackPoints = spyOn(
+      points,
+      "pruneRollbackPoints",
+    ).mockReturnValue(okAsync([]) as never);
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([
+          makeTenant({
+            status: "suspended",
+            vmPid: null,
+            suspendInfo: {
+              suspendedAt: "2025-01-01T12:34:56.000Z",
+              snapshotDir: "/var/lib/lobsterd/snapshots/test-tenant",
+              cronSchedules: [],
+              nextWakeAtMs: null,
+              wakeReason: null,
+              lastRxBytes: 0,
+              overlayCaptured: true,
+            },
+          }),
+        ]),
+      ) as never,
+    );
+    await unwrapOk(runResume("test-tenant"));
+
+    const calls = s.exec.mock.calls.map((c: unknown[]) => c[0]);
+    expect(calls).toContainEqual([
+      "mkdir",
+      "-p",
+      "/var/lib/lobsterd/rollback/test-tenant/20250101T123456Z",
+    ]);
+    expect(calls).toContainEqual([
+      "mv",
+      "-f",
+      "/var/lib/lobsterd/snapshots/test-tenant/mem_file",
+      "/var/lib/lobsterd/rollback/test-tenant/20250101T123456Z",
+    ]);
+    expect(s.pruneRollbackPoints).toHaveBeenCalledWith("test-tenant", 1);
   });
 });
@@ -1,5 +1,7 @@
 import { errAsync, okAsync, ResultAsync } from "neverthrow";
 import { loadConfig, loadRegistry, saveRegistry } from "../config/loader.js";
+import { tenantResources } from "../config/resources.js";
+import { tenantConfig } from "../config/templates.js";
 import { exec } from "../system/exec.js";
 import * as fc from "../system/firecracker.js";
 import * as jailer from "../system/jailer.js";
@@ -10,6 +12,10 @@ import type {
   Tenant,
   TenantRegistry,
 } from "../types/index.js";
+import { admitTenant } from "./capacity.js";
+import { keepRollbackPoint, pruneRollbackPoints } from "./rollback-points.js";
+import { injectStoredSecrets } from "./secrets.js";
+import { pushRateLimits } from "./throttle.js";
 
 export interface ResumeProgress {
   step: string;
@@ -49,9 +55,17 @@ export function runResume(
         });
       }
       tenant = found;
+      const globalConfig = config;
+      config = tenantConfig(found, config);
       snapshotDir = found.suspendInfo.snapshotDir;
       registry = reg;
-      return okAsync(undefined);
+      progress("capacity", "Checking host capacity");
+      return admitTenant(
+        globalConfig,
+        reg.tenants,
+        tenantResources(found, config),
+        { newDisk: false },
+      );
     })
     .andThen(() => {
       // Step 1: Clean stale jailer chroot
@@ -63,15 +77,13 @@ export function runResume(
       progress("firecracker", "Starting Firecracker microVM via jailer");
       return ResultAsync.fromPromise(
         (async () => {
-          const memLimitBytes =
-            (config.firecracker.defaultMemSizeMb + 128) * 1024 * 1024;
-          const cpuQuotaUs = config.firecracker.defaultVcpuCount * 100_000;
+          const { vcpuCount, memSizeMb } = tenantResources(tenant, config);
           const args = jailer.buildJailerArgs(
             config.jailer,
             config.firecracker.binaryPath,
             tenant.vmId,
             tenant.jailUid,
-            { memLimitBytes, cpuQuotaUs, cpuPeriodUs: 100_000 },
+            jailer.cgroupLimits(vcpuCount, memSizeMb),
           );
           const proc = Bun.spawn(args, {
             stdout: "ignore",
@@ -133,7 +145,20 @@ export function runResume(
     .andThen(() => {
       // Step 5: Load snapshot (VM resumes instantly)
       progress("resume", "Loading snapshot and resuming VM");
-      return fc.loadSnapshot(tenant.socketPath, "/snapshot_file", "/mem_file");
+      return fc.loadSnapshot(tenant.socketPath, "/snapshot_file", "/mem_file", {
+        trackDirtyPages: config.firecracker.diffSnapshots,
+      });
+    })
+    .andThen(() => {
+      // Step 5.1: Limits may have been throttled while suspended
+      if (!tenant.rateLimits) {
+        return okAsync(undefined);
+      }
+      progress("limits", "Applying rate-limit overrides");
+      return pushRateLimits(tenant, config, tenant.rateLimits).orElse((e) => {
+        progress("limits", `Failed to apply rate limits: ${e.message}`);
+        return okAsync(undefined);
+      });
     })
     .andThen(() => {
       // Step 5.5: Sync guest clock (stale after snapshot restore)
@@ -146,8 +171,64 @@ export function runResume(
         )
         .orElse(() => okAsync(undefined));
     })
+    .andThen(() =>
+      // Step 5.5b: Secrets may have changed while suspended, so push even
+      // an empty set
+      injectStoredSecrets(tenant, config, progress, true).orElse((e) => {
+        progress("secrets", `Failed to inject secrets: ${e.message}`);
+        return okAsync(undefined);
+      }),
+    )
     .andThen(() => {
-      // Step 6: Clean up snapshot files from persistent storage
+      // Step 5.6: Finish an overlay grow done while suspended
+      if (!tenant.suspendInfo?.pendingFsResize) {
+        return okAsync(undefined);
+      }
+      progress("grow", "Growing guest filesystem onto enlarged overlay");
+      return fc
+        .updateDrive(tenant.socketPath, "overlay", {
+          pathOnHost: "/overlay.ext4",
+        })
+        .andThen(() =>
+          vsock.resizeGuestFs(
+            tenant.ipAddress,
+            config.vsock.agentPort,
+            tenant.agentToken,
+          ),
+        )
+        .orElse((e) => {
+          progress(
+            "grow",
+            `${e.message} — re-run \`lobsterd grow ${tenant.name} --size ${tenantResources(tenant, config).diskSizeMb}M\` to retry`,
+          );
+          return okAsync(undefined);
+        });
+    })
+    .andThen(() => {
+      // Step 5.7: The snapshot just resumed from becomes a rollback point
+      const retention = config.rollback?.retention ?? 0;
+      const info = tenant.suspendInfo;
+      if (!retention || !info?.overlayCaptured) {
+        return okAsync(undefined);
+      }
+      progress("rollback", "Keeping snapshot as a rollback point");
+      return keepRollbackPoint(name, snapshotDir, info.suspendedAt, {
+        keepBase: config.firecracker.diffSnapshots ?? false,
+      })
+        .andThen(() => pruneRollbackPoints(name, retention))
+        .map(() => undefined)
+        .orElse((e) => {
+          progress("rollback", `Failed to keep rollback point: ${e.message}`);
+          return okAsync(undefined);
+        });
+    })
+    .andThen(() => {
+      // Step 6: Clean up snapshot files from persistent storage, unless the
+      // memory file is the base the next Diff snapshot is merged onto
+      if (config.firecracker.diffSnapshots) {
+        progress("cleanup", "Keeping memory file as diff snapshot base");
+        return okAsync(undefined);
+      }
       progress("cleanup", "Removing snapshot from persistent storage");
       return exec(["rm", "-rf", snapshotDir]).orElse(() =>
         okAsync({ exitCode: 0, stdout: "", stderr: "" }),
@@ -159,6 +240,11 @@ export function runResume(
       tenant.status = "active";
       tenant.vmPid = vmProcPid;
       tenant.suspendInfo = null;
+      if (config.firecracker.diffSnapshots && vmProcPid) {
+        tenant.snapshotBase = { dir: snapshotDir, vmPid: vmProcPid };
+      } else {
+        delete tenant.snapshotBase;
+      }
       return saveRegistry(registry).map(() => tenant);
     });
 }
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import * as fsp from "node:fs/promises";
+import { okAsync } from "neverthrow";
+import * as exec_ from "../system/exec.js";
+import { unwrapOk } from "../test-helpers.js";
+import type { ExecResult, LobsterError } from "../types/index.js";
+import {
+  keepRollbackPoint,
+  listRollbackPoints,
+  pruneRollbackPoints,
+  rollbackPointId,
+} from "./rollback-points.js";
+
+const DIR = "/var/lib/lobsterd/rollback/test-tenant";
+const SNAP = "/var/lib/lobsterd/snapshots/test-tenant";
+
+describe("rollback points", () => {
+  const s = {} as Record<string, ReturnType<typeof spyOn>>;
+
+  beforeEach(() => {
+    s.readdir = spyOn(fsp, "readdir").mockResolvedValue([
+      "20250103T000000Z",
+      "20250101T000000Z",
+      "stray",
+      "20250102T000000Z",
+    ] as never);
+    s.exec = spyOn(exec_, "exec").mockReturnValue(
+      okAsync<ExecResult, LobsterError>({
+        exitCode: 0,
+        stdout: "",
+        stderr: "",
+      }) as never,
+    );
+  });
+
+  afterEach(() => {
+    for (const spy of Object.values(s)) {
+      spy.mockRestore();
+    }
+  });
+
+  test("rollbackPointId compacts an ISO timestamp", () => {
+    expect(rollbackPointId("2025-01-01T12:34:56.789Z")).toBe(
+      "20250101T123456Z",
+    );
+  });
+
+  test("lists point IDs oldest first, ignoring anything else", async () => {
+    expect(await unwrapOk(listRollbackPoints("test-tenant"))).toEqual([
+      "20250101T000000Z",
+      "20250102T000000Z",
+      "20250103T000000Z",
+    ]);
+  });
+
+  test("a tenant without a rollback dir has no points", async () => {
+    s.readdir.mockRejectedValue(
+      Object.assign(new Error("missing"), { code: "ENOENT" }),
+    );
+    expect(await unwrapOk(listRollbackPoints("test-tenant"))).toEqual([]);
+  });
+
+  test("prune deletes all but the newest points", async () => {
+    const removed = await unwrapOk(pruneRollbackPoints("test-tenant", 1));
+
+    expect(removed).toEqual(["20250101T000000Z", "20250102T000000Z"]);
+    expect(s.exec).toHaveBeenCalledWith([
+      "rm",
+      "-rf",
+      `${DIR}/20250101T000000Z`,
+      `${DIR}/20250102T000000Z`,
+    ]);
+  });
+
+  test("keepRollbackPoint moves the snapshot files into the point", async () => {
+    const id = await unwrapOk(
+      keepRollbackPoint("test-tenant", SNAP, "2025-01-01T00:00:00.000Z", {
+        keepBase: false,
+      }),
+    );
+
+    expect(id).toBe("20250101T000000Z");
+    const calls = s.exec.mock.calls.map((c: unknown[]) => c[0]);
+    expect(calls).toEqual([
+      ["mkdir", "-p", `${DIR}/${id}`],
+      ["mv", "-f", `${SNAP}/snapshot_file`, `${DIR}/${id}`],
+      ["mv", "-f", `${SNAP}/mem_file`, `${DIR}/${id}`],
+      ["mv", "-f", `${SNAP}/overlay.ext4`, `${DIR}/${id}`],
+    ]);
+  });
+
+  test("keepRollbackPoint copies the diff base instead of moving it", async () => {
+    await unwrapOk(
+      keepRollbackPoint("test-tenant", SNAP, "2025-01-01T00:00:00.000Z", {
+        keepBase: true,
+      }),
+    );
+
+    const calls = s.exec.mock.calls.map((c: unknown[]) => c[0] as string[]);
+    expect(calls[2][0]).toBe("cp");
+    expect(calls[3][0]).toBe("mv");
+  });
+});
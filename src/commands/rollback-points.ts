@@ -0,0 +1,94 @@
+import { readdir } from "node:fs/promises";
+import { okAsync, ResultAsync } from "neverthrow";
+import { ROLLBACK_DIR } from "../config/defaults.js";
+import { exec } from "../system/exec.js";
+import type { LobsterError } from "../types/index.js";
+
+/** Name of the overlay copy kept next to a suspend snapshot */
+export const ROLLBACK_OVERLAY = "overlay.ext4";
+/** Files that make up a complete rollback point */
+export const ROLLBACK_FILES = ["snapshot_file", "mem_file", ROLLBACK_OVERLAY];
+
+const POINT_ID_REGEX = /^\d{8}T\d{6}Z$/;
+
+/** `2025-01-01T12:34:56.789Z` → `20250101T123456Z` */
+export function rollbackPointId(timestamp: string): string {
+  return new Date(timestamp)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d+Z$/, "Z");
+}
+
+export function rollbackPointDir(name: string, id: string): string {
+  return `${ROLLBACK_DIR}/${name}/${id}`;
+}
+
+/** IDs of a tenant's rollback points, oldest first */
+export function listRollbackPoints(
+  name: string,
+): ResultAsync<string[], LobsterError> {
+  return ResultAsync.fromPromise(
+    readdir(`${ROLLBACK_DIR}/${name}`).catch((e) => {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw e;
+    }),
+    (e): LobsterError => ({
+      code: "EXEC_FAILED",
+      message: `Failed to list rollback points for "${name}": ${e instanceof Error ? e.message : String(e)}`,
+      cause: e,
+    }),
+  ).map((entries) => entries.filter((e) => POINT_ID_REGEX.test(e)).sort());
+}
+
+/**
+ * Turn the snapshot a tenant just resumed from into a rollback point. With
+ * `keepBase` the memory and state files are copied rather than moved, since
+ * the next Diff snapshot is merged onto them.
+ */
+export function keepRollbackPoint(
+  name: string,
+  snapshotDir: string,
+  suspendedAt: string,
+  opts: { keepBase: boolean },
+): ResultAsync<string, LobsterError> {
+  const id = rollbackPointId(suspendedAt);
+  const dir = rollbackPointDir(name, id);
+  const take = (file: string) =>
+    exec(
+      opts.keepBase && file !== ROLLBACK_OVERLAY
+        ? [
+            "cp",
+            "--reflink=auto",
+            "--sparse=always",
+            `${snapshotDir}/${file}`,
+            dir,
+          ]
+        : ["mv", "-f", `${snapshotDir}/${file}`, dir],
+      { timeout: 120_000 },
+    );
+
+  return ROLLBACK_FILES.reduce(
+    (chain, file) => chain.andThen(() => take(file)),
+    exec(["mkdir", "-p", dir]),
+  ).map(() => id);
+}
+
+/** Delete all but the newest `retention` rollback points */
+export function pruneRollbackPoints(
+  name: string,
+  retention: number,
+): ResultAsync<string[], LobsterError> {
+  return listRollbackPoints(name).andThen((ids) => {
+    const stale = ids.slice(0, Math.max(0, ids.length - retention));
+    if (stale.length === 0) {
+      return okAsync([]);
+    }
+    return exec([
+      "rm",
+      "-rf",
+      ...stale.map((id) => rollbackPointDir(name, id)),
+    ]).map(() => stale);
+  });
+}
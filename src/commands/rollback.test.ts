@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { errAsync, okAsync } from "neverthrow";
+import * as loader from "../config/loader.js";
+import * as exec_ from "../system/exec.js";
+import * as image from "../system/image.js";
+import * as jailer from "../system/jailer.js";
+import {
+  makeConfig,
+  makeRegistry,
+  makeTenant,
+  unwrapErr,
+  unwrapOk,
+} from "../test-helpers.js";
+import type { ExecResult, LobsterError } from "../types/index.js";
+import * as boot from "./boot.js";
+import * as resume from "./resume.js";
+import { runRollback } from "./rollback.js";
+import * as points from "./rollback-points.js";
+import * as tenantNetwork from "./tenant-network.js";
+
+const OVERLAY = "/var/lib/lobsterd/overlays/test-tenant.ext4";
+const POINT = "/var/lib/lobsterd/rollback/test-tenant/20250102T000000Z";
+
+describe("runRollback", () => {
+  const s = {} as Record<string, ReturnType<typeof spyOn>>;
+
+  beforeEach(() => {
+    s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
+      okAsync(makeConfig()) as never,
+    );
+    s.loadRegistry = spyOn(loader, "loadRegistry").mockReturnValue(
+      okAsync(
+        makeRegistry([makeTenant({ overlayPath: OVERLAY, vmPid: 1234 })]),
+      ) as never,
+    );
+    s.saveRegistry = spyOn(loader, "saveRegistry").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.listRollbackPoints = spyOn(points, "listRollbackPoints").mockReturnValue(
+      okAsync(["20250101T000000Z", "20250102T000000Z"]) as never,
+    );
+    s.exec = spyOn(exec_, "exec").mockReturnValue(
+      okAsync<ExecResult, LobsterError>({
+        exitCode: 0,
+        stdout: "",
+        stderr: "",
+      }) as never,
+    );
+    s.copyOverlay = spyOn(image, "copyOverlay").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.moveOverlay = spyOn(image, "moveOverlay").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.deleteOverlay = spyOn(image, "deleteOverlay").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.overlaySizeMb = spyOn(image, "overlaySizeMb").mockReturnValue(
+      okAsync(4096) as never,
+    );
+    s.cleanupChroot = spyOn(jailer, "cleanupChroot").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.coldBoot = spyOn(boot, "coldBoot").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.attachNetwork = spyOn(tenantNetwork, "attachNetwork").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.runResume = spyOn(resume, "runResume").mockImplementation(
+      () => okAsync(makeTenant({ vmPid: 99999 })) as never,
+    );
+    s.kill = spyOn(process, "kill").mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    for (const spy of Object.values(s)) {
+      spy.mockRestore();
+    }
+  });
+
+  test("returns TENANT_NOT_FOUND for unknown tenant", async () => {
+    const err = await unwrapErr(runRollback("nope"));
+    expect(err.code).toBe("TENANT_NOT_FOUND");
+  });
+
+  test("fails when the tenant has no rollback points", async () => {
+    s.listRollbackPoints.mockReturnValue(okAsync([]) as never);
+    const err = await unwrapErr(runRollback("test-tenant"));
+    expect(err.code).toBe("VALIDATION_FAILED");
+    expect(s.copyOverlay).not.toHaveBeenCalled();
+  });
+
+  test("rejects an unknown --to point", async () => {
+    const err = await unwrapErr(
+      runRollback("test-tenant", { to: "20240101T000000Z" }),
+    );
+    expect(err.code).toBe("VALIDATION_FAILED");
+    expect(err.message).toContain("20250102T000000Z");
+  });
+
+  test("rolls back to the newest point and resumes from it", async () => {
+    const registry = makeRegistry([
+      makeTenant({ overlayPath: OVERLAY, vmPid: 1234 }),
+    ]);
+    s.loadRegistry.mockReturnValue(okAsync(registry) as never);
+    let statusAtKill: string | undefined;
+    let savesAtKill = 0;
+    s.kill.mockImplementation(() => {
+      statusAtKill = registry.tenants[0].status;
+      savesAtKill = s.saveRegistry.mock.calls.length;
+      return true;
+    });
+
+    const tenant = await unwrapOk(runRollback("test-tenant"));
+
+    // Marked stopped and saved before the VM is killed
+    expect(statusAtKill).toBe("stopped");
+    expect(savesAtKill).toBe(1);
+
+    expect(s.copyOverlay).toHaveBeenCalledWith(
+      `${POINT}/overlay.ext4`,
+      `${OVERLAY}.rollback`,
+    );
+    expect(s.kill).toHaveBeenCalledWith(1234, "SIGKILL");
+    expect(s.moveOverlay.mock.calls).toEqual([
+      [OVERLAY, `${OVERLAY}.pre-rollback`],
+      [`${OVERLAY}.rollback`, OVERLAY],
+    ]);
+    const saved = registry.tenants[0];
+    expect(saved.status).toBe("suspended");
+    expect(saved.suspendInfo?.snapshotDir).toBe(
+      "/var/lib/lobsterd/snapshots/test-tenant",
+    );
+    expect(saved.resources?.diskSizeMb).toBe(4096);
+    expect(saved.stopInfo).toBeNull();
+    expect(s.saveRegistry).toHaveBeenCalledTimes(2);
+    expect(s.runResume).toHaveBeenCalledWith("test-tenant", undefined);
+    expect(tenant.vmPid).toBe(99999);
+  });
+
+  test("accepts an ISO timestamp for --to", async () => {
+    await unwrapOk(
+      runRollback("test-tenant", { to: "2025-01-01T00:00:00.000Z" }),
+    );
+    expect(s.copyOverlay).toHaveBeenCalledWith(
+      "/var/lib/lobsterd/rollback/test-tenant/20250101T000000Z/overlay.ext4",
+      `${OVERLAY}.rollback`,
+    );
+  });
+
+  test("leaves the VM alone when staging fails", async () => {
+    s.copyOverlay.mockReturnValue(
+      errAsync<void, LobsterError>({
+        code: "EXEC_FAILED",
+        message: "No such file",
+      }) as never,
+    );
+    const err = await unwrapErr(runRollback("test-tenant"));
+
+    expect(err.code).toBe("ROLLBACK_FAILED");
+    expect(s.kill).not.toHaveBeenCalled();
+    expect(s.moveOverlay).not.toHaveBeenCalled();
+    expect(s.runResume).not.toHaveBeenCalled();
+  });
+
+  test("restores the overlay and reboots an active tenant when the swap fails", async () => {
+    const registry = makeRegistry([
+      makeTenant({ overlayPath: OVERLAY, vmPid: 1234 }),
+    ]);
+    s.loadRegistry.mockReturnValue(okAsync(registry) as never);
+    s.overlaySizeMb.mockReturnValue(
+      errAsync<number, LobsterError>({
+        code: "EXEC_FAILED",
+        message: "stat failed",
+      }) as never,
+    );
+    const err = await unwrapErr(runRollback("test-tenant"));
+
+    expect(err.code).toBe("ROLLBACK_FAILED");
+    expect(err.message).toContain("rolled back 4/4 steps");
+    expect(s.moveOverlay).toHaveBeenLastCalledWith(
+      `${OVERLAY}.pre-rollback`,
+      OVERLAY,
+    );
+    expect(s.coldBoot).toHaveBeenCalledTimes(1);
+    // Marked stopped for the swap, then active again after the reboot
+    expect(s.saveRegistry).toHaveBeenCalledTimes(2);
+    expect(registry.tenants[0].status).toBe("active");
+    expect(registry.tenants[0].stopInfo).toBeFalsy();
+    expect(s.runResume).not.toHaveBeenCalled();
+  });
+
+  test("brings a stopped tenant's network back before resuming", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([
+          makeTenant({
+            overlayPath: OVERLAY,
+            status: "stopped",
+            vmPid: null,
+            stopInfo: {
+              stoppedAt: "2025-01-03T00:00:00.000Z",
+              networkParked: false,
+            },
+          }),
+        ]),
+      ) as never,
+    );
+    await unwrapOk(runRollback("test-tenant"));
+
+    expect(s.attachNetwork).toHaveBeenCalledTimes(1);
+    expect(s.kill).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,303 @@
+import { errAsync, okAsync, type ResultAsync } from "neverthrow";
+import { SNAPSHOTS_DIR } from "../config/defaults.js";
+import { loadConfig, loadRegistry, saveRegistry } from "../config/loader.js";
+import { tenantResources } from "../config/resources.js";
+import { tenantConfig } from "../config/templates.js";
+import { exec } from "../system/exec.js";
+import * as image from "../system/image.js";
+import * as jailer from "../system/jailer.js";
+import type {
+  LobsterdConfig,
+  LobsterError,
+  Tenant,
+  TenantRegistry,
+} from "../types/index.js";
+import { coldBoot } from "./boot.js";
+import { runResume } from "./resume.js";
+import {
+  listRollbackPoints,
+  ROLLBACK_OVERLAY,
+  rollbackPointDir,
+  rollbackPointId,
+} from "./rollback-points.js";
+import { attachNetwork } from "./tenant-network.js";
+import { type UndoFn, rollback as unwind } from "./undo.js";
+
+export interface RollbackProgress {
+  step: string;
+  detail: string;
+}
+
+export interface RollbackOpts {
+  /** Point ID (`20250101T120000Z`) or the ISO time it was suspended at */
+  to?: string;
+}
+
+export interface RollbackPoints {
+  tenant: string;
+  /** Oldest first */
+  points: string[];
+}
+
+export function runRollbackList(
+  name: string,
+): ResultAsync<RollbackPoints, LobsterError> {
+  return listRollbackPoints(name).map((points) => ({ tenant: name, points }));
+}
+
+function pickPoint(
+  name: string,
+  points: string[],
+  to: string | undefined,
+): ResultAsync<string, LobsterError> {
+  if (points.length === 0) {
+    return errAsync({
+      code: "VALIDATION_FAILED",
+      message: `Tenant "${name}" has no rollback points`,
+    });
+  }
+  if (!to) {
+    return okAsync(points[points.length - 1]);
+  }
+  const id = /[-:]/.test(to) ? rollbackPointId(to) : to;
+  if (!points.includes(id)) {
+    return errAsync({
+      code: "VALIDATION_FAILED",
+      message: `No rollback point "${to}" for "${name}" (have: ${points.join(", ")})`,
+    });
+  }
+  return okAsync(id);
+}
+
+/**
+ * Put a tenant back to a rollback point: the memory snapshot and overlay
+ * captured when it was last suspended. The current VM is killed and its
+ * state discarded, then the tenant is resumed from the point. Stopped
+ * tenants come back up too.
+ */
+export function runRollback(
+  name: string,
+  opts: RollbackOpts = {},
+  onProgress?: (p: RollbackProgress) => void,
+): ResultAsync<Tenant, LobsterError> {
+  const progress = (step: string, detail: string) =>
+    onProgress?.({ step, detail });
+  const snapshotDir = `${SNAPSHOTS_DIR}/${name}`;
+  const stagedSnapshot = `${snapshotDir}.rollback`;
+  const snapshotBackup = `${snapshotDir}.pre-rollback`;
+
+  let config: LobsterdConfig;
+  let tenant: Tenant;
+  let registry: TenantRegistry;
+  let stagedOverlay: string;
+  let overlayBackup: string;
+
+  const cleanupStaging = () =>
+    exec(["rm", "-rf", stagedOverlay, stagedSnapshot])
+      .map(() => undefined)
+      .orElse(() => okAsync(undefined));
+
+  return loadConfig()
+    .andThen((c) => {
+      config = c;
+      return loadRegistry();
+    })
+    .andThen((reg): ResultAsync<string[], LobsterError> => {
+      const found = reg.tenants.find((t) => t.name === name);
+      if (!found) {
+        return errAsync({
+          code: "TENANT_NOT_FOUND",
+          message: `Tenant "${name}" not found`,
+        });
+      }
+      if (found.status === "removing") {
+        return errAsync({
+          code: "VALIDATION_FAILED",
+          message: `Tenant "${name}" is being removed`,
+        });
+      }
+      tenant = found;
+      registry = reg;
+      config = tenantConfig(found, config);
+      stagedOverlay = `${found.overlayPath}.rollback`;
+      overlayBackup = `${found.overlayPath}.pre-rollback`;
+      return listRollbackPoints(name);
+    })
+    .andThen((points) => pickPoint(name, points, opts.to))
+    .andThen((id) => {
+      const pointDir = rollbackPointDir(name, id);
+      // Stage copies first so the point survives for another rollback and
+      // nothing is touched until both files are in place
+      progress("stage", `Staging rollback point ${id}`);
+      return image
+        .copyOverlay(`${pointDir}/${ROLLBACK_OVERLAY}`, stagedOverlay)
+        .andThen(() => exec(["mkdir", "-p", stagedSnapshot]))
+        .andThen(() =>
+          exec(
+            [
+              "cp",
+              "--reflink=auto",
+              "--sparse=always",
+              `${pointDir}/snapshot_file`,
+              `${pointDir}/mem_file`,
+              stagedSnapshot,
+            ],
+            { timeout: 120_000 },
+          ),
+        )
+        .orElse((e) =>
+          cleanupStaging().andThen(() =>
+            errAsync<never, LobsterError>({
+              code: "ROLLBACK_FAILED",
+              message: `Failed to stage rollback point ${id}: ${e.message}`,
+              cause: e,
+            }),
+          ),
+        );
+    })
+    .andThen(() =>
+      swapIn(
+        tenant,
+        registry,
+        config,
+        { stagedOverlay, overlayBackup, stagedSnapshot, snapshotBackup },
+        progress,
+      ).orElse((error) => cleanupStaging().andThen(() => errAsync(error))),
+    )
+    .andThen(() => {
+      progress("cleanup", "Removing pre-rollback backups");
+      return exec(["rm", "-rf", overlayBackup, snapshotBackup]).orElse(() =>
+        okAsync({ exitCode: 0, stdout: "", stderr: "" }),
+      );
+    })
+    .andThen(() => runResume(name, onProgress));
+}
+
+interface SwapPaths {
+  stagedOverlay: string;
+  overlayBackup: string;
+  stagedSnapshot: string;
+  snapshotBackup: string;
+}
+
+/**
+ * Kill the VM, move the staged overlay and snapshot into place and record
+ * the tenant as suspended at the rollback point. Undone on failure,
+ * restoring the tenant's status and rebooting it if it was active.
+ */
+function swapIn(
+  tenant: Tenant,
+  registry: TenantRegistry,
+  config: LobsterdConfig,
+  paths: SwapPaths,
+  progress: (step: string, detail: string) => void,
+): ResultAsync<void, LobsterError> {
+  const snapshotDir = `${SNAPSHOTS_DIR}/${tenant.name}`;
+  const wasActive = tenant.status === "active";
+  const wasStopped = tenant.status === "stopped";
+  const prior = {
+    status: tenant.status,
+    stopInfo: tenant.stopInfo,
+    suspendInfo: tenant.suspendInfo,
+  };
+  const undoStack: UndoFn[] = [];
+
+  const network = (): ResultAsync<void, LobsterError> => {
+    if (tenant.status !== "stopped" || tenant.stopInfo?.networkParked) {
+      return okAsync(undefined);
+    }
+    // Resume expects the TAP and routes a stopped tenant released
+    return attachNetwork(tenant, config, undoStack, progress);
+  };
+
+  return network()
+    .andThen((): ResultAsync<void, LobsterError> => {
+      if (wasStopped) {
+        return okAsync(undefined);
+      }
+      // Registered before the file undos so it runs last, once the old
+      // overlay is back in place
+      undoStack.push(() => {
+        Object.assign(tenant, prior);
+        if (!wasActive) {
+          return saveRegistry(registry);
+        }
+        tenant.vmPid = null;
+        return coldBoot(tenant, config).andThen(() => saveRegistry(registry));
+      });
+      // Mark stopped up front so the watchdog neither repairs the VM nor
+      // wakes the snapshot while they are swapped out
+      tenant.status = "stopped";
+      tenant.suspendInfo = null;
+      tenant.stopInfo = {
+        stoppedAt: new Date().toISOString(),
+        networkParked: true,
+      };
+      return saveRegistry(registry);
+    })
+    .andThen(() => {
+      progress("vm", "Discarding current VM state");
+      if (tenant.vmPid) {
+        try {
+          process.kill(tenant.vmPid, "SIGKILL");
+        } catch {
+          // Already dead
+        }
+      }
+      return jailer.cleanupChroot(config.jailer.chrootBaseDir, tenant.vmId);
+    })
+    .andThen(() => {
+      progress(
+        "overlay",
+        `Backing up current overlay to ${paths.overlayBackup}`,
+      );
+      return image.moveOverlay(tenant.overlayPath, paths.overlayBackup);
+    })
+    .andThen(() => {
+      undoStack.push(() =>
+        image.moveOverlay(paths.overlayBackup, tenant.overlayPath),
+      );
+      progress("overlay", "Swapping in rollback overlay");
+      return image.moveOverlay(paths.stagedOverlay, tenant.overlayPath);
+    })
+    .andThen(() => {
+      undoStack.push(() => image.deleteOverlay(tenant.overlayPath));
+      progress("snapshot", "Swapping in rollback snapshot");
+      return exec(["rm", "-rf", paths.snapshotBackup])
+        .andThen(() => exec(["mkdir", "-p", snapshotDir]))
+        .andThen(() => exec(["mv", snapshotDir, paths.snapshotBackup]));
+    })
+    .andThen(() => {
+      undoStack.push(() =>
+        exec(["rm", "-rf", snapshotDir])
+          .andThen(() => exec(["mv", paths.snapshotBackup, snapshotDir]))
+          .map(() => undefined),
+      );
+      return exec(["mv", paths.stagedSnapshot, snapshotDir]);
+    })
+    .andThen(() => image.overlaySizeMb(tenant.overlayPath))
+    .andThen((diskSizeMb) => {
+      progress("registry", "Marking tenant suspended at the rollback point");
+      tenant.resources = { ...tenantResources(tenant, config), diskSizeMb };
+      tenant.status = "suspended";
+      tenant.vmPid = null;
+      tenant.stopInfo = null;
+      delete tenant.snapshotBase;
+      tenant.suspendInfo = {
+        suspendedAt: new Date().toISOString(),
+        snapshotDir,
+        cronSchedules: [],
+        nextWakeAtMs: null,
+        wakeReason: null,
+        lastRxBytes: 0,
+      };
+      return saveRegistry(registry);
+    })
+    .orElse((error) =>
+      unwind(undoStack, {
+        ...error,
+        code: "ROLLBACK_FAILED",
+        message: `Rollback of "${tenant.name}" failed: ${error.message}`,
+      }),
+    );
+}
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { errAsync, okAsync } from "neverthrow";
+import * as loader from "../config/loader.js";
+import * as vsock from "../system/vsock.js";
+import {
+  makeConfig,
+  makeRegistry,
+  makeTenant,
+  unwrapErr,
+  unwrapOk,
+} from "../test-helpers.js";
+import type { Tenant, TenantRegistry } from "../types/index.js";
+import * as resume from "./resume.js";
+import * as rollbackPoints from "./rollback-points.js";
+import { runRotateToken } from "./rotate-token.js";
+import * as suspend from "./suspend.js";
+
+const s = {} as Record<string, ReturnType<typeof spyOn>>;
+let registry: TenantRegistry;
+
+function useTenant(tenant: Tenant) {
+  registry = makeRegistry([tenant]);
+  s.loadRegistry.mockReturnValue(okAsync(registry) as never);
+}
+
+beforeEach(() => {
+  s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
+    okAsync(makeConfig()) as never,
+  );
+  s.loadRegistry = spyOn(loader, "loadRegistry");
+  s.updateRegistry = spyOn(loader, "updateRegistry").mockImplementation(((
+    update: (r: TenantRegistry) => TenantRegistry,
+  ) => {
+    registry = update(registry);
+    return okAsync(registry);
+  }) as never);
+  s.injectSecrets = spyOn(vsock, "injectSecrets").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.rekeyAgent = spyOn(vsock, "rekeyAgent").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.runResume = spyOn(resume, "runResume").mockReturnValue(
+    okAsync(makeTenant()) as never,
+  );
+  s.runSuspend = spyOn(suspend, "runSuspend").mockImplementation(
+    () => okAsync({ ...registry.tenants[0], status: "suspended" }) as never,
+  );
+  s.pruneRollbackPoints = spyOn(
+    rollbackPoints,
+    "pruneRollbackPoints",
+  ).mockReturnValue(okAsync([]) as never);
+  useTenant(makeTenant());
+});
+
+afterEach(() => {
+  for (const spy of Object.values(s)) {
+    spy.mockRestore();
+  }
+});
+
+describe("runRotateToken", () => {
+  test("requires something to rotate", async () => {
+    const err = await unwrapErr(runRotateToken("test-tenant", {}));
+    expect(err.code).toBe("VALIDATION_FAILED");
+  });
+
+  test("returns TENANT_NOT_FOUND for unknown tenant", async () => {
+    const err = await unwrapErr(runRotateToken("nope", { gateway: true }));
+    expect(err.code).toBe("TENANT_NOT_FOUND");
+  });
+
+  test("pushes a new gateway token to a running guest", async () => {
+    const t = await unwrapOk(runRotateToken("test-tenant", { gateway: true }));
+
+    expect(t.gatewayToken).not.toBe("gw-token-test");
+    expect(t.agentToken).toBe("agent-token-test");
+    expect(s.injectSecrets).toHaveBeenCalledWith(
+      "10.0.0.2",
+      52,
+      { OPENCLAW_GATEWAY_TOKEN: t.gatewayToken },
+      "agent-token-test",
+    );
+    expect(s.rekeyAgent).not.toHaveBeenCalled();
+    expect(s.pruneRollbackPoints).not.toHaveBeenCalled();
+  });
+
+  test("re-keys the agent and drops rollback points", async () => {
+    const t = await unwrapOk(runRotateToken("test-tenant", { agent: true }));
+
+    expect(t.agentToken).not.toBe("agent-token-test");
+    expect(t.gatewayToken).toBe("gw-token-test");
+    expect(s.rekeyAgent).toHaveBeenCalledWith(
+      "10.0.0.2",
+      52,
+      "agent-token-test",
+      t.agentToken,
+    );
+    expect(s.injectSecrets).not.toHaveBeenCalled();
+    expect(s.pruneRollbackPoints).toHaveBeenCalledWith("test-tenant", 0);
+  });
+
+  test("only updates the registry of a stopped tenant", async () => {
+    useTenant(makeTenant({ status: "stopped", vmPid: null }));
+    const t = await unwrapOk(
+      runRotateToken("test-tenant", { gateway: true, agent: true }),
+    );
+
+    expect(t.agentToken).not.toBe("agent-token-test");
+    expect(s.injectSecrets).not.toHaveBeenCalled();
+    expect(s.rekeyAgent).not.toHaveBeenCalled();
+    expect(s.runResume).not.toHaveBeenCalled();
+  });
+
+  test("resumes a suspended tenant for the rotation and suspends it again", async () => {
+    useTenant(makeTenant({ status: "suspended", vmPid: null }));
+    const t = await unwrapOk(runRotateToken("test-tenant", { agent: true }));
+
+    expect(s.runResume).toHaveBeenCalledWith("test-tenant");
+    expect(s.rekeyAgent).toHaveBeenCalledTimes(1);
+    expect(s.runSuspend).toHaveBeenCalledWith("test-tenant");
+    expect(t.status).toBe("suspended");
+    expect(t.agentToken).toBe(registry.tenants[0].agentToken);
+  });
+
+  test("suspends again when the rotation fails", async () => {
+    useTenant(makeTenant({ status: "suspended", vmPid: null }));
+    s.rekeyAgent.mockReturnValue(
+      errAsync({ code: "VSOCK_CONNECT_FAILED", message: "no agent" }) as never,
+    );
+    await unwrapErr(runRotateToken("test-tenant", { agent: true }));
+    expect(s.runSuspend).toHaveBeenCalledTimes(1);
+  });
+
+  test("puts the old gateway token back when the re-key fails", async () => {
+    s.rekeyAgent.mockReturnValue(
+      errAsync({ code: "VSOCK_CONNECT_FAILED", message: "no agent" }) as never,
+    );
+    const err = await unwrapErr(
+      runRotateToken("test-tenant", { gateway: true, agent: true }),
+    );
+
+    expect(err.message).toBe("no agent");
+    expect(s.injectSecrets).toHaveBeenCalledTimes(2);
+    expect(s.injectSecrets.mock.calls[1][2]).toEqual({
+      OPENCLAW_GATEWAY_TOKEN: "gw-token-test",
+    });
+    expect(s.updateRegistry).not.toHaveBeenCalled();
+  });
+
+  test("re-keys the guest back when the registry can't be saved", async () => {
+    s.updateRegistry.mockReturnValue(
+      errAsync({ code: "LOCK_FAILED", message: "locked" }) as never,
+    );
+    const err = await unwrapErr(runRotateToken("test-tenant", { agent: true }));
+
+    expect(err.code).toBe("LOCK_FAILED");
+    expect(s.rekeyAgent).toHaveBeenCalledTimes(2);
+    const [, , from, to] = s.rekeyAgent.mock.calls[1] as string[];
+    expect(to).toBe("agent-token-test");
+    expect(from).toBe(s.rekeyAgent.mock.calls[0][3]);
+  });
+});
@@ -0,0 +1,176 @@
+import { errAsync, okAsync, type ResultAsync } from "neverthrow";
+import { loadConfig, loadRegistry, updateRegistry } from "../config/loader.js";
+import * as vsock from "../system/vsock.js";
+import type { LobsterdConfig, LobsterError, Tenant } from "../types/index.js";
+import { runResume } from "./resume.js";
+import { pruneRollbackPoints } from "./rollback-points.js";
+import { runSuspend } from "./suspend.js";
+
+export interface RotateTokenProgress {
+  step: string;
+  detail: string;
+}
+
+export interface RotateTokenOpts {
+  gateway?: boolean;
+  agent?: boolean;
+}
+
+/**
+ * Replace a tenant's gateway and/or agent token. A running guest gets the new
+ * gateway token via `inject-secrets` (the agent rewrites the OpenClaw config
+ * and restarts the gateway) and is re-keyed before the registry changes. A
+ * suspended tenant is resumed for this and suspended again; a stopped one
+ * picks the tokens up on its next boot. Rollback points are dropped after an
+ * agent rotation since their memory still holds the old token.
+ */
+export function runRotateToken(
+  name: string,
+  opts: RotateTokenOpts,
+  onProgress?: (p: RotateTokenProgress) => void,
+): ResultAsync<Tenant, LobsterError> {
+  const progress = (step: string, detail: string) =>
+    onProgress?.({ step, detail });
+
+  let config: LobsterdConfig;
+  let resumedHere = false;
+  let rotated: Tenant;
+
+  // A tenant resumed for the rotation goes back to sleep either way
+  const suspendAgain = (): ResultAsync<Tenant | null, never> => {
+    if (!resumedHere) {
+      return okAsync(null);
+    }
+    resumedHere = false;
+    progress("suspend", "Suspending again");
+    return runSuspend(name).orElse((e) => {
+      progress("suspend", `Left running: ${e.message}`);
+      return okAsync(null);
+    });
+  };
+
+  if (!opts.gateway && !opts.agent) {
+    return errAsync({
+      code: "VALIDATION_FAILED",
+      message: "Nothing to rotate: pass --gateway, --agent or --all",
+    });
+  }
+
+  return loadConfig()
+    .andThen((c) => {
+      config = c;
+      return loadRegistry();
+    })
+    .andThen((registry): ResultAsync<Tenant, LobsterError> => {
+      const found = registry.tenants.find((t) => t.name === name);
+      if (!found) {
+        return errAsync({
+          code: "TENANT_NOT_FOUND",
+          message: `Tenant "${name}" not found`,
+        });
+      }
+      if (found.status === "removing") {
+        return errAsync({
+          code: "VALIDATION_FAILED",
+          message: `Tenant "${name}" is being removed`,
+        });
+      }
+      if (found.status !== "suspended") {
+        return okAsync(found);
+      }
+      progress("resume", "Resuming to reach the guest agent");
+      return runResume(name).map((t) => {
+        resumedHere = true;
+        return t;
+      });
+    })
+    .andThen((tenant) => {
+      const gatewayToken = opts.gateway
+        ? crypto.randomUUID()
+        : tenant.gatewayToken;
+      const agentToken = opts.agent ? crypto.randomUUID() : tenant.agentToken;
+      const running = tenant.status === "active" && tenant.vmPid !== null;
+      const push = running
+        ? pushTokens(tenant, config, { gatewayToken, agentToken }, progress)
+        : okAsync(undefined);
+
+      return push.andThen(() => {
+        progress("registry", "Saving new tokens");
+        return updateRegistry((registry) => ({
+          ...registry,
+          tenants: registry.tenants.map((t) =>
+            t.name === name ? { ...t, gatewayToken, agentToken } : t,
+          ),
+        })).orElse((e) =>
+          // Put the guest back on the tokens the registry still has
+          (running
+            ? pushTokens(
+                { ...tenant, gatewayToken, agentToken },
+                config,
+                tenant,
+                progress,
+              ).orElse(() => okAsync(undefined))
+            : okAsync(undefined)
+          ).andThen(() => errAsync(e)),
+        );
+      });
+    })
+    .andThen((registry) => {
+      rotated = registry.tenants.find((t) => t.name === name) as Tenant;
+      if (!opts.agent) {
+        return okAsync(undefined);
+      }
+      progress("rollback", "Dropping rollback points (old agent token)");
+      return pruneRollbackPoints(name, 0)
+        .map(() => undefined)
+        .orElse((e) => {
+          progress("rollback", `Failed to drop rollback points: ${e.message}`);
+          return okAsync(undefined);
+        });
+    })
+    .andThen(() => suspendAgain().map((t) => t ?? rotated))
+    .orElse((e) => suspendAgain().andThen(() => errAsync(e)));
+}
+
+/**
+ * Move a running guest from `tenant`'s tokens to `next`. The gateway token
+ * goes first, under the agent token the guest still knows.
+ */
+function pushTokens(
+  tenant: Tenant,
+  config: LobsterdConfig,
+  next: Pick<Tenant, "gatewayToken" | "agentToken">,
+  progress: (step: string, detail: string) => void,
+): ResultAsync<void, LobsterError> {
+  const port = config.vsock.agentPort;
+  const gatewayChanged = next.gatewayToken !== tenant.gatewayToken;
+  const pushGateway = (token: string) =>
+    vsock.injectSecrets(
+      tenant.ipAddress,
+      port,
+      { OPENCLAW_GATEWAY_TOKEN: token },
+      tenant.agentToken,
+    );
+
+  if (gatewayChanged) {
+    progress("gateway", "Pushing new gateway token");
+  }
+  const gateway = gatewayChanged
+    ? pushGateway(next.gatewayToken)
+    : okAsync(undefined);
+  return gateway.andThen(() => {
+    if (next.agentToken === tenant.agentToken) {
+      return okAsync(undefined);
+    }
+    progress("agent", "Re-keying guest agent");
+    return vsock
+      .rekeyAgent(tenant.ipAddress, port, tenant.agentToken, next.agentToken)
+      .orElse((e) =>
+        // Don't leave the gateway on a token the registry won't have
+        (gatewayChanged
+          ? pushGateway(tenant.gatewayToken).orElse(() => okAsync(undefined))
+          : okAsync(undefined)
+        ).andThen(() => errAsync(e)),
+      );
+  });
+}
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { errAsync, okAsync } from "neverthrow";
+import * as loader from "../config/loader.js";
+import * as vsock from "../system/vsock.js";
+import {
+  makeConfig,
+  makeRegistry,
+  makeTenant,
+  unwrapErr,
+  unwrapOk,
+} from "../test-helpers.js";
+import type { TenantSecrets } from "../types/index.js";
+import {
+  injectStoredSecrets,
+  MAX_SECRET_BYTES,
+  runSecretsGet,
+  runSecretsList,
+  runSecretsRm,
+  runSecretsSet,
+} from "./secrets.js";
+
+const s = {} as Record<string, ReturnType<typeof spyOn>>;
+let stored: TenantSecrets;
+
+beforeEach(() => {
+  stored = { API_KEY: "s3cret" };
+  s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
+    okAsync(makeConfig()) as never,
+  );
+  s.loadRegistry = spyOn(loader, "loadRegistry").mockReturnValue(
+    okAsync(makeRegistry([makeTenant()])) as never,
+  );
+  s.loadSecrets = spyOn(loader, "loadSecrets").mockImplementation(
+    () => okAsync(stored) as never,
+  );
+  s.updateSecrets = spyOn(loader, "updateSecrets").mockImplementation(((
+    _name: string,
+    update: (secrets: TenantSecrets) => TenantSecrets,
+  ) => {
+    stored = update(stored);
+    return okAsync(stored);
+  }) as never);
+  s.injectSecrets = spyOn(vsock, "injectSecrets").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+});
+
+afterEach(() => {
+  for (const spy of Object.values(s)) {
+    spy.mockRestore();
+  }
+});
+
+describe("runSecretsSet", () => {
+  test("stores the secret and pushes the full set to a running guest", async () => {
+    const result = await unwrapOk(
+      runSecretsSet("test-tenant", "DB_URL", "postgres://x"),
+    );
+
+    expect(result).toEqual({ keys: ["API_KEY", "DB_URL"], pushed: true });
+    expect(s.injectSecrets).toHaveBeenCalledWith(
+      "10.0.0.2",
+      52,
+      {
+        LOBSTER_SECRETS: JSON.stringify({
+          API_KEY: "s3cret",
+          DB_URL: "postgres://x",
+        }),
+      },
+      "agent-token-test",
+    );
+  });
+
+  test("only stores the secret of a suspended tenant", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([makeTenant({ status: "suspended", vmPid: null })]),
+      ) as never,
+    );
+    const result = await unwrapOk(runSecretsSet("test-tenant", "X", "1"));
+
+    expect(result.pushed).toBe(false);
+    expect(stored.X).toBe("1");
+    expect(s.injectSecrets).not.toHaveBeenCalled();
+  });
+
+  test("keeps the stored secret when the guest can't be reached", async () => {
+    s.injectSecrets.mockReturnValue(
+      errAsync({ code: "VSOCK_CONNECT_FAILED", message: "down" }) as never,
+    );
+    const result = await unwrapOk(runSecretsSet("test-tenant", "X", "1"));
+
+    expect(result.pushed).toBe(false);
+    expect(stored.X).toBe("1");
+  });
+
+  test("rejects invalid and reserved keys", async () => {
+    for (const key of ["1ABC", "A-B", "OPENCLAW_CONFIG", "PATH"]) {
+      const err = await unwrapErr(runSecretsSet("test-tenant", key, "v"));
+      expect(err.code).toBe("VALIDATION_FAILED");
+    }
+    expect(s.updateSecrets).not.toHaveBeenCalled();
+  });
+
+  test("rejects oversized values", async () => {
+    const err = await unwrapErr(
+      runSecretsSet("test-tenant", "BIG", "x".repeat(MAX_SECRET_BYTES + 1)),
+    );
+    expect(err.code).toBe("VALIDATION_FAILED");
+  });
+
+  test("returns TENANT_NOT_FOUND for unknown tenant", async () => {
+    const err = await unwrapErr(runSecretsSet("nope", "X", "1"));
+    expect(err.code).toBe("TENANT_NOT_FOUND");
+    expect(s.updateSecrets).not.toHaveBeenCalled();
+  });
+});
+
+describe("runSecretsGet / runSecretsList", () => {
+  test("returns a stored value", async () => {
+    expect(await unwrapOk(runSecretsGet("test-tenant", "API_KEY"))).toBe(
+      "s3cret",
+    );
+  });
+
+  test("returns SECRET_NOT_FOUND for a missing key", async () => {
+    const err = await unwrapErr(runSecretsGet("test-tenant", "NOPE"));
+    expect(err.code).toBe("SECRET_NOT_FOUND");
+  });
+
+  test("lists keys without values", async () => {
+    stored = { ZED: "1", API_KEY: "2" };
+    expect(await unwrapOk(runSecretsList("test-tenant"))).toEqual([
+      "API_KEY",
+      "ZED",
+    ]);
+  });
+});
+
+describe("runSecretsRm", () => {
+  test("removes the key and pushes the remaining set", async () => {
+    const result = await unwrapOk(runSecretsRm("test-tenant", "API_KEY"));
+
+    expect(result).toEqual({ keys: [], pushed: true });
+    expect(s.injectSecrets.mock.calls[0][2]).toEqual({ LOBSTER_SECRETS: "{}" });
+  });
+
+  test("returns SECRET_NOT_FOUND for a missing key", async () => {
+    const err = await unwrapErr(runSecretsRm("test-tenant", "NOPE"));
+    expect(err.code).toBe("SECRET_NOT_FOUND");
+    expect(s.updateSecrets).not.toHaveBeenCalled();
+  });
+});
+
+describe("injectStoredSecrets", () => {
+  test("skips a tenant without secrets unless forced", async () => {
+    stored = {};
+    await unwrapOk(injectStoredSecrets(makeTenant(), makeConfig()));
+    expect(s.injectSecrets).not.toHaveBeenCalled();
+
+    await unwrapOk(
+      injectStoredSecrets(makeTenant(), makeConfig(), () => {}, true),
+    );
+    expect(s.injectSecrets).toHaveBeenCalledTimes(1);
+  });
+});
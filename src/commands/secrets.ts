@@ -0,0 +1,192 @@
+import { errAsync, okAsync, type ResultAsync } from "neverthrow";
+import {
+  loadConfig,
+  loadRegistry,
+  loadSecrets,
+  updateSecrets,
+} from "../config/loader.js";
+import { SECRET_KEY_REGEX } from "../config/schema.js";
+import * as vsock from "../system/vsock.js";
+import type {
+  LobsterdConfig,
+  LobsterError,
+  Tenant,
+  TenantSecrets,
+} from "../types/index.js";
+
+/** inject-secrets key carrying the whole tenant secret set as JSON */
+export const SECRETS_ENV_KEY = "LOBSTER_SECRETS";
+export const MAX_SECRET_BYTES = 64 * 1024;
+
+/** Keys lobsterd or the gateway launch already own */
+const RESERVED_KEYS = new Set([
+  SECRETS_ENV_KEY,
+  "SSH_AUTHORIZED_KEY",
+  "HOME",
+  "PATH",
+  "NODE_ENV",
+]);
+
+export interface SecretsUpdate {
+  keys: string[];
+  /** Whether a running guest already has the change */
+  pushed: boolean;
+}
+
+/**
+ * Send the full secret set to a running guest, replacing what it had. The
+ * agent restarts the gateway with the secrets in its environment.
+ */
+export function pushSecrets(
+  tenant: Tenant,
+  config: LobsterdConfig,
+  secrets: TenantSecrets,
+): ResultAsync<void, LobsterError> {
+  return vsock.injectSecrets(
+    tenant.ipAddress,
+    config.vsock.agentPort,
+    { [SECRETS_ENV_KEY]: JSON.stringify(secrets) },
+    tenant.agentToken,
+  );
+}
+
+/**
+ * Push a tenant's stored secrets after boot, resume or repair. Tenants
+ * without secrets are skipped unless `force` is set (a resumed guest may
+ * still hold secrets removed while it was suspended).
+ */
+export function injectStoredSecrets(
+  tenant: Tenant,
+  config: LobsterdConfig,
+  progress: (step: string, detail: string) => void = () => {},
+  force = false,
+): ResultAsync<void, LobsterError> {
+  return loadSecrets(tenant.name).andThen((secrets) => {
+    const count = Object.keys(secrets).length;
+    if (count === 0 && !force) {
+      return okAsync(undefined);
+    }
+    progress("secrets", `Injecting ${count} tenant secret(s)`);
+    return pushSecrets(tenant, config, secrets);
+  });
+}
+
+function findTenant(name: string): ResultAsync<Tenant, LobsterError> {
+  return loadRegistry().andThen((registry) => {
+    const tenant = registry.tenants.find((t) => t.name === name);
+    if (!tenant) {
+      return errAsync<Tenant, LobsterError>({
+        code: "TENANT_NOT_FOUND",
+        message: `Tenant "${name}" not found`,
+      });
+    }
+    return okAsync(tenant);
+  });
+}
+
+function validateKey(key: string): LobsterError | null {
+  if (!SECRET_KEY_REGEX.test(key)) {
+    return {
+      code: "VALIDATION_FAILED",
+      message: `Invalid secret key "${key}": use letters, digits and _ (not starting with a digit)`,
+    };
+  }
+  if (RESERVED_KEYS.has(key) || key.startsWith("OPENCLAW_")) {
+    return {
+      code: "VALIDATION_FAILED",
+      message: `Secret key "${key}" is reserved`,
+    };
+  }
+  return null;
+}
+
+function secretNotFound(name: string, key: string): LobsterError {
+  return {
+    code: "SECRET_NOT_FOUND",
+    message: `Tenant "${name}" has no secret "${key}"`,
+  };
+}
+
+/**
+ * Store the changed secret set and hand it to the guest if it is running.
+ * A failed push is not an error: the store is authoritative and the guest
+ * gets it on its next boot, resume or repair.
+ */
+function applySecrets(
+  name: string,
+  update: (secrets: TenantSecrets) => TenantSecrets,
+): ResultAsync<SecretsUpdate, LobsterError> {
+  let tenant: Tenant;
+  let stored: TenantSecrets;
+  return findTenant(name)
+    .andThen((t) => {
+      tenant = t;
+      return updateSecrets(name, update);
+    })
+    .andThen((secrets) => {
+      stored = secrets;
+      if (tenant.status !== "active" || tenant.vmPid === null) {
+        return okAsync(false);
+      }
+      return loadConfig()
+        .andThen((config) => pushSecrets(tenant, config, stored))
+        .map(() => true)
+        .orElse(() => okAsync(false));
+    })
+    .map((pushed) => ({ keys: Object.keys(stored).sort(), pushed }));
+}
+
+export function runSecretsSet(
+  name: string,
+  key: string,
+  value: string,
+): ResultAsync<SecretsUpdate, LobsterError> {
+  const invalid = validateKey(key);
+  if (invalid) {
+    return errAsync(invalid);
+  }
+  if (Buffer.byteLength(value, "utf-8") > MAX_SECRET_BYTES) {
+    return errAsync({
+      code: "VALIDATION_FAILED",
+      message: `Secret "${key}" is larger than ${MAX_SECRET_BYTES} bytes`,
+    });
+  }
+  return applySecrets(name, (secrets) => ({ ...secrets, [key]: value }));
+}
+
+export function runSecretsGet(
+  name: string,
+  key: string,
+): ResultAsync<string, LobsterError> {
+  return findTenant(name)
+    .andThen(() => loadSecrets(name))
+    .andThen((secrets) =>
+      Object.hasOwn(secrets, key)
+        ? okAsync(secrets[key])
+        : errAsync(secretNotFound(name, key)),
+    );
+}
+
+/** Secret keys of a tenant, sorted; values never leave `get` */
+export function runSecretsList(
+  name: string,
+): ResultAsync<string[], LobsterError> {
+  return findTenant(name)
+    .andThen(() => loadSecrets(name))
+    .map((secrets) => Object.keys(secrets).sort());
+}
+
+export function runSecretsRm(
+  name: string,
+  key: string,
+): ResultAsync<SecretsUpdate, LobsterError> {
+  return runSecretsList(name).andThen((keys) => {
+    if (!keys.includes(key)) {
+      return errAsync<SecretsUpdate, LobsterError>(secretNotFound(name, key));
+    }
+    return applySecrets(name, (secrets) => {
+      const { [key]: _removed, ...rest } = secrets;
+      return rest;
+    });
+  });
+}
@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { errAsync, okAsync } from "neverthrow";
+import * as loader from "../config/loader.js";
+import * as exec_ from "../system/exec.js";
+import * as fc from "../system/firecracker.js";
+import * as vsock from "../system/vsock.js";
+import {
+  makeConfig,
+  makeRegistry,
+  makeTenant,
+  unwrapErr,
+  unwrapOk,
+} from "../test-helpers.js";
+import type { LobsterError, SnapIndex } from "../types/index.js";
+import { runSnap } from "./snap.js";
+import * as snaps from "./snaps.js";
+
+const SHA = "b".repeat(64);
+
+describe("runSnap", () => {
+  const s = {} as Record<string, ReturnType<typeof spyOn>>;
+  let index: SnapIndex;
+
+  beforeEach(() => {
+    index = { snaps: [] };
+    s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
+      okAsync(makeConfig()) as never,
+    );
+    s.loadRegistry = spyOn(loader, "loadRegistry").mockReturnValue(
+      okAsync(makeRegistry([makeTenant()])) as never,
+    );
+    s.updateSnapIndex = spyOn(loader, "updateSnapIndex").mockImplementation(((
+      update: (i: SnapIndex) => SnapIndex,
+    ) => {
+      index = update(index);
+      return okAsync(index);
+    }) as never);
+    s.exec = spyOn(exec_, "exec").mockImplementation(((args: string[]) =>
+      okAsync({
+        exitCode: 0,
+        stdout:
+          args[0] === "stat"
+            ? "2048\n"
+            : args[0] === "sha256sum"
+              ? `${SHA}  ${args[1]}\n`
+              : "",
+        stderr: "",
+      })) as never);
+    s.runSnapsPrune = spyOn(snaps, "runSnapsPrune").mockReturnValue(
+      okAsync([]) as never,
+    );
+    s.freezeGuestFs = spyOn(vsock, "freezeGuestFs").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.thawGuestFs = spyOn(vsock, "thawGuestFs").mockReturnValue(
+      okAsync(true) as never,
+    );
+    s.pauseVm = spyOn(fc, "pauseVm").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+    s.resumeVm = spyOn(fc, "resumeVm").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+  });
+
+  const cpCall = () =>
+    s.exec.mock.calls.find((c: unknown[]) => (c[0] as string[])[0] === "cp");
+
+  afterEach(() => {
+    for (const spy of Object.values(s)) {
+      spy.mockRestore();
+    }
+  });
+
+  test("returns TENANT_NOT_FOUND for unknown tenant", async () => {
+    const err = await unwrapErr(runSnap("nope"));
+    expect(err.code).toBe("TENANT_NOT_FOUND");
+  });
+
+  test("writes into the managed snaps dir and records the snap", async () => {
+    const result = await unwrapOk(runSnap("test-tenant"));
+
+    expect(result.path).toStartWith("/var/lib/lobsterd/snaps/test-tenant/");
+    expect(result.path).toEndWith(`${result.id}.tar.gz`);
+    expect(result.sizeBytes).toBe(2048);
+    expect(result.sha256).toBe(SHA);
+    expect(index.snaps).toHaveLength(1);
+    expect(index.snaps[0].id).toBe(result.id);
+    expect(s.runSnapsPrune).toHaveBeenCalledWith({ tenant: "test-tenant" });
+  });
+
+  test("reports snaps pruned by retention", async () => {
+    s.runSnapsPrune.mockReturnValue(
+      okAsync([{ id: "20250101-000000-test-tenant" }]) as never,
+    );
+    const result = await unwrapOk(runSnap("test-tenant"));
+    expect(result.pruned).toEqual(["20250101-000000-test-tenant"]);
+  });
+
+  test("still succeeds when pruning fails", async () => {
+    s.runSnapsPrune.mockReturnValue(
+      errAsync<never, LobsterError>({
+        code: "LOCK_FAILED",
+        message: "busy",
+      }) as never,
+    );
+    const result = await unwrapOk(runSnap("test-tenant"));
+    expect(result.pruned).toEqual([]);
+  });
+
+  test("freezes a running guest's filesystem around the copy", async () => {
+    const result = await unwrapOk(runSnap("test-tenant"));
+
+    expect(result.consistency).toBe("fsfreeze");
+    expect(index.snaps[0].consistency).toBe("fsfreeze");
+    expect(s.freezeGuestFs).toHaveBeenCalledWith(
+      "10.0.0.2",
+      makeConfig().vsock.agentPort,
+      "agent-token-test",
+      30_000,
+    );
+    expect(s.thawGuestFs).toHaveBeenCalledTimes(1);
+    expect(cpCall()?.[1]).toEqual({ timeout: 30_000 });
+    expect(s.pauseVm).not.toHaveBeenCalled();
+  });
+
+  test("pauses the VM when the agent can't freeze", async () => {
+    s.freezeGuestFs.mockReturnValue(
+      errAsync({ code: "VSOCK_CONNECT_FAILED", message: "refused" }) as never,
+    );
+    const result = await unwrapOk(runSnap("test-tenant"));
+
+    expect(result.consistency).toBe("paused");
+    expect(s.pauseVm).toHaveBeenCalledTimes(1);
+    expect(s.resumeVm).toHaveBeenCalledTimes(1);
+    expect(s.thawGuestFs).not.toHaveBeenCalled();
+  });
+
+  test("copies a stopped tenant without quiescing it", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([makeTenant({ status: "stopped", vmPid: null })]),
+      ) as never,
+    );
+    const result = await unwrapOk(runSnap("test-tenant"));
+
+    expect(result.consistency).toBe("offline");
+    expect(s.freezeGuestFs).not.toHaveBeenCalled();
+    expect(s.pauseVm).not.toHaveBeenCalled();
+  });
+
+  test("thaws the guest when the copy fails", async () => {
+    s.exec.mockImplementation(((args: string[]) =>
+      args[0] === "cp"
+        ? errAsync({ code: "EXEC_FAILED", message: "cp: timed out" })
+        : okAsync({ exitCode: 0, stdout: "", stderr: "" })) as never);
+    const err = await unwrapErr(runSnap("test-tenant"));
+
+    expect(err.message).toBe("cp: timed out");
+    expect(s.thawGuestFs).toHaveBeenCalledTimes(1);
+    expect(index.snaps).toHaveLength(0);
+  });
+
+  test("discards the snap when the freeze expired mid-copy", async () => {
+    s.thawGuestFs.mockReturnValue(okAsync(false) as never);
+    const err = await unwrapErr(runSnap("test-tenant"));
+
+    expect(err.code).toBe("SNAPSHOT_FAILED");
+    expect(index.snaps).toHaveLength(0);
+  });
+});
@@ -1,9 +1,19 @@
 import { tmpdir } from "node:os";
 import { join } from "node:path";
-import { errAsync, type ResultAsync } from "neverthrow";
-import { loadConfig, loadRegistry } from "../config/loader.js";
+import { errAsync, okAsync, type ResultAsync } from "neverthrow";
+import { SNAPS_DIR } from "../config/defaults.js";
+import { loadConfig, loadRegistry, updateSnapIndex } from "../config/loader.js";
 import { exec } from "../system/exec.js";
-import type { LobsterError } from "../types/index.js";
+import * as fc from "../system/firecracker.js";
+import * as vsock from "../system/vsock.js";
+import type {
+  LobsterdConfig,
+  LobsterError,
+  SnapConsistency,
+  SnapEntry,
+  Tenant,
+} from "../types/index.js";
+import { runSnapsPrune } from "./snaps.js";
 
 function formatTimestamp(): string {
   const now = new Date();
@@ -19,23 +29,104 @@ function formatTimestamp(): string {
   ].join("");
 }
 
-export interface SnapResult {
-  path: string;
-  tenant: string;
-  timestamp: string;
+/** Used when `overlay.snapshotFreezeTimeoutMs` is unset */
+export const DEFAULT_FREEZE_TIMEOUT_MS = 30_000;
+
+/**
+ * Quiesce a running tenant's overlay: fsfreeze it through the guest agent,
+ * or pause the VM if the agent can't. Tenants that aren't running need
+ * neither.
+ */
+function quiesce(
+  tenant: Tenant,
+  config: LobsterdConfig,
+  timeoutMs: number,
+): ResultAsync<SnapConsistency, LobsterError> {
+  if (tenant.status !== "active" || !tenant.vmPid) {
+    return okAsync("offline");
+  }
+  return vsock
+    .freezeGuestFs(
+      tenant.ipAddress,
+      config.vsock.agentPort,
+      tenant.agentToken,
+      timeoutMs,
+    )
+    .map((): SnapConsistency => "fsfreeze")
+    .orElse(() =>
+      fc.pauseVm(tenant.socketPath).map((): SnapConsistency => "paused"),
+    );
+}
+
+function unquiesce(
+  tenant: Tenant,
+  config: LobsterdConfig,
+  mode: SnapConsistency,
+): ResultAsync<void, LobsterError> {
+  if (mode === "paused") {
+    return fc.resumeVm(tenant.socketPath);
+  }
+  if (mode === "offline") {
+    return okAsync(undefined);
+  }
+  return vsock
+    .thawGuestFs(tenant.ipAddress, config.vsock.agentPort, tenant.agentToken)
+    .andThen((wasFrozen) =>
+      wasFrozen
+        ? okAsync(undefined)
+        : errAsync<void, LobsterError>({
+            code: "SNAPSHOT_FAILED",
+            message: `Guest filesystem of "${tenant.name}" thawed before the overlay copy finished`,
+          }),
+    );
+}
+
+/**
+ * Copy a tenant's overlay to `dest`, quiescing it first if the tenant is
+ * running. The tenant is thawed or resumed however the copy goes.
+ */
+export function copyOverlayQuiesced(
+  tenant: Tenant,
+  config: LobsterdConfig,
+  dest: string,
+): ResultAsync<SnapConsistency, LobsterError> {
+  const timeoutMs =
+    config.overlay.snapshotFreezeTimeoutMs ?? DEFAULT_FREEZE_TIMEOUT_MS;
+  return quiesce(tenant, config, timeoutMs).andThen((mode) =>
+    exec(
+      ["cp", "--reflink=auto", "--sparse=always", tenant.overlayPath, dest],
+      // Unfrozen copies aren't time-boxed, only the guest's downtime is
+      { timeout: mode === "offline" ? 120_000 : timeoutMs },
+    )
+      .orElse((error) =>
+        // Never leave the guest frozen, whatever happened to the copy
+        unquiesce(tenant, config, mode)
+          .orElse(() => okAsync(undefined))
+          .andThen(() => errAsync(error)),
+      )
+      .andThen(() => unquiesce(tenant, config, mode))
+      .map(() => mode),
+  );
+}
+
+export interface SnapResult extends SnapEntry {
+  /** IDs of older snaps deleted to stay within `overlay.snapshotRetention` */
+  pruned: string[];
 }
 
 export function runSnap(
   name: string,
   _opts: { json?: boolean } = {},
 ): ResultAsync<SnapResult, LobsterError> {
-  const outDir = join(process.cwd(), "snaps");
+  const outDir = join(SNAPS_DIR, name);
   const timestamp = formatTimestamp();
-  const tarName = `${timestamp}-${name}.tar.gz`;
-  const tarPath = join(outDir, tarName);
+  const id = `${timestamp}-${name}`;
+  const tarPath = join(outDir, `${id}.tar.gz`);
   return loadConfig()
-    .andThen(() => loadRegistry())
-    .andThen((registry): ResultAsync<SnapResult, LobsterError> => {
+    .andThen((config) =>
+      loadRegistry().map((registry) => ({ config, registry })),
+    )
+    .andThen(({ config, registry }): ResultAsync<SnapEntry, LobsterError> => {
       const tenant = registry.tenants.find((t) => t.name === name);
       if (!tenant) {
         return errAsync({
@@ -44,31 +135,53 @@ export function runSnap(
         });
       }
 
-      const overlayPath = tenant.overlayPath;
       const tmpDir = join(tmpdir(), `lobsterd-snap-${name}-${timestamp}`);
+      const createdAt = new Date().toISOString();
 
       return exec(["mkdir", "-p", outDir])
         .andThen(() => exec(["mkdir", "-p", tmpDir]))
         .andThen(() =>
-          exec(
-            [
-              "cp",
-              "--sparse=always",
-              overlayPath,
-              join(tmpDir, "overlay.ext4"),
-            ],
-            {
-              timeout: 120_000,
-            },
+          copyOverlayQuiesced(
+            tenant,
+            config,
+            join(tmpDir, "overlay.ext4"),
+          ).orElse((error) =>
+            exec(["rm", "-rf", tmpDir])
+              .orElse(() => okAsync(undefined))
+              .andThen(() => errAsync(error)),
           ),
         )
-        .andThen(() =>
+        .andThen((consistency) =>
           exec(
             ["tar", "--sparse", "-czf", tarPath, "-C", tmpDir, "overlay.ext4"],
             { timeout: 120_000 },
-          ),
-        )
-        .andThen(() => exec(["rm", "-rf", tmpDir]))
-        .map(() => ({ path: tarPath, tenant: name, timestamp }));
-    });
+          )
+            .andThen(() => exec(["rm", "-rf", tmpDir]))
+            .andThen(() => exec(["stat", "-c", "%s", tarPath]))
+            .andThen((stat) =>
+              exec(["sha256sum", tarPath], { timeout: 120_000 }).map((sum) => ({
+                id,
+                tenant: name,
+                timestamp,
+                createdAt,
+                path: tarPath,
+                sizeBytes: Number(stat.stdout.trim()),
+                sha256: sum.stdout.trim().split(/\s+/)[0],
+                consistency,
+              })),
+            ),
+        );
+    })
+    .andThen((entry) =>
+      updateSnapIndex((index) => ({
+        snaps: [...index.snaps.filter((e) => e.id !== entry.id), entry],
+      })).map(() => entry),
+    )
+    .andThen((entry) =>
+      // Retention is best-effort — the new snap is already safely recorded
+      runSnapsPrune({ tenant: name })
+        .map((removed) => removed.map((e) => e.id))
+        .orElse(() => okAsync([]))
+        .map((pruned) => ({ ...entry, pruned })),
+    );
 }
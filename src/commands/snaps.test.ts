@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { okAsync } from "neverthrow";
+import * as loader from "../config/loader.js";
+import * as exec_ from "../system/exec.js";
+import { makeConfig, unwrapErr, unwrapOk } from "../test-helpers.js";
+import type {
+  ExecResult,
+  LobsterError,
+  SnapEntry,
+  SnapIndex,
+} from "../types/index.js";
+import {
+  findSnap,
+  runSnapsList,
+  runSnapsPrune,
+  runSnapsRm,
+  snapsDirPath,
+  snapsOverRetention,
+} from "./snaps.js";
+
+function makeSnap(tenant: string, day: number): SnapEntry {
+  const timestamp = `202501${String(day).padStart(2, "0")}-120000`;
+  return {
+    id: `${timestamp}-${tenant}`,
+    tenant,
+    timestamp,
+    createdAt: `2025-01-${String(day).padStart(2, "0")}T12:00:00.000Z`,
+    path: `/var/lib/lobsterd/snaps/${tenant}/${timestamp}-${tenant}.tar.gz`,
+    sizeBytes: 1024,
+    sha256: "a".repeat(64),
+  };
+}
+
+describe("snapsOverRetention", () => {
+  test("keeps the newest N per tenant", () => {
+    const snaps = [
+      makeSnap("a", 3),
+      makeSnap("a", 1),
+      makeSnap("b", 1),
+      makeSnap("a", 2),
+    ];
+    expect(snapsOverRetention(snaps, 2).map((e) => e.id)).toEqual([
+      "20250101-120000-a",
+    ]);
+  });
+
+  test("retention 0 keeps everything", () => {
+    expect(snapsOverRetention([makeSnap("a", 1), makeSnap("a", 2)], 0)).toEqual(
+      [],
+    );
+  });
+});
+
+describe("snapsDirPath", () => {
+  test("accepts tarballs under the snaps dir only", () => {
+    expect(snapsDirPath("/var/lib/lobsterd/snaps/a/x.tar.gz")).toBe(
+      "/var/lib/lobsterd/snaps/a/x.tar.gz",
+    );
+    expect(snapsDirPath("/var/lib/lobsterd/snaps/../../../etc/x")).toBeNull();
+    expect(snapsDirPath("/var/lib/lobsterd/snapshots/x.tar.gz")).toBeNull();
+    expect(snapsDirPath("/var/lib/lobsterd/snaps")).toBeNull();
+  });
+});
+
+describe("snaps catalog", () => {
+  const s = {} as Record<string, ReturnType<typeof spyOn>>;
+  let index: SnapIndex;
+
+  beforeEach(() => {
+    index = {
+      snaps: [makeSnap("a", 1), makeSnap("a", 2), makeSnap("b", 1)],
+    };
+    s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
+      okAsync(makeConfig()) as never,
+    );
+    s.loadSnapIndex = spyOn(loader, "loadSnapIndex").mockImplementation(
+      () => okAsync(index) as never,
+    );
+    s.updateSnapIndex = spyOn(loader, "updateSnapIndex").mockImplementation(((
+      update: (i: SnapIndex) => SnapIndex,
+    ) => {
+      index = update(index);
+      return okAsync(index);
+    }) as never);
+    s.exec = spyOn(exec_, "exec").mockReturnValue(
+      okAsync<ExecResult, LobsterError>({
+        exitCode: 0,
+        stdout: "",
+        stderr: "",
+      }) as never,
+    );
+    s.file = spyOn(Bun, "file").mockReturnValue({
+      exists: () => Promise.resolve(true),
+    } as never);
+  });
+
+  afterEach(() => {
+    for (const spy of Object.values(s)) {
+      spy.mockRestore();
+    }
+  });
+
+  test("list filters by tenant", async () => {
+    const snaps = await unwrapOk(runSnapsList("a"));
+    expect(snaps.map((e) => e.id)).toEqual([
+      "20250101-120000-a",
+      "20250102-120000-a",
+    ]);
+  });
+
+  test("rm deletes the tarball and the index entry", async () => {
+    const removed = await unwrapOk(runSnapsRm("20250101-120000-b"));
+
+    expect(removed.tenant).toBe("b");
+    expect(s.exec).toHaveBeenCalledWith(["rm", "-f", removed.path]);
+    expect(index.snaps.map((e) => e.id)).not.toContain("20250101-120000-b");
+  });
+
+  test("find looks a snap up by id", async () => {
+    expect((await unwrapOk(findSnap("20250101-120000-b"))).tenant).toBe("b");
+    expect((await unwrapErr(findSnap("nope"))).code).toBe("SNAP_NOT_FOUND");
+  });
+
+  test("rm of an unknown snap fails", async () => {
+    const err = await unwrapErr(runSnapsRm("nope"));
+    expect(err.code).toBe("SNAP_NOT_FOUND");
+    expect(s.updateSnapIndex).not.toHaveBeenCalled();
+  });
+
+  test("prune enforces --keep per tenant", async () => {
+    const removed = await unwrapOk(runSnapsPrune({ keep: 1 }));
+
+    expect(removed.map((e) => e.id)).toEqual(["20250101-120000-a"]);
+    expect(index.snaps).toHaveLength(2);
+  });
+
+  test("prune defaults to overlay.snapshotRetention", async () => {
+    const config = makeConfig();
+    s.loadConfig.mockReturnValue(
+      okAsync({
+        ...config,
+        overlay: { ...config.overlay, snapshotRetention: 1 },
+      }) as never,
+    );
+    const removed = await unwrapOk(runSnapsPrune({ tenant: "b" }));
+    expect(removed).toEqual([]);
+  });
+
+  test("prune forgets entries whose tarball is gone", async () => {
+    s.file.mockImplementation(
+      (path: string) =>
+        ({
+          exists: () => Promise.resolve(!path.includes("/b/")),
+        }) as never,
+    );
+    const removed = await unwrapOk(runSnapsPrune());
+
+    expect(removed.map((e) => e.id)).toEqual(["20250101-120000-b"]);
+  });
+});
@@ -0,0 +1,114 @@
+import { resolve } from "node:path";
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import { SNAPS_DIR } from "../config/defaults.js";
+import {
+  loadConfig,
+  loadSnapIndex,
+  updateSnapIndex,
+} from "../config/loader.js";
+import { exec } from "../system/exec.js";
+import type { LobsterError, SnapEntry } from "../types/index.js";
+
+export interface SnapsPruneOpts {
+  /** Only prune this tenant's snaps */
+  tenant?: string;
+  /** Snaps to keep per tenant (default `overlay.snapshotRetention`) */
+  keep?: number;
+}
+
+/**
+ * All but the newest `retention` snaps of each tenant. A retention of 0
+ * keeps everything.
+ */
+export function snapsOverRetention(
+  snaps: SnapEntry[],
+  retention: number,
+): SnapEntry[] {
+  if (retention <= 0) {
+    return [];
+  }
+  const byTenant = new Map<string, SnapEntry[]>();
+  for (const snap of snaps) {
+    byTenant.set(snap.tenant, [...(byTenant.get(snap.tenant) ?? []), snap]);
+  }
+  return [...byTenant.values()].flatMap((list) =>
+    [...list]
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .slice(0, Math.max(0, list.length - retention)),
+  );
+}
+
+/** Drop `ids` from the index, then delete their tarballs */
+function removeSnaps(ids: Set<string>): ResultAsync<SnapEntry[], LobsterError> {
+  let removed: SnapEntry[] = [];
+  return updateSnapIndex((index) => {
+    removed = index.snaps.filter((e) => ids.has(e.id));
+    return { snaps: index.snaps.filter((e) => !ids.has(e.id)) };
+  }).andThen(() => {
+    if (removed.length === 0) {
+      return okAsync(removed);
+    }
+    return exec(["rm", "-f", ...removed.map((e) => e.path)])
+      .map(() => removed)
+      .orElse(() => okAsync(removed));
+  });
+}
+
+export function runSnapsList(
+  tenant?: string,
+): ResultAsync<SnapEntry[], LobsterError> {
+  return loadSnapIndex().map((index) =>
+    tenant ? index.snaps.filter((e) => e.tenant === tenant) : index.snaps,
+  );
+}
+
+/** The catalogued snap with `id` */
+export function findSnap(id: string): ResultAsync<SnapEntry, LobsterError> {
+  return loadSnapIndex().andThen((index) => {
+    const entry = index.snaps.find((e) => e.id === id);
+    if (!entry) {
+      return errAsync<SnapEntry, LobsterError>({
+        code: "SNAP_NOT_FOUND",
+        message: `No snap "${id}"`,
+      });
+    }
+    return okAsync(entry);
+  });
+}
+
+/** `path` made absolute if it lies under `SNAPS_DIR`, null otherwise */
+export function snapsDirPath(path: string): string | null {
+  const abs = resolve(path);
+  return abs.startsWith(`${SNAPS_DIR}/`) ? abs : null;
+}
+
+export function runSnapsRm(id: string): ResultAsync<SnapEntry, LobsterError> {
+  return findSnap(id).andThen(() =>
+    removeSnaps(new Set([id])).map((removed) => removed[0]),
+  );
+}
+
+/**
+ * Enforce snap retention, and forget entries whose tarball has gone missing.
+ * Returns what was removed.
+ */
+export function runSnapsPrune(
+  opts: SnapsPruneOpts = {},
+): ResultAsync<SnapEntry[], LobsterError> {
+  return loadConfig().andThen((config) =>
+    loadSnapIndex().andThen((index) => {
+      const snaps = opts.tenant
+        ? index.snaps.filter((e) => e.tenant === opts.tenant)
+        : index.snaps;
+      const retention = opts.keep ?? config.overlay.snapshotRetention;
+      return ResultAsync.fromSafePromise(
+        Promise.all(snaps.map((e) => Bun.file(e.path).exists())),
+      ).andThen((exists) => {
+        const missing = snaps.filter((_, i) => !exists[i]);
+        const present = snaps.filter((_, i) => exists[i]);
+        const stale = [...missing, ...snapsOverRetention(present, retention)];
+        return removeSnaps(new Set(stale.map((e) => e.id)));
+      });
+    }),
+  );
+}
@@ -1,8 +1,11 @@
 import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
 import { errAsync, okAsync } from "neverthrow";
 import * as loader from "../config/loader.js";
+import * as resources from "../config/resources.js";
 import * as caddy from "../system/caddy.js";
+import * as exec_ from "../system/exec.js";
 import * as fc from "../system/firecracker.js";
+import * as host from "../system/host.js";
 import * as image from "../system/image.js";
 import * as jailer from "../system/jailer.js";
 import * as network from "../system/network.js";
@@ -11,11 +14,12 @@ import * as vsock from "../system/vsock.js";
 import {
   makeConfig,
   makeRegistry,
+  makeTenant,
   unwrapErr,
   unwrapOk,
 } from "../test-helpers.js";
-import type { LobsterError } from "../types/index.js";
-import { computeSubnetIps, runSpawn } from "./spawn.js";
+import type { LobsterError, SpawnJournal } from "../types/index.js";
+import { computeSubnetIps, runSpawn, undoSpawnStep } from "./spawn.js";
 
 // ── Pure unit tests (no mocks) ──────────────────────────────────────────────
 
@@ -54,12 +58,35 @@ beforeEach(() => {
     loadConfig: spyOn(loader, "loadConfig").mockReturnValue(
       okAsync(makeConfig()) as never,
     ),
+    hostMemInfo: spyOn(host, "hostMemInfo").mockReturnValue(
+      okAsync({ totalMb: 65536, availableMb: 60000 }) as never,
+    ),
+    hostDiskInfo: spyOn(host, "hostDiskInfo").mockReturnValue(
+      okAsync({ totalMb: 1_000_000, freeMb: 900_000 }) as never,
+    ),
     loadRegistry: spyOn(loader, "loadRegistry").mockReturnValue(
       okAsync(makeRegistry([])) as never,
     ),
     saveRegistry: spyOn(loader, "saveRegistry").mockReturnValue(
       okAsync(undefined) as never,
     ),
+    loadJournals: spyOn(loader, "loadJournals").mockReturnValue(
+      okAsync([]) as never,
+    ),
+    saveJournal: spyOn(loader, "saveJournal").mockReturnValue(
+      okAsync(undefined) as never,
+    ),
+    deleteJournal: spyOn(loader, "deleteJournal").mockReturnValue(
+      okAsync(undefined) as never,
+    ),
+    loadTrash: spyOn(loader, "loadTrash").mockReturnValue(okAsync([]) as never),
+    execUnchecked: spyOn(exec_, "execUnchecked").mockReturnValue(
+      okAsync({ exitCode: 0, stdout: "", stderr: "" }) as never,
+    ),
+    hostLimits: spyOn(resources, "hostLimits").mockReturnValue({
+      cpuCount: 8,
+      memTotalMb: 16384,
+    }),
     createOverlay: spyOn(image, "createOverlay").mockReturnValue(
       okAsync(undefined) as never,
     ),
@@ -119,6 +146,9 @@ beforeEach(() => {
     addNetworkInterface: spyOn(fc, "addNetworkInterface").mockReturnValue(
       okAsync(undefined) as never,
     ),
+    addBalloon: spyOn(fc, "addBalloon").mockReturnValue(
+      okAsync(undefined) as never,
+    ),
     startInstance: spyOn(fc, "startInstance").mockReturnValue(
       okAsync(undefined) as never,
     ),
@@ -201,7 +231,7 @@ describe("runSpawn", () => {
     expect(tenant.cid).toBe(3);
     expect(tenant.status).toBe("active");
     expect(tenant.vmPid).toBe(99999);
-    // nextSubnetIndex=1 → computeSubnetIps("10.0.0.0", 1)
+    // Lowest free subnet index is 1 → computeSubnetIps("10.0.0.0", 1)
     expect(tenant.ipAddress).toBe("10.0.0.6");
     expect(tenant.hostIp).toBe("10.0.0.5");
 
@@ -218,6 +248,66 @@ describe("runSpawn", () => {
     expect(s.saveRegistry).toHaveBeenCalledTimes(1);
   });
 
+  test("applies per-tenant resource overrides", async () => {
+    const tenant = await unwrapOk(
+      runSpawn("my-tenant", { resources: { vcpuCount: 4, diskSizeMb: 8192 } }),
+    );
+    expect(tenant.resources).toEqual({
+      vcpuCount: 4,
+      memSizeMb: 1024,
+      diskSizeMb: 8192,
+    });
+    expect(s.createOverlay).toHaveBeenCalledWith(expect.any(String), 8192);
+    expect(s.configureVm).toHaveBeenCalledWith(expect.any(String), {
+      vcpuCount: 4,
+      memSizeMib: 1024,
+    });
+  });
+
+  test("spawns from a template and records its name", async () => {
+    s.loadConfig.mockReturnValue(
+      okAsync(
+        makeConfig({
+          templates: { batch: { resources: { memSizeMb: 2048 } } },
+        }),
+      ) as never,
+    );
+    const tenant = await unwrapOk(runSpawn("my-tenant", { template: "batch" }));
+    expect(tenant.template).toBe("batch");
+    expect(tenant.resources?.memSizeMb).toBe(2048);
+  });
+
+  test("records labels given at spawn time", async () => {
+    const tenant = await unwrapOk(
+      runSpawn("my-tenant", { labels: { team: "infra" } }),
+    );
+    expect(tenant.labels).toEqual({ team: "infra" });
+  });
+
+  test("rejects an unknown template", async () => {
+    const err = await unwrapErr(runSpawn("my-tenant", { template: "nope" }));
+    expect(err.code).toBe("VALIDATION_FAILED");
+    expect(s.loadRegistry).not.toHaveBeenCalled();
+  });
+
+  test("rejects resources beyond host limits before touching the host", async () => {
+    const err = await unwrapErr(
+      runSpawn("my-tenant", { resources: { memSizeMb: 32768 } }),
+    );
+    expect(err.code).toBe("VALIDATION_FAILED");
+    expect(s.createOverlay).not.toHaveBeenCalled();
+  });
+
+  test("refuses with CAPACITY_EXCEEDED before touching the host", async () => {
+    s.hostMemInfo.mockReturnValue(
+      okAsync({ totalMb: 65536, availableMb: 600 }) as never,
+    );
+    const err = await unwrapErr(runSpawn("my-tenant"));
+    expect(err.code).toBe("CAPACITY_EXCEEDED");
+    expect(s.createOverlay).not.toHaveBeenCalled();
+    expect(s.saveJournal).not.toHaveBeenCalled();
+  });
+
   test("rolls back on createTap failure", async () => {
     s.createTap.mockReturnValue(
       errAsync<void, LobsterError>({
@@ -234,4 +324,152 @@ describe("runSpawn", () => {
     // Nothing after createTap should have run
     expect(s.addNat).not.toHaveBeenCalled();
   });
+
+  test("journals each step before running it and clears the journal", async () => {
+    const steps: string[][] = [];
+    s.saveJournal.mockImplementation((j: SpawnJournal) => {
+      steps.push([...j.steps]);
+      return okAsync(undefined) as never;
+    });
+
+    await unwrapOk(runSpawn("my-tenant"));
+    expect(steps.at(-1)).toEqual([
+      "overlay",
+      "tap",
+      "nat",
+      "isolation",
+      "vm",
+      "ssh",
+      "caddy",
+      "registry",
+    ]);
+    expect(s.deleteJournal).toHaveBeenCalledWith("my-tenant");
+  });
+
+  test("clears the journal after an in-process rollback", async () => {
+    s.addNat.mockReturnValue(
+      errAsync<void, LobsterError>({
+        code: "EXEC_FAILED",
+        message: "mock nat failure",
+      }) as never,
+    );
+
+    await unwrapErr(runSpawn("my-tenant"));
+    expect(s.deleteTap).toHaveBeenCalledTimes(1);
+    expect(s.deleteJournal).toHaveBeenCalledWith("my-tenant");
+  });
+
+  test("refuses a name with an unrecovered journal", async () => {
+    s.loadJournals.mockReturnValue(okAsync([pendingJournal("stuck")]) as never);
+
+    const err = await unwrapErr(runSpawn("stuck"));
+    expect(err.code).toBe("TENANT_EXISTS");
+    expect(err.message).toContain("lobsterd recover");
+    expect(s.saveJournal).not.toHaveBeenCalled();
+    expect(s.deleteJournal).not.toHaveBeenCalled();
+  });
+
+  test("skips slots held by a journaled spawn", async () => {
+    s.loadJournals.mockReturnValue(okAsync([pendingJournal("stuck")]) as never);
+
+    const tenant = await unwrapOk(runSpawn("my-tenant"));
+    expect(tenant.cid).toBe(4);
+    expect(tenant.gatewayPort).toBe(9001);
+    expect(tenant.jailUid).toBe(10001);
+    // subnet index 2 → 10.0.0.8/30
+    expect(tenant.ipAddress).toBe("10.0.0.10");
+  });
+
+  test("skips slots held by a trashed tenant", async () => {
+    s.loadTrash.mockReturnValue(
+      okAsync([
+        {
+          id: "old-1",
+          tenant: slotTenant("old", 1),
+          deletedAt: "2025-01-01T00:00:00.000Z",
+          expiresAt: "2025-01-08T00:00:00.000Z",
+        },
+      ]) as never,
+    );
+
+    const tenant = await unwrapOk(runSpawn("my-tenant"));
+    expect(tenant.cid).toBe(4);
+    expect(tenant.ipAddress).toBe("10.0.0.10");
+  });
+
+  test("reuses the slots of an evicted tenant", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(makeRegistry([slotTenant("a", 1), slotTenant("c", 3)])) as never,
+    );
+
+    // Everything fills the gap left by the evicted "b"
+    const tenant = await unwrapOk(runSpawn("my-tenant"));
+    expect(tenant.cid).toBe(4);
+    expect(tenant.gatewayPort).toBe(9001);
+    expect(tenant.jailUid).toBe(10001);
+    expect(tenant.hostIp).toBe("10.0.0.9");
+  });
+
+  test("fails with SUBNET_EXHAUSTED when the pool is full", async () => {
+    // A /29 pool holds one tenant /30 besides the reserved first one
+    s.loadConfig.mockReturnValue(
+      okAsync(
+        makeConfig({
+          network: { ...makeConfig().network, poolPrefix: 29 },
+        }),
+      ) as never,
+    );
+    s.loadRegistry.mockReturnValue(
+      okAsync(makeRegistry([slotTenant("a", 1)])) as never,
+    );
+
+    const err = await unwrapErr(runSpawn("my-tenant"));
+    expect(err.code).toBe("SUBNET_EXHAUSTED");
+    expect(s.createOverlay).not.toHaveBeenCalled();
+  });
+});
+
+/** Tenant holding subnet `index` and the matching CID/port/UID offsets */
+function slotTenant(name: string, index: number) {
+  const { hostIp, guestIp } = computeSubnetIps("10.0.0.0", index);
+  return makeTenant({
+    name,
+    hostIp,
+    ipAddress: guestIp,
+    cid: 2 + index,
+    gatewayPort: 8999 + index,
+    jailUid: 9999 + index,
+  });
+}
+
+function pendingJournal(name: string): SpawnJournal {
+  return {
+    op: "spawn",
+    pid: 1,
+    startedAt: "2025-01-01T00:00:00.000Z",
+    tenant: slotTenant(name, 1),
+    steps: ["overlay", "tap"],
+  };
+}
+
+describe("undoSpawnStep", () => {
+  test("vm kills by VM ID and cleans the chroot", async () => {
+    await unwrapOk(undoSpawnStep("vm", makeTenant(), makeConfig()));
+    expect(s.execUnchecked).toHaveBeenCalledWith([
+      "pkill",
+      "-9",
+      "-f",
+      "--id vm-test-tenant",
+    ]);
+    expect(s.cleanupChroot).toHaveBeenCalledTimes(1);
+  });
+
+  test("nat removes the tenant's rules", async () => {
+    await unwrapOk(undoSpawnStep("nat", makeTenant(), makeConfig()));
+    expect(s.removeNat).toHaveBeenCalledWith(
+      "tap-test-tenant",
+      "10.0.0.2",
+      9000,
+    );
+  });
 });
@@ -1,7 +1,23 @@
 import { errAsync, okAsync, ResultAsync } from "neverthrow";
-import { loadConfig, loadRegistry, saveRegistry } from "../config/loader.js";
+import { allocate, tenantIds } from "../config/allocator.js";
+import {
+  deleteJournal,
+  loadConfig,
+  loadJournals,
+  loadRegistry,
+  loadTrash,
+  saveJournal,
+  saveRegistry,
+} from "../config/loader.js";
+import {
+  defaultResources,
+  hostLimits,
+  validateResources,
+} from "../config/resources.js";
 import { TENANT_NAME_REGEX } from "../config/schema.js";
+import { applyTemplate, resolveTemplate } from "../config/templates.js";
 import * as caddy from "../system/caddy.js";
+import { execUnchecked } from "../system/exec.js";
 import * as fc from "../system/firecracker.js";
 import * as image from "../system/image.js";
 import * as jailer from "../system/jailer.js";
@@ -11,16 +27,35 @@ import * as vsock from "../system/vsock.js";
 import type {
   LobsterdConfig,
   LobsterError,
+  SpawnJournal,
+  SpawnStep,
   Tenant,
   TenantRegistry,
+  TenantResources,
+  TrashEntry,
 } from "../types/index.js";
+import { addBalloonDevice } from "./boot.js";
+import { admitTenant } from "./capacity.js";
+import { injectStoredSecrets } from "./secrets.js";
+import { rollback, type UndoFn } from "./undo.js";
 
 export interface SpawnProgress {
   step: string;
   detail: string;
 }
 
-type UndoFn = () => ResultAsync<void, LobsterError>;
+export interface SpawnOpts {
+  /** Name of a template in config.templates to spawn from */
+  template?: string;
+  /** Per-tenant overrides; anything omitted falls back to the config defaults */
+  resources?: Partial<TenantResources>;
+  labels?: Record<string, string>;
+  /**
+   * Pre-populated overlay image to adopt instead of creating a blank one.
+   * The file is moved into place, so it should live on the overlay filesystem.
+   */
+  overlayFrom?: string;
+}
 
 export function computeSubnetIps(
   subnetBase: string,
@@ -38,8 +73,58 @@ export function computeSubnetIps(
   return { hostIp: toIp(hostAddr), guestIp: toIp(guestAddr) };
 }
 
+/**
+ * Undo one journaled spawn step. Used both for in-process rollback and by
+ * `lobsterd recover`, so each step must be safe to run when it only got
+ * partway (or not at all) before the failure.
+ */
+export function undoSpawnStep(
+  step: SpawnStep,
+  tenant: Tenant,
+  config: LobsterdConfig,
+): ResultAsync<void, LobsterError> {
+  switch (step) {
+    case "overlay":
+      return image.deleteOverlay(tenant.overlayPath);
+    case "tap":
+      return network.deleteTap(tenant.tapDev);
+    case "nat":
+      return network.removeNat(
+        tenant.tapDev,
+        tenant.ipAddress,
+        tenant.gatewayPort,
+      );
+    case "isolation":
+      return network.removeIsolationRules(tenant.tapDev);
+    case "lockdown":
+      return network.removeAgentLockdownRules(
+        tenant.ipAddress,
+        config.vsock.agentPort,
+        config.vsock.healthPort,
+      );
+    case "vm":
+      // The PID may be gone (or reused) after a crash — match on the VM ID
+      return execUnchecked(["pkill", "-9", "-f", `--id ${tenant.vmId}`])
+        .orElse(() => okAsync(undefined))
+        .andThen(() =>
+          jailer.cleanupChroot(config.jailer.chrootBaseDir, tenant.vmId),
+        );
+    case "ssh":
+      return ssh.removeKeypair(tenant.name);
+    case "caddy":
+      return caddy.removeRoute(
+        config.caddy.adminApi,
+        tenant.name,
+        config.instance,
+      );
+    case "registry":
+      return okAsync(undefined);
+  }
+}
+
 export function runSpawn(
   name: string,
+  opts: SpawnOpts = {},
   onProgress?: (p: SpawnProgress) => void,
 ): ResultAsync<Tenant, LobsterError> {
   const progress = (step: string, detail: string) =>
@@ -55,57 +140,118 @@ export function runSpawn(
   let config: LobsterdConfig;
   let registry: TenantRegistry;
   let tenant: Tenant;
+  let resources: TenantResources;
+  let journals: SpawnJournal[];
+  let trash: TrashEntry[];
+  let journal: SpawnJournal | null = null;
   let vmProcPid: number | null = null;
   const undoStack: UndoFn[] = [];
 
-  function rollback(error: LobsterError): ResultAsync<never, LobsterError> {
-    if (undoStack.length === 0) {
-      return errAsync(error);
-    }
-    const fns = [...undoStack].reverse();
-    let count = 0;
-    let chain: ResultAsync<void, LobsterError> = okAsync(undefined);
-    for (const fn of fns) {
-      chain = chain
-        .andThen(() => fn().orElse(() => okAsync(undefined)))
-        .map(() => {
-          count++;
-          return undefined;
-        });
+  /** Journal a step before running it, so a crash mid-step is still undone */
+  function begin(step: SpawnStep): ResultAsync<void, LobsterError> {
+    if (!journal) {
+      return okAsync(undefined);
     }
-    return chain.andThen(() =>
-      errAsync({
-        ...error,
-        message: `${error.message} (rolled back ${count}/${fns.length} steps)`,
-      }),
-    );
+    journal.steps.push(step);
+    return saveJournal(journal);
+  }
+
+  function undo(step: SpawnStep): UndoFn {
+    return () => undoSpawnStep(step, tenant, config);
+  }
+
+  function adoptOverlay(src: string): ResultAsync<void, LobsterError> {
+    progress("overlay", `Adopting overlay ${src} as ${tenant.overlayPath}`);
+    return image
+      .moveOverlay(src, tenant.overlayPath)
+      .andThen(() => image.overlaySizeMb(tenant.overlayPath))
+      .andThen((sizeMb) => {
+        // Never shrink an existing filesystem — record its real size instead
+        if (sizeMb >= resources.diskSizeMb) {
+          resources.diskSizeMb = sizeMb;
+          return okAsync(undefined);
+        }
+        progress("overlay", `Growing overlay to ${resources.diskSizeMb}MB`);
+        return image.resizeOverlay(tenant.overlayPath, resources.diskSizeMb);
+      })
+      .orElse((e) =>
+        image
+          .deleteOverlay(tenant.overlayPath)
+          .orElse(() => okAsync(undefined))
+          .andThen(() => errAsync(e)),
+      );
   }
 
   return loadConfig()
     .andThen((c) => {
       config = c;
+      if (opts.template) {
+        const template = resolveTemplate(config, opts.template);
+        if (template.isErr()) {
+          return errAsync(template.error);
+        }
+        config = applyTemplate(config, template.value);
+      }
+      const validated = validateResources(
+        { ...defaultResources(config), ...opts.resources },
+        hostLimits(),
+      );
+      if (validated.isErr()) {
+        return errAsync(validated.error);
+      }
+      resources = validated.value;
+      return loadJournals();
+    })
+    .andThen((j) => {
+      journals = j;
+      return loadTrash();
+    })
+    .andThen((t) => {
+      trash = t;
       return loadRegistry();
     })
-    .andThen((r): ResultAsync<void, LobsterError> => {
+    .andThen((r) => {
       registry = r;
 
       if (registry.tenants.some((t) => t.name === name)) {
-        return errAsync({
+        return errAsync<void, LobsterError>({
           code: "TENANT_EXISTS",
           message: `Tenant "${name}" already exists`,
         });
       }
+      if (journals.some((j) => j.tenant.name === name)) {
+        return errAsync<void, LobsterError>({
+          code: "TENANT_EXISTS",
+          message: `Tenant "${name}" has an unfinished spawn — run \`lobsterd recover\` first`,
+        });
+      }
 
-      const cid = registry.nextCid;
-      const subnetIndex = registry.nextSubnetIndex;
-      const gatewayPort = registry.nextGatewayPort;
-      const jailUid = registry.nextJailUid;
+      // In-flight spawns count as running — their VMs are about to boot
+      progress("capacity", "Checking host capacity");
+      return admitTenant(
+        config,
+        [...registry.tenants, ...journals.map((j) => j.tenant)],
+        resources,
+        { newDisk: true },
+      );
+    })
+    .andThen((): ResultAsync<void, LobsterError> => {
+      // In-flight spawns and trashed tenants keep their slots until they
+      // are registered, rolled back or purged
+      const allocation = allocate(config, [
+        ...registry.tenants,
+        ...journals.map((j) => j.tenant),
+        ...trash.map((e) => e.tenant),
+      ]);
+      if (allocation.isErr()) {
+        return errAsync(allocation.error);
+      }
+      const { cid, subnetIndex, gatewayPort, jailUid } = allocation.value;
       const { hostIp, guestIp } = computeSubnetIps(
         config.network.subnetBase,
         subnetIndex,
       );
-      const tapDev = `tap-${name}`;
-      const vmId = `vm-${name}`;
+      const { tapDev, vmId } = tenantIds(config, name);
       const overlayPath = `${config.overlay.baseDir}/${name}.ext4`;
       const socketPath = jailer.getApiSocketPath(
         config.jailer.chrootBaseDir,
@@ -129,66 +275,79 @@ export function runSpawn(
         jailUid,
         agentToken: crypto.randomUUID(),
         suspendInfo: null,
+        resources,
+        ...(opts.template ? { template: opts.template } : {}),
+        ...(opts.labels && Object.keys(opts.labels).length > 0
+          ? { labels: opts.labels }
+          : {}),
+      };
+      journal = {
+        op: "spawn",
+        pid: process.pid,
+        startedAt: tenant.createdAt,
+        tenant,
+        steps: [],
       };
 
-      // Step 1: Create overlay
-      progress(
-        "overlay",
-        `Creating overlay ${overlayPath} (${config.overlay.defaultSizeMb}MB)`,
-      );
-      return image.createOverlay(overlayPath, config.overlay.defaultSizeMb);
+      // Step 1: Create overlay (or adopt a pre-populated one)
+      return begin("overlay").andThen(() => {
+        if (opts.overlayFrom) {
+          return adoptOverlay(opts.overlayFrom);
+        }
+        progress(
+          "overlay",
+          `Creating overlay ${overlayPath} (${resources.diskSizeMb}MB)`,
+        );
+        return image.createOverlay(overlayPath, resources.diskSizeMb);
+      });
     })
     .andThen(() => {
-      undoStack.push(() => image.deleteOverlay(tenant.overlayPath));
+      undoStack.push(undo("overlay"));
 
       // Step 2: Create TAP device
       progress(
         "network",
         `Creating TAP ${tenant.tapDev} (host=${tenant.hostIp}, guest=${tenant.ipAddress})`,
       );
-      return network.createTap(tenant.tapDev, tenant.hostIp, tenant.ipAddress);
+      return begin("tap").andThen(() =>
+        network.createTap(tenant.tapDev, tenant.hostIp, tenant.ipAddress),
+      );
     })
     .andThen(() => {
-      undoStack.push(() => network.deleteTap(tenant.tapDev));
+      undoStack.push(undo("tap"));
 
       // Step 3: Add NAT rules
       progress("nat", `Adding NAT rules for port ${tenant.gatewayPort}`);
-      return network.addNat(
-        tenant.tapDev,
-        tenant.ipAddress,
-        tenant.gatewayPort,
+      return begin("nat").andThen(() =>
+        network.addNat(tenant.tapDev, tenant.ipAddress, tenant.gatewayPort),
       );
     })
     .andThen(() => {
-      undoStack.push(() =>
-        network.removeNat(tenant.tapDev, tenant.ipAddress, tenant.gatewayPort),
-      );
+      undoStack.push(undo("nat"));
 
       // Step 4: Add network isolation rules (FORWARD + INPUT)
       progress("isolation", "Adding network isolation rules");
-      return network.addIsolationRules(tenant.tapDev);
+      return begin("isolation").andThen(() =>
+        network.addIsolationRules(tenant.tapDev),
+      );
     })
     .andThen(() => {
-      undoStack.push(() => network.removeIsolationRules(tenant.tapDev));
+      undoStack.push(undo("isolation"));
 
       // Step 4b: Agent lockdown (if enabled)
       if (config.buoy?.agentLockdown) {
         progress("lockdown", "Adding agent lockdown rules");
-        return network
-          .addAgentLockdownRules(
-            tenant.ipAddress,
-            config.vsock.agentPort,
-            config.vsock.healthPort,
+        return begin("lockdown")
+          .andThen(() =>
+            network.addAgentLockdownRules(
+              tenant.ipAddress,
+              config.vsock.agentPort,
+              config.vsock.healthPort,
+            ),
           )
           .map(() => undefined)
           .andThen(() => {
-            undoStack.push(() =>
-              network.removeAgentLockdownRules(
-                tenant.ipAddress,
-                config.vsock.agentPort,
-                config.vsock.healthPort,
-              ),
-            );
+            undoStack.push(undo("lockdown"));
             return okAsync(undefined);
           });
       }
@@ -199,20 +358,19 @@ export function runSpawn(
       progress("firecracker", "Starting Firecracker microVM via jailer");
 
       // Clean up any stale jailer chroot from a previous failed run
-      return jailer.cleanupChroot(config.jailer.chrootBaseDir, tenant.vmId);
+      return begin("vm").andThen(() =>
+        jailer.cleanupChroot(config.jailer.chrootBaseDir, tenant.vmId),
+      );
     })
     .andThen(() => {
       return ResultAsync.fromPromise(
         (async () => {
-          const memLimitBytes =
-            (config.firecracker.defaultMemSizeMb + 128) * 1024 * 1024;
-          const cpuQuotaUs = config.firecracker.defaultVcpuCount * 100_000;
           const args = jailer.buildJailerArgs(
             config.jailer,
             config.firecracker.binaryPath,
             tenant.vmId,
             tenant.jailUid,
-            { memLimitBytes, cpuQuotaUs, cpuPeriodUs: 100_000 },
+            jailer.cgroupLimits(resources.vcpuCount, resources.memSizeMb),
           );
           const proc = Bun.spawn(args, {
             stdout: "ignore",
@@ -239,12 +397,8 @@ export function runSpawn(
                 process.kill(vmProcPid, "SIGKILL");
               } catch {}
             }
-            await jailer.cleanupChroot(
-              config.jailer.chrootBaseDir,
-              tenant.vmId,
-            );
           })(),
-        ),
+        ).andThen(undo("vm")),
       );
 
       // Step 6: Hard-link drive and kernel files into jailer chroot
@@ -262,11 +416,11 @@ export function runSpawn(
       // Step 7: Configure VM via Firecracker API (paths are chroot-relative)
       progress(
         "vm-config",
-        `Configuring VM (${config.firecracker.defaultVcpuCount} vCPU, ${config.firecracker.defaultMemSizeMb}MB RAM)`,
+        `Configuring VM (${resources.vcpuCount} vCPU, ${resources.memSizeMb}MB RAM)`,
       );
       return fc.configureVm(tenant.socketPath, {
-        vcpuCount: config.firecracker.defaultVcpuCount,
-        memSizeMib: config.firecracker.defaultMemSizeMb,
+        vcpuCount: resources.vcpuCount,
+        memSizeMib: resources.memSizeMb,
       });
     })
     .andThen(() => {
@@ -311,6 +465,7 @@ export function runSpawn(
         config.firecracker.networkTxRateLimit,
       );
     })
+    .andThen(() => addBalloonDevice(tenant, config, progress))
     .andThen(() => {
       progress("start", "Starting VM instance");
       return fc.startInstance(tenant.socketPath);
@@ -329,10 +484,10 @@ export function runSpawn(
     .andThen(() => {
       // Step 9: Generate SSH keypair for tenant
       progress("ssh-keygen", "Generating SSH keypair");
-      return ssh.generateKeypair(tenant.name);
+      return begin("ssh").andThen(() => ssh.generateKeypair(tenant.name));
     })
     .andThen((sshPublicKey) => {
-      undoStack.push(() => ssh.removeKeypair(tenant.name));
+      undoStack.push(undo("ssh"));
 
       // Step 10: Inject secrets (build per-tenant config with correct origin)
       progress("secrets", "Injecting API keys and gateway token");
@@ -360,32 +515,48 @@ export function runSpawn(
         tenant.agentToken,
       );
     })
+    .andThen(() =>
+      // Step 10b: Tenant secrets from `lobsterd secrets`, if any
+      injectStoredSecrets(tenant, config, progress),
+    )
     .andThen(() => {
       // Step 10: Add Caddy route
       progress(
         "caddy",
         `Adding Caddy route for ${name}.${config.caddy.domain}`,
       );
-      return caddy.addRoute(
-        config.caddy.adminApi,
-        name,
-        config.caddy.domain,
-        tenant.ipAddress,
-        9000,
+      return begin("caddy").andThen(() =>
+        caddy.addRoute(
+          config.caddy.adminApi,
+          name,
+          config.caddy.domain,
+          tenant.ipAddress,
+          9000,
+          config.instance,
+        ),
       );
     })
     .andThen(() => {
-      undoStack.push(() => caddy.removeRoute(config.caddy.adminApi, name));
+      undoStack.push(undo("caddy"));
 
-      // Step 11: Save to registry
+      // Step 11: Save to registry. Once "registry" is journaled, recovery
+      // finishes the spawn instead of rolling it back.
       progress("registry", "Registering tenant");
-      registry.tenants.push(tenant);
-      registry.nextCid += 1;
-      registry.nextSubnetIndex += 1;
-      registry.nextGatewayPort += 1;
-      registry.nextJailUid += 1;
-      return saveRegistry(registry);
+      return begin("registry").andThen(() => {
+        registry.tenants.push(tenant);
+        return saveRegistry(registry);
+      });
     })
+    .andThen(() => deleteJournal(name).orElse(() => okAsync(undefined)))
     .map(() => tenant)
-    .orElse((error) => rollback(error));
+    .orElse((error) =>
+      rollback(undoStack, error).orElse((e) => {
+        if (!journal) {
+          return errAsync(e);
+        }
+        return deleteJournal(name)
+          .orElse(() => okAsync(undefined))
+          .andThen(() => errAsync(e));
+      }),
+    );
 }
@@ -0,0 +1,148 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from "bun:test";
+import { errAsync, okAsync } from "neverthrow";
+import * as loader from "../config/loader.js";
+import * as exec_ from "../system/exec.js";
+import * as host from "../system/host.js";
+import * as jailer from "../system/jailer.js";
+import {
+  makeConfig,
+  makeRegistry,
+  makeTenant,
+  unwrapErr,
+  unwrapOk,
+} from "../test-helpers.js";
+import type { ExecResult, LobsterError } from "../types/index.js";
+import * as boot from "./boot.js";
+import { runStart } from "./start.js";
+import * as tenantNetwork from "./tenant-network.js";
+import type { UndoFn } from "./undo.js";
+
+const s = {} as Record<string, ReturnType<typeof spyOn>>;
+
+beforeEach(() => {
+  s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
+    okAsync(makeConfig()) as never,
+  );
+  s.loadRegistry = spyOn(loader, "loadRegistry").mockReturnValue(
+    okAsync(makeRegistry([makeTenant({ vmPid: 1234 })])) as never,
+  );
+  s.saveRegistry = spyOn(loader, "saveRegistry").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.exec = spyOn(exec_, "exec").mockReturnValue(
+    okAsync<ExecResult, LobsterError>({
+      exitCode: 0,
+      stdout: "",
+      stderr: "",
+    }) as never,
+  );
+  s.cleanupChroot = spyOn(jailer, "cleanupChroot").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.shutdownVm = spyOn(boot, "shutdownVm").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.coldBoot = spyOn(boot, "coldBoot").mockImplementation(
+    (tenant: { vmPid: number | null }) => {
+      tenant.vmPid = 4321;
+      return okAsync(undefined) as never;
+    },
+  );
+  s.hostMemInfo = spyOn(host, "hostMemInfo").mockReturnValue(
+    okAsync({ totalMb: 65536, availableMb: 60000 }) as never,
+  );
+  s.hostDiskInfo = spyOn(host, "hostDiskInfo").mockReturnValue(
+    okAsync({ totalMb: 1_000_000, freeMb: 900_000 }) as never,
+  );
+  s.attachNetwork = spyOn(tenantNetwork, "attachNetwork").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+});
+
+afterEach(() => {
+  for (const spy of Object.values(s)) {
+    spy.mockRestore();
+  }
+});
+
+// ── runStart ────────────────────────────────────────────────────────────────
+
+describe("runStart", () => {
+  const stopped = (networkParked: boolean) =>
+    makeRegistry([
+      makeTenant({
+        status: "stopped",
+        vmPid: null,
+        stopInfo: { stoppedAt: "2025-01-01T00:00:00.000Z", networkParked },
+      }),
+    ]);
+
+  test("re-attaches the network and boots from the overlay", async () => {
+    s.loadRegistry.mockReturnValue(okAsync(stopped(false)) as never);
+
+    const tenant = await unwrapOk(runStart("test-tenant"));
+    expect(tenant.status).toBe("active");
+    expect(tenant.stopInfo).toBeNull();
+    expect(tenant.vmPid).toBe(4321);
+    expect(s.attachNetwork).toHaveBeenCalledTimes(1);
+    expect(s.coldBoot).toHaveBeenCalledTimes(1);
+    expect(s.saveRegistry).toHaveBeenCalledTimes(1);
+  });
+
+  test("reuses a parked network", async () => {
+    s.loadRegistry.mockReturnValue(okAsync(stopped(true)) as never);
+    await unwrapOk(runStart("test-tenant"));
+    expect(s.attachNetwork).not.toHaveBeenCalled();
+  });
+
+  test("rolls back the network when the boot fails", async () => {
+    s.loadRegistry.mockReturnValue(okAsync(stopped(false)) as never);
+    const detached = mock(() => okAsync(undefined));
+    s.attachNetwork.mockImplementation(((
+      _tenant: unknown,
+      _config: unknown,
+      undoStack: UndoFn[],
+    ) => {
+      undoStack.push(detached);
+      return okAsync(undefined);
+    }) as never);
+    s.coldBoot.mockReturnValue(
+      errAsync<void, LobsterError>({
+        code: "VM_BOOT_FAILED",
+        message: "mock boot failure",
+      }) as never,
+    );
+
+    const err = await unwrapErr(runStart("test-tenant"));
+    expect(err.code).toBe("VM_BOOT_FAILED");
+    expect(err.message).toContain("rolled back 2/2 steps");
+    expect(detached).toHaveBeenCalledTimes(1);
+    expect(s.saveRegistry).not.toHaveBeenCalled();
+  });
+
+  test("refuses with CAPACITY_EXCEEDED when the host is out of memory", async () => {
+    s.loadRegistry.mockReturnValue(okAsync(stopped(false)) as never);
+    s.hostMemInfo.mockReturnValue(
+      okAsync({ totalMb: 65536, availableMb: 600 }) as never,
+    );
+
+    const err = await unwrapErr(runStart("test-tenant"));
+    expect(err.code).toBe("CAPACITY_EXCEEDED");
+    expect(s.attachNetwork).not.toHaveBeenCalled();
+    expect(s.coldBoot).not.toHaveBeenCalled();
+  });
+
+  test("rejects a tenant that is not stopped", async () => {
+    const err = await unwrapErr(runStart("test-tenant"));
+    expect(err.code).toBe("VALIDATION_FAILED");
+    expect(s.coldBoot).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import { errAsync, okAsync, type ResultAsync } from "neverthrow";
+import { loadConfig, loadRegistry, saveRegistry } from "../config/loader.js";
+import { tenantResources } from "../config/resources.js";
+import { tenantConfig } from "../config/templates.js";
+import * as jailer from "../system/jailer.js";
+import type {
+  LobsterdConfig,
+  LobsterError,
+  Tenant,
+  TenantRegistry,
+} from "../types/index.js";
+import { coldBoot } from "./boot.js";
+import { admitTenant } from "./capacity.js";
+import { attachNetwork } from "./tenant-network.js";
+import { rollback, type UndoFn } from "./undo.js";
+
+export interface StartProgress {
+  step: string;
+  detail: string;
+}
+
+/** Fresh boot of a stopped tenant from its overlay. */
+export function runStart(
+  name: string,
+  onProgress?: (p: StartProgress) => void,
+): ResultAsync<Tenant, LobsterError> {
+  const progress = (step: string, detail: string) =>
+    onProgress?.({ step, detail });
+  let config: LobsterdConfig;
+  let tenant: Tenant;
+  let registry: TenantRegistry;
+  const undoStack: UndoFn[] = [];
+
+  return loadConfig()
+    .andThen((c) => {
+      config = c;
+      return loadRegistry();
+    })
+    .andThen((reg): ResultAsync<void, LobsterError> => {
+      const found = reg.tenants.find((t) => t.name === name);
+      if (!found) {
+        return errAsync({
+          code: "TENANT_NOT_FOUND",
+          message: `Tenant "${name}" not found`,
+        });
+      }
+      if (found.status !== "stopped") {
+        return errAsync({
+          code: "VALIDATION_FAILED",
+          message: `Tenant "${name}" is not stopped (status: ${found.status})`,
+        });
+      }
+      tenant = found;
+      registry = reg;
+      const globalConfig = config;
+      config = tenantConfig(found, config);
+      progress("capacity", "Checking host capacity");
+      return admitTenant(
+        globalConfig,
+        reg.tenants,
+        tenantResources(found, config),
+        { newDisk: false },
+      );
+    })
+    .andThen(() => {
+      if (tenant.stopInfo?.networkParked) {
+        progress("network", "Network was parked, reusing it");
+        return okAsync(undefined);
+      }
+      return attachNetwork(tenant, config, undoStack, progress);
+    })
+    .andThen(() => {
+      undoStack.push(() => {
+        if (tenant.vmPid) {
+          try {
+            process.kill(tenant.vmPid, "SIGKILL");
+          } catch {}
+          tenant.vmPid = null;
+        }
+        return jailer.cleanupChroot(config.jailer.chrootBaseDir, tenant.vmId);
+      });
+      progress("boot", "Booting VM from overlay");
+      return coldBoot(tenant, config, (p) => progress(p.step, p.detail));
+    })
+    .andThen(() => {
+      progress("registry", "Updating registry");
+      tenant.status = "active";
+      tenant.stopInfo = null;
+      return saveRegistry(registry).map(() => tenant);
+    })
+    .orElse((error) => rollback(undoStack, error));
+}
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { okAsync } from "neverthrow";
+import * as loader from "../config/loader.js";
+import * as exec_ from "../system/exec.js";
+import * as jailer from "../system/jailer.js";
+import {
+  makeConfig,
+  makeRegistry,
+  makeTenant,
+  unwrapErr,
+  unwrapOk,
+} from "../test-helpers.js";
+import type { ExecResult, LobsterError } from "../types/index.js";
+import * as boot from "./boot.js";
+import { runStop } from "./stop.js";
+import * as tenantNetwork from "./tenant-network.js";
+
+const s = {} as Record<string, ReturnType<typeof spyOn>>;
+
+beforeEach(() => {
+  s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
+    okAsync(makeConfig()) as never,
+  );
+  s.loadRegistry = spyOn(loader, "loadRegistry").mockReturnValue(
+    okAsync(makeRegistry([makeTenant({ vmPid: 1234 })])) as never,
+  );
+  s.saveRegistry = spyOn(loader, "saveRegistry").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.exec = spyOn(exec_, "exec").mockReturnValue(
+    okAsync<ExecResult, LobsterError>({
+      exitCode: 0,
+      stdout: "",
+      stderr: "",
+    }) as never,
+  );
+  s.cleanupChroot = spyOn(jailer, "cleanupChroot").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.shutdownVm = spyOn(boot, "shutdownVm").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.coldBoot = spyOn(boot, "coldBoot").mockImplementation(
+    (tenant: { vmPid: number | null }) => {
+      tenant.vmPid = 4321;
+      return okAsync(undefined) as never;
+    },
+  );
+  s.attachNetwork = spyOn(tenantNetwork, "attachNetwork").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.detachNetwork = spyOn(tenantNetwork, "detachNetwork").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+});
+
+afterEach(() => {
+  for (const spy of Object.values(s)) {
+    spy.mockRestore();
+  }
+});
+
+// ── runStop ─────────────────────────────────────────────────────────────────
+
+describe("runStop", () => {
+  test("shuts down the VM and releases the network", async () => {
+    const tenant = await unwrapOk(runStop("test-tenant"));
+
+    expect(tenant.status).toBe("stopped");
+    expect(tenant.vmPid).toBeNull();
+    expect(tenant.stopInfo?.networkParked).toBe(false);
+    expect(s.shutdownVm).toHaveBeenCalledTimes(1);
+    expect(s.detachNetwork).toHaveBeenCalledTimes(1);
+    // Once up front to fence off the watchdog, once when done
+    expect(s.saveRegistry).toHaveBeenCalledTimes(2);
+  });
+
+  test("--park keeps the network in place", async () => {
+    const tenant = await unwrapOk(runStop("test-tenant", { park: true }));
+    expect(tenant.stopInfo?.networkParked).toBe(true);
+    expect(s.detachNetwork).not.toHaveBeenCalled();
+  });
+
+  test("discards the snapshot of a suspended tenant", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([
+          makeTenant({
+            status: "suspended",
+            vmPid: null,
+            suspendInfo: {
+              suspendedAt: "2025-01-01T00:00:00.000Z",
+              snapshotDir: "/var/lib/lobsterd/snapshots/test-tenant",
+              cronSchedules: [],
+              nextWakeAtMs: null,
+              wakeReason: null,
+              lastRxBytes: 0,
+            },
+          }),
+        ]),
+      ) as never,
+    );
+
+    const tenant = await unwrapOk(runStop("test-tenant"));
+    expect(tenant.suspendInfo).toBeNull();
+    expect(s.shutdownVm).not.toHaveBeenCalled();
+    expect(s.exec).toHaveBeenCalledWith([
+      "rm",
+      "-rf",
+      "/var/lib/lobsterd/snapshots/test-tenant",
+    ]);
+  });
+
+  test("rejects an already stopped tenant", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(makeRegistry([makeTenant({ status: "stopped" })])) as never,
+    );
+    const err = await unwrapErr(runStop("test-tenant"));
+    expect(err.code).toBe("VALIDATION_FAILED");
+  });
+});
@@ -0,0 +1,101 @@
+import { errAsync, okAsync, type ResultAsync } from "neverthrow";
+import { loadConfig, loadRegistry, saveRegistry } from "../config/loader.js";
+import { exec } from "../system/exec.js";
+import * as jailer from "../system/jailer.js";
+import type { LobsterError, Tenant, TenantRegistry } from "../types/index.js";
+import { shutdownVm } from "./boot.js";
+import { detachNetwork } from "./tenant-network.js";
+
+export interface StopProgress {
+  step: string;
+  detail: string;
+}
+
+export interface StopOpts {
+  /** Keep TAP/NAT/Caddy route in place so the next `start` is quicker */
+  park?: boolean;
+}
+
+/**
+ * Shut a tenant's VM down cold. Unlike suspend nothing is kept in memory —
+ * `runStart` boots fresh from the overlay. A suspended tenant's snapshot is
+ * discarded.
+ */
+export function runStop(
+  name: string,
+  opts: StopOpts = {},
+  onProgress?: (p: StopProgress) => void,
+): ResultAsync<Tenant, LobsterError> {
+  const progress = (step: string, detail: string) =>
+    onProgress?.({ step, detail });
+  const park = opts.park ?? false;
+  let tenant: Tenant;
+  let registry: TenantRegistry;
+  let snapshotDir: string | null = null;
+
+  return loadConfig().andThen((config) =>
+    loadRegistry()
+      .andThen((reg): ResultAsync<void, LobsterError> => {
+        const found = reg.tenants.find((t) => t.name === name);
+        if (!found) {
+          return errAsync({
+            code: "TENANT_NOT_FOUND",
+            message: `Tenant "${name}" not found`,
+          });
+        }
+        if (found.status === "stopped" || found.status === "removing") {
+          return errAsync({
+            code: "VALIDATION_FAILED",
+            message: `Tenant "${name}" is ${found.status === "stopped" ? "already stopped" : "being removed"}`,
+          });
+        }
+        tenant = found;
+        registry = reg;
+        snapshotDir =
+          found.suspendInfo?.snapshotDir ?? found.snapshotBase?.dir ?? null;
+
+        // Mark stopped up front so the watchdog leaves the dying VM alone
+        found.status = "stopped";
+        found.suspendInfo = null;
+        delete found.snapshotBase;
+        found.stopInfo = {
+          stoppedAt: new Date().toISOString(),
+          networkParked: park,
+        };
+        return saveRegistry(reg);
+      })
+      .andThen(() => {
+        if (!tenant.vmPid) {
+          progress("vm", "VM not running, skipping shutdown");
+          return okAsync(undefined);
+        }
+        progress("vm", "Shutting down VM");
+        return shutdownVm(tenant);
+      })
+      .andThen(() => {
+        progress("chroot", "Removing jailer chroot");
+        return jailer.cleanupChroot(config.jailer.chrootBaseDir, tenant.vmId);
+      })
+      .andThen(() => {
+        if (!snapshotDir) {
+          return okAsync(undefined);
+        }
+        progress("snapshot", "Discarding suspend snapshot");
+        return exec(["rm", "-rf", snapshotDir])
+          .map(() => undefined)
+          .orElse(() => okAsync(undefined));
+      })
+      .andThen(() => {
+        if (park) {
+          progress("network", "Leaving network parked");
+          return okAsync(undefined);
+        }
+        return detachNetwork(tenant, config, progress);
+      })
+      .andThen(() => {
+        progress("registry", "Updating registry");
+        tenant.vmPid = null;
+        return saveRegistry(registry).map(() => tenant);
+      }),
+  );
+}
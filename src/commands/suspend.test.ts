@@ -1,9 +1,10 @@
 import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
 import * as fs from "node:fs";
-import { okAsync } from "neverthrow";
+import { errAsync, okAsync } from "neverthrow";
 import * as loader from "../config/loader.js";
 import * as exec from "../system/exec.js";
 import * as fc from "../system/firecracker.js";
+import * as image from "../system/image.js";
 import * as jailer from "../system/jailer.js";
 import * as vsock from "../system/vsock.js";
 import {
@@ -44,6 +45,9 @@ beforeEach(() => {
     createSnapshot: spyOn(fc, "createSnapshot").mockReturnValue(
       okAsync(undefined) as never,
     ),
+    mergeDiffSnapshot: spyOn(image, "mergeDiffSnapshot").mockReturnValue(
+      okAsync(undefined) as never,
+    ),
     cleanupChroot: spyOn(jailer, "cleanupChroot").mockReturnValue(
       okAsync(undefined) as never,
     ),
@@ -112,12 +116,123 @@ describe("runSuspend", () => {
 
     expect(s.pauseVm).toHaveBeenCalledTimes(1);
     expect(s.createSnapshot).toHaveBeenCalledTimes(1);
-    // mkdir + cp snapshot_file + cp mem_file
-    expect(s.exec).toHaveBeenCalledTimes(3);
+    // mkdir + cp snapshot_file + cp mem_file + cp overlay
+    expect(s.exec).toHaveBeenCalledTimes(4);
     expect(s.cleanupChroot).toHaveBeenCalledTimes(1);
     expect(s.saveRegistry).toHaveBeenCalledTimes(1);
   });
 
+  test("captures the overlay next to the snapshot for rollback", async () => {
+    const result = await unwrapOk(runSuspend("test-tenant"));
+
+    expect(s.exec.mock.calls[3][0]).toEqual([
+      "cp",
+      "--reflink=auto",
+      "--sparse=always",
+      "/var/lib/lobsterd/overlays/test-tenant",
+      "/var/lib/lobsterd/snapshots/test-tenant/overlay.ext4",
+    ]);
+    expect(result.suspendInfo?.overlayCaptured).toBe(true);
+  });
+
+  test("suspends without a rollback point when the overlay copy fails", async () => {
+    s.exec.mockImplementation(((args: string[]) =>
+      args.includes("/var/lib/lobsterd/overlays/test-tenant")
+        ? errAsync({ code: "EXEC_FAILED", message: "No space left" })
+        : okAsync({ exitCode: 0, stdout: "", stderr: "" })) as never);
+
+    const result = await unwrapOk(runSuspend("test-tenant"));
+
+    expect(result.status).toBe("suspended");
+    expect(result.suspendInfo?.overlayCaptured).toBeUndefined();
+  });
+
+  test("skips the overlay copy when rollback is off", async () => {
+    s.loadConfig.mockReturnValue(
+      okAsync(makeConfig({ rollback: { retention: 0 } })) as never,
+    );
+    await unwrapOk(runSuspend("test-tenant"));
+
+    expect(s.exec).toHaveBeenCalledTimes(3);
+  });
+
+  describe("diff snapshots", () => {
+    const diffConfig = () => {
+      const config = makeConfig();
+      return {
+        ...config,
+        firecracker: { ...config.firecracker, diffSnapshots: true },
+      };
+    };
+    const resumedTenant = () =>
+      makeTenant({
+        snapshotBase: {
+          dir: "/var/lib/lobsterd/snapshots/test-tenant",
+          vmPid: 12345,
+        },
+      });
+
+    beforeEach(() => {
+      s.loadConfig.mockReturnValue(okAsync(diffConfig()) as never);
+      s.loadRegistry.mockReturnValue(
+        okAsync(makeRegistry([resumedTenant()])) as never,
+      );
+    });
+
+    test("merges dirty pages onto the base instead of copying memory", async () => {
+      const result = await unwrapOk(runSuspend("test-tenant"));
+
+      expect(s.createSnapshot).toHaveBeenCalledWith(
+        "/var/lib/lobsterd/sockets/test-tenant.sock",
+        "/snapshot_file",
+        "/mem_file.diff",
+        "Diff",
+      );
+      expect(s.mergeDiffSnapshot).toHaveBeenCalledWith(
+        "/var/lib/lobsterd/snapshots/test-tenant/mem_file",
+        "/var/lib/lobsterd/jailer/vm-test-tenant/root/mem_file.diff",
+      );
+      // Only snapshot_file is copied out (plus the rollback overlay)
+      expect(s.exec).toHaveBeenCalledTimes(2);
+      expect(result.snapshotBase).toBeUndefined();
+    });
+
+    test("takes a full snapshot for a VM not resumed from the base", async () => {
+      s.loadRegistry.mockReturnValue(
+        okAsync(
+          makeRegistry([
+            makeTenant({
+              vmPid: 777,
+              snapshotBase: {
+                dir: "/var/lib/lobsterd/snapshots/test-tenant",
+                vmPid: 12345,
+              },
+            }),
+          ]),
+        ) as never,
+      );
+      await unwrapOk(runSuspend("test-tenant"));
+
+      expect(s.createSnapshot.mock.calls[0][3]).toBeUndefined();
+      expect(s.mergeDiffSnapshot).not.toHaveBeenCalled();
+    });
+
+    test("falls back to a full snapshot when the merge fails", async () => {
+      s.mergeDiffSnapshot.mockReturnValue(
+        errAsync<void, LobsterError>({
+          code: "SNAPSHOT_FAILED",
+          message: "rebase-snap not found",
+        }) as never,
+      );
+      await unwrapOk(runSuspend("test-tenant"));
+
+      expect(s.createSnapshot).toHaveBeenCalledTimes(2);
+      expect(s.createSnapshot.mock.calls[1][2]).toBe("/mem_file");
+      // mkdir + snapshot_file + mem_file + overlay
+      expect(s.exec).toHaveBeenCalledTimes(4);
+    });
+  });
+
   test("calls onProgress callbacks", async () => {
     const steps: string[] = [];
     const onProgress = (p: { step: string; detail: string }) => {
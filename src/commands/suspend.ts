@@ -4,6 +4,7 @@ import { SNAPSHOTS_DIR } from "../config/defaults.js";
 import { loadConfig, loadRegistry, saveRegistry } from "../config/loader.js";
 import { exec } from "../system/exec.js";
 import * as fc from "../system/firecracker.js";
+import * as image from "../system/image.js";
 import * as jailer from "../system/jailer.js";
 import * as vsock from "../system/vsock.js";
 import type {
@@ -14,6 +15,7 @@ import type {
   Tenant,
   TenantRegistry,
 } from "../types/index.js";
+import { ROLLBACK_OVERLAY } from "./rollback-points.js";
 
 export interface SuspendProgress {
   step: string;
@@ -163,36 +165,65 @@ export function runSuspend(
         return fc.pauseVm(tenant.socketPath).map(() => lastRxBytes);
       })
       .andThen((lastRxBytes) => {
-        // Step 4: Create snapshot
-        progress("snapshot", "Creating VM snapshot");
-        return fc
-          .createSnapshot(tenant.socketPath, "/snapshot_file", "/mem_file")
-          .map(() => lastRxBytes);
-      })
-      .andThen((lastRxBytes) => {
-        // Step 5: Copy snapshot files to persistent storage
-        progress("copy", `Copying snapshot to ${snapshotDir}`);
+        // Steps 4-5: Snapshot the VM into persistent storage
         const chrootRoot = jailer.getChrootRoot(
           config.jailer.chrootBaseDir,
           tenant.vmId,
         );
-        return exec(["mkdir", "-p", snapshotDir])
-          .andThen(() =>
-            exec([
-              "cp",
-              "--sparse=always",
-              `${chrootRoot}/snapshot_file`,
-              `${snapshotDir}/snapshot_file`,
-            ]),
+        const copyOut = (file: string) =>
+          exec([
+            "cp",
+            "--sparse=always",
+            `${chrootRoot}/${file}`,
+            `${snapshotDir}/${file}`,
+          ]);
+
+        const full = () => {
+          progress("snapshot", "Creating VM snapshot");
+          return fc
+            .createSnapshot(tenant.socketPath, "/snapshot_file", "/mem_file")
+            .andThen(() => {
+              progress("copy", `Copying snapshot to ${snapshotDir}`);
+              return exec(["mkdir", "-p", snapshotDir]);
+            })
+            .andThen(() => copyOut("snapshot_file"))
+            .andThen(() => copyOut("mem_file"));
+        };
+
+        // A VM resumed with dirty-page tracking only needs the pages it has
+        // touched since, written over the memory file it was resumed from
+        const base = tenant.snapshotBase;
+        if (
+          !config.firecracker.diffSnapshots ||
+          !base ||
+          base.vmPid !== tenant.vmPid ||
+          base.dir !== snapshotDir
+        ) {
+          return full().map(() => lastRxBytes);
+        }
+        progress("snapshot", "Creating diff snapshot (dirty pages only)");
+        return fc
+          .createSnapshot(
+            tenant.socketPath,
+            "/snapshot_file",
+            "/mem_file.diff",
+            "Diff",
           )
-          .andThen(() =>
-            exec([
-              "cp",
-              "--sparse=always",
-              `${chrootRoot}/mem_file`,
+          .andThen(() => {
+            progress("merge", `Merging dirty pages into ${snapshotDir}`);
+            return image.mergeDiffSnapshot(
               `${snapshotDir}/mem_file`,
-            ]),
-          )
+              `${chrootRoot}/mem_file.diff`,
+            );
+          })
+          .andThen(() => copyOut("snapshot_file"))
+          .orElse((e) => {
+            progress(
+              "snapshot",
+              `Diff snapshot failed (${e.message}), taking a full one`,
+            );
+            return full();
+          })
           .map(() => lastRxBytes);
       })
       .andThen((lastRxBytes) => {
@@ -213,6 +244,32 @@ export function runSuspend(
           .map(() => lastRxBytes);
       })
       .andThen(() => {
+        // Step 7.5: Copy the overlay next to the snapshot while nothing writes
+        // to it, so the pair can become a rollback point after resume
+        if (!config.rollback?.retention) {
+          return okAsync(false);
+        }
+        progress("overlay", "Capturing overlay for rollback");
+        return exec(
+          [
+            "cp",
+            "--reflink=auto",
+            "--sparse=always",
+            tenant.overlayPath,
+            `${snapshotDir}/${ROLLBACK_OVERLAY}`,
+          ],
+          { timeout: 120_000 },
+        )
+          .map(() => true)
+          .orElse((e) => {
+            progress(
+              "overlay",
+              `Overlay capture failed (${e.message}), no rollback point for this suspend`,
+            );
+            return okAsync(false);
+          });
+      })
+      .andThen((overlayCaptured) => {
         // Step 8: Re-read TAP rx_bytes now that the VM is dead,
         // so the baseline includes trailing TCP teardown / ARP chatter
         const lastRxBytes = readTapRxBytes(tenant.tapDev);
@@ -279,10 +336,12 @@ export function runSuspend(
           wakeReason,
           lastRxBytes,
           heartbeatSchedule,
+          ...(overlayCaptured ? { overlayCaptured } : {}),
         };
         tenant.status = "suspended";
         tenant.vmPid = null;
         tenant.suspendInfo = suspendInfo;
+        delete tenant.snapshotBase;
         return saveRegistry(registry).map(() => tenant);
       }),
   );
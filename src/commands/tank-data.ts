@@ -12,6 +12,7 @@ export interface TankEntry {
   status: string;
   memoryMb?: number;
   state: string;
+  labels?: Record<string, string>;
 }
 
 export function quickPidCheck(tenant: Tenant): string {
@@ -32,16 +33,20 @@ export async function buildTankEntries(
 ): Promise<TankEntry[]> {
   return Promise.all(
     tenants.map(async (tenant) => {
-      if (tenant.status === "suspended") {
+      if (tenant.status === "suspended" || tenant.status === "stopped") {
         return {
           name: tenant.name,
           cid: tenant.cid,
           ip: tenant.ipAddress,
           port: tenant.gatewayPort,
-          vmPid: "suspended",
+          vmPid: tenant.status,
           status: tenant.status,
           memoryMb: undefined,
-          state: "SUSPENDED" as const,
+          state:
+            tenant.status === "suspended"
+              ? ("SUSPENDED" as const)
+              : ("STOPPED" as const),
+          labels: tenant.labels,
         };
       }
 
@@ -72,6 +77,7 @@ export async function buildTankEntries(
         status: tenant.status,
         memoryMb,
         state,
+        labels: tenant.labels,
       };
     }),
   );
@@ -1,6 +1,7 @@
 import { Box, render, Text } from "ink";
 import { useEffect, useState } from "react";
 import { runAllChecks } from "../checks/index.js";
+import { type LabelSelector, selectTenants } from "../config/labels.js";
 import { loadConfig, loadRegistry } from "../config/loader.js";
 import * as vsock from "../system/vsock.js";
 import type {
@@ -44,18 +45,22 @@ function TankApp({
           break;
         }
 
-        if (tenant.status === "suspended") {
+        if (tenant.status === "suspended" || tenant.status === "stopped") {
+          const status = tenant.status;
           setStates((prev) => ({
             ...prev,
             [tenant.name]: {
               ...initialWatchState(),
-              state: "SUSPENDED" as const,
+              state:
+                status === "suspended"
+                  ? ("SUSPENDED" as const)
+                  : ("STOPPED" as const),
               lastCheck: new Date().toISOString(),
             },
           }));
           extras[tenant.name] = {
             ip: tenant.ipAddress,
-            vmPid: "suspended",
+            vmPid: status,
           };
           continue;
         }
@@ -122,7 +127,10 @@ function TankApp({
   );
 }
 
-export async function runTank(opts?: { json?: boolean }): Promise<number> {
+export async function runTank(opts?: {
+  json?: boolean;
+  selector?: LabelSelector;
+}): Promise<number> {
   const configResult = await loadConfig();
   if (configResult.isErr()) {
     console.error(`Error: ${configResult.error.message}`);
@@ -135,11 +143,15 @@ export async function runTank(opts?: { json?: boolean }): Promise<number> {
     console.error(`Error: ${registryResult.error.message}`);
     return 1;
   }
-  const registry = registryResult.value;
+  const tenants = opts?.selector
+    ? selectTenants(registryResult.value.tenants, opts.selector)
+    : registryResult.value.tenants;
 
-  if (registry.tenants.length === 0) {
+  if (tenants.length === 0) {
     if (opts?.json) {
       console.log("[]");
+    } else if (opts?.selector) {
+      console.log("No tenants match the selector.");
     } else {
       console.log(
         "No tenants registered. Use `lobster spawn <name>` to add one.",
@@ -149,13 +161,13 @@ export async function runTank(opts?: { json?: boolean }): Promise<number> {
   }
 
   if (opts?.json) {
-    const entries = await buildTankEntries(registry.tenants, config);
+    const entries = await buildTankEntries(tenants, config);
     console.log(JSON.stringify(entries, null, 2));
     return 0;
   }
 
   const { waitUntilExit } = render(
-    <TankApp tenants={registry.tenants} config={config} />,
+    <TankApp tenants={tenants} config={config} />,
   );
 
   await waitUntilExit();
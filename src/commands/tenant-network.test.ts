@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { errAsync, okAsync } from "neverthrow";
+import { tenantIds } from "../config/allocator.js";
+import * as caddy from "../system/caddy.js";
+import * as network from "../system/network.js";
+import { makeConfig, makeTenant, unwrapErr } from "../test-helpers.js";
+import type { LobsterdConfig, Tenant } from "../types/index.js";
+import { attachNetwork } from "./tenant-network.js";
+import { rollback, type UndoFn } from "./undo.js";
+
+const s = {} as Record<string, ReturnType<typeof spyOn>>;
+
+beforeEach(() => {
+  for (const fn of [
+    "createTap",
+    "deleteTap",
+    "addNat",
+    "removeNat",
+    "addIsolationRules",
+    "removeIsolationRules",
+    "addAgentLockdownRules",
+    "removeAgentLockdownRules",
+  ] as const) {
+    s[fn] = spyOn(network, fn).mockReturnValue(okAsync(undefined) as never);
+  }
+  s.addRoute = spyOn(caddy, "addRoute").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.removeRoute = spyOn(caddy, "removeRoute").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+});
+
+afterEach(() => {
+  for (const spy of Object.values(s)) {
+    spy.mockRestore();
+  }
+});
+
+/** Attach, and on failure unwind the undo steps the way the commands do */
+function attachOrUnwind(tenant: Tenant, config: LobsterdConfig) {
+  const undoStack: UndoFn[] = [];
+  return attachNetwork(tenant, config, undoStack).orElse((e) =>
+    rollback(undoStack, e),
+  );
+}
+
+// ── attachNetwork ───────────────────────────────────────────────────────────
+
+describe("attachNetwork", () => {
+  test("unwinds everything it added when the Caddy route fails", async () => {
+    s.addRoute.mockReturnValue(
+      errAsync({ code: "CADDY_API_ERROR", message: "down" }) as never,
+    );
+    await unwrapErr(attachOrUnwind(makeTenant(), makeConfig()));
+
+    expect(s.removeRoute).toHaveBeenCalledTimes(1);
+    expect(s.removeIsolationRules).toHaveBeenCalledWith("tap-test-tenant");
+    expect(s.removeNat).toHaveBeenCalledTimes(1);
+    expect(s.deleteTap).toHaveBeenCalledWith("tap-test-tenant");
+  });
+
+  test("leaves a TAP it couldn't create alone", async () => {
+    s.createTap.mockReturnValue(
+      errAsync({ code: "TAP_CREATE_FAILED", message: "busy" }) as never,
+    );
+    const err = await unwrapErr(attachOrUnwind(makeTenant(), makeConfig()));
+
+    expect(err.code).toBe("TAP_CREATE_FAILED");
+    expect(s.deleteTap).not.toHaveBeenCalled();
+    expect(s.removeNat).not.toHaveBeenCalled();
+    expect(s.removeRoute).not.toHaveBeenCalled();
+  });
+});
+
+// ── Two instances on one host ───────────────────────────────────────────────
+
+describe("two instances side by side", () => {
+  const a = makeConfig();
+  const b = makeConfig({
+    instance: "b",
+    network: { ...a.network, subnetBase: "10.1.0.0" },
+    caddy: { ...a.caddy, domain: "b.lobster.local" },
+  });
+  const onA = makeTenant({ ...tenantIds(a, "test-tenant") });
+  const onB = makeTenant({
+    ...tenantIds(b, "test-tenant"),
+    hostIp: "10.1.0.5",
+    ipAddress: "10.1.0.6",
+  });
+
+  test("give the same tenant its own TAP, VM id and route on each", async () => {
+    expect(onB.tapDev).toBe("tapb-test-tenant");
+    expect(onB.vmId).toBe("vmb-test-tenant");
+    expect(onB.tapDev).not.toBe(onA.tapDev);
+    expect(onB.vmId).not.toBe(onA.vmId);
+    expect(caddy.routeId("test-tenant", b.instance)).not.toBe(
+      caddy.routeId("test-tenant", a.instance),
+    );
+
+    await attachOrUnwind(onA, a);
+    await attachOrUnwind(onB, b);
+
+    expect(s.createTap.mock.calls.map((c: unknown[]) => c[0])).toEqual([
+      "tap-test-tenant",
+      "tapb-test-tenant",
+    ]);
+    expect(s.addRoute.mock.calls.map((c: unknown[]) => c[5])).toEqual([
+      undefined,
+      "b",
+    ]);
+  });
+
+  test("a failed attach on one never tears down the other's network", async () => {
+    await attachOrUnwind(onA, a);
+    s.addRoute.mockReturnValue(
+      errAsync({ code: "CADDY_API_ERROR", message: "down" }) as never,
+    );
+    await unwrapErr(attachOrUnwind(onB, b));
+
+    expect(s.deleteTap.mock.calls).toEqual([["tapb-test-tenant"]]);
+    expect(s.removeIsolationRules.mock.calls).toEqual([["tapb-test-tenant"]]);
+    expect(s.removeNat.mock.calls).toEqual([
+      ["tapb-test-tenant", "10.1.0.6", onB.gatewayPort],
+    ]);
+    expect(s.removeRoute.mock.calls).toEqual([
+      [b.caddy.adminApi, "test-tenant", "b"],
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import { okAsync, type ResultAsync } from "neverthrow";
+import * as caddy from "../system/caddy.js";
+import * as network from "../system/network.js";
+import type { LobsterdConfig, LobsterError, Tenant } from "../types/index.js";
+import type { UndoFn } from "./undo.js";
+
+type Progress = (step: string, detail: string) => void;
+
+/**
+ * Recreate the host-side plumbing for a tenant whose network was released:
+ * TAP device, NAT, isolation/lockdown rules and the Caddy route. Undo steps
+ * go onto `undoStack` so a rollback removes only what this call set up — the
+ * TAP once it exists (its name may be held by someone else), the rules and
+ * route before they are added (they are keyed by this tenant alone, and a
+ * half-added set still needs removing).
+ */
+export function attachNetwork(
+  tenant: Tenant,
+  config: LobsterdConfig,
+  undoStack: UndoFn[],
+  progress: Progress = () => {},
+): ResultAsync<void, LobsterError> {
+  progress(
+    "network",
+    `Creating TAP ${tenant.tapDev} (host=${tenant.hostIp}, guest=${tenant.ipAddress})`,
+  );
+  return network
+    .createTap(tenant.tapDev, tenant.hostIp, tenant.ipAddress)
+    .andThen(() => {
+      undoStack.push(() => network.deleteTap(tenant.tapDev));
+      progress("nat", `Adding NAT rules for port ${tenant.gatewayPort}`);
+      undoStack.push(() =>
+        network.removeNat(tenant.tapDev, tenant.ipAddress, tenant.gatewayPort),
+      );
+      return network.addNat(
+        tenant.tapDev,
+        tenant.ipAddress,
+        tenant.gatewayPort,
+      );
+    })
+    .andThen(() => {
+      progress("isolation", "Adding network isolation rules");
+      undoStack.push(() => network.removeIsolationRules(tenant.tapDev));
+      return network.addIsolationRules(tenant.tapDev);
+    })
+    .andThen(() => {
+      if (!config.buoy?.agentLockdown) {
+        return okAsync(undefined);
+      }
+      progress("lockdown", "Adding agent lockdown rules");
+      undoStack.push(() =>
+        network.removeAgentLockdownRules(
+          tenant.ipAddress,
+          config.vsock.agentPort,
+          config.vsock.healthPort,
+        ),
+      );
+      return network.addAgentLockdownRules(
+        tenant.ipAddress,
+        config.vsock.agentPort,
+        config.vsock.healthPort,
+      );
+    })
+    .andThen(() => {
+      progress(
+        "caddy",
+        `Adding Caddy route for ${tenant.name}.${config.caddy.domain}`,
+      );
+      undoStack.push(() =>
+        caddy.removeRoute(config.caddy.adminApi, tenant.name, config.instance),
+      );
+      return caddy.addRoute(
+        config.caddy.adminApi,
+        tenant.name,
+        config.caddy.domain,
+        tenant.ipAddress,
+        9000,
+        config.instance,
+      );
+    });
+}
+
+/** Best-effort inverse of `attachNetwork` — missing pieces are ignored. */
+export function detachNetwork(
+  tenant: Tenant,
+  config: LobsterdConfig,
+  progress: Progress = () => {},
+): ResultAsync<void, LobsterError> {
+  progress("caddy", "Removing Caddy route");
+  return caddy
+    .removeRoute(config.caddy.adminApi, tenant.name, config.instance)
+    .orElse(() => okAsync(undefined))
+    .andThen(() => {
+      progress("isolation", "Removing network isolation rules");
+      return network
+        .removeIsolationRules(tenant.tapDev)
+        .orElse(() => okAsync(undefined));
+    })
+    .andThen(() => {
+      if (!config.buoy?.agentLockdown) {
+        return okAsync(undefined);
+      }
+      progress("lockdown", "Removing agent lockdown rules");
+      return network
+        .removeAgentLockdownRules(
+          tenant.ipAddress,
+          config.vsock.agentPort,
+          config.vsock.healthPort,
+        )
+        .orElse(() => okAsync(undefined));
+    })
+    .andThen(() => {
+      progress("network", `Deleting TAP ${tenant.tapDev} and NAT rules`);
+      return network
+        .removeNat(tenant.tapDev, tenant.ipAddress, tenant.gatewayPort)
+        .orElse(() => okAsync(undefined))
+        .andThen(() => network.deleteTap(tenant.tapDev));
+    });
+}
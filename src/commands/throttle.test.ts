@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { errAsync, okAsync } from "neverthrow";
+import * as loader from "../config/loader.js";
+import * as fc from "../system/firecracker.js";
+import {
+  makeConfig,
+  makeRegistry,
+  makeTenant,
+  unwrapErr,
+  unwrapOk,
+} from "../test-helpers.js";
+import type { LobsterError } from "../types/index.js";
+import { runThrottle } from "./throttle.js";
+
+const TEN_MB = { bandwidth: { size: 10_485_760, refillTime: 1000 } };
+
+const s = {} as Record<string, ReturnType<typeof spyOn>>;
+
+beforeEach(() => {
+  s.loadConfig = spyOn(loader, "loadConfig").mockReturnValue(
+    okAsync(makeConfig()) as never,
+  );
+  s.loadRegistry = spyOn(loader, "loadRegistry").mockReturnValue(
+    okAsync(makeRegistry([makeTenant({ vmPid: 1234 })])) as never,
+  );
+  s.saveRegistry = spyOn(loader, "saveRegistry").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.updateNetworkInterface = spyOn(
+    fc,
+    "updateNetworkInterface",
+  ).mockReturnValue(okAsync(undefined) as never);
+  s.updateDrive = spyOn(fc, "updateDrive").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+});
+
+afterEach(() => {
+  for (const spy of Object.values(s)) {
+    spy.mockRestore();
+  }
+});
+
+// ── runThrottle ─────────────────────────────────────────────────────────────
+
+describe("runThrottle", () => {
+  test("patches only the changed network direction on a running VM", async () => {
+    const tenant = await unwrapOk(
+      runThrottle("test-tenant", { networkRx: TEN_MB }),
+    );
+
+    const [, iface, rx, tx] = s.updateNetworkInterface.mock.calls[0];
+    expect(iface).toBe("eth0");
+    // Merged over the configured limiter: new bandwidth, existing ops
+    expect(rx.bandwidth.size).toBe(10_485_760);
+    expect(rx.ops).toBeDefined();
+    expect(tx).toBeUndefined();
+    expect(s.updateDrive).not.toHaveBeenCalled();
+    expect(tenant.rateLimits).toEqual({ networkRx: TEN_MB });
+  });
+
+  test("patches both drives for a disk limit", async () => {
+    await unwrapOk(runThrottle("test-tenant", { disk: TEN_MB }));
+    const drives = s.updateDrive.mock.calls.map((c: unknown[]) => c[1]);
+    expect(drives).toEqual(["rootfs", "overlay"]);
+  });
+
+  test("keeps earlier overrides for other limiters", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([
+          makeTenant({ vmPid: 1234, rateLimits: { disk: TEN_MB } }),
+        ]),
+      ) as never,
+    );
+    const tenant = await unwrapOk(
+      runThrottle("test-tenant", { networkTx: TEN_MB }),
+    );
+    expect(tenant.rateLimits).toEqual({ disk: TEN_MB, networkTx: TEN_MB });
+  });
+
+  test("only persists for a suspended tenant", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([makeTenant({ status: "suspended", vmPid: null })]),
+      ) as never,
+    );
+    const tenant = await unwrapOk(runThrottle("test-tenant", { disk: TEN_MB }));
+    expect(s.updateDrive).not.toHaveBeenCalled();
+    expect(tenant.rateLimits?.disk).toEqual(TEN_MB);
+    expect(s.saveRegistry).toHaveBeenCalledTimes(1);
+  });
+
+  test("does not persist when Firecracker rejects the update", async () => {
+    s.updateNetworkInterface.mockReturnValue(
+      errAsync<void, LobsterError>({
+        code: "VM_BOOT_FAILED",
+        message: "Firecracker API error",
+      }) as never,
+    );
+    const err = await unwrapErr(
+      runThrottle("test-tenant", { networkRx: TEN_MB }),
+    );
+    expect(err.message).toBe("Firecracker API error");
+    expect(s.saveRegistry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+import { errAsync, okAsync, type ResultAsync } from "neverthrow";
+import { loadConfig, loadRegistry, saveRegistry } from "../config/loader.js";
+import { tenantConfig } from "../config/templates.js";
+import * as fc from "../system/firecracker.js";
+import type {
+  LobsterdConfig,
+  LobsterError,
+  Tenant,
+  TenantRateLimits,
+} from "../types/index.js";
+
+export interface ThrottleProgress {
+  step: string;
+  detail: string;
+}
+
+/**
+ * Push the limiters named in `changed` to a running VM. `config` must be the
+ * tenant's effective config so the values match what a fresh boot would use.
+ */
+export function pushRateLimits(
+  tenant: Tenant,
+  config: LobsterdConfig,
+  changed: TenantRateLimits,
+  progress: (step: string, detail: string) => void = () => {},
+): ResultAsync<void, LobsterError> {
+  const { networkRxRateLimit, networkTxRateLimit, diskRateLimit } =
+    config.firecracker;
+  const updateNetwork = (): ResultAsync<void, LobsterError> => {
+    if (!changed.networkRx && !changed.networkTx) {
+      return okAsync(undefined);
+    }
+    progress("network", "Updating network interface limiters");
+    return fc.updateNetworkInterface(
+      tenant.socketPath,
+      "eth0",
+      changed.networkRx ? networkRxRateLimit : undefined,
+      changed.networkTx ? networkTxRateLimit : undefined,
+    );
+  };
+
+  return updateNetwork().andThen(() => {
+    if (!changed.disk || !diskRateLimit) {
+      return okAsync(undefined);
+    }
+    progress("disk", "Updating drive limiters");
+    return fc
+      .updateDrive(tenant.socketPath, "rootfs", { rateLimiter: diskRateLimit })
+      .andThen(() =>
+        fc.updateDrive(tenant.socketPath, "overlay", {
+          rateLimiter: diskRateLimit,
+        }),
+      );
+  });
+}
+
+/**
+ * Persist rate-limit overrides for a tenant and apply them to its VM if one
+ * is running. Stopped and suspended tenants pick them up on start/resume.
+ */
+export function runThrottle(
+  name: string,
+  overrides: TenantRateLimits,
+  onProgress?: (p: ThrottleProgress) => void,
+): ResultAsync<Tenant, LobsterError> {
+  const progress = (step: string, detail: string) =>
+    onProgress?.({ step, detail });
+
+  return loadConfig().andThen((globalConfig) =>
+    loadRegistry().andThen((registry) => {
+      const tenant = registry.tenants.find((t) => t.name === name);
+      if (!tenant) {
+        return errAsync<Tenant, LobsterError>({
+          code: "TENANT_NOT_FOUND",
+          message: `Tenant "${name}" not found`,
+        });
+      }
+      if (tenant.status === "removing") {
+        return errAsync<Tenant, LobsterError>({
+          code: "VALIDATION_FAILED",
+          message: `Tenant "${name}" is being removed`,
+        });
+      }
+
+      const rateLimits = { ...tenant.rateLimits, ...overrides };
+      const config = tenantConfig({ ...tenant, rateLimits }, globalConfig);
+
+      const apply = (): ResultAsync<void, LobsterError> => {
+        if (tenant.status !== "active" || !tenant.vmPid) {
+          progress("vm", "VM not running, limits apply on next boot");
+          return okAsync(undefined);
+        }
+        return pushRateLimits(tenant, config, overrides, progress);
+      };
+
+      return apply().andThen(() => {
+        progress("registry", "Saving limits");
+        tenant.rateLimits = rateLimits;
+        return saveRegistry(registry).map(() => tenant);
+      });
+    }),
+  );
+}
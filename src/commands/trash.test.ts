@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { okAsync } from "neverthrow";
+import * as loader from "../config/loader.js";
+import * as exec_ from "../system/exec.js";
+import * as image from "../system/image.js";
+import * as ssh from "../system/ssh.js";
+import {
+  makeRegistry,
+  makeTenant,
+  unwrapErr,
+  unwrapOk,
+} from "../test-helpers.js";
+import type { TenantRegistry, TrashEntry } from "../types/index.js";
+import {
+  findTrashEntry,
+  purgeExpiredTrash,
+  runTrashPurge,
+  runTrashRestore,
+} from "./trash.js";
+
+function makeEntry(id: string, overrides?: Partial<TrashEntry>): TrashEntry {
+  return {
+    id,
+    tenant: makeTenant({
+      status: "stopped",
+      vmPid: null,
+      stopInfo: {
+        stoppedAt: "2025-01-01T00:00:00.000Z",
+        networkParked: false,
+      },
+    }),
+    deletedAt: "2025-01-01T00:00:00.000Z",
+    expiresAt: "2025-01-08T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+const s = {} as Record<string, ReturnType<typeof spyOn>>;
+
+beforeEach(() => {
+  s.loadTrash = spyOn(loader, "loadTrash").mockReturnValue(
+    okAsync([makeEntry("test-tenant-1")]) as never,
+  );
+  s.loadRegistry = spyOn(loader, "loadRegistry").mockReturnValue(
+    okAsync(makeRegistry([])) as never,
+  );
+  s.saveRegistry = spyOn(loader, "saveRegistry").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.exec = spyOn(exec_, "exec").mockReturnValue(
+    okAsync({ exitCode: 0, stdout: "", stderr: "" }) as never,
+  );
+  s.moveOverlay = spyOn(image, "moveOverlay").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.unstashKeypair = spyOn(ssh, "unstashKeypair").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+  s.unstashSecrets = spyOn(loader, "unstashSecrets").mockReturnValue(
+    okAsync(undefined) as never,
+  );
+});
+
+afterEach(() => {
+  for (const spy of Object.values(s)) {
+    spy.mockRestore();
+  }
+});
+
+// ── findTrashEntry ──────────────────────────────────────────────────────────
+
+describe("findTrashEntry", () => {
+  const entries = [
+    makeEntry("test-tenant-1"),
+    makeEntry("test-tenant-2"),
+    makeEntry("other-3", { tenant: makeTenant({ name: "other" }) }),
+  ];
+
+  test("matches an entry ID exactly", () => {
+    expect(findTrashEntry(entries, "test-tenant-1")?.id).toBe("test-tenant-1");
+  });
+
+  test("falls back to the newest entry for a tenant name", () => {
+    expect(findTrashEntry(entries, "test-tenant")?.id).toBe("test-tenant-2");
+  });
+
+  test("returns undefined when nothing matches", () => {
+    expect(findTrashEntry(entries, "nope")).toBeUndefined();
+  });
+});
+
+// ── runTrashRestore ─────────────────────────────────────────────────────────
+
+describe("runTrashRestore", () => {
+  test("moves files back and registers the tenant as stopped", async () => {
+    const tenant = await unwrapOk(runTrashRestore("test-tenant"));
+
+    expect(tenant.status).toBe("stopped");
+    expect(s.moveOverlay).toHaveBeenCalledWith(
+      "/var/lib/lobsterd/trash/test-tenant-1/overlay.ext4",
+      tenant.overlayPath,
+    );
+    expect(s.unstashKeypair).toHaveBeenCalledWith(
+      "test-tenant",
+      "/var/lib/lobsterd/trash/test-tenant-1/ssh",
+    );
+    expect(s.unstashSecrets).toHaveBeenCalledWith(
+      "test-tenant",
+      "/var/lib/lobsterd/trash/test-tenant-1",
+    );
+    const saved = s.saveRegistry.mock.calls[0][0] as TenantRegistry;
+    expect(saved.tenants.map((t) => t.name)).toEqual(["test-tenant"]);
+    expect(s.exec).toHaveBeenCalledWith([
+      "rm",
+      "-rf",
+      "/var/lib/lobsterd/trash/test-tenant-1",
+    ]);
+  });
+
+  test("rejects a name that is in use again", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(makeRegistry([makeTenant()])) as never,
+    );
+    const err = await unwrapErr(runTrashRestore("test-tenant-1"));
+    expect(err.code).toBe("TENANT_EXISTS");
+    expect(s.moveOverlay).not.toHaveBeenCalled();
+  });
+
+  test("rejects when another tenant holds its address", async () => {
+    s.loadRegistry.mockReturnValue(
+      okAsync(
+        makeRegistry([makeTenant({ name: "newer", cid: 9, jailUid: 10009 })]),
+      ) as never,
+    );
+    const err = await unwrapErr(runTrashRestore("test-tenant-1"));
+    expect(err.code).toBe("VALIDATION_FAILED");
+    expect(err.message).toContain("newer");
+  });
+
+  test("returns TENANT_NOT_FOUND for an unknown entry", async () => {
+    const err = await unwrapErr(runTrashRestore("nope"));
+    expect(err.code).toBe("TENANT_NOT_FOUND");
+  });
+});
+
+// ── purge ───────────────────────────────────────────────────────────────────
+
+describe("purgeExpiredTrash", () => {
+  test("only removes entries past their expiry", async () => {
+    s.loadTrash.mockReturnValue(
+      okAsync([
+        makeEntry("old-1", { expiresAt: "2025-01-02T00:00:00.000Z" }),
+        makeEntry("new-2", { expiresAt: "2025-01-10T00:00:00.000Z" }),
+      ]) as never,
+    );
+
+    const purged = await unwrapOk(
+      purgeExpiredTrash(new Date("2025-01-05T00:00:00.000Z").getTime()),
+    );
+    expect(purged.map((e) => e.id)).toEqual(["old-1"]);
+    expect(s.exec).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("runTrashPurge", () => {
+  test("purges a single entry before it expires", async () => {
+    s.loadTrash.mockReturnValue(
+      okAsync([
+        makeEntry("a-1", { expiresAt: "2999-01-01T00:00:00.000Z" }),
+      ]) as never,
+    );
+    const purged = await unwrapOk(runTrashPurge({ id: "a-1" }));
+    expect(purged.map((e) => e.id)).toEqual(["a-1"]);
+  });
+
+  test("--all purges everything", async () => {
+    s.loadTrash.mockReturnValue(
+      okAsync([
+        makeEntry("a-1", { expiresAt: "2999-01-01T00:00:00.000Z" }),
+        makeEntry("b-2", { expiresAt: "2999-01-01T00:00:00.000Z" }),
+      ]) as never,
+    );
+    const purged = await unwrapOk(runTrashPurge({ all: true }));
+    expect(purged).toHaveLength(2);
+  });
+
+  test("defaults to expired entries only", async () => {
+    s.loadTrash.mockReturnValue(
+      okAsync([
+        makeEntry("a-1", { expiresAt: "2999-01-01T00:00:00.000Z" }),
+      ]) as never,
+    );
+    const purged = await unwrapOk(runTrashPurge());
+    expect(purged).toEqual([]);
+    expect(s.exec).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,172 @@
+import { errAsync, okAsync, type ResultAsync } from "neverthrow";
+import {
+  loadRegistry,
+  loadTrash,
+  saveRegistry,
+  trashEntryDir,
+  unstashSecrets,
+} from "../config/loader.js";
+import { exec } from "../system/exec.js";
+import * as image from "../system/image.js";
+import * as ssh from "../system/ssh.js";
+import type { LobsterError, Tenant, TrashEntry } from "../types/index.js";
+
+export interface TrashProgress {
+  step: string;
+  detail: string;
+}
+
+export interface TrashPurgeOpts {
+  /** Entry ID (or tenant name) to purge now, expired or not */
+  id?: string;
+  /** Purge every entry */
+  all?: boolean;
+}
+
+/**
+ * Find a trash entry by ID, or by tenant name (newest entry wins, since the
+ * same name can be evicted more than once).
+ */
+export function findTrashEntry(
+  entries: TrashEntry[],
+  idOrName: string,
+): TrashEntry | undefined {
+  return (
+    entries.find((e) => e.id === idOrName) ??
+    entries.filter((e) => e.tenant.name === idOrName).at(-1)
+  );
+}
+
+export function runTrashList(): ResultAsync<TrashEntry[], LobsterError> {
+  return loadTrash();
+}
+
+/**
+ * Put an evicted tenant back in the registry as stopped, with its overlay
+ * and SSH keys moved back into place. `lobsterd start` boots it.
+ */
+export function runTrashRestore(
+  idOrName: string,
+  onProgress?: (p: TrashProgress) => void,
+): ResultAsync<Tenant, LobsterError> {
+  const progress = (step: string, detail: string) =>
+    onProgress?.({ step, detail });
+
+  return loadTrash().andThen((entries) => {
+    const entry = findTrashEntry(entries, idOrName);
+    if (!entry) {
+      return errAsync<Tenant, LobsterError>({
+        code: "TENANT_NOT_FOUND",
+        message: `No trash entry "${idOrName}"`,
+      });
+    }
+    const { tenant } = entry;
+    const dir = trashEntryDir(entry.id);
+
+    return loadRegistry().andThen((registry) => {
+      if (registry.tenants.some((t) => t.name === tenant.name)) {
+        return errAsync<Tenant, LobsterError>({
+          code: "TENANT_EXISTS",
+          message: `Tenant "${tenant.name}" already exists — evict it first`,
+        });
+      }
+      const clash = registry.tenants.find(
+        (t) =>
+          t.cid === tenant.cid ||
+          t.ipAddress === tenant.ipAddress ||
+          t.gatewayPort === tenant.gatewayPort ||
+          t.jailUid === tenant.jailUid,
+      );
+      if (clash) {
+        return errAsync<Tenant, LobsterError>({
+          code: "VALIDATION_FAILED",
+          message: `Tenant "${clash.name}" now holds the CID, address, port or UID of "${tenant.name}"`,
+        });
+      }
+
+      progress("overlay", `Restoring overlay to ${tenant.overlayPath}`);
+      return image
+        .moveOverlay(`${dir}/overlay.ext4`, tenant.overlayPath)
+        .andThen(() => {
+          progress("ssh", "Restoring SSH keys");
+          return ssh
+            .unstashKeypair(tenant.name, `${dir}/ssh`)
+            .orElse(() => okAsync(undefined));
+        })
+        .andThen(() => unstashSecrets(tenant.name, dir))
+        .andThen(() => {
+          progress("registry", "Registering tenant as stopped");
+          registry.tenants.push(tenant);
+          return saveRegistry(registry);
+        })
+        .andThen(() => {
+          progress("trash", `Removing trash entry ${entry.id}`);
+          return removeTrashEntry(entry);
+        })
+        .map(() => tenant);
+    });
+  });
+}
+
+function isExpired(entry: TrashEntry, now: number): boolean {
+  return new Date(entry.expiresAt).getTime() <= now;
+}
+
+/** Delete trash entries whose retention has run out. Used by the watchdog. */
+export function purgeExpiredTrash(
+  now: number = Date.now(),
+): ResultAsync<TrashEntry[], LobsterError> {
+  return loadTrash().andThen((entries) =>
+    purgeEntries(entries.filter((e) => isExpired(e, now))),
+  );
+}
+
+/**
+ * Purge trash entries for good: expired ones by default, a single entry
+ * with `id`, or everything with `all`.
+ */
+export function runTrashPurge(
+  opts: TrashPurgeOpts = {},
+  onProgress?: (p: TrashProgress) => void,
+): ResultAsync<TrashEntry[], LobsterError> {
+  return loadTrash().andThen((entries) => {
+    if (opts.all) {
+      return purgeEntries(entries, onProgress);
+    }
+    if (opts.id) {
+      const entry = findTrashEntry(entries, opts.id);
+      if (!entry) {
+        return errAsync<TrashEntry[], LobsterError>({
+          code: "TENANT_NOT_FOUND",
+          message: `No trash entry "${opts.id}"`,
+        });
+      }
+      return purgeEntries([entry], onProgress);
+    }
+    const now = Date.now();
+    return purgeEntries(
+      entries.filter((e) => isExpired(e, now)),
+      onProgress,
+    );
+  });
+}
+
+function removeTrashEntry(entry: TrashEntry): ResultAsync<void, LobsterError> {
+  return exec(["rm", "-rf", trashEntryDir(entry.id)]).map(() => undefined);
+}
+
+function purgeEntries(
+  entries: TrashEntry[],
+  onProgress?: (p: TrashProgress) => void,
+): ResultAsync<TrashEntry[], LobsterError> {
+  return entries.reduce<ResultAsync<TrashEntry[], LobsterError>>(
+    (acc, entry) =>
+      acc.andThen((purged) =>
+        removeTrashEntry(entry).map(() => {
+          onProgress?.({ step: "purge", detail: `Purged ${entry.id}` });
+          return [...purged, entry];
+        }),
+      ),
+    okAsync([]),
+  );
+}
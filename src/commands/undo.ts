@@ -0,0 +1,34 @@
+import { errAsync, okAsync, type ResultAsync } from "neverthrow";
+import type { LobsterError } from "../types/index.js";
+
+export type UndoFn = () => ResultAsync<void, LobsterError>;
+
+/**
+ * Run undo steps in reverse order (best-effort — a failing step doesn't stop
+ * the rest), then fail with the original error annotated with the count.
+ */
+export function rollback(
+  undoStack: UndoFn[],
+  error: LobsterError,
+): ResultAsync<never, LobsterError> {
+  if (undoStack.length === 0) {
+    return errAsync(error);
+  }
+  const fns = [...undoStack].reverse();
+  let count = 0;
+  let chain: ResultAsync<void, LobsterError> = okAsync(undefined);
+  for (const fn of fns) {
+    chain = chain
+      .andThen(() => fn().orElse(() => okAsync(undefined)))
+      .map(() => {
+        count++;
+        return undefined;
+      });
+  }
+  return chain.andThen(() =>
+    errAsync({
+      ...error,
+      message: `${error.message} (rolled back ${count}/${fns.length} steps)`,
+    }),
+  );
+}
@@ -1,5 +1,9 @@
 import { errAsync, okAsync, type ResultAsync } from "neverthrow";
-import { CONFIG_DIR, LOBSTERD_BASE } from "../config/defaults.js";
+import {
+  CONFIG_DIR,
+  LOBSTERD_BASE,
+  WATCH_SERVICE,
+} from "../config/defaults.js";
 import { loadRegistry } from "../config/loader.js";
 import { exec } from "../system/exec.js";
 import * as network from "../system/network.js";
@@ -31,9 +35,9 @@ export function runUninit(
     })
     .andThen(() => {
       // Step 2: Stop and remove watchdog service
-      progress("services", "Stopping lobsterd-watch service");
+      progress("services", `Stopping ${WATCH_SERVICE} service`);
       return systemd
-        .stopAndRemoveService("lobsterd-watch")
+        .stopAndRemoveService(WATCH_SERVICE)
         .orElse(() => okAsync(undefined));
     })
     .andThen(() => {
@@ -42,14 +46,14 @@ export function runUninit(
       return network.flushAndRemoveChains().orElse(() => okAsync(undefined));
     })
     .andThen(() => {
-      // Step 4: Remove /var/lib/lobsterd/
+      // Step 4: Remove the data dir
       progress("data", `Removing ${LOBSTERD_BASE}`);
       return exec(["rm", "-rf", LOBSTERD_BASE])
         .map(() => undefined)
         .orElse(() => okAsync(undefined));
     })
     .andThen(() => {
-      // Step 5: Remove /etc/lobsterd/
+      // Step 5: Remove the config dir
       progress("config", `Removing ${CONFIG_DIR}`);
       return exec(["rm", "-rf", CONFIG_DIR])
         .map(() => undefined)
@@ -3,6 +3,7 @@ import { useEffect, useState } from "react";
 import { loadConfig, loadRegistry } from "../config/loader.js";
 import type { Tenant, TenantWatchState } from "../types/index.js";
 import { Dashboard } from "../ui/Dashboard.js";
+import { startBackups } from "../watchdog/backups.js";
 import { startWatchdog } from "../watchdog/loop.js";
 import { startScheduler } from "../watchdog/scheduler.js";
 
@@ -107,6 +108,7 @@ export async function runWatch(
     handle.states,
     inFlight,
   );
+  const backups = startBackups(config, registry, handle.emitter, inFlight);
 
   if (opts.daemon) {
     // Daemon mode: log to console instead of TUI
@@ -192,14 +194,48 @@ export async function runWatch(
       );
     });
 
+    handle.emitter.on("balloon-inflate", (data) => {
+      console.log(
+        `[${new Date().toISOString()}] ${data.tenant}: balloon inflated to ${data.amountMib}MB (host available ${data.hostAvailableMb}MB)`,
+      );
+    });
+
+    handle.emitter.on("balloon-deflate", (data) => {
+      console.log(
+        `[${new Date().toISOString()}] ${data.tenant}: balloon deflated`,
+      );
+    });
+
+    handle.emitter.on("trash-purged", (data) => {
+      console.log(
+        `[${new Date().toISOString()}] ${data.tenant}: purged trash entry ${data.id}`,
+      );
+    });
+
+    handle.emitter.on("backup-complete", (data) => {
+      const pruned =
+        data.pruned.length > 0 ? ` (pruned ${data.pruned.join(", ")})` : "";
+      console.log(
+        `[${new Date().toISOString()}] ${data.tenant}: backup ${data.id} complete${pruned}`,
+      );
+    });
+
+    handle.emitter.on("backup-failed", (data) => {
+      console.log(
+        `[${new Date().toISOString()}] ${data.tenant}: backup failed: ${data.error}`,
+      );
+    });
+
     // Keep alive
     await new Promise<void>((resolve) => {
       process.on("SIGINT", () => {
+        backups.stop();
         scheduler.stop();
         handle.stop();
         resolve();
       });
       process.on("SIGTERM", () => {
+        backups.stop();
         scheduler.stop();
         handle.stop();
         resolve();
@@ -214,6 +250,7 @@ export async function runWatch(
   );
 
   await waitUntilExit();
+  backups.stop();
   scheduler.stop();
   handle.stop();
   return 0;
@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import { makeConfig, makeTenant } from "../test-helpers.js";
+import {
+  allocate,
+  poolPrefix,
+  subnetCapacity,
+  subnetIndexOf,
+} from "./allocator.js";
+
+function withPool(poolPrefix?: number) {
+  return makeConfig({ network: { ...makeConfig().network, poolPrefix } });
+}
+
+describe("poolPrefix / subnetCapacity", () => {
+  test("a /16 pool holds 16383 tenants", () => {
+    expect(poolPrefix(withPool(16))).toBe(16);
+    expect(subnetCapacity(withPool(16))).toBe(16383);
+  });
+
+  test("configs without a pool prefix get a /16", () => {
+    const config = withPool(undefined);
+    expect(config.network.subnetMask).toBe(30);
+    expect(poolPrefix(config)).toBe(16);
+  });
+
+  test("a /29 pool holds one tenant", () => {
+    expect(subnetCapacity(withPool(29))).toBe(1);
+  });
+});
+
+describe("subnetIndexOf", () => {
+  test("maps host IPs back to their /30 index", () => {
+    expect(subnetIndexOf("10.0.0.0", "10.0.0.5")).toBe(1);
+    expect(subnetIndexOf("10.0.0.0", "10.0.1.1")).toBe(64);
+  });
+});
+
+describe("allocate", () => {
+  test("starts at the first slot of each range", () => {
+    const r = allocate(makeConfig(), []);
+    expect(r._unsafeUnwrap()).toEqual({
+      cid: 3,
+      subnetIndex: 1,
+      gatewayPort: 9000,
+      jailUid: 10000,
+    });
+  });
+
+  test("fills the lowest free slot in each range independently", () => {
+    const held = [
+      makeTenant({ cid: 3, hostIp: "10.0.0.5", gatewayPort: 9001 }),
+      makeTenant({
+        cid: 5,
+        hostIp: "10.0.0.9",
+        gatewayPort: 9003,
+        jailUid: 10001,
+      }),
+    ];
+    const r = allocate(makeConfig(), held)._unsafeUnwrap();
+    expect(r.cid).toBe(4);
+    expect(r.subnetIndex).toBe(3);
+    expect(r.gatewayPort).toBe(9000);
+    expect(r.jailUid).toBe(10002);
+  });
+
+  test("returns SUBNET_EXHAUSTED once the pool is full", () => {
+    const r = allocate(withPool(29), [makeTenant({ hostIp: "10.0.0.5" })]);
+    expect(r._unsafeUnwrapErr().code).toBe("SUBNET_EXHAUSTED");
+  });
+
+  test("returns PORTS_EXHAUSTED past port 65535", () => {
+    const config = makeConfig({
+      network: { ...makeConfig().network, gatewayPortStart: 65535 },
+    });
+    const r = allocate(config, [
+      makeTenant({ hostIp: "10.0.0.5", gatewayPort: 65535 }),
+    ]);
+    expect(r._unsafeUnwrapErr().code).toBe("PORTS_EXHAUSTED");
+  });
+});
@@ -0,0 +1,105 @@
+import { err, ok, type Result } from "neverthrow";
+import type { LobsterdConfig, LobsterError, Tenant } from "../types/index.js";
+
+/** Each tenant gets a /30: network, host, guest, broadcast */
+const ADDRS_PER_TENANT = 4;
+/** Pool prefix for configs without `network.poolPrefix` */
+const DEFAULT_POOL_PREFIX = 16;
+/** vsock CIDs 0-2 are reserved (hypervisor, local, host) */
+const FIRST_CID = 3;
+const MAX_PORT = 65535;
+
+export interface Allocation {
+  cid: number;
+  subnetIndex: number;
+  gatewayPort: number;
+  jailUid: number;
+}
+
+function ipToInt(ip: string): number {
+  const p = ip.split(".").map(Number);
+  return ((p[0] << 24) | (p[1] << 16) | (p[2] << 8) | p[3]) >>> 0;
+}
+
+/** Prefix length of the address pool tenant subnets are carved from. */
+export function poolPrefix(config: LobsterdConfig): number {
+  return config.network.poolPrefix ?? DEFAULT_POOL_PREFIX;
+}
+
+/**
+ * Number of usable tenant subnets in the pool. Index 0 (the pool's own
+ * network address) is never handed out.
+ */
+export function subnetCapacity(config: LobsterdConfig): number {
+  return 2 ** (32 - poolPrefix(config)) / ADDRS_PER_TENANT - 1;
+}
+
+/**
+ * VM id and TAP device for a tenant. `config.instance` goes into both so a
+ * second lobsterd on the same host never reuses the first one's names.
+ */
+export function tenantIds(
+  config: LobsterdConfig,
+  name: string,
+): { vmId: string; tapDev: string } {
+  const instance = config.instance ?? "";
+  return { vmId: `vm${instance}-${name}`, tapDev: `tap${instance}-${name}` };
+}
+
+/** Inverse of computeSubnetIps: the subnet index a tenant's host IP sits in */
+export function subnetIndexOf(subnetBase: string, hostIp: string): number {
+  return Math.floor((ipToInt(hostIp) - ipToInt(subnetBase)) / ADDRS_PER_TENANT);
+}
+
+function lowestFree(used: Set<number>, start: number): number {
+  let n = start;
+  while (used.has(n)) {
+    n++;
+  }
+  return n;
+}
+
+/**
+ * Pick the lowest free CID, subnet, gateway port and jail UID not held by
+ * any of `held` — registered tenants plus anything else that still owns its
+ * slots (in-flight spawns, trashed tenants awaiting restore).
+ */
+export function allocate(
+  config: LobsterdConfig,
+  held: Tenant[],
+): Result<Allocation, LobsterError> {
+  const subnetIndex = lowestFree(
+    new Set(
+      held.map((t) => subnetIndexOf(config.network.subnetBase, t.hostIp)),
+    ),
+    1,
+  );
+  const capacity = subnetCapacity(config);
+  if (subnetIndex > capacity) {
+    return err({
+      code: "SUBNET_EXHAUSTED",
+      message: `No free tenant subnet in ${config.network.subnetBase}/${poolPrefix(config)} (all ${capacity} in use)`,
+    });
+  }
+
+  const gatewayPort = lowestFree(
+    new Set(held.map((t) => t.gatewayPort)),
+    config.network.gatewayPortStart,
+  );
+  if (gatewayPort > MAX_PORT) {
+    return err({
+      code: "PORTS_EXHAUSTED",
+      message: `No free gateway port in ${config.network.gatewayPortStart}-${MAX_PORT}`,
+    });
+  }
+
+  return ok({
+    cid: lowestFree(new Set(held.map((t) => t.cid)), FIRST_CID),
+    subnetIndex,
+    gatewayPort,
+    jailUid: lowestFree(
+      new Set(held.map((t) => t.jailUid)),
+      config.jailer.uidStart,
+    ),
+  });
+}
@@ -0,0 +1,113 @@
+import { describe, expect, test } from "bun:test";
+import { makeConfig, makeTenant } from "../test-helpers.js";
+import {
+  capacityReport,
+  checkAdmission,
+  type HostCapacity,
+} from "./capacity.js";
+import { DEFAULT_CAPACITY_CONFIG } from "./defaults.js";
+
+const HOST: HostCapacity = {
+  cpuCount: 4,
+  memTotalMb: 8192,
+  memAvailableMb: 6144,
+  diskTotalMb: 100_000,
+  diskFreeMb: 80_000,
+};
+const policy = DEFAULT_CAPACITY_CONFIG;
+const config = makeConfig();
+const SMALL = { vcpuCount: 2, memSizeMb: 1024, diskSizeMb: 4096 };
+
+describe("capacityReport", () => {
+  test("counts memory and vCPUs only for running tenants", () => {
+    const report = capacityReport(
+      HOST,
+      [
+        makeTenant({ resources: SMALL }),
+        makeTenant({ name: "zzz", status: "suspended", resources: SMALL }),
+      ],
+      config,
+      policy,
+    );
+    expect(report.memMb.committed).toBe(1024);
+    expect(report.vcpu.committed).toBe(2);
+    expect(report.diskMb.committed).toBe(8192);
+  });
+
+  test("applies overcommit ratios and the memory reserve", () => {
+    const report = capacityReport(HOST, [], config, policy);
+    expect(report.memMb.limit).toBe(8192 - 512);
+    expect(report.vcpu.limit).toBe(16);
+    expect(report.diskMb.limit).toBe(200_000);
+  });
+
+  test("memory headroom is capped by what is free right now", () => {
+    const report = capacityReport(
+      { ...HOST, memAvailableMb: 1536 },
+      [],
+      config,
+      policy,
+    );
+    expect(report.memMb.headroom).toBe(1024);
+  });
+
+  test("no disk headroom once free space drops below the reserve", () => {
+    const report = capacityReport(
+      { ...HOST, diskFreeMb: 100 },
+      [],
+      config,
+      policy,
+    );
+    expect(report.diskMb.headroom).toBe(0);
+  });
+});
+
+describe("checkAdmission", () => {
+  test("admits a VM that fits", () => {
+    const report = capacityReport(HOST, [], config, policy);
+    expect(
+      checkAdmission(report, SMALL, policy, { newDisk: true }).isOk(),
+    ).toBe(true);
+  });
+
+  test("refuses when committed memory would pass the limit", () => {
+    const running = Array.from({ length: 7 }, (_, i) =>
+      makeTenant({ name: `t${i}`, resources: { ...SMALL, vcpuCount: 1 } }),
+    );
+    const report = capacityReport(
+      { ...HOST, memAvailableMb: 8000 },
+      running,
+      config,
+      policy,
+    );
+    const result = checkAdmission(report, SMALL, policy, { newDisk: true });
+    expect(result._unsafeUnwrapErr().code).toBe("CAPACITY_EXCEEDED");
+    expect(result._unsafeUnwrapErr().message).toContain("memory");
+  });
+
+  test("refuses when vCPUs would pass the overcommit ratio", () => {
+    const report = capacityReport(
+      HOST,
+      [makeTenant({ resources: { ...SMALL, vcpuCount: 15, memSizeMb: 128 } })],
+      config,
+      policy,
+    );
+    const result = checkAdmission(report, SMALL, policy, { newDisk: false });
+    expect(result._unsafeUnwrapErr().message).toContain("CPUs");
+  });
+
+  test("only counts new overlays against disk headroom", () => {
+    const report = capacityReport(
+      { ...HOST, diskTotalMb: 2000 },
+      [],
+      config,
+      policy,
+    );
+    expect(
+      checkAdmission(report, SMALL, policy, { newDisk: true }).isErr(),
+    ).toBe(true);
+    expect(
+      checkAdmission(report, SMALL, policy, { newDisk: false }).isOk(),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,130 @@
+import { err, ok, type Result } from "neverthrow";
+import type {
+  CapacityConfig,
+  LobsterdConfig,
+  LobsterError,
+  Tenant,
+  TenantResources,
+} from "../types/index.js";
+import { tenantResources } from "./resources.js";
+import { tenantConfig } from "./templates.js";
+
+/** What the host has, as read from /proc/meminfo, the CPU list and statfs */
+export interface HostCapacity {
+  cpuCount: number;
+  memTotalMb: number;
+  memAvailableMb: number;
+  diskTotalMb: number;
+  diskFreeMb: number;
+}
+
+export interface CapacityDimension {
+  /** Sum over tenants that count against this resource */
+  committed: number;
+  /** Most that may be committed under the overcommit ratio */
+  limit: number;
+  /** What one more VM may still ask for */
+  headroom: number;
+}
+
+export interface CapacityReport {
+  host: HostCapacity;
+  memMb: CapacityDimension;
+  vcpu: CapacityDimension;
+  diskMb: CapacityDimension;
+}
+
+/**
+ * Memory and vCPUs are committed by tenants whose VM is (meant to be)
+ * running; suspended and stopped tenants hold only disk.
+ */
+function committed(tenants: Tenant[], config: LobsterdConfig) {
+  const totals = { memMb: 0, vcpu: 0, diskMb: 0 };
+  for (const t of tenants) {
+    const r = tenantResources(t, tenantConfig(t, config));
+    totals.diskMb += r.diskSizeMb;
+    if (t.status === "active") {
+      totals.memMb += r.memSizeMb;
+      totals.vcpu += r.vcpuCount;
+    }
+  }
+  return totals;
+}
+
+export function capacityReport(
+  host: HostCapacity,
+  tenants: Tenant[],
+  config: LobsterdConfig,
+  policy: CapacityConfig,
+): CapacityReport {
+  const used = committed(tenants, config);
+
+  const memLimit = Math.max(
+    0,
+    Math.floor(host.memTotalMb * policy.memOvercommitRatio) -
+      policy.reserveMemMb,
+  );
+  // A guest that doesn't fit in what's actually free right now would push
+  // the host into swap or the OOM killer, whatever the ratio says
+  const memLive = Math.floor(
+    (host.memAvailableMb - policy.reserveMemMb) * policy.memOvercommitRatio,
+  );
+  const vcpuLimit = Math.floor(host.cpuCount * policy.vcpuOvercommitRatio);
+  const diskLimit = Math.floor(host.diskTotalMb * policy.diskOvercommitRatio);
+  const diskLow = host.diskFreeMb < policy.reserveDiskMb;
+
+  return {
+    host,
+    memMb: {
+      committed: used.memMb,
+      limit: memLimit,
+      headroom: Math.max(0, Math.min(memLimit - used.memMb, memLive)),
+    },
+    vcpu: {
+      committed: used.vcpu,
+      limit: vcpuLimit,
+      headroom: Math.max(0, vcpuLimit - used.vcpu),
+    },
+    diskMb: {
+      committed: used.diskMb,
+      limit: diskLimit,
+      headroom: diskLow ? 0 : Math.max(0, diskLimit - used.diskMb),
+    },
+  };
+}
+
+/**
+ * Refuse a VM that would overcommit the host. `newDisk` is false for a
+ * resume, whose overlay is already counted.
+ */
+export function checkAdmission(
+  report: CapacityReport,
+  resources: TenantResources,
+  policy: CapacityConfig,
+  opts: { newDisk: boolean },
+): Result<void, LobsterError> {
+  const refuse = (message: string) =>
+    err<void, LobsterError>({ code: "CAPACITY_EXCEEDED", message });
+
+  if (resources.memSizeMb > report.memMb.headroom) {
+    return refuse(
+      `Not enough host memory: ${resources.memSizeMb}MB requested, ${report.memMb.headroom}MB available (${report.memMb.committed}/${report.memMb.limit}MB committed, ${report.host.memAvailableMb}MB free)`,
+    );
+  }
+  if (resources.vcpuCount > report.vcpu.headroom) {
+    return refuse(
+      `Not enough host CPUs: ${resources.vcpuCount} vCPU requested, ${report.vcpu.headroom} available (${report.vcpu.committed}/${report.vcpu.limit} committed)`,
+    );
+  }
+  if (report.host.diskFreeMb < policy.reserveDiskMb) {
+    return refuse(
+      `Overlay filesystem nearly full: ${report.host.diskFreeMb}MB free, ${policy.reserveDiskMb}MB reserved`,
+    );
+  }
+  if (opts.newDisk && resources.diskSizeMb > report.diskMb.headroom) {
+    return refuse(
+      `Not enough overlay space: ${resources.diskSizeMb}MB requested, ${report.diskMb.headroom}MB available (${report.diskMb.committed}/${report.diskMb.limit}MB provisioned)`,
+    );
+  }
+  return ok(undefined);
+}
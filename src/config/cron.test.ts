@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import { nextCronRun, parseCron } from "./cron.js";
+
+function next(expr: string, after: Date): Date | null {
+  return nextCronRun(parseCron(expr)._unsafeUnwrap(), after);
+}
+
+describe("parseCron", () => {
+  test("expands lists, ranges and steps", () => {
+    const spec = parseCron("*/15 1-3,5 * * 1-5")._unsafeUnwrap();
+    expect([...spec.minute]).toEqual([0, 15, 30, 45]);
+    expect([...spec.hour]).toEqual([1, 2, 3, 5]);
+    expect([...spec.dayOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(spec.restrictsDayOfMonth).toBe(false);
+  });
+
+  test("folds day-of-week 7 onto Sunday", () => {
+    expect([...parseCron("0 0 * * 7")._unsafeUnwrap().dayOfWeek]).toEqual([0]);
+  });
+
+  test("accepts aliases", () => {
+    expect(parseCron("@daily")._unsafeUnwrap().hour).toEqual(new Set([0]));
+  });
+
+  test.each([
+    "* * * *",
+    "60 * * * *",
+    "* 24 * * *",
+    "* * 0 * *",
+    "5-1 * * * *",
+    "*/0 * * * *",
+    "a * * * *",
+  ])("rejects %p", (expr) => {
+    expect(parseCron(expr)._unsafeUnwrapErr().code).toBe("VALIDATION_FAILED");
+  });
+});
+
+describe("nextCronRun", () => {
+  test("returns the next matching minute", () => {
+    expect(next("30 * * * *", new Date(2025, 0, 1, 10, 15, 42))).toEqual(
+      new Date(2025, 0, 1, 10, 30),
+    );
+  });
+
+  test("is strictly after the given time", () => {
+    expect(next("30 * * * *", new Date(2025, 0, 1, 10, 30))).toEqual(
+      new Date(2025, 0, 1, 11, 30),
+    );
+  });
+
+  test("rolls over days, months and years", () => {
+    expect(next("0 3 * * *", new Date(2025, 0, 31, 4))).toEqual(
+      new Date(2025, 1, 1, 3),
+    );
+    expect(next("0 0 1 1 *", new Date(2025, 5, 1))).toEqual(
+      new Date(2026, 0, 1),
+    );
+  });
+
+  test("matches either restricted day field", () => {
+    // 2025-01-03 is a Friday, before the 15th
+    expect(next("0 0 15 * 5", new Date(2025, 0, 1))).toEqual(
+      new Date(2025, 0, 3),
+    );
+  });
+
+  test("gives up on dates that never occur", () => {
+    expect(next("0 0 30 2 *", new Date(2025, 0, 1))).toBeNull();
+  });
+});
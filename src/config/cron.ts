@@ -0,0 +1,135 @@
+import { err, ok, type Result } from "neverthrow";
+import type { LobsterError } from "../types/index.js";
+
+/** A parsed five-field cron expression, evaluated in host local time */
+export interface CronSpec {
+  minute: Set<number>;
+  hour: Set<number>;
+  dayOfMonth: Set<number>;
+  month: Set<number>;
+  dayOfWeek: Set<number>;
+  /** As in Vixie cron, when both day fields are restricted either may match */
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  // 7 is accepted as Sunday and folded onto 0
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+function parseField(
+  text: string,
+  field: (typeof FIELDS)[number],
+): Result<Set<number>, string> {
+  const values = new Set<number>();
+  for (const item of text.split(",")) {
+    const match = item.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      return err(`bad ${field.name} "${item}"`);
+    }
+    const [, range, from, to, stepText] = match;
+    const start = range === "*" ? field.min : Number(from);
+    const end =
+      range === "*"
+        ? field.max
+        : to !== undefined
+          ? Number(to)
+          : stepText
+            ? field.max
+            : start;
+    const step = stepText ? Number(stepText) : 1;
+    if (start < field.min || end > field.max || start > end || step < 1) {
+      return err(
+        `${field.name} "${item}" out of range ${field.min}-${field.max}`,
+      );
+    }
+    for (let v = start; v <= end; v += step) {
+      values.add(field.name === "day of week" && v === 7 ? 0 : v);
+    }
+  }
+  return ok(values);
+}
+
+/**
+ * Parse `minute hour day-of-month month day-of-week` (`*`, lists, ranges and
+ * `/step`), or one of `@hourly`, `@daily`, `@weekly`, `@monthly`.
+ */
+export function parseCron(expr: string): Result<CronSpec, LobsterError> {
+  const trimmed = expr.trim();
+  const parts = (ALIASES[trimmed] ?? trimmed).split(/\s+/);
+  const invalid = (why: string) =>
+    err<CronSpec, LobsterError>({
+      code: "VALIDATION_FAILED",
+      message: `Invalid cron schedule "${expr}": ${why}`,
+    });
+  if (parts.length !== FIELDS.length) {
+    return invalid(`expected ${FIELDS.length} fields, got ${parts.length}`);
+  }
+  const sets: Set<number>[] = [];
+  for (const [i, field] of FIELDS.entries()) {
+    const parsed = parseField(parts[i], field);
+    if (parsed.isErr()) {
+      return invalid(parsed.error);
+    }
+    sets.push(parsed.value);
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = sets;
+  return ok({
+    minute,
+    hour,
+    dayOfMonth,
+    month,
+    dayOfWeek,
+    restrictsDayOfMonth: parts[2] !== "*",
+    restrictsDayOfWeek: parts[4] !== "*",
+  });
+}
+
+function dayMatches(spec: CronSpec, d: Date): boolean {
+  const dom = spec.dayOfMonth.has(d.getDate());
+  const dow = spec.dayOfWeek.has(d.getDay());
+  if (spec.restrictsDayOfMonth && spec.restrictsDayOfWeek) {
+    return dom || dow;
+  }
+  return dom && dow;
+}
+
+/**
+ * First minute strictly after `after` that the schedule fires on, or null if
+ * it never does (e.g. `0 0 30 2 *`).
+ */
+export function nextCronRun(spec: CronSpec, after: Date): Date | null {
+  const d = new Date(after);
+  d.setSeconds(0, 0);
+  d.setMinutes(d.getMinutes() + 1);
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60_000;
+  while (d.getTime() <= limit) {
+    if (!spec.month.has(d.getMonth() + 1)) {
+      d.setMonth(d.getMonth() + 1, 1);
+      d.setHours(0, 0);
+    } else if (!dayMatches(spec, d)) {
+      d.setDate(d.getDate() + 1);
+      d.setHours(0, 0);
+    } else if (!spec.hour.has(d.getHours())) {
+      d.setHours(d.getHours() + 1, 0);
+    } else if (!spec.minute.has(d.getMinutes())) {
+      d.setMinutes(d.getMinutes() + 1);
+    } else {
+      return d;
+    }
+  }
+  return null;
+}
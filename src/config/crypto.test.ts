@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, statSync } from "node:fs";
+import { access, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { unwrapErr, unwrapOk } from "../test-helpers.js";
+import {
+  createEnvelope,
+  ensureHostKey,
+  KEY_BYTES,
+  loadHostKey,
+  open,
+  openEnvelope,
+  openField,
+  seal,
+  sealField,
+} from "./crypto.js";
+import { PASSPHRASE_ENV } from "./defaults.js";
+
+const key = Buffer.alloc(KEY_BYTES, 1);
+
+describe("seal / open", () => {
+  test("round-trips under the same key and context", () => {
+    const blob = seal("hello", key, "alpha");
+    expect(blob.alg).toBe("aes-256-gcm");
+    expect(blob.data).not.toContain("hello");
+    expect(open(blob, key, "alpha")._unsafeUnwrap()).toBe("hello");
+  });
+
+  test("uses a fresh IV for every seal", () => {
+    expect(seal("hello", key).iv).not.toBe(seal("hello", key).iv);
+  });
+
+  test("fails for another context, another key or tampered data", () => {
+    const blob = seal("hello", key, "alpha");
+    expect(open(blob, key, "beta")._unsafeUnwrapErr().code).toBe(
+      "CRYPTO_FAILED",
+    );
+    expect(open(blob, Buffer.alloc(KEY_BYTES, 2), "alpha").isErr()).toBe(true);
+    const data = Buffer.from(blob.data, "base64");
+    data[0] ^= 1;
+    expect(
+      open({ ...blob, data: data.toString("base64") }, key, "alpha").isErr(),
+    ).toBe(true);
+  });
+});
+
+describe("loadHostKey / ensureHostKey", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "lobsterd-crypto-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("generates a private key on first write and reuses it", async () => {
+    const path = join(dir, "etc", "host.key");
+    const first = await unwrapOk(ensureHostKey(path));
+
+    expect(first.length).toBe(KEY_BYTES);
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect((await unwrapOk(ensureHostKey(path))).equals(first)).toBe(true);
+    expect((await unwrapOk(loadHostKey(path))).equals(first)).toBe(true);
+  });
+
+  test("reports a missing key on read instead of generating one", async () => {
+    const path = join(dir, "host.key");
+
+    const err = await unwrapErr(loadHostKey(path));
+    expect(err.code).toBe("CRYPTO_FAILED");
+    expect(err.message).toContain("is missing");
+    await expect(access(path)).rejects.toThrow();
+  });
+
+  test("rejects a key file of the wrong size", async () => {
+    const path = join(dir, "host.key");
+    await writeFile(path, "abcd\n");
+
+    const err = await unwrapErr(loadHostKey(path));
+    expect(err.code).toBe("CRYPTO_FAILED");
+  });
+});
+
+describe("sealField / openField", () => {
+  test("round-trips a string field bound to its place", () => {
+    const sealed = sealField("token", key, "tenants/a/agentToken");
+    expect(sealed).toStartWith("enc:v1:");
+    expect(openField(sealed, key, "tenants/a/agentToken")._unsafeUnwrap()).toBe(
+      "token",
+    );
+    expect(openField(sealed, key, "tenants/b/agentToken").isErr()).toBe(true);
+  });
+
+  test("rejects a malformed field", () => {
+    expect(openField("enc:v1:nope", key, "x")._unsafeUnwrapErr().code).toBe(
+      "CRYPTO_FAILED",
+    );
+  });
+});
+
+describe("passphrase envelopes", () => {
+  afterEach(() => {
+    delete process.env[PASSPHRASE_ENV];
+  });
+
+  test("wrap the data key under a passphrase-derived key", async () => {
+    process.env[PASSPHRASE_ENV] = "correct horse";
+    const { envelope, dataKey } = await unwrapOk(createEnvelope());
+
+    expect(envelope.kek).toBe("passphrase");
+    expect(envelope.salt).toBeDefined();
+    expect((await unwrapOk(openEnvelope(envelope))).equals(dataKey)).toBe(true);
+
+    process.env[PASSPHRASE_ENV] = "wrong horse";
+    expect((await unwrapErr(openEnvelope(envelope))).code).toBe(
+      "CRYPTO_FAILED",
+    );
+
+    delete process.env[PASSPHRASE_ENV];
+    const err = await unwrapErr(openEnvelope(envelope));
+    expect(err.message).toContain(PASSPHRASE_ENV);
+  });
+});
@@ -0,0 +1,271 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scrypt,
+} from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import {
+  err,
+  errAsync,
+  ok,
+  okAsync,
+  type Result,
+  ResultAsync,
+} from "neverthrow";
+import type {
+  EncryptedBlob,
+  Envelope,
+  KekSource,
+  LobsterError,
+} from "../types/index.js";
+import { HOST_KEY_PATH, PASSPHRASE_ENV } from "./defaults.js";
+
+export const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const SALT_BYTES = 16;
+/** Marks a string field sealed with `sealField` */
+export const SEALED_PREFIX = "enc:v1:";
+const DATA_KEY_AAD = "lobsterd-data-key";
+
+function cryptoError(message: string, cause?: unknown): LobsterError {
+  return { code: "CRYPTO_FAILED", message, cause };
+}
+
+/**
+ * Encrypt `plaintext` with AES-256-GCM under a fresh random IV. `aad` is
+ * authenticated but not stored, so a blob only opens in the context (e.g.
+ * tenant name) it was sealed for.
+ */
+export function seal(
+  plaintext: string,
+  key: Buffer,
+  aad?: string,
+): EncryptedBlob {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  if (aad !== undefined) {
+    cipher.setAAD(Buffer.from(aad, "utf-8"));
+  }
+  const data = Buffer.concat([
+    cipher.update(plaintext, "utf-8"),
+    cipher.final(),
+  ]);
+  return {
+    alg: "aes-256-gcm",
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+/** Decrypt a `seal`ed blob; fails on a wrong key, `aad` or tampering */
+export function open(
+  blob: EncryptedBlob,
+  key: Buffer,
+  aad?: string,
+): Result<string, LobsterError> {
+  try {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      key,
+      Buffer.from(blob.iv, "base64"),
+    );
+    if (aad !== undefined) {
+      decipher.setAAD(Buffer.from(aad, "utf-8"));
+    }
+    decipher.setAuthTag(Buffer.from(blob.tag, "base64"));
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(blob.data, "base64")),
+      decipher.final(),
+    ]);
+    return ok(plaintext.toString("utf-8"));
+  } catch (e) {
+    return err(
+      cryptoError("Failed to decrypt: wrong host key or corrupted data", e),
+    );
+  }
+}
+
+function parseKey(text: string, path: string): Result<Buffer, LobsterError> {
+  const key = Buffer.from(text.trim(), "hex");
+  if (key.length !== KEY_BYTES) {
+    return err(cryptoError(`${path} is not a ${KEY_BYTES}-byte hex key`));
+  }
+  return ok(key);
+}
+
+function hostKeyError(path: string, e: unknown): LobsterError {
+  return cryptoError(
+    `Failed to load host key ${path}: ${e instanceof Error ? e.message : String(e)}`,
+    e,
+  );
+}
+
+/**
+ * Read the host key. A missing file is an error, not a cue to generate a new
+ * one: whatever was sealed under the old key would then fail to open with
+ * no hint why.
+ */
+export function loadHostKey(
+  path = HOST_KEY_PATH,
+): ResultAsync<Buffer, LobsterError> {
+  return ResultAsync.fromPromise(readFile(path, "utf-8"), (e) =>
+    (e as NodeJS.ErrnoException).code === "ENOENT"
+      ? cryptoError(
+          `Host key ${path} is missing: restore it from a backup, encrypted data can't be read without it`,
+          e,
+        )
+      : hostKeyError(path, e),
+  ).andThen((text) => parseKey(text, path));
+}
+
+/**
+ * Read the host key, generating it (hex, mode 0600) on first use. For
+ * writers only; losing this file makes everything sealed under it
+ * unreadable.
+ */
+export function ensureHostKey(
+  path = HOST_KEY_PATH,
+): ResultAsync<Buffer, LobsterError> {
+  return ResultAsync.fromPromise(
+    (async () => {
+      try {
+        return await readFile(path, "utf-8");
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw e;
+        }
+      }
+      const text = `${randomBytes(KEY_BYTES).toString("hex")}\n`;
+      await mkdir(dirname(path), { recursive: true });
+      try {
+        await writeFile(path, text, { mode: 0o600, flag: "wx" });
+        return text;
+      } catch (e) {
+        // Another process created it first
+        if ((e as NodeJS.ErrnoException).code === "EEXIST") {
+          return await readFile(path, "utf-8");
+        }
+        throw e;
+      }
+    })(),
+    (e) => hostKeyError(path, e),
+  ).andThen((text) => parseKey(text, path));
+}
+
+// ── Envelope encryption ─────────────────────────────────────────────────────
+
+/** Seal a single string field as `enc:v1:<iv>.<tag>.<data>` */
+export function sealField(value: string, key: Buffer, aad: string): string {
+  const { iv, tag, data } = seal(value, key, aad);
+  return `${SEALED_PREFIX}${iv}.${tag}.${data}`;
+}
+
+export function isSealedField(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(SEALED_PREFIX);
+}
+
+export function openField(
+  value: string,
+  key: Buffer,
+  aad: string,
+): Result<string, LobsterError> {
+  const [iv, tag, data] = value.slice(SEALED_PREFIX.length).split(".");
+  if (!iv || !tag || data === undefined) {
+    return err(cryptoError(`Malformed encrypted field (${aad})`));
+  }
+  return open({ alg: "aes-256-gcm", iv, tag, data }, key, aad);
+}
+
+/** The key-encryption key new files are sealed under */
+export function currentKekSource(): KekSource {
+  return process.env[PASSPHRASE_ENV] ? "passphrase" : "host-key";
+}
+
+// scrypt is deliberately slow, and the registry is read on every watchdog tick
+const derivedKeys = new Map<string, Buffer>();
+let lastSalt: string | undefined;
+
+function derivePassphraseKey(salt: string): ResultAsync<Buffer, LobsterError> {
+  const passphrase = process.env[PASSPHRASE_ENV];
+  if (!passphrase) {
+    return errAsync(
+      cryptoError(
+        `File is encrypted with a passphrase: set ${PASSPHRASE_ENV} to read it`,
+      ),
+    );
+  }
+  const cacheKey = `${salt}:${passphrase}`;
+  const cached = derivedKeys.get(cacheKey);
+  if (cached) {
+    return okAsync(cached);
+  }
+  return ResultAsync.fromPromise(
+    new Promise<Buffer>((resolve, reject) =>
+      scrypt(passphrase, Buffer.from(salt, "base64"), KEY_BYTES, (e, key) =>
+        e ? reject(e) : resolve(key),
+      ),
+    ),
+    (e) => cryptoError("Failed to derive key from passphrase", e),
+  ).map((key) => {
+    derivedKeys.set(cacheKey, key);
+    lastSalt = salt;
+    return key;
+  });
+}
+
+function loadKek(
+  source: KekSource,
+  salt?: string,
+  opts: { create?: boolean } = {},
+): ResultAsync<Buffer, LobsterError> {
+  if (source === "host-key") {
+    return opts.create ? ensureHostKey() : loadHostKey();
+  }
+  if (!salt) {
+    return errAsync(cryptoError("Passphrase envelope has no salt"));
+  }
+  return derivePassphraseKey(salt);
+}
+
+/**
+ * A fresh data key and the envelope that wraps it under the current
+ * key-encryption key. A passphrase reuses the salt derived last, so repeated
+ * saves don't pay for scrypt each time.
+ */
+export function createEnvelope(): ResultAsync<
+  { envelope: Envelope; dataKey: Buffer },
+  LobsterError
+> {
+  const kek = currentKekSource();
+  let salt: string | undefined;
+  if (kek === "passphrase") {
+    const cached = `${lastSalt}:${process.env[PASSPHRASE_ENV]}`;
+    salt =
+      lastSalt && derivedKeys.has(cached)
+        ? lastSalt
+        : randomBytes(SALT_BYTES).toString("base64");
+  }
+  const dataKey = randomBytes(KEY_BYTES);
+  return loadKek(kek, salt, { create: true }).map((key) => ({
+    envelope: {
+      kek,
+      ...(salt ? { salt } : {}),
+      dataKey: seal(dataKey.toString("base64"), key, DATA_KEY_AAD),
+    },
+    dataKey,
+  }));
+}
+
+/** Unwrap the data key of an envelope */
+export function openEnvelope(
+  envelope: Envelope,
+): ResultAsync<Buffer, LobsterError> {
+  return loadKek(envelope.kek, envelope.salt).andThen((key) =>
+    open(envelope.dataKey, key, DATA_KEY_AAD).map((text) =>
+      Buffer.from(text, "base64"),
+    ),
+  );
+}
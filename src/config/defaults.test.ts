@@ -1,22 +1,33 @@
 import { describe, expect, test } from "bun:test";
 import {
+  BASE_DIR_ENV,
   CERTS_DIR,
   CONFIG_DIR,
+  CONFIG_DIR_ENV,
   CONFIG_PATH,
   DEFAULT_CONFIG,
   EMPTY_REGISTRY,
   JAILER_BASE,
   KERNELS_DIR,
   LOBSTERD_BASE,
+  LOBSTERD_VERSION,
   ORIGIN_CERT_PATH,
   ORIGIN_KEY_PATH,
   OVERLAYS_DIR,
   REGISTRY_PATH,
   SNAPSHOTS_DIR,
   SOCKETS_DIR,
+  WATCH_SERVICE,
 } from "./defaults.js";
 import { lobsterdConfigSchema, tenantRegistrySchema } from "./schema.js";
 
+describe("LOBSTERD_VERSION", () => {
+  test("is the package version", async () => {
+    const pkg = await import("../../package.json");
+    expect(LOBSTERD_VERSION).toBe(pkg.version);
+  });
+});
+
 describe("DEFAULT_CONFIG", () => {
   test("passes lobsterdConfigSchema", () => {
     const result = lobsterdConfigSchema.safeParse(DEFAULT_CONFIG);
@@ -30,14 +41,8 @@ describe("EMPTY_REGISTRY", () => {
     expect(result.success).toBe(true);
   });
 
-  test("nextGatewayPort equals gatewayPortStart", () => {
-    expect(EMPTY_REGISTRY.nextGatewayPort).toBe(
-      DEFAULT_CONFIG.network.gatewayPortStart,
-    );
-  });
-
-  test("nextJailUid equals uidStart", () => {
-    expect(EMPTY_REGISTRY.nextJailUid).toBe(DEFAULT_CONFIG.jailer.uidStart);
+  test("has no tenants", () => {
+    expect(EMPTY_REGISTRY.tenants).toEqual([]);
   });
 });
 
@@ -59,3 +64,31 @@ describe("path constants", () => {
     expect(path.startsWith("/")).toBe(true);
   });
 });
+
+describe("dir overrides", () => {
+  test("defaults to the system dirs", () => {
+    expect(CONFIG_DIR).toBe("/etc/lobsterd");
+    expect(LOBSTERD_BASE).toBe("/var/lib/lobsterd");
+    expect(WATCH_SERVICE).toBe("lobsterd-watch");
+  });
+
+  test("derives every path from the env overrides", async () => {
+    process.env[CONFIG_DIR_ENV] = "/etc/lobsterd-b";
+    process.env[BASE_DIR_ENV] = "/var/lib/lobsterd-b";
+    try {
+      // A fresh copy of the module, evaluated under the overrides
+      const fresh = "./defaults.js?dir-overrides";
+      const b: typeof import("./defaults.js") = await import(fresh);
+      expect(b.REGISTRY_PATH).toBe("/etc/lobsterd-b/registry.json");
+      expect(b.HOST_KEY_PATH).toBe("/etc/lobsterd-b/host.key");
+      expect(b.SNAPS_DIR).toBe("/var/lib/lobsterd-b/snaps");
+      expect(b.DEFAULT_CONFIG.overlay.baseDir).toBe(
+        "/var/lib/lobsterd-b/overlays",
+      );
+      expect(b.WATCH_SERVICE).toBe("lobsterd-watch-lobsterd-b");
+    } finally {
+      delete process.env[CONFIG_DIR_ENV];
+      delete process.env[BASE_DIR_ENV];
+    }
+  });
+});
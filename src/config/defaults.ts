@@ -1,19 +1,52 @@
+import { basename } from "node:path";
+import pkg from "../../package.json" with { type: "json" };
 import type {
   BuoyConfig,
+  CapacityConfig,
   LobsterdConfig,
   TenantRegistry,
 } from "../types/index.js";
 
-export const CONFIG_DIR = "/etc/lobsterd";
+export const LOBSTERD_VERSION: string = pkg.version;
+
+/**
+ * Override the config and data dirs, e.g. to run a second buoy on the same
+ * host. Read once at startup.
+ */
+export const CONFIG_DIR_ENV = "LOBSTERD_CONFIG_DIR";
+export const BASE_DIR_ENV = "LOBSTERD_BASE_DIR";
+
+const DEFAULT_CONFIG_DIR = "/etc/lobsterd";
+export const CONFIG_DIR = process.env[CONFIG_DIR_ENV] || DEFAULT_CONFIG_DIR;
 export const CONFIG_PATH = `${CONFIG_DIR}/config.json`;
 export const REGISTRY_PATH = `${CONFIG_DIR}/registry.json`;
+/** 32-byte AES key that encrypts tenant secrets and tokens at rest */
+export const HOST_KEY_PATH = `${CONFIG_DIR}/host.key`;
+/** Environment variables for the watchdog service (e.g. the passphrase) */
+export const ENV_FILE_PATH = `${CONFIG_DIR}/env`;
+/** When set, tokens are encrypted under a key derived from it instead */
+export const PASSPHRASE_ENV = "LOBSTERD_PASSPHRASE";
+/** Watchdog unit; named after the config dir when that is overridden */
+export const WATCH_SERVICE =
+  CONFIG_DIR === DEFAULT_CONFIG_DIR
+    ? "lobsterd-watch"
+    : `lobsterd-watch-${basename(CONFIG_DIR)}`;
 
-export const LOBSTERD_BASE = "/var/lib/lobsterd";
+export const LOBSTERD_BASE = process.env[BASE_DIR_ENV] || "/var/lib/lobsterd";
 export const OVERLAYS_DIR = `${LOBSTERD_BASE}/overlays`;
 export const SOCKETS_DIR = `${LOBSTERD_BASE}/sockets`;
 export const KERNELS_DIR = `${LOBSTERD_BASE}/kernels`;
 export const JAILER_BASE = `${LOBSTERD_BASE}/jailer`;
 export const SNAPSHOTS_DIR = `${LOBSTERD_BASE}/snapshots`;
+/** Firecracker's tool for merging a Diff snapshot onto its base memory file */
+export const REBASE_SNAP_PATH = "/usr/local/bin/rebase-snap";
+export const JOURNAL_DIR = `${LOBSTERD_BASE}/journal`;
+export const TRASH_DIR = `${LOBSTERD_BASE}/trash`;
+export const ROLLBACK_DIR = `${LOBSTERD_BASE}/rollback`;
+export const SNAPS_DIR = `${LOBSTERD_BASE}/snaps`;
+export const SNAPS_INDEX_PATH = `${SNAPS_DIR}/index.json`;
+export const SECRETS_DIR = `${LOBSTERD_BASE}/secrets`;
+export const SSH_DIR = `${LOBSTERD_BASE}/ssh`;
 export const CERTS_DIR = `${CONFIG_DIR}/certs`;
 export const ORIGIN_CERT_PATH = `${CERTS_DIR}/origin.pem`;
 export const ORIGIN_KEY_PATH = `${CERTS_DIR}/origin-key.pem`;
@@ -22,6 +55,14 @@ export const ORIGIN_KEY_PATH = `${CERTS_DIR}/origin-key.pem`;
 export const BUNDLED_CERTS_DIR = new URL("../../certs", import.meta.url)
   .pathname;
 
+export const DEFAULT_CAPACITY_CONFIG: CapacityConfig = {
+  memOvercommitRatio: 1,
+  vcpuOvercommitRatio: 4,
+  diskOvercommitRatio: 2,
+  reserveMemMb: 512,
+  reserveDiskMb: 1024,
+};
+
 export const DEFAULT_CONFIG: LobsterdConfig = {
   jailer: {
     binaryPath: "/usr/local/bin/jailer",
@@ -51,6 +92,7 @@ export const DEFAULT_CONFIG: LobsterdConfig = {
     bridgeName: "lobster0",
     subnetBase: "10.0.0.0",
     subnetMask: 30,
+    poolPrefix: 16,
     gatewayPortStart: 9000,
   },
   caddy: {
@@ -66,6 +108,7 @@ export const DEFAULT_CONFIG: LobsterdConfig = {
     baseDir: OVERLAYS_DIR,
     defaultSizeMb: 4096,
     snapshotRetention: 7,
+    snapshotFreezeTimeoutMs: 30_000,
   },
   watchdog: {
     intervalMs: 10_000,
@@ -88,6 +131,20 @@ export const DEFAULT_CONFIG: LobsterdConfig = {
       },
     },
   },
+  balloon: {
+    enabled: true,
+    deflateOnOom: true,
+    statsIntervalS: 5,
+    hostLowWatermarkMb: 1024,
+    idleGuestMb: 256,
+  },
+  trash: {
+    retentionDays: 7,
+  },
+  capacity: DEFAULT_CAPACITY_CONFIG,
+  rollback: {
+    retention: 1,
+  },
 };
 
 export const DEFAULT_BUOY_CONFIG: BuoyConfig = {
@@ -99,8 +156,4 @@ export const DEFAULT_BUOY_CONFIG: BuoyConfig = {
 
 export const EMPTY_REGISTRY: TenantRegistry = {
   tenants: [],
-  nextCid: 3,
-  nextSubnetIndex: 1,
-  nextGatewayPort: DEFAULT_CONFIG.network.gatewayPortStart,
-  nextJailUid: DEFAULT_CONFIG.jailer.uidStart,
 };
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import { makeTenant } from "../test-helpers.js";
+import {
+  matchesSelector,
+  parseLabelArgs,
+  parseSelector,
+  selectTenants,
+} from "./labels.js";
+
+describe("parseSelector", () => {
+  test("parses equality, inequality and existence clauses", () => {
+    const selector = parseSelector("team=foo, env!=prod,gpu,!legacy");
+    expect(selector._unsafeUnwrap()).toEqual([
+      { key: "team", op: "=", value: "foo" },
+      { key: "env", op: "!=", value: "prod" },
+      { key: "gpu", op: "exists" },
+      { key: "legacy", op: "!exists" },
+    ]);
+  });
+
+  test("accepts == as a synonym for =", () => {
+    expect(parseSelector("team==foo")._unsafeUnwrap()).toEqual([
+      { key: "team", op: "=", value: "foo" },
+    ]);
+  });
+
+  test("rejects empty selectors and invalid keys", () => {
+    expect(parseSelector(" , ").isErr()).toBe(true);
+    expect(parseSelector("Bad Key=x").isErr()).toBe(true);
+    expect(parseSelector("team=not ok").isErr()).toBe(true);
+  });
+});
+
+describe("matchesSelector", () => {
+  const labels = { team: "foo", env: "dev" };
+
+  test("requires every clause to match", () => {
+    expect(
+      matchesSelector(
+        labels,
+        parseSelector("team=foo,env=dev")._unsafeUnwrap(),
+      ),
+    ).toBe(true);
+    expect(
+      matchesSelector(
+        labels,
+        parseSelector("team=foo,env=prod")._unsafeUnwrap(),
+      ),
+    ).toBe(false);
+  });
+
+  test("!= and !key match tenants without the label", () => {
+    const selector = parseSelector("env!=prod,!gpu")._unsafeUnwrap();
+    expect(matchesSelector(undefined, selector)).toBe(true);
+    expect(matchesSelector(labels, selector)).toBe(true);
+  });
+
+  test("selectTenants filters by labels", () => {
+    const tenants = [
+      makeTenant({ name: "a", labels: { team: "foo" } }),
+      makeTenant({ name: "b" }),
+    ];
+    const selected = selectTenants(
+      tenants,
+      parseSelector("team")._unsafeUnwrap(),
+    );
+    expect(selected.map((t) => t.name)).toEqual(["a"]);
+  });
+});
+
+describe("parseLabelArgs", () => {
+  test("splits key=value sets from key- removals", () => {
+    expect(
+      parseLabelArgs(["team=foo", "env=", "legacy-"])._unsafeUnwrap(),
+    ).toEqual({ set: { team: "foo", env: "" }, remove: ["legacy"] });
+  });
+
+  test("rejects malformed arguments", () => {
+    expect(parseLabelArgs(["team"]).isErr()).toBe(true);
+    expect(parseLabelArgs(["=foo"]).isErr()).toBe(true);
+  });
+});
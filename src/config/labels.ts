@@ -0,0 +1,126 @@
+import { err, ok, type Result } from "neverthrow";
+import type { LobsterError, Tenant } from "../types/index.js";
+import { LABEL_KEY_REGEX, LABEL_VALUE_REGEX } from "./schema.js";
+
+/** One clause of a selector: `k=v`, `k!=v`, `k` (has key) or `!k` (lacks key) */
+export interface LabelRequirement {
+  key: string;
+  op: "=" | "!=" | "exists" | "!exists";
+  value?: string;
+}
+
+export type LabelSelector = LabelRequirement[];
+
+export interface LabelUpdate {
+  set: Record<string, string>;
+  remove: string[];
+}
+
+function invalid(message: string): LobsterError {
+  return { code: "VALIDATION_FAILED", message };
+}
+
+function checkKey(key: string): Result<string, LobsterError> {
+  return LABEL_KEY_REGEX.test(key)
+    ? ok(key)
+    : err(invalid(`Invalid label key "${key}"`));
+}
+
+function checkValue(key: string, value: string): Result<string, LobsterError> {
+  return LABEL_VALUE_REGEX.test(value)
+    ? ok(value)
+    : err(invalid(`Invalid value "${value}" for label "${key}"`));
+}
+
+/**
+ * Parse a comma-separated selector like `team=foo,env!=prod,!legacy`. Every
+ * clause must match (AND). `==` is accepted as a synonym for `=`.
+ */
+export function parseSelector(
+  input: string,
+): Result<LabelSelector, LobsterError> {
+  const selector: LabelSelector = [];
+  for (const raw of input.split(",")) {
+    const clause = raw.trim();
+    if (!clause) {
+      continue;
+    }
+    const match = clause.match(/^([^=!]+?)\s*(!=|==|=)\s*(.*)$/);
+    if (match) {
+      const [, key, op, value] = match;
+      const checked = checkKey(key).andThen(() => checkValue(key, value));
+      if (checked.isErr()) {
+        return err(checked.error);
+      }
+      selector.push({ key, op: op === "!=" ? "!=" : "=", value });
+      continue;
+    }
+    const negated = clause.startsWith("!");
+    const key = negated ? clause.slice(1).trim() : clause;
+    const checked = checkKey(key);
+    if (checked.isErr()) {
+      return err(checked.error);
+    }
+    selector.push({ key, op: negated ? "!exists" : "exists" });
+  }
+  if (selector.length === 0) {
+    return err(invalid("Empty label selector"));
+  }
+  return ok(selector);
+}
+
+export function matchesSelector(
+  labels: Record<string, string> | undefined,
+  selector: LabelSelector,
+): boolean {
+  const l = labels ?? {};
+  return selector.every((req) => {
+    const has = Object.hasOwn(l, req.key);
+    if (req.op === "=") {
+      return has && l[req.key] === req.value;
+    }
+    if (req.op === "!=") {
+      return !has || l[req.key] !== req.value;
+    }
+    return req.op === "exists" ? has : !has;
+  });
+}
+
+export function selectTenants(
+  tenants: Tenant[],
+  selector: LabelSelector,
+): Tenant[] {
+  return tenants.filter((t) => matchesSelector(t.labels, selector));
+}
+
+/** Parse `lobsterd label` arguments: `k=v` sets a label, `k-` removes it. */
+export function parseLabelArgs(
+  args: string[],
+): Result<LabelUpdate, LobsterError> {
+  const update: LabelUpdate = { set: {}, remove: [] };
+  for (const arg of args) {
+    if (arg.endsWith("-") && !arg.includes("=")) {
+      const key = arg.slice(0, -1);
+      const checked = checkKey(key);
+      if (checked.isErr()) {
+        return err(checked.error);
+      }
+      update.remove.push(key);
+      continue;
+    }
+    const eq = arg.indexOf("=");
+    if (eq <= 0) {
+      return err(
+        invalid(`Invalid label "${arg}" (expected key=value or key-)`),
+      );
+    }
+    const key = arg.slice(0, eq);
+    const value = arg.slice(eq + 1);
+    const checked = checkKey(key).andThen(() => checkValue(key, value));
+    if (checked.isErr()) {
+      return err(checked.error);
+    }
+    update.set[key] = value;
+  }
+  return ok(update);
+}
@@ -1,6 +1,20 @@
-import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from "bun:test";
 import * as fs from "node:fs";
-import { DEFAULT_CONFIG, EMPTY_REGISTRY } from "./defaults.js";
+import { okAsync } from "neverthrow";
+import * as crypto from "./crypto.js";
+import {
+  DEFAULT_BUOY_CONFIG,
+  DEFAULT_CONFIG,
+  EMPTY_REGISTRY,
+} from "./defaults.js";
 
 // ── Mocks ────────────────────────────────────────────────────────────────────
 
@@ -18,6 +32,8 @@ const unlinkSyncSpy = spyOn(fs, "unlinkSync").mockImplementation(() => {});
 const writeFileSyncSpy = spyOn(fs, "writeFileSync").mockImplementation(
   () => {},
 );
+const mkdirSyncSpy = spyOn(fs, "mkdirSync").mockImplementation(() => undefined);
+const readdirSyncSpy = spyOn(fs, "readdirSync").mockReturnValue([] as never);
 
 fileExistsMock = mock();
 fileJsonMock = mock();
@@ -41,11 +57,44 @@ bunSpawnSpy = spyOn(Bun, "spawn").mockImplementation(
     }) as never,
 );
 
-const { loadConfig, saveConfig, loadRegistry, saveRegistry } = await import(
-  "./loader.js"
-);
+// Envelope keys come from a fixed data key instead of /etc/lobsterd/host.key
+const dataKey = Buffer.alloc(crypto.KEY_BYTES, 7);
+let createEnvelopeSpy: ReturnType<typeof spyOn>;
+let openEnvelopeSpy: ReturnType<typeof spyOn>;
+
+beforeEach(() => {
+  createEnvelopeSpy = spyOn(crypto, "createEnvelope").mockImplementation(
+    () =>
+      okAsync({
+        envelope: { kek: "host-key", dataKey: crypto.seal("k", dataKey) },
+        dataKey,
+      }) as never,
+  );
+  openEnvelopeSpy = spyOn(crypto, "openEnvelope").mockReturnValue(
+    okAsync(dataKey) as never,
+  );
+});
+
+const {
+  loadConfig,
+  saveConfig,
+  loadRegistry,
+  saveRegistry,
+  updateRegistry,
+  loadJournals,
+  saveJournal,
+  deleteJournal,
+  saveTrashEntry,
+  loadTrash,
+  updateSnapIndex,
+  loadSecrets,
+  updateSecrets,
+  tokenEncryptionState,
+} = await import("./loader.js");
 
 afterEach(() => {
+  createEnvelopeSpy.mockRestore();
+  openEnvelopeSpy.mockRestore();
   fileExistsMock.mockReset();
   fileJsonMock.mockReset();
   fileTextMock.mockReset();
@@ -57,6 +106,9 @@ afterEach(() => {
   closeSyncSpy.mockClear();
   unlinkSyncSpy.mockClear();
   writeFileSyncSpy.mockClear();
+  mkdirSyncSpy.mockClear();
+  readdirSyncSpy.mockReset();
+  readdirSyncSpy.mockReturnValue([] as never);
 });
 
 // ── loadConfig ───────────────────────────────────────────────────────────────
@@ -162,3 +214,340 @@ describe("saveRegistry", () => {
     expect(unlinkSyncSpy).toHaveBeenCalled();
   });
 });
+
+// ── Spawn journal ───────────────────────────────────────────────────────────
+
+const journal = {
+  op: "spawn" as const,
+  pid: 4242,
+  startedAt: "2025-01-01T00:00:00.000Z",
+  tenant: {
+    name: "half",
+    vmId: "vm-half",
+    cid: 3,
+    ipAddress: "10.0.0.6",
+    hostIp: "10.0.0.5",
+    tapDev: "tap-half",
+    gatewayPort: 9000,
+    overlayPath: "/var/lib/lobsterd/overlays/half.ext4",
+    socketPath: "/tmp/half.sock",
+    vmPid: null,
+    createdAt: "2025-01-01T00:00:00.000Z",
+    status: "active" as const,
+    gatewayToken: "gw",
+    jailUid: 10000,
+    agentToken: "ag",
+    suspendInfo: null,
+  },
+  steps: ["overlay" as const, "tap" as const],
+};
+
+describe("saveJournal", () => {
+  test("creates the journal dir and writes atomically per tenant", async () => {
+    const result = await saveJournal(journal);
+    expect(result.isOk()).toBe(true);
+    expect(mkdirSyncSpy).toHaveBeenCalledTimes(1);
+    const tmpPath = bunWriteMock.mock.calls[0][0] as string;
+    expect(tmpPath).toStartWith("/var/lib/lobsterd/journal/half.json.tmp.");
+    expect(bunSpawnSpy).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("loadJournals", () => {
+  test("returns nothing when the journal dir does not exist", async () => {
+    readdirSyncSpy.mockImplementation(() => {
+      throw Object.assign(new Error("ENOENT"), { code: "ENOENT" });
+    });
+    const result = await loadJournals();
+    expect(result._unsafeUnwrap()).toEqual([]);
+  });
+
+  test("parses each journal file", async () => {
+    readdirSyncSpy.mockReturnValue(["half.json", "half.json.tmp.1"] as never);
+    fileExistsMock.mockResolvedValue(true);
+    fileJsonMock.mockResolvedValue(journal);
+
+    const result = await loadJournals();
+    expect(result._unsafeUnwrap()).toEqual([journal]);
+  });
+
+  test("returns CONFIG_INVALID for a corrupt journal", async () => {
+    readdirSyncSpy.mockReturnValue(["half.json"] as never);
+    fileExistsMock.mockResolvedValue(true);
+    fileJsonMock.mockResolvedValue({ op: "spawn" });
+
+    const result = await loadJournals();
+    expect(result._unsafeUnwrapErr().code).toBe("CONFIG_INVALID");
+  });
+});
+
+describe("deleteJournal", () => {
+  test("ignores a journal that is already gone", async () => {
+    unlinkSyncSpy.mockImplementationOnce(() => {
+      throw Object.assign(new Error("ENOENT"), { code: "ENOENT" });
+    });
+    const result = await deleteJournal("half");
+    expect(result.isOk()).toBe(true);
+  });
+});
+
+// ── Snap index ──────────────────────────────────────────────────────────────
+
+const snap = {
+  id: "20250101-120000-half",
+  tenant: "half",
+  timestamp: "20250101-120000",
+  createdAt: "2025-01-01T12:00:00.000Z",
+  path: "/var/lib/lobsterd/snaps/half/20250101-120000-half.tar.gz",
+  sizeBytes: 1024,
+  sha256: "c".repeat(64),
+};
+
+describe("updateRegistry", () => {
+  test("applies the update to the current registry under the lock", async () => {
+    fileExistsMock.mockResolvedValue(true);
+    fileJsonMock.mockResolvedValue({ tenants: [journal.tenant] });
+
+    const result = await updateRegistry((registry) => ({
+      tenants: registry.tenants.map((t) => ({ ...t, gatewayToken: "gw2" })),
+    }));
+    expect(result._unsafeUnwrap().tenants[0].gatewayToken).toBe("gw2");
+
+    expect(openSyncSpy.mock.calls[0][0]).toContain("registry.lock");
+    expect(bunWriteMock).toHaveBeenCalledTimes(1);
+    expect(unlinkSyncSpy).toHaveBeenCalled();
+  });
+
+  test("releases the lock when the registry is invalid", async () => {
+    fileExistsMock.mockResolvedValue(true);
+    fileJsonMock.mockResolvedValue({ tenants: "nope" });
+
+    const result = await updateRegistry((registry) => registry);
+    expect(result._unsafeUnwrapErr().code).toBe("CONFIG_INVALID");
+    expect(bunWriteMock).not.toHaveBeenCalled();
+    expect(unlinkSyncSpy).toHaveBeenCalled();
+  });
+});
+
+describe("updateSnapIndex", () => {
+  test("applies the update to the current index under the lock", async () => {
+    fileExistsMock.mockResolvedValue(true);
+    fileJsonMock.mockResolvedValue({ snaps: [snap] });
+
+    const result = await updateSnapIndex((index) => ({
+      snaps: index.snaps.filter((e) => e.id !== snap.id),
+    }));
+    expect(result._unsafeUnwrap()).toEqual({ snaps: [] });
+
+    expect(openSyncSpy.mock.calls[0][0]).toBe(
+      "/var/lib/lobsterd/snaps/index.lock",
+    );
+    const tmpPath = bunWriteMock.mock.calls[0][0] as string;
+    expect(tmpPath).toStartWith("/var/lib/lobsterd/snaps/index.json.tmp.");
+    expect(unlinkSyncSpy).toHaveBeenCalled();
+  });
+
+  test("releases the lock when the index is invalid", async () => {
+    fileExistsMock.mockResolvedValue(true);
+    fileJsonMock.mockResolvedValue({ snaps: [{ id: "x" }] });
+
+    const result = await updateSnapIndex((index) => index);
+    expect(result._unsafeUnwrapErr().code).toBe("CONFIG_INVALID");
+    expect(bunWriteMock).not.toHaveBeenCalled();
+    expect(unlinkSyncSpy).toHaveBeenCalled();
+  });
+});
+
+describe("secrets", () => {
+  const key = dataKey;
+  let hostKeySpy: ReturnType<typeof spyOn>;
+  let ensureKeySpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    hostKeySpy = spyOn(crypto, "loadHostKey").mockReturnValue(
+      okAsync(key) as never,
+    );
+    ensureKeySpy = spyOn(crypto, "ensureHostKey").mockReturnValue(
+      okAsync(key) as never,
+    );
+  });
+
+  afterEach(() => {
+    hostKeySpy.mockRestore();
+    ensureKeySpy.mockRestore();
+  });
+
+  test("loadSecrets returns nothing when the tenant has no store", async () => {
+    fileExistsMock.mockResolvedValue(false);
+
+    const result = await loadSecrets("alpha");
+    expect(result._unsafeUnwrap()).toEqual({});
+    expect(hostKeySpy).not.toHaveBeenCalled();
+  });
+
+  test("loadSecrets opens the store sealed for the tenant", async () => {
+    fileExistsMock.mockResolvedValue(true);
+    fileJsonMock.mockResolvedValue(
+      crypto.seal(JSON.stringify({ API_KEY: "s3cret" }), key, "alpha"),
+    );
+
+    const result = await loadSecrets("alpha");
+    expect(result._unsafeUnwrap()).toEqual({ API_KEY: "s3cret" });
+  });
+
+  test("loadSecrets refuses a store sealed for another tenant", async () => {
+    fileExistsMock.mockResolvedValue(true);
+    fileJsonMock.mockResolvedValue(
+      crypto.seal(JSON.stringify({ API_KEY: "s3cret" }), key, "beta"),
+    );
+
+    const result = await loadSecrets("alpha");
+    expect(result._unsafeUnwrapErr().code).toBe("CRYPTO_FAILED");
+  });
+
+  test("updateSecrets writes ciphertext only, under the lock", async () => {
+    fileExistsMock.mockResolvedValue(false);
+
+    const result = await updateSecrets("alpha", (secrets) => ({
+      ...secrets,
+      API_KEY: "s3cret",
+    }));
+    expect(result._unsafeUnwrap()).toEqual({ API_KEY: "s3cret" });
+
+    expect(openSyncSpy.mock.calls[0][0]).toBe(
+      "/var/lib/lobsterd/secrets/alpha.json.lock",
+    );
+    const written = bunWriteMock.mock.calls[0][1] as string;
+    expect(written).not.toContain("s3cret");
+    expect(crypto.open(JSON.parse(written), key, "alpha")._unsafeUnwrap()).toBe(
+      JSON.stringify({ API_KEY: "s3cret" }),
+    );
+    expect(unlinkSyncSpy).toHaveBeenCalled();
+  });
+
+  test("updateSecrets removes the store once it is empty", async () => {
+    fileExistsMock.mockResolvedValue(true);
+    fileJsonMock.mockResolvedValue(
+      crypto.seal(JSON.stringify({ API_KEY: "s3cret" }), key, "alpha"),
+    );
+
+    const result = await updateSecrets("alpha", () => ({}));
+    expect(result._unsafeUnwrap()).toEqual({});
+    expect(bunWriteMock).not.toHaveBeenCalled();
+    expect(unlinkSyncSpy).toHaveBeenCalledWith(
+      "/var/lib/lobsterd/secrets/alpha.json",
+    );
+  });
+});
+
+describe("token encryption", () => {
+  const tenant = {
+    ...journal.tenant,
+    gatewayToken: "gw-plain-token",
+    agentToken: "ag-plain-token",
+  };
+
+  /** What the last Bun.write put on disk, parsed */
+  const written = () =>
+    JSON.parse(bunWriteMock.mock.calls.at(-1)?.[1] as string) as Record<
+      string,
+      unknown
+    >;
+
+  test("saveRegistry seals tokens and loadRegistry opens them", async () => {
+    await saveRegistry({ tenants: [tenant] });
+
+    const raw = bunWriteMock.mock.calls[0][1] as string;
+    expect(raw).not.toContain("plain-token");
+    expect(written().encryption).toMatchObject({ kek: "host-key" });
+
+    fileExistsMock.mockResolvedValue(true);
+    fileJsonMock.mockResolvedValue(written());
+    const loaded = (await loadRegistry())._unsafeUnwrap();
+    expect(loaded.tenants[0].gatewayToken).toBe("gw-plain-token");
+    expect(loaded.tenants[0].agentToken).toBe("ag-plain-token");
+    expect(loaded).not.toHaveProperty("encryption");
+  });
+
+  test("a token copied onto another tenant doesn't open", async () => {
+    await saveRegistry({ tenants: [tenant, { ...tenant, name: "other" }] });
+    const data = written() as { tenants: Record<string, unknown>[] };
+    data.tenants[1].agentToken = data.tenants[0].agentToken;
+
+    fileExistsMock.mockResolvedValue(true);
+    fileJsonMock.mockResolvedValue(data);
+    const result = await loadRegistry();
+    expect(result._unsafeUnwrapErr().code).toBe("CRYPTO_FAILED");
+  });
+
+  test("saveConfig seals the buoy API token", async () => {
+    const config = {
+      ...DEFAULT_CONFIG,
+      buoy: { ...DEFAULT_BUOY_CONFIG, apiToken: "api-plain-token" },
+    };
+    await saveConfig(config);
+    expect(bunWriteMock.mock.calls[0][1]).not.toContain("api-plain-token");
+
+    fileExistsMock.mockResolvedValue(true);
+    fileJsonMock.mockResolvedValue(written());
+    const loaded = (await loadConfig())._unsafeUnwrap();
+    expect(loaded.buoy?.apiToken).toBe("api-plain-token");
+  });
+
+  test("tokenEncryptionState tells plaintext from sealed files", async () => {
+    fileExistsMock.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+    fileJsonMock.mockResolvedValueOnce(DEFAULT_CONFIG);
+
+    const state = (await tokenEncryptionState())._unsafeUnwrap();
+    expect(state).toEqual({
+      config: "plaintext",
+      registry: "missing",
+      journals: {},
+      trash: {},
+    });
+  });
+
+  test("saveJournal seals the tenant's tokens and loadJournals opens them", async () => {
+    await saveJournal({ ...journal, tenant });
+    expect(bunWriteMock.mock.calls[0][1]).not.toContain("plain-token");
+    expect(written().encryption).toMatchObject({ kek: "host-key" });
+
+    readdirSyncSpy.mockReturnValue(["half.json"] as never);
+    fileExistsMock.mockResolvedValue(true);
+    fileJsonMock.mockResolvedValue(written());
+    const [loaded] = (await loadJournals())._unsafeUnwrap();
+    expect(loaded.tenant.gatewayToken).toBe("gw-plain-token");
+    expect(loaded.tenant.agentToken).toBe("ag-plain-token");
+  });
+
+  test("saveTrashEntry seals the tenant's tokens and loadTrash opens them", async () => {
+    await saveTrashEntry({
+      id: "half-1",
+      tenant,
+      deletedAt: "2025-01-01T00:00:00.000Z",
+      expiresAt: "2025-01-08T00:00:00.000Z",
+    });
+    expect(bunWriteMock.mock.calls[0][1]).not.toContain("plain-token");
+
+    readdirSyncSpy.mockReturnValue(["half-1"] as never);
+    fileExistsMock.mockResolvedValue(true);
+    fileJsonMock.mockResolvedValue(written());
+    const [loaded] = (await loadTrash())._unsafeUnwrap();
+    expect(loaded.tenant.gatewayToken).toBe("gw-plain-token");
+    expect(loaded).not.toHaveProperty("encryption");
+  });
+
+  test("tokenEncryptionState covers journals and trash entries", async () => {
+    await saveRegistry({ tenants: [tenant] });
+    readdirSyncSpy.mockImplementation(((dir: string) =>
+      dir.endsWith("/journal")
+        ? ["half.json", "half.json.tmp.1"]
+        : ["half-1"]) as never);
+    fileExistsMock.mockResolvedValue(true);
+    fileJsonMock.mockResolvedValue(written());
+
+    const state = (await tokenEncryptionState())._unsafeUnwrap();
+    expect(state.journals).toEqual({ half: "host-key" });
+    expect(state.trash).toEqual({ "half-1": "host-key" });
+  });
+});
@@ -1,21 +1,59 @@
-import { chmodSync, closeSync, openSync, unlinkSync } from "node:fs";
-import { err, ok, ResultAsync } from "neverthrow";
+import {
+  chmodSync,
+  closeSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  renameSync,
+  unlinkSync,
+} from "node:fs";
+import { err, errAsync, ok, okAsync, ResultAsync } from "neverthrow";
 import type {
+  FileEncryption,
   LobsterdConfig,
   LobsterError,
+  SnapIndex,
+  SpawnJournal,
   TenantRegistry,
+  TenantSecrets,
+  TrashEntry,
 } from "../types/index.js";
 import {
+  createEnvelope,
+  ensureHostKey,
+  isSealedField,
+  loadHostKey,
+  open,
+  openEnvelope,
+  openField,
+  seal,
+  sealField,
+} from "./crypto.js";
+import {
+  CONFIG_DIR,
   CONFIG_PATH,
   DEFAULT_CONFIG,
   EMPTY_REGISTRY,
+  JOURNAL_DIR,
   REGISTRY_PATH,
+  SECRETS_DIR,
+  SNAPS_DIR,
+  SNAPS_INDEX_PATH,
+  TRASH_DIR,
 } from "./defaults.js";
-import { lobsterdConfigSchema, tenantRegistrySchema } from "./schema.js";
+import {
+  encryptedBlobSchema,
+  envelopeSchema,
+  lobsterdConfigSchema,
+  snapIndexSchema,
+  spawnJournalSchema,
+  tenantRegistrySchema,
+  trashEntrySchema,
+} from "./schema.js";
 
 // ── Lockfile helpers ────────────────────────────────────────────────────────
 
-const REGISTRY_LOCK = "/etc/lobsterd/registry.lock";
+const REGISTRY_LOCK = `${CONFIG_DIR}/registry.lock`;
 const LOCK_TIMEOUT_MS = 10_000;
 const LOCK_POLL_MS = 100;
 
@@ -115,10 +153,195 @@ function writeJsonFileAtomic(
   );
 }
 
+/** Entries of `dir`, or none when it doesn't exist yet */
+function listDir(dir: string): ResultAsync<string[], LobsterError> {
+  return ResultAsync.fromPromise(
+    (async () => {
+      try {
+        return readdirSync(dir);
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+          return [];
+        }
+        throw e;
+      }
+    })(),
+    (e) => ({
+      code: "CONFIG_NOT_FOUND" as const,
+      message: `Failed to list ${dir}`,
+      cause: e,
+    }),
+  );
+}
+
+function ensureDir(dir: string): ResultAsync<void, LobsterError> {
+  return ResultAsync.fromPromise(
+    (async () => {
+      mkdirSync(dir, { recursive: true, mode: 0o700 });
+    })(),
+    (e) => ({
+      code: "EXEC_FAILED" as const,
+      message: `Failed to create ${dir}`,
+      cause: e,
+    }),
+  );
+}
+
+// ── Token encryption ────────────────────────────────────────────────────────
+
+/** A string field to encrypt at rest; `aad` ties it to its place in the file */
+interface SensitiveField {
+  holder: Record<string, unknown>;
+  key: string;
+  aad: string;
+}
+
+type FieldsOf = (data: Record<string, unknown>) => SensitiveField[];
+
+const tenantTokenFields = (t: Record<string, unknown>): SensitiveField[] =>
+  ["gatewayToken", "agentToken"].map((key) => ({
+    holder: t,
+    key,
+    aad: `tenants/${t.name}/${key}`,
+  }));
+
+const registryFields: FieldsOf = (data) =>
+  (Array.isArray(data.tenants) ? data.tenants : []).flatMap(tenantTokenFields);
+
+/** Spawn journals and trash entries each hold a copy of one tenant */
+const tenantFields: FieldsOf = (data) => {
+  const tenant = data.tenant as Record<string, unknown> | undefined;
+  return tenant ? tenantTokenFields(tenant) : [];
+};
+
+const configFields: FieldsOf = (data) => {
+  const buoy = data.buoy as Record<string, unknown> | undefined;
+  return buoy ? [{ holder: buoy, key: "apiToken", aad: "buoy/apiToken" }] : [];
+};
+
+/**
+ * Copy of `data` with its sensitive fields sealed under a fresh data key,
+ * and the wrapped data key stored alongside as `encryption`.
+ */
+function sealFields(
+  data: object,
+  fieldsOf: FieldsOf,
+): ResultAsync<object, LobsterError> {
+  return createEnvelope().map(({ envelope, dataKey }) => {
+    const copy = structuredClone(data) as Record<string, unknown>;
+    for (const { holder, key, aad } of fieldsOf(copy)) {
+      const value = holder[key];
+      if (typeof value === "string" && value !== "") {
+        holder[key] = sealField(value, dataKey, aad);
+      }
+    }
+    return { ...copy, encryption: envelope };
+  });
+}
+
+/** Decrypt what sealFields wrote; plaintext files pass through unchanged */
+function openFields(
+  data: Record<string, unknown>,
+  fieldsOf: FieldsOf,
+  path: string,
+): ResultAsync<Record<string, unknown>, LobsterError> {
+  if (data.encryption === undefined) {
+    return okAsync(data);
+  }
+  const parsed = envelopeSchema.safeParse(data.encryption);
+  if (!parsed.success) {
+    return errAsync({
+      code: "CONFIG_INVALID" as const,
+      message: `Invalid encryption header in ${path}: ${parsed.error.message}`,
+    });
+  }
+  return openEnvelope(parsed.data).andThen((dataKey) => {
+    const { encryption: _, ...copy } = structuredClone(data);
+    for (const { holder, key, aad } of fieldsOf(copy)) {
+      const value = holder[key];
+      if (!isSealedField(value)) {
+        continue;
+      }
+      const opened = openField(value, dataKey, aad);
+      if (opened.isErr()) {
+        return errAsync({
+          ...opened.error,
+          message: `${path}: ${opened.error.message}`,
+        });
+      }
+      holder[key] = opened.value;
+    }
+    return okAsync(copy);
+  });
+}
+
+function readSealedJsonFile(
+  path: string,
+  fieldsOf: FieldsOf,
+): ResultAsync<Record<string, unknown> | null, LobsterError> {
+  return readJsonFile<Record<string, unknown>>(path).andThen((data) =>
+    data === null ? okAsync(null) : openFields(data, fieldsOf, path),
+  );
+}
+
+function writeSealedJsonFile(
+  path: string,
+  data: object,
+  fieldsOf: FieldsOf,
+): ResultAsync<void, LobsterError> {
+  return sealFields(data, fieldsOf).andThen((sealed) =>
+    writeJsonFileAtomic(path, sealed),
+  );
+}
+
+export interface TokenEncryptionState {
+  config: FileEncryption;
+  registry: FileEncryption;
+  /** Spawn journals by tenant name */
+  journals: Record<string, FileEncryption>;
+  /** Trash entries by id */
+  trash: Record<string, FileEncryption>;
+}
+
+/** How every file holding tokens is stored right now */
+export function tokenEncryptionState(): ResultAsync<
+  TokenEncryptionState,
+  LobsterError
+> {
+  const stateOf = (path: string) =>
+    readJsonFile<Record<string, unknown>>(path).map((data): FileEncryption => {
+      if (data === null) {
+        return "missing";
+      }
+      const parsed = envelopeSchema.safeParse(data.encryption);
+      return parsed.success ? parsed.data.kek : "plaintext";
+    });
+  const statesOf = (keys: string[], pathOf: (key: string) => string) =>
+    ResultAsync.combine(keys.map((key) => stateOf(pathOf(key)))).map((states) =>
+      Object.fromEntries(keys.map((key, i) => [key, states[i]])),
+    );
+  return ResultAsync.combine([
+    stateOf(CONFIG_PATH),
+    stateOf(REGISTRY_PATH),
+    listDir(JOURNAL_DIR).andThen((files) =>
+      statesOf(
+        files.filter((f) => f.endsWith(".json")).map((f) => f.slice(0, -5)),
+        journalPath,
+      ),
+    ),
+    listDir(TRASH_DIR).andThen((ids) => statesOf(ids, trashEntryPath)),
+  ]).map(([config, registry, journals, trash]) => ({
+    config,
+    registry,
+    journals,
+    trash,
+  }));
+}
+
 // ── Config ──────────────────────────────────────────────────────────────────
 
 export function loadConfig(): ResultAsync<LobsterdConfig, LobsterError> {
-  return readJsonFile<LobsterdConfig>(CONFIG_PATH).andThen((data) => {
+  return readSealedJsonFile(CONFIG_PATH, configFields).andThen((data) => {
     if (data === null) {
       return ok(DEFAULT_CONFIG);
     }
@@ -136,13 +359,13 @@ export function loadConfig(): ResultAsync<LobsterdConfig, LobsterError> {
 export function saveConfig(
   config: LobsterdConfig,
 ): ResultAsync<void, LobsterError> {
-  return writeJsonFileAtomic(CONFIG_PATH, config);
+  return writeSealedJsonFile(CONFIG_PATH, config, configFields);
 }
 
 // ── Registry ────────────────────────────────────────────────────────────────
 
 export function loadRegistry(): ResultAsync<TenantRegistry, LobsterError> {
-  return readJsonFile<TenantRegistry>(REGISTRY_PATH).andThen((data) => {
+  return readSealedJsonFile(REGISTRY_PATH, registryFields).andThen((data) => {
     if (data === null) {
       return ok(EMPTY_REGISTRY);
     }
@@ -160,12 +383,18 @@ export function loadRegistry(): ResultAsync<TenantRegistry, LobsterError> {
 export function saveRegistry(
   registry: TenantRegistry,
 ): ResultAsync<void, LobsterError> {
+  return sealFields(registry, registryFields).andThen((sealed) =>
+    writeRegistryLocked(sealed),
+  );
+}
+
+function writeRegistryLocked(data: object): ResultAsync<void, LobsterError> {
   return ResultAsync.fromPromise(
     (async () => {
       await acquireLock(REGISTRY_LOCK);
       try {
         const tmpPath = `${REGISTRY_PATH}.tmp.${process.pid}`;
-        await Bun.write(tmpPath, `${JSON.stringify(registry, null, 2)}\n`);
+        await Bun.write(tmpPath, `${JSON.stringify(data, null, 2)}\n`);
         chmodSync(tmpPath, 0o600);
         const proc = Bun.spawn(["mv", tmpPath, REGISTRY_PATH]);
         await proc.exited;
@@ -183,3 +412,341 @@ export function saveRegistry(
     }),
   );
 }
+
+/**
+ * Read-modify-write the registry under its lock, so a change to a few fields
+ * doesn't clobber what another command saved since the caller loaded it.
+ */
+export function updateRegistry(
+  update: (registry: TenantRegistry) => TenantRegistry,
+): ResultAsync<TenantRegistry, LobsterError> {
+  return ResultAsync.fromPromise(acquireLock(REGISTRY_LOCK), (e) => ({
+    code: "LOCK_FAILED" as const,
+    message: `Failed to lock registry: ${e instanceof Error ? e.message : String(e)}`,
+    cause: e,
+  })).andThen(() =>
+    loadRegistry()
+      .andThen((registry) => {
+        const next = update(registry);
+        return writeSealedJsonFile(REGISTRY_PATH, next, registryFields).map(
+          () => next,
+        );
+      })
+      .map((next) => {
+        releaseLock(REGISTRY_LOCK);
+        return next;
+      })
+      .mapErr((e) => {
+        releaseLock(REGISTRY_LOCK);
+        return e;
+      }),
+  );
+}
+
+// ── Spawn journal ───────────────────────────────────────────────────────────
+
+export function journalPath(name: string): string {
+  return `${JOURNAL_DIR}/${name}.json`;
+}
+
+export function saveJournal(
+  journal: SpawnJournal,
+): ResultAsync<void, LobsterError> {
+  return ensureDir(JOURNAL_DIR).andThen(() =>
+    writeSealedJsonFile(
+      journalPath(journal.tenant.name),
+      journal,
+      tenantFields,
+    ),
+  );
+}
+
+/** The spawn journal for `name`, or null when there is none */
+export function loadJournal(
+  name: string,
+): ResultAsync<SpawnJournal | null, LobsterError> {
+  return readSealedJsonFile(journalPath(name), tenantFields).andThen((data) => {
+    if (data === null) {
+      return ok(null);
+    }
+    const parsed = spawnJournalSchema.safeParse(data);
+    if (!parsed.success) {
+      return err({
+        code: "CONFIG_INVALID" as const,
+        message: `Invalid journal ${name}.json: ${parsed.error.message}`,
+      });
+    }
+    return ok(parsed.data as SpawnJournal);
+  });
+}
+
+export function loadJournals(): ResultAsync<SpawnJournal[], LobsterError> {
+  return listDir(JOURNAL_DIR).andThen((entries) =>
+    ResultAsync.combine(
+      entries
+        .filter((f) => f.endsWith(".json"))
+        .map((f) => loadJournal(f.slice(0, -5))),
+    ).map((journals) => journals.filter((j) => j !== null)),
+  );
+}
+
+export function deleteJournal(name: string): ResultAsync<void, LobsterError> {
+  return ResultAsync.fromPromise(
+    (async () => {
+      try {
+        unlinkSync(journalPath(name));
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw e;
+        }
+      }
+    })(),
+    (e) => ({
+      code: "EXEC_FAILED" as const,
+      message: `Failed to remove journal for "${name}"`,
+      cause: e,
+    }),
+  );
+}
+
+// ── Trash ───────────────────────────────────────────────────────────────────
+
+export function trashEntryDir(id: string): string {
+  return `${TRASH_DIR}/${id}`;
+}
+
+export function trashEntryPath(id: string): string {
+  return `${trashEntryDir(id)}/entry.json`;
+}
+
+export function saveTrashEntry(
+  entry: TrashEntry,
+): ResultAsync<void, LobsterError> {
+  return ensureDir(trashEntryDir(entry.id)).andThen(() =>
+    writeSealedJsonFile(trashEntryPath(entry.id), entry, tenantFields),
+  );
+}
+
+/** The trash entry `id`, or null when its dir has no entry file */
+export function loadTrashEntry(
+  id: string,
+): ResultAsync<TrashEntry | null, LobsterError> {
+  return readSealedJsonFile(trashEntryPath(id), tenantFields).andThen(
+    (data) => {
+      if (data === null) {
+        return ok(null);
+      }
+      const parsed = trashEntrySchema.safeParse(data);
+      if (!parsed.success) {
+        return err({
+          code: "CONFIG_INVALID" as const,
+          message: `Invalid trash entry ${id}: ${parsed.error.message}`,
+        });
+      }
+      return ok(parsed.data as TrashEntry);
+    },
+  );
+}
+
+/** All trash entries, oldest first. Dirs without an entry file are skipped. */
+export function loadTrash(): ResultAsync<TrashEntry[], LobsterError> {
+  return listDir(TRASH_DIR).andThen((ids) =>
+    ResultAsync.combine(ids.map(loadTrashEntry)).map((entries) =>
+      entries
+        .filter((e) => e !== null)
+        .sort((a, b) => a.deletedAt.localeCompare(b.deletedAt)),
+    ),
+  );
+}
+
+// ── Snap index ──────────────────────────────────────────────────────────────
+
+const SNAPS_LOCK = `${SNAPS_DIR}/index.lock`;
+
+/** Every recorded snap, oldest first */
+export function loadSnapIndex(): ResultAsync<SnapIndex, LobsterError> {
+  return readJsonFile<SnapIndex>(SNAPS_INDEX_PATH).andThen((data) => {
+    if (data === null) {
+      return ok({ snaps: [] });
+    }
+    const parsed = snapIndexSchema.safeParse(data);
+    if (!parsed.success) {
+      return err({
+        code: "CONFIG_INVALID" as const,
+        message: `Invalid snap index: ${parsed.error.message}`,
+      });
+    }
+    return ok(parsed.data as SnapIndex);
+  });
+}
+
+/**
+ * Read-modify-write the snap index under a lock, so a CLI snap and the
+ * watchdog's scheduled ones don't drop each other's entries.
+ */
+export function updateSnapIndex(
+  update: (index: SnapIndex) => SnapIndex,
+): ResultAsync<SnapIndex, LobsterError> {
+  return ensureDir(SNAPS_DIR)
+    .andThen(() =>
+      ResultAsync.fromPromise(acquireLock(SNAPS_LOCK), (e) => ({
+        code: "LOCK_FAILED" as const,
+        message: `Failed to lock snap index: ${e instanceof Error ? e.message : String(e)}`,
+        cause: e,
+      })),
+    )
+    .andThen(() =>
+      loadSnapIndex()
+        .andThen((index) => {
+          const next = update(index);
+          return writeJsonFileAtomic(SNAPS_INDEX_PATH, next).map(() => next);
+        })
+        .map((next) => {
+          releaseLock(SNAPS_LOCK);
+          return next;
+        })
+        .mapErr((e) => {
+          releaseLock(SNAPS_LOCK);
+          return e;
+        }),
+    );
+}
+
+// ── Tenant secrets ──────────────────────────────────────────────────────────
+
+function secretsPath(name: string): string {
+  return `${SECRETS_DIR}/${name}.json`;
+}
+
+/**
+ * A tenant's secrets, decrypted with the host key. The tenant name is bound
+ * in as associated data, so a file copied to another tenant won't open.
+ */
+export function loadSecrets(
+  name: string,
+): ResultAsync<TenantSecrets, LobsterError> {
+  return readJsonFile<unknown>(secretsPath(name)).andThen(
+    (data): ResultAsync<TenantSecrets, LobsterError> => {
+      if (data === null) {
+        return okAsync({});
+      }
+      const parsed = encryptedBlobSchema.safeParse(data);
+      if (!parsed.success) {
+        return errAsync({
+          code: "CONFIG_INVALID" as const,
+          message: `Invalid secret store for "${name}": ${parsed.error.message}`,
+        });
+      }
+      return loadHostKey()
+        .andThen((key) => open(parsed.data, key, name))
+        .map((text) => JSON.parse(text) as TenantSecrets);
+    },
+  );
+}
+
+/**
+ * Read-modify-write a tenant's secrets under a lock. The store is re-sealed
+ * under a fresh IV on every write and removed once it's empty.
+ */
+export function updateSecrets(
+  name: string,
+  update: (secrets: TenantSecrets) => TenantSecrets,
+): ResultAsync<TenantSecrets, LobsterError> {
+  const lockPath = `${secretsPath(name)}.lock`;
+  return ensureDir(SECRETS_DIR)
+    .andThen(() =>
+      ResultAsync.fromPromise(acquireLock(lockPath), (e) => ({
+        code: "LOCK_FAILED" as const,
+        message: `Failed to lock secrets of "${name}": ${e instanceof Error ? e.message : String(e)}`,
+        cause: e,
+      })),
+    )
+    .andThen(() =>
+      loadSecrets(name)
+        .andThen((secrets) => {
+          const next = update(secrets);
+          if (Object.keys(next).length === 0) {
+            return deleteSecrets(name).map(() => next);
+          }
+          return ensureHostKey()
+            .andThen((key) =>
+              writeJsonFileAtomic(
+                secretsPath(name),
+                seal(JSON.stringify(next), key, name),
+              ),
+            )
+            .map(() => next);
+        })
+        .map((next) => {
+          releaseLock(lockPath);
+          return next;
+        })
+        .mapErr((e) => {
+          releaseLock(lockPath);
+          return e;
+        }),
+    );
+}
+
+export function deleteSecrets(name: string): ResultAsync<void, LobsterError> {
+  return ResultAsync.fromPromise(
+    (async () => {
+      try {
+        unlinkSync(secretsPath(name));
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw e;
+        }
+      }
+    })(),
+    (e) => ({
+      code: "EXEC_FAILED" as const,
+      message: `Failed to remove secrets of "${name}"`,
+      cause: e,
+    }),
+  );
+}
+
+/** Move a tenant's secrets file; a tenant without secrets is a no-op */
+function moveSecretsFile(
+  name: string,
+  from: string,
+  to: string,
+): ResultAsync<void, LobsterError> {
+  return ResultAsync.fromPromise(
+    (async () => {
+      try {
+        renameSync(from, to);
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw e;
+        }
+      }
+    })(),
+    (e) => ({
+      code: "EXEC_FAILED" as const,
+      message: `Failed to move secrets of "${name}"`,
+      cause: e,
+    }),
+  );
+}
+
+/** Move a tenant's secrets into `dir` (e.g. its trash entry) */
+export function stashSecrets(
+  name: string,
+  dir: string,
+): ResultAsync<void, LobsterError> {
+  return ensureDir(dir).andThen(() =>
+    moveSecretsFile(name, secretsPath(name), `${dir}/secrets.json`),
+  );
+}
+
+/** Move secrets stashed with stashSecrets back into the store */
+export function unstashSecrets(
+  name: string,
+  dir: string,
+): ResultAsync<void, LobsterError> {
+  return ensureDir(SECRETS_DIR).andThen(() =>
+    moveSecretsFile(name, `${dir}/secrets.json`, secretsPath(name)),
+  );
+}
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { unwrapErr, unwrapOk } from "../test-helpers.js";
+import { loadManifest } from "./manifest.js";
+
+let fileSpy: ReturnType<typeof spyOn>;
+let contents = "";
+
+beforeEach(() => {
+  fileSpy = spyOn(Bun, "file").mockImplementation(
+    () => ({ text: async () => contents }) as never,
+  );
+});
+
+afterEach(() => {
+  fileSpy.mockRestore();
+});
+
+describe("loadManifest", () => {
+  test("parses JSON manifests", async () => {
+    contents = JSON.stringify({
+      tenants: [{ name: "alpha", resources: { diskSizeMb: 8192 } }],
+    });
+    const desired = await unwrapOk(loadManifest("tenants.json"));
+    expect(desired).toEqual([
+      { name: "alpha", resources: { diskSizeMb: 8192 } },
+    ]);
+  });
+
+  test("parses YAML manifests and rate-limit strings", async () => {
+    contents = [
+      "tenants:",
+      "  - name: beta",
+      "    template: small",
+      "    labels:",
+      "      team: infra",
+      "    rateLimits:",
+      "      networkRx: 10M",
+    ].join("\n");
+    const [beta] = await unwrapOk(loadManifest("tenants.yaml"));
+    expect(beta.template).toBe("small");
+    expect(beta.labels).toEqual({ team: "infra" });
+    expect(beta.rateLimits).toEqual({
+      networkRx: { bandwidth: { size: 10_485_760, refillTime: 1000 } },
+    });
+  });
+
+  test("rejects duplicate tenant names", async () => {
+    contents = JSON.stringify({ tenants: [{ name: "a" }, { name: "a" }] });
+    const err = await unwrapErr(loadManifest("tenants.json"));
+    expect(err.code).toBe("CONFIG_INVALID");
+    expect(err.message).toContain("listed twice");
+  });
+
+  test("rejects invalid names and labels", async () => {
+    contents = JSON.stringify({ tenants: [{ name: "Bad Name" }] });
+    expect((await unwrapErr(loadManifest("t.json"))).code).toBe(
+      "CONFIG_INVALID",
+    );
+    contents = JSON.stringify({
+      tenants: [{ name: "a", labels: { "-bad": "x" } }],
+    });
+    expect((await unwrapErr(loadManifest("t.json"))).code).toBe(
+      "CONFIG_INVALID",
+    );
+  });
+
+  test("reports malformed rate limits with the tenant name", async () => {
+    contents = JSON.stringify({
+      tenants: [{ name: "a", rateLimits: { disk: "fast" } }],
+    });
+    const err = await unwrapErr(loadManifest("t.json"));
+    expect(err.code).toBe("VALIDATION_FAILED");
+    expect(err.message).toContain('Tenant "a"');
+  });
+
+  test("returns CONFIG_INVALID for unparseable files", async () => {
+    contents = "{not json";
+    const err = await unwrapErr(loadManifest("t.json"));
+    expect(err.code).toBe("CONFIG_INVALID");
+  });
+});
@@ -0,0 +1,106 @@
+import { extname } from "node:path";
+import { err, ok, type Result, ResultAsync } from "neverthrow";
+import { z } from "zod";
+import type {
+  LobsterError,
+  TenantRateLimits,
+  TenantResources,
+} from "../types/index.js";
+import { parseRateLimitOverrides } from "./rate-limits.js";
+import {
+  labelsSchema,
+  TENANT_NAME_REGEX,
+  tenantResourcesSchema,
+} from "./schema.js";
+
+export const manifestTenantSchema = z.object({
+  name: z.string().regex(TENANT_NAME_REGEX),
+  template: z.string().min(1).optional(),
+  resources: tenantResourcesSchema.partial().optional(),
+  labels: labelsSchema.optional(),
+  /** Same strings as `lobsterd throttle` ("10M", "500K", "off") */
+  rateLimits: z
+    .object({
+      networkRx: z.string().optional(),
+      networkTx: z.string().optional(),
+      disk: z.string().optional(),
+    })
+    .optional(),
+});
+
+export const tenantManifestSchema = z.object({
+  tenants: z.array(manifestTenantSchema),
+});
+
+/** A manifest entry with its rate-limit strings parsed */
+export interface DesiredTenant {
+  name: string;
+  template?: string;
+  resources?: Partial<TenantResources>;
+  labels?: Record<string, string>;
+  rateLimits?: TenantRateLimits;
+}
+
+function toDesired(
+  spec: z.infer<typeof manifestTenantSchema>,
+): Result<DesiredTenant, LobsterError> {
+  const { rateLimits, ...rest } = spec;
+  if (!rateLimits || Object.values(rateLimits).every((v) => v === undefined)) {
+    return ok(rest);
+  }
+  return parseRateLimitOverrides({
+    netRx: rateLimits.networkRx,
+    netTx: rateLimits.networkTx,
+    disk: rateLimits.disk,
+  })
+    .map((parsed) => ({ ...rest, rateLimits: parsed }))
+    .mapErr((e) => ({ ...e, message: `Tenant "${spec.name}": ${e.message}` }));
+}
+
+/**
+ * Read a tenant manifest. `.yaml`/`.yml` files are parsed as YAML, anything
+ * else as JSON.
+ */
+export function loadManifest(
+  path: string,
+): ResultAsync<DesiredTenant[], LobsterError> {
+  return ResultAsync.fromPromise(
+    (async () => {
+      const text = await Bun.file(path).text();
+      const ext = extname(path).toLowerCase();
+      return ext === ".yaml" || ext === ".yml"
+        ? Bun.YAML.parse(text)
+        : JSON.parse(text);
+    })(),
+    (e): LobsterError => ({
+      code: "CONFIG_INVALID",
+      message: `Failed to read manifest ${path}: ${e instanceof Error ? e.message : String(e)}`,
+      cause: e,
+    }),
+  ).andThen((data) => {
+    const parsed = tenantManifestSchema.safeParse(data);
+    if (!parsed.success) {
+      return err<DesiredTenant[], LobsterError>({
+        code: "CONFIG_INVALID",
+        message: `Invalid manifest ${path}: ${parsed.error.message}`,
+      });
+    }
+    const seen = new Set<string>();
+    const desired: DesiredTenant[] = [];
+    for (const spec of parsed.data.tenants) {
+      if (seen.has(spec.name)) {
+        return err<DesiredTenant[], LobsterError>({
+          code: "CONFIG_INVALID",
+          message: `Invalid manifest ${path}: tenant "${spec.name}" listed twice`,
+        });
+      }
+      seen.add(spec.name);
+      const d = toDesired(spec);
+      if (d.isErr()) {
+        return err(d.error);
+      }
+      desired.push(d.value);
+    }
+    return ok(desired);
+  });
+}
@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test";
+import { makeConfig } from "../test-helpers.js";
+import {
+  applyRateLimits,
+  parseBandwidth,
+  parseRateLimitOverrides,
+} from "./rate-limits.js";
+
+describe("parseBandwidth", () => {
+  test("parses bytes per second with binary units", () => {
+    expect(parseBandwidth("500K")?.bandwidth?.size).toBe(512_000);
+    expect(parseBandwidth("10M")?.bandwidth?.size).toBe(10_485_760);
+    expect(parseBandwidth("2048")?.bandwidth?.size).toBe(2048);
+  });
+
+  test("maps off to a zero-size bucket", () => {
+    expect(parseBandwidth("off")).toEqual({
+      bandwidth: { size: 0, refillTime: 1000 },
+    });
+  });
+
+  test("rejects garbage", () => {
+    expect(parseBandwidth("fast")).toBeNull();
+    expect(parseBandwidth("0")).toBeNull();
+  });
+});
+
+describe("parseRateLimitOverrides", () => {
+  test("maps flags onto limiter keys", () => {
+    const overrides = parseRateLimitOverrides({
+      netTx: "1M",
+      disk: "off",
+    })._unsafeUnwrap();
+    expect(Object.keys(overrides).sort()).toEqual(["disk", "networkTx"]);
+  });
+
+  test("requires at least one limit", () => {
+    const error = parseRateLimitOverrides({})._unsafeUnwrapErr();
+    expect(error.code).toBe("VALIDATION_FAILED");
+  });
+
+  test("names the bad flag", () => {
+    const error = parseRateLimitOverrides({ netRx: "lots" })._unsafeUnwrapErr();
+    expect(error.message).toContain("network rx");
+  });
+});
+
+describe("applyRateLimits", () => {
+  test("replaces the bandwidth bucket but keeps the ops bucket", () => {
+    const config = makeConfig();
+    const applied = applyRateLimits(config, {
+      disk: { bandwidth: { size: 1, refillTime: 1000 } },
+    });
+    expect(applied.firecracker.diskRateLimit?.bandwidth?.size).toBe(1);
+    expect(applied.firecracker.diskRateLimit?.ops).toEqual(
+      config.firecracker.diskRateLimit?.ops,
+    );
+    expect(applied.firecracker.networkRxRateLimit).toEqual(
+      config.firecracker.networkRxRateLimit,
+    );
+  });
+});
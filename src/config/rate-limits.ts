@@ -0,0 +1,103 @@
+import { err, ok, type Result } from "neverthrow";
+import type {
+  LobsterdConfig,
+  LobsterError,
+  RateLimiter,
+  TenantRateLimits,
+} from "../types/index.js";
+
+/**
+ * Parse a bandwidth like "500K", "10M" or "1G" (bytes per second) into a
+ * limiter override. "off" yields a zero-size bucket, which Firecracker
+ * treats as unlimited. Returns null when the input is malformed.
+ */
+export function parseBandwidth(input: string): RateLimiter | null {
+  const trimmed = input.trim();
+  if (trimmed.toLowerCase() === "off") {
+    return { bandwidth: { size: 0, refillTime: 1000 } };
+  }
+  const match = trimmed.match(/^(\d+(?:\.\d+)?)\s*([KMG])?i?B?$/i);
+  if (!match) {
+    return null;
+  }
+  const unit = (match[2] ?? "").toUpperCase();
+  const multipliers: Record<string, number> = {
+    "": 1,
+    K: 1024,
+    M: 1024 * 1024,
+    G: 1024 * 1024 * 1024,
+  };
+  const bytes = Math.round(parseFloat(match[1]) * multipliers[unit]);
+  if (bytes <= 0) {
+    return null;
+  }
+  return { bandwidth: { size: bytes, refillTime: 1000 } };
+}
+
+/** Parse CLI-style `--net-rx/--net-tx/--disk` strings into overrides. */
+export function parseRateLimitOverrides(flags: {
+  netRx?: string;
+  netTx?: string;
+  disk?: string;
+}): Result<TenantRateLimits, LobsterError> {
+  const overrides: TenantRateLimits = {};
+  for (const [label, value, key] of [
+    ["network rx", flags.netRx, "networkRx"],
+    ["network tx", flags.netTx, "networkTx"],
+    ["disk", flags.disk, "disk"],
+  ] as const) {
+    if (value === undefined) {
+      continue;
+    }
+    const limiter = parseBandwidth(value);
+    if (!limiter) {
+      return err({
+        code: "VALIDATION_FAILED",
+        message: `Invalid ${label} limit "${value}" (expected bytes/s like 500K, 10M, or "off")`,
+      });
+    }
+    overrides[key] = limiter;
+  }
+  if (Object.keys(overrides).length === 0) {
+    return err({
+      code: "VALIDATION_FAILED",
+      message: "No limits given (use --net-rx, --net-tx or --disk)",
+    });
+  }
+  return ok(overrides);
+}
+
+function mergeLimiter(
+  base: RateLimiter | undefined,
+  override: RateLimiter | undefined,
+): RateLimiter | undefined {
+  return override ? { ...base, ...override } : base;
+}
+
+/**
+ * Merge per-tenant overrides over the configured limiters. Buckets are
+ * replaced individually, so a bandwidth override keeps the ops limit.
+ */
+export function applyRateLimits(
+  config: LobsterdConfig,
+  overrides: TenantRateLimits,
+): LobsterdConfig {
+  return {
+    ...config,
+    firecracker: {
+      ...config.firecracker,
+      networkRxRateLimit: mergeLimiter(
+        config.firecracker.networkRxRateLimit,
+        overrides.networkRx,
+      ),
+      networkTxRateLimit: mergeLimiter(
+        config.firecracker.networkTxRateLimit,
+        overrides.networkTx,
+      ),
+      diskRateLimit: mergeLimiter(
+        config.firecracker.diskRateLimit,
+        overrides.disk,
+      ),
+    },
+  };
+}
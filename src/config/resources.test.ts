@@ -0,0 +1,94 @@
+import { describe, expect, test } from "bun:test";
+import { makeConfig, makeTenant } from "../test-helpers.js";
+import {
+  defaultResources,
+  parseResourceOverrides,
+  parseSizeMb,
+  tenantResources,
+  validateResources,
+} from "./resources.js";
+
+const LIMITS = { cpuCount: 4, memTotalMb: 8192 };
+
+describe("parseSizeMb", () => {
+  test("bare numbers are MiB", () => {
+    expect(parseSizeMb("512")).toBe(512);
+  });
+
+  test("accepts M/G/T suffixes case-insensitively", () => {
+    expect(parseSizeMb("512M")).toBe(512);
+    expect(parseSizeMb("2g")).toBe(2048);
+    expect(parseSizeMb("1.5GiB")).toBe(1536);
+    expect(parseSizeMb("1T")).toBe(1024 * 1024);
+  });
+
+  test("rejects garbage and zero", () => {
+    expect(parseSizeMb("lots")).toBeNull();
+    expect(parseSizeMb("2X")).toBeNull();
+    expect(parseSizeMb("0")).toBeNull();
+  });
+});
+
+describe("parseResourceOverrides", () => {
+  test("returns only the flags that were given", () => {
+    const result = parseResourceOverrides({ vcpu: "2", disk: "8G" });
+    expect(result._unsafeUnwrap()).toEqual({ vcpuCount: 2, diskSizeMb: 8192 });
+  });
+
+  test("rejects a non-integer vCPU count", () => {
+    const result = parseResourceOverrides({ vcpu: "1.5" });
+    expect(result._unsafeUnwrapErr().code).toBe("VALIDATION_FAILED");
+  });
+
+  test("rejects a malformed size", () => {
+    const result = parseResourceOverrides({ mem: "big" });
+    expect(result._unsafeUnwrapErr().message).toContain("memory size");
+  });
+});
+
+describe("validateResources", () => {
+  test("accepts resources within host limits", () => {
+    const resources = { vcpuCount: 4, memSizeMb: 2048, diskSizeMb: 4096 };
+    expect(validateResources(resources, LIMITS).isOk()).toBe(true);
+  });
+
+  test("rejects more vCPUs than the host has", () => {
+    const result = validateResources(
+      { vcpuCount: 8, memSizeMb: 1024, diskSizeMb: 4096 },
+      LIMITS,
+    );
+    expect(result._unsafeUnwrapErr().message).toContain("vCPU");
+  });
+
+  test("rejects more memory than the host has", () => {
+    const result = validateResources(
+      { vcpuCount: 1, memSizeMb: 16384, diskSizeMb: 4096 },
+      LIMITS,
+    );
+    expect(result._unsafeUnwrapErr().message).toContain("Memory");
+  });
+
+  test("rejects a tiny overlay", () => {
+    const result = validateResources(
+      { vcpuCount: 1, memSizeMb: 1024, diskSizeMb: 16 },
+      LIMITS,
+    );
+    expect(result._unsafeUnwrapErr().message).toContain("Overlay");
+  });
+});
+
+describe("tenantResources", () => {
+  test("falls back to config defaults for legacy tenants", () => {
+    const config = makeConfig();
+    expect(tenantResources(makeTenant(), config)).toEqual(
+      defaultResources(config),
+    );
+  });
+
+  test("prefers the tenant's own resources", () => {
+    const resources = { vcpuCount: 1, memSizeMb: 512, diskSizeMb: 2048 };
+    expect(tenantResources(makeTenant({ resources }), makeConfig())).toEqual(
+      resources,
+    );
+  });
+});
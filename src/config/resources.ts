@@ -0,0 +1,125 @@
+import { cpus, totalmem } from "node:os";
+import { err, ok, type Result } from "neverthrow";
+import type {
+  LobsterdConfig,
+  LobsterError,
+  Tenant,
+  TenantResources,
+} from "../types/index.js";
+
+/** Firecracker refuses machine configs above this many vCPUs */
+export const MAX_VCPU_COUNT = 32;
+export const MIN_MEM_SIZE_MB = 128;
+export const MIN_DISK_SIZE_MB = 256;
+
+export interface HostLimits {
+  cpuCount: number;
+  memTotalMb: number;
+}
+
+export function hostLimits(): HostLimits {
+  return {
+    cpuCount: cpus().length,
+    memTotalMb: Math.floor(totalmem() / (1024 * 1024)),
+  };
+}
+
+export function defaultResources(config: LobsterdConfig): TenantResources {
+  return {
+    vcpuCount: config.firecracker.defaultVcpuCount,
+    memSizeMb: config.firecracker.defaultMemSizeMb,
+    diskSizeMb: config.overlay.defaultSizeMb,
+  };
+}
+
+/** Resources a tenant was spawned with, falling back to the global defaults. */
+export function tenantResources(
+  tenant: Tenant,
+  config: LobsterdConfig,
+): TenantResources {
+  return tenant.resources ?? defaultResources(config);
+}
+
+/**
+ * Parse a human size like "512", "512M", "8G" or "1T" into MiB.
+ * Bare numbers are already MiB. Returns null when the input is malformed.
+ */
+export function parseSizeMb(input: string): number | null {
+  const match = input.trim().match(/^(\d+(?:\.\d+)?)\s*([MGT])?i?B?$/i);
+  if (!match) {
+    return null;
+  }
+  const value = parseFloat(match[1]);
+  const unit = (match[2] ?? "M").toUpperCase();
+  const multipliers: Record<string, number> = { M: 1, G: 1024, T: 1024 * 1024 };
+  const mb = Math.round(value * multipliers[unit]);
+  return mb > 0 ? mb : null;
+}
+
+/** Parse CLI-style `--vcpu/--mem/--disk` strings into resource overrides. */
+export function parseResourceOverrides(flags: {
+  vcpu?: string;
+  mem?: string;
+  disk?: string;
+}): Result<Partial<TenantResources>, LobsterError> {
+  const overrides: Partial<TenantResources> = {};
+  if (flags.vcpu !== undefined) {
+    const vcpuCount = Number(flags.vcpu);
+    if (!Number.isInteger(vcpuCount)) {
+      return err({
+        code: "VALIDATION_FAILED",
+        message: `Invalid vCPU count "${flags.vcpu}"`,
+      });
+    }
+    overrides.vcpuCount = vcpuCount;
+  }
+  for (const [label, value, key] of [
+    ["memory size", flags.mem, "memSizeMb"],
+    ["disk size", flags.disk, "diskSizeMb"],
+  ] as const) {
+    if (value === undefined) {
+      continue;
+    }
+    const mb = parseSizeMb(value);
+    if (mb === null) {
+      return err({
+        code: "VALIDATION_FAILED",
+        message: `Invalid ${label} "${value}" (expected e.g. 512M, 2G)`,
+      });
+    }
+    overrides[key] = mb;
+  }
+  return ok(overrides);
+}
+
+export function validateResources(
+  resources: TenantResources,
+  limits: HostLimits,
+): Result<TenantResources, LobsterError> {
+  const { vcpuCount, memSizeMb, diskSizeMb } = resources;
+  const maxVcpu = Math.min(MAX_VCPU_COUNT, limits.cpuCount);
+
+  if (!Number.isInteger(vcpuCount) || vcpuCount < 1 || vcpuCount > maxVcpu) {
+    return err({
+      code: "VALIDATION_FAILED",
+      message: `vCPU count ${vcpuCount} out of range (1-${maxVcpu} on this host)`,
+    });
+  }
+  if (
+    !Number.isInteger(memSizeMb) ||
+    memSizeMb < MIN_MEM_SIZE_MB ||
+    memSizeMb > limits.memTotalMb
+  ) {
+    return err({
+      code: "VALIDATION_FAILED",
+      message: `Memory ${memSizeMb}MB out of range (${MIN_MEM_SIZE_MB}-${limits.memTotalMb}MB on this host)`,
+    });
+  }
+  if (!Number.isInteger(diskSizeMb) || diskSizeMb < MIN_DISK_SIZE_MB) {
+    return err({
+      code: "VALIDATION_FAILED",
+      message: `Overlay size ${diskSizeMb}MB is below the ${MIN_DISK_SIZE_MB}MB minimum`,
+    });
+  }
+  return ok(resources);
+}
@@ -43,6 +43,32 @@ describe("lobsterdConfigSchema", () => {
     expect(result.success).toBe(false);
   });
 
+  test("accepts templates", () => {
+    const cfg = makeConfig({
+      templates: {
+        batch: {
+          resources: { vcpuCount: 4 },
+          autoSuspend: { enabled: false },
+        },
+      },
+    });
+    expect(lobsterdConfigSchema.safeParse(cfg).success).toBe(true);
+  });
+
+  test("rejects template with invalid resources", () => {
+    const cfg = makeConfig({
+      templates: { tiny: { resources: { memSizeMb: 16 } } },
+    });
+    expect(lobsterdConfigSchema.safeParse(cfg).success).toBe(false);
+  });
+
+  test("rejects an invalid backup schedule", () => {
+    const cfg = makeConfig({
+      backup: { schedule: "every night", staggerMs: 0 },
+    });
+    expect(lobsterdConfigSchema.safeParse(cfg).success).toBe(false);
+  });
+
   test("rejects vcpu 0", () => {
     const cfg = makeConfig({
       firecracker: { ...DEFAULT_CONFIG.firecracker, defaultVcpuCount: 0 },
@@ -58,6 +84,28 @@ describe("lobsterdConfigSchema", () => {
     const result = lobsterdConfigSchema.safeParse(cfg);
     expect(result.success).toBe(false);
   });
+
+  test("accepts a config without a pool prefix", () => {
+    const { poolPrefix: _, ...network } = DEFAULT_CONFIG.network;
+    const cfg = makeConfig({ network });
+    expect(lobsterdConfigSchema.safeParse(cfg).success).toBe(true);
+  });
+
+  test("rejects a pool smaller than one tenant /30", () => {
+    const cfg = makeConfig({
+      network: { ...DEFAULT_CONFIG.network, poolPrefix: 30 },
+    });
+    expect(lobsterdConfigSchema.safeParse(cfg).success).toBe(false);
+  });
+
+  test("rejects an instance prefix that would overflow TAP names", () => {
+    const ok = makeConfig({ instance: "b2" });
+    const long = makeConfig({ instance: "second" });
+    const dashed = makeConfig({ instance: "b-2" });
+    expect(lobsterdConfigSchema.safeParse(ok).success).toBe(true);
+    expect(lobsterdConfigSchema.safeParse(long).success).toBe(false);
+    expect(lobsterdConfigSchema.safeParse(dashed).success).toBe(false);
+  });
 });
 
 // ── tenantSchema ────────────────────────────────────────────────────────────
@@ -105,9 +153,19 @@ describe("tenantRegistrySchema", () => {
     expect(result.success).toBe(true);
   });
 
-  test("rejects nextCid 2", () => {
+  test("strips legacy next* counters", () => {
+    const result = tenantRegistrySchema.safeParse({
+      ...makeRegistry(),
+      nextCid: 5,
+      nextSubnetIndex: 3,
+    });
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ tenants: [] });
+  });
+
+  test("rejects a tenant with an invalid IP", () => {
     const result = tenantRegistrySchema.safeParse(
-      makeRegistry(undefined, { nextCid: 2 }),
+      makeRegistry([makeTenant({ ipAddress: "not-an-ip" })]),
     );
     expect(result.success).toBe(false);
   });
@@ -1,6 +1,13 @@
 import { z } from "zod";
+import { parseCron } from "./cron.js";
 
 export const TENANT_NAME_REGEX = /^[a-z][a-z0-9_-]*$/;
+/** Label keys and values, Kubernetes-style: short, alphanumeric edges */
+export const LABEL_KEY_REGEX = /^[a-z0-9]([a-z0-9._/-]{0,61}[a-z0-9])?$/;
+export const LABEL_VALUE_REGEX =
+  /^([A-Za-z0-9]([A-Za-z0-9._-]{0,61}[A-Za-z0-9])?)?$/;
+/** Secret keys become guest environment variables */
+export const SECRET_KEY_REGEX = /^[A-Za-z_][A-Za-z0-9_]{0,127}$/;
 
 export const tokenBucketSchema = z.object({
   size: z.number().int().min(0),
@@ -28,6 +35,7 @@ export const firecrackerConfigSchema = z.object({
   networkRxRateLimit: rateLimiterSchema.optional(),
   networkTxRateLimit: rateLimiterSchema.optional(),
   diskRateLimit: rateLimiterSchema.optional(),
+  diffSnapshots: z.boolean().optional(),
 });
 
 export const networkConfigSchema = z.object({
@@ -36,6 +44,7 @@ export const networkConfigSchema = z.object({
     .string()
     .regex(/^\d+\.\d+\.\d+\.\d+$/, "Must be a valid IPv4 address"),
   subnetMask: z.number().int().min(8).max(30),
+  poolPrefix: z.number().int().min(8).max(29).optional(),
   gatewayPortStart: z.number().int().min(1024).max(65535),
 });
 
@@ -60,6 +69,7 @@ export const overlayConfigSchema = z.object({
   baseDir: z.string().min(1),
   defaultSizeMb: z.number().int().min(256),
   snapshotRetention: z.number().int().min(0),
+  snapshotFreezeTimeoutMs: z.number().int().min(1000).optional(),
 });
 
 export const watchdogConfigSchema = z.object({
@@ -76,6 +86,81 @@ export const openclawConfigSchema = z.object({
   defaultConfig: z.record(z.string(), z.unknown()),
 });
 
+export const stopInfoSchema = z.object({
+  stoppedAt: z.string().datetime(),
+  networkParked: z.boolean(),
+});
+
+export const tenantRateLimitsSchema = z.object({
+  networkRx: rateLimiterSchema.optional(),
+  networkTx: rateLimiterSchema.optional(),
+  disk: rateLimiterSchema.optional(),
+});
+
+export const labelsSchema = z.record(
+  z.string().regex(LABEL_KEY_REGEX, "Invalid label key"),
+  z.string().regex(LABEL_VALUE_REGEX, "Invalid label value"),
+);
+
+export const tenantResourcesSchema = z.object({
+  vcpuCount: z.number().int().min(1).max(32),
+  memSizeMb: z.number().int().min(128),
+  diskSizeMb: z.number().int().min(256),
+});
+
+const cronExprSchema = z.string().refine((expr) => parseCron(expr).isOk(), {
+  message: "Invalid cron schedule",
+});
+
+export const tenantTemplateSchema = z.object({
+  resources: tenantResourcesSchema.partial().optional(),
+  networkRxRateLimit: rateLimiterSchema.optional(),
+  networkTxRateLimit: rateLimiterSchema.optional(),
+  diskRateLimit: rateLimiterSchema.optional(),
+  openclaw: z.record(z.string(), z.unknown()).optional(),
+  autoSuspend: z
+    .object({
+      enabled: z.boolean(),
+      idleThresholdMs: z.number().int().min(0).optional(),
+    })
+    .optional(),
+  backup: z
+    .object({
+      enabled: z.boolean(),
+      schedule: cronExprSchema.optional(),
+    })
+    .optional(),
+});
+
+export const balloonConfigSchema = z.object({
+  enabled: z.boolean(),
+  deflateOnOom: z.boolean(),
+  statsIntervalS: z.number().int().min(0),
+  hostLowWatermarkMb: z.number().int().min(0),
+  idleGuestMb: z.number().int().min(64),
+});
+
+export const trashConfigSchema = z.object({
+  retentionDays: z.number().min(0),
+});
+
+export const rollbackConfigSchema = z.object({
+  retention: z.number().int().min(0),
+});
+
+export const backupConfigSchema = z.object({
+  schedule: cronExprSchema,
+  staggerMs: z.number().int().min(0),
+});
+
+export const capacityConfigSchema = z.object({
+  memOvercommitRatio: z.number().positive(),
+  vcpuOvercommitRatio: z.number().positive(),
+  diskOvercommitRatio: z.number().positive(),
+  reserveMemMb: z.number().int().min(0),
+  reserveDiskMb: z.number().int().min(0),
+});
+
 export const buoyConfigSchema = z.object({
   port: z.number().int().min(1).max(65535),
   host: z.string().min(1),
@@ -93,6 +178,18 @@ export const lobsterdConfigSchema = z.object({
   watchdog: watchdogConfigSchema,
   openclaw: openclawConfigSchema,
   buoy: buoyConfigSchema.optional(),
+  balloon: balloonConfigSchema.optional(),
+  trash: trashConfigSchema.optional(),
+  capacity: capacityConfigSchema.optional(),
+  rollback: rollbackConfigSchema.optional(),
+  backup: backupConfigSchema.optional(),
+  templates: z
+    .record(z.string().regex(TENANT_NAME_REGEX), tenantTemplateSchema)
+    .optional(),
+  instance: z
+    .string()
+    .regex(/^[a-z0-9]{1,4}$/, "Up to 4 lowercase letters or digits")
+    .optional(),
 });
 
 export const cronScheduleInfoSchema = z.object({
@@ -126,6 +223,8 @@ export const suspendInfoSchema = z.object({
   wakeReason: z.enum(["cron", "heartbeat"]).nullable().optional(),
   lastRxBytes: z.number().int().min(0),
   heartbeatSchedule: heartbeatScheduleInfoSchema.nullable().optional(),
+  pendingFsResize: z.boolean().optional(),
+  overlayCaptured: z.boolean().optional(),
 });
 
 export const tenantSchema = z.object({
@@ -147,17 +246,93 @@ export const tenantSchema = z.object({
   socketPath: z.string().min(1),
   vmPid: z.number().int().nullable(),
   createdAt: z.string().datetime(),
-  status: z.enum(["active", "suspended", "removing"]),
+  status: z.enum(["active", "suspended", "stopped", "removing"]),
   gatewayToken: z.string().min(1),
   jailUid: z.number().int().min(1000),
   agentToken: z.string().min(1),
   suspendInfo: suspendInfoSchema.nullable(),
+  snapshotBase: z
+    .object({ dir: z.string().min(1), vmPid: z.number().int() })
+    .optional(),
+  stopInfo: stopInfoSchema.nullable().optional(),
+  resources: tenantResourcesSchema.optional(),
+  template: z.string().min(1).optional(),
+  rateLimits: tenantRateLimitsSchema.optional(),
+  labels: labelsSchema.optional(),
+});
+
+export const spawnJournalSchema = z.object({
+  op: z.literal("spawn"),
+  pid: z.number().int().min(1),
+  startedAt: z.string().datetime(),
+  tenant: tenantSchema,
+  steps: z.array(
+    z.enum([
+      "overlay",
+      "tap",
+      "nat",
+      "isolation",
+      "lockdown",
+      "vm",
+      "ssh",
+      "caddy",
+      "registry",
+    ]),
+  ),
+});
+
+export const trashEntrySchema = z.object({
+  id: z.string().min(1),
+  tenant: tenantSchema,
+  deletedAt: z.string().datetime(),
+  expiresAt: z.string().datetime(),
+});
+
+export const snapEntrySchema = z.object({
+  id: z.string().min(1),
+  tenant: z.string().regex(TENANT_NAME_REGEX),
+  timestamp: z.string().min(1),
+  createdAt: z.string().datetime(),
+  path: z.string().min(1),
+  sizeBytes: z.number().int().min(0),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/),
+  consistency: z.enum(["fsfreeze", "paused", "offline"]).optional(),
+});
+
+export const bundleManifestSchema = z.object({
+  format: z.literal(1),
+  lobsterdVersion: z.string().min(1),
+  firecrackerVersion: z.string().min(1).nullable(),
+  exportedAt: z.string().datetime(),
+  tenant: tenantSchema,
+  snapshot: z.boolean(),
+  secrets: z.boolean().optional(),
+});
+
+export const tenantSecretsSchema = z.record(
+  z.string().regex(SECRET_KEY_REGEX),
+  z.string(),
+);
+
+export const encryptedBlobSchema = z.object({
+  alg: z.literal("aes-256-gcm"),
+  iv: z.string().min(1),
+  tag: z.string().min(1),
+  data: z.string(),
+});
+
+export const envelopeSchema = z.object({
+  kek: z.enum(["host-key", "passphrase"]),
+  salt: z.string().min(1).optional(),
+  dataKey: encryptedBlobSchema,
+});
+
+export const snapIndexSchema = z.object({
+  snaps: z.array(snapEntrySchema),
 });
 
+// Registries written before the allocator also carry next* counters; they
+// are stripped on load since free slots are found by scanning tenants
 export const tenantRegistrySchema = z.object({
   tenants: z.array(tenantSchema),
-  nextCid: z.number().int().min(3),
-  nextSubnetIndex: z.number().int().min(1),
-  nextGatewayPort: z.number().int().min(1024).max(65535),
-  nextJailUid: z.number().int().min(1000),
 });
@@ -0,0 +1,139 @@
+import { describe, expect, test } from "bun:test";
+import { makeConfig, makeTenant } from "../test-helpers.js";
+import { DEFAULT_CONFIG } from "./defaults.js";
+import {
+  applyTemplate,
+  autoSuspendPolicy,
+  backupPolicy,
+  resolveTemplate,
+  tenantConfig,
+} from "./templates.js";
+
+const config = makeConfig({
+  templates: {
+    batch: {
+      resources: { vcpuCount: 4, diskSizeMb: 8192 },
+      networkRxRateLimit: { bandwidth: { size: 10, refillTime: 1000 } },
+      openclaw: { gateway: { controlUi: { allowedOrigins: ["https://x"] } } },
+      autoSuspend: { enabled: false },
+    },
+    small: {
+      autoSuspend: { enabled: true, idleThresholdMs: 1_000 },
+    },
+  },
+});
+
+describe("resolveTemplate", () => {
+  test("returns a configured template", () => {
+    expect(resolveTemplate(config, "small").isOk()).toBe(true);
+  });
+
+  test("lists available templates when the name is unknown", () => {
+    const error = resolveTemplate(config, "huge")._unsafeUnwrapErr();
+    expect(error.code).toBe("VALIDATION_FAILED");
+    expect(error.message).toContain("batch, small");
+  });
+});
+
+describe("applyTemplate", () => {
+  const applied = applyTemplate(config, config.templates?.batch ?? {});
+
+  test("overrides resource defaults and rate limits", () => {
+    expect(applied.firecracker.defaultVcpuCount).toBe(4);
+    expect(applied.firecracker.defaultMemSizeMb).toBe(
+      DEFAULT_CONFIG.firecracker.defaultMemSizeMb,
+    );
+    expect(applied.overlay.defaultSizeMb).toBe(8192);
+    expect(applied.firecracker.networkRxRateLimit?.bandwidth?.size).toBe(10);
+    expect(applied.firecracker.diskRateLimit).toEqual(
+      DEFAULT_CONFIG.firecracker.diskRateLimit,
+    );
+  });
+
+  test("deep-merges openclaw overrides without touching the base", () => {
+    const gateway = applied.openclaw.defaultConfig.gateway;
+    expect(gateway?.controlUi?.allowedOrigins).toEqual(["https://x"]);
+    expect(gateway?.auth?.mode).toBe("token");
+    expect(config.openclaw.defaultConfig.gateway?.controlUi).toBeUndefined();
+  });
+});
+
+describe("tenantConfig", () => {
+  test("applies the tenant's template", () => {
+    const effective = tenantConfig(makeTenant({ template: "batch" }), config);
+    expect(effective.firecracker.defaultVcpuCount).toBe(4);
+  });
+
+  test("falls back to the global config when the template is gone", () => {
+    expect(tenantConfig(makeTenant({ template: "gone" }), config)).toBe(config);
+  });
+
+  test("layers throttle overrides over the template limits", () => {
+    const effective = tenantConfig(
+      makeTenant({
+        template: "batch",
+        rateLimits: {
+          networkRx: { bandwidth: { size: 99, refillTime: 1000 } },
+        },
+      }),
+      config,
+    );
+    expect(effective.firecracker.networkRxRateLimit?.bandwidth?.size).toBe(99);
+  });
+});
+
+describe("autoSuspendPolicy", () => {
+  test("defaults to enabled with the watchdog threshold", () => {
+    expect(autoSuspendPolicy(makeTenant(), config)).toEqual({
+      enabled: true,
+      idleThresholdMs: config.watchdog.idleThresholdMs,
+    });
+  });
+
+  test("honours the template policy", () => {
+    expect(
+      autoSuspendPolicy(makeTenant({ template: "batch" }), config).enabled,
+    ).toBe(false);
+    expect(
+      autoSuspendPolicy(makeTenant({ template: "small" }), config)
+        .idleThresholdMs,
+    ).toBe(1_000);
+  });
+});
+
+describe("backupPolicy", () => {
+  const templates = {
+    nightly: { backup: { enabled: true, schedule: "0 3 * * *" } },
+    none: { backup: { enabled: false } },
+  };
+
+  test("is off without a global schedule", () => {
+    expect(backupPolicy(makeTenant(), makeConfig({ templates }))).toEqual({
+      enabled: false,
+      schedule: null,
+    });
+  });
+
+  test("a template can opt in with its own schedule", () => {
+    expect(
+      backupPolicy(
+        makeTenant({ template: "nightly" }),
+        makeConfig({ templates }),
+      ),
+    ).toEqual({ enabled: true, schedule: "0 3 * * *" });
+  });
+
+  test("follows the global schedule unless the template opts out", () => {
+    const withBackup = makeConfig({
+      templates,
+      backup: { schedule: "@daily", staggerMs: 0 },
+    });
+    expect(backupPolicy(makeTenant(), withBackup)).toEqual({
+      enabled: true,
+      schedule: "@daily",
+    });
+    expect(
+      backupPolicy(makeTenant({ template: "none" }), withBackup).enabled,
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+import { err, ok, type Result } from "neverthrow";
+import type {
+  AutoSuspendPolicy,
+  BackupPolicy,
+  LobsterdConfig,
+  LobsterError,
+  OpenclawDefaultConfig,
+  Tenant,
+  TenantTemplate,
+} from "../types/index.js";
+import { applyRateLimits } from "./rate-limits.js";
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function deepMerge(
+  base: Record<string, unknown>,
+  overrides: Record<string, unknown>,
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = structuredClone(base);
+  for (const [key, value] of Object.entries(overrides)) {
+    const current = merged[key];
+    merged[key] =
+      isPlainObject(current) && isPlainObject(value)
+        ? deepMerge(current, value)
+        : structuredClone(value);
+  }
+  return merged;
+}
+
+export function resolveTemplate(
+  config: LobsterdConfig,
+  name: string,
+): Result<TenantTemplate, LobsterError> {
+  const template = config.templates?.[name];
+  if (!template) {
+    const known = Object.keys(config.templates ?? {});
+    return err({
+      code: "VALIDATION_FAILED",
+      message: `Unknown template "${name}"${known.length > 0 ? ` (available: ${known.join(", ")})` : " (no templates configured)"}`,
+    });
+  }
+  return ok(template);
+}
+
+/**
+ * Overlay a template onto the global config so downstream code can keep
+ * reading `config.firecracker.*`, `config.openclaw.defaultConfig` etc.
+ */
+export function applyTemplate(
+  config: LobsterdConfig,
+  template: TenantTemplate,
+): LobsterdConfig {
+  const { resources, openclaw } = template;
+  return {
+    ...config,
+    firecracker: {
+      ...config.firecracker,
+      defaultVcpuCount:
+        resources?.vcpuCount ?? config.firecracker.defaultVcpuCount,
+      defaultMemSizeMb:
+        resources?.memSizeMb ?? config.firecracker.defaultMemSizeMb,
+      networkRxRateLimit:
+        template.networkRxRateLimit ?? config.firecracker.networkRxRateLimit,
+      networkTxRateLimit:
+        template.networkTxRateLimit ?? config.firecracker.networkTxRateLimit,
+      diskRateLimit: template.diskRateLimit ?? config.firecracker.diskRateLimit,
+    },
+    overlay: {
+      ...config.overlay,
+      defaultSizeMb: resources?.diskSizeMb ?? config.overlay.defaultSizeMb,
+    },
+    openclaw: {
+      ...config.openclaw,
+      defaultConfig: openclaw
+        ? (deepMerge(
+            config.openclaw.defaultConfig,
+            openclaw,
+          ) as OpenclawDefaultConfig)
+        : config.openclaw.defaultConfig,
+    },
+  };
+}
+
+/**
+ * Effective config for an existing tenant: its template, then any
+ * `throttle` overrides. A template that has since been removed from config
+ * falls back to the global settings rather than failing, so repairs and
+ * resumes keep working.
+ */
+export function tenantConfig(
+  tenant: Tenant,
+  config: LobsterdConfig,
+): LobsterdConfig {
+  const template = tenant.template
+    ? config.templates?.[tenant.template]
+    : undefined;
+  const base = template ? applyTemplate(config, template) : config;
+  return tenant.rateLimits ? applyRateLimits(base, tenant.rateLimits) : base;
+}
+
+export function autoSuspendPolicy(
+  tenant: Tenant,
+  config: LobsterdConfig,
+): Required<AutoSuspendPolicy> {
+  const policy = tenant.template
+    ? config.templates?.[tenant.template]?.autoSuspend
+    : undefined;
+  return {
+    enabled: policy?.enabled ?? true,
+    idleThresholdMs: policy?.idleThresholdMs ?? config.watchdog.idleThresholdMs,
+  };
+}
+
+/**
+ * Scheduled-backup policy: on with the global `backup` schedule, unless the
+ * tenant's template opts out or brings its own schedule.
+ */
+export function backupPolicy(
+  tenant: Tenant,
+  config: LobsterdConfig,
+): { enabled: boolean; schedule: string | null } {
+  const policy: BackupPolicy | undefined = tenant.template
+    ? config.templates?.[tenant.template]?.backup
+    : undefined;
+  const schedule = policy?.schedule ?? config.backup?.schedule ?? null;
+  return {
+    enabled: (policy?.enabled ?? !!config.backup) && schedule !== null,
+    schedule,
+  };
+}
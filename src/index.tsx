@@ -1,21 +1,63 @@
 #!/usr/bin/env bun
 import { Command } from "commander";
 import { render } from "ink";
+import { runApply } from "./commands/apply.js";
+import { parseBalloonTarget, runBalloon } from "./commands/balloon.js";
+import { runExport, runImport } from "./commands/bundle.js";
+import { runCapacity } from "./commands/capacity.js";
+import { runClone } from "./commands/clone.js";
+import { runEncryptTokens } from "./commands/encrypt-tokens.js";
 import { runEvict } from "./commands/evict.js";
 import { runExec } from "./commands/exec.js";
+import { runGrow } from "./commands/grow.js";
 import { preflight, runInit } from "./commands/init.js";
+import { runLabel, selectTenantNames } from "./commands/label.js";
 import { runLogs, runWatchdogLogs } from "./commands/logs.js";
+import { runMigrate } from "./commands/migrate.js";
 import { runMolt } from "./commands/molt.js";
+import { runReboot } from "./commands/reboot.js";
+import { runRecover } from "./commands/recover.js";
+import { runRestore } from "./commands/restore.js";
 import { runResume } from "./commands/resume.js";
+import { runRollback, runRollbackList } from "./commands/rollback.js";
+import { runRotateToken } from "./commands/rotate-token.js";
+import {
+  runSecretsGet,
+  runSecretsList,
+  runSecretsRm,
+  runSecretsSet,
+  type SecretsUpdate,
+} from "./commands/secrets.js";
 import { runSnap } from "./commands/snap.js";
+import { runSnapsList, runSnapsPrune, runSnapsRm } from "./commands/snaps.js";
 import { runSpawn } from "./commands/spawn.js";
+import { runStart } from "./commands/start.js";
+import { runStop } from "./commands/stop.js";
 import { runSuspend } from "./commands/suspend.js";
 import { runTank } from "./commands/tank.js";
+import { runThrottle } from "./commands/throttle.js";
+import {
+  runTrashList,
+  runTrashPurge,
+  runTrashRestore,
+} from "./commands/trash.js";
 import { runUninit } from "./commands/uninit.js";
 import { runWatch } from "./commands/watch.js";
-import { DEFAULT_CONFIG } from "./config/defaults.js";
+import {
+  DEFAULT_CONFIG,
+  LOBSTERD_VERSION,
+  SNAPS_DIR,
+} from "./config/defaults.js";
+import {
+  type LabelSelector,
+  parseLabelArgs,
+  parseSelector,
+} from "./config/labels.js";
 import { loadConfig, loadRegistry } from "./config/loader.js";
+import { parseRateLimitOverrides } from "./config/rate-limits.js";
+import { parseResourceOverrides, parseSizeMb } from "./config/resources.js";
 import { startBuoy } from "./reef/index.js";
+import type { SnapEntry } from "./types/index.js";
 import { InitFlow } from "./ui/InitFlow.js";
 import { MoltResults } from "./ui/MoltProgress.js";
 
@@ -24,9 +66,52 @@ const program = new Command();
 program
   .name("lobsterd")
   .description("🦞 lobsterd — Firecracker MicroVM Tenant Orchestrator")
-  .version("0.2.0")
+  .version(LOBSTERD_VERSION)
   .enablePositionalOptions();
 
+const SELECTOR_FLAGS = "-l, --selector <selector>";
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function selectorOrExit(input: string): LabelSelector {
+  const selector = parseSelector(input);
+  if (selector.isErr()) {
+    console.error(`✗ ${selector.error.message}`);
+    process.exit(1);
+  }
+  return selector.value;
+}
+
+/** The tenant a command names, or every tenant matching `-l <selector>` */
+async function resolveTargets(
+  name: string | undefined,
+  selector: string | undefined,
+): Promise<string[]> {
+  if (name && selector) {
+    console.error("✗ Give a tenant name or -l <selector>, not both");
+    process.exit(1);
+  }
+  if (!selector) {
+    if (!name) {
+      console.error("✗ Missing tenant name (or -l <selector>)");
+      process.exit(1);
+    }
+    return [name];
+  }
+  const names = await selectTenantNames(selectorOrExit(selector));
+  if (names.isErr()) {
+    console.error(`✗ ${names.error.message}`);
+    process.exit(1);
+  }
+  if (names.value.length === 0) {
+    console.log(`No tenants match "${selector}".`);
+    process.exit(0);
+  }
+  return names.value;
+}
+
 // ── init ──────────────────────────────────────────────────────────────────────
 
 program
@@ -118,34 +203,151 @@ program
 program
   .command("spawn <name>")
   .description("Add a new tenant (Firecracker microVM)")
-  .action(async (name: string) => {
-    console.log(`Spawning tenant "${name}"...`);
-    const result = await runSpawn(name, (p) => {
-      console.log(`  [${p.step}] ${p.detail}`);
+  .option("-t, --template <name>", "Spawn from a named config template")
+  .option("--vcpu <count>", "vCPU count (default from config)")
+  .option("--mem <size>", "Memory size, e.g. 512M or 2G (default from config)")
+  .option("--disk <size>", "Overlay size, e.g. 4G (default from config)")
+  .option("--label <key=value>", "Label the tenant (repeatable)", collect, [])
+  .action(
+    async (
+      name: string,
+      opts: {
+        template?: string;
+        vcpu?: string;
+        mem?: string;
+        disk?: string;
+        label: string[];
+      },
+    ) => {
+      const resources = parseResourceOverrides(opts);
+      if (resources.isErr()) {
+        console.error(`\n✗ ${resources.error.message}`);
+        process.exit(1);
+      }
+      const labels = parseLabelArgs(opts.label);
+      if (labels.isErr() || labels.value.remove.length > 0) {
+        console.error(
+          `\n✗ ${labels.isErr() ? labels.error.message : "--label takes key=value"}`,
+        );
+        process.exit(1);
+      }
+
+      console.log(`Spawning tenant "${name}"...`);
+      const result = await runSpawn(
+        name,
+        {
+          template: opts.template,
+          resources: resources.value,
+          labels: labels.value.set,
+        },
+        (p) => {
+          console.log(`  [${p.step}] ${p.detail}`);
+        },
+      );
+
+      if (result.isErr()) {
+        console.error(`\n✗ ${result.error.message}`);
+        process.exit(1);
+      }
+
+      const t = result.value;
+      console.log(`\nTenant "${t.name}" spawned successfully.`);
+      console.log(
+        `  CID: ${t.cid}  IP: ${t.ipAddress}  Port: ${t.gatewayPort}  PID: ${t.vmPid}`,
+      );
+      if (t.template) {
+        console.log(`  Template: ${t.template}`);
+      }
+      if (t.resources) {
+        console.log(
+          `  vCPU: ${t.resources.vcpuCount}  Mem: ${t.resources.memSizeMb}MB  Disk: ${t.resources.diskSizeMb}MB`,
+        );
+      }
+      if (t.labels) {
+        console.log(`  Labels: ${formatLabels(t.labels)}`);
+      }
+    },
+  );
+
+// ── label ─────────────────────────────────────────────────────────────────────
+
+function formatLabels(labels: Record<string, string> | undefined): string {
+  const pairs = Object.entries(labels ?? {}).map(([k, v]) => `${k}=${v}`);
+  return pairs.length > 0 ? pairs.join(",") : "(none)";
+}
+
+program
+  .command("label <name> [labels...]")
+  .description("Set (key=value) or remove (key-) tenant labels; none to show")
+  .action(async (name: string, labels: string[]) => {
+    const update = parseLabelArgs(labels);
+    if (update.isErr()) {
+      console.error(`✗ ${update.error.message}`);
+      process.exit(1);
+    }
+
+    const result = await runLabel(name, update.value);
+    if (result.isErr()) {
+      console.error(`✗ ${result.error.message}`);
+      process.exit(1);
+    }
+
+    console.log(`${name}: ${formatLabels(result.value.labels)}`);
+  });
+
+// ── apply ─────────────────────────────────────────────────────────────────────
+
+const APPLY_PREFIX = { spawn: "+", evict: "-", update: "~", conflict: "!" };
+
+program
+  .command("apply")
+  .description("Converge tenants on a desired-state manifest (JSON or YAML)")
+  .requiredOption("-f, --file <path>", "Manifest file (tenants.json|yaml)")
+  .option("--dry-run", "Show the plan without changing anything")
+  .option("--json", "Output results as JSON")
+  .action(async (opts: { file: string; dryRun?: boolean; json?: boolean }) => {
+    const result = await runApply(opts.file, { dryRun: opts.dryRun }, (p) => {
+      if (!opts.json) {
+        console.log(`  [${p.tenant}] ${p.step}: ${p.detail}`);
+      }
     });
 
     if (result.isErr()) {
-      console.error(`\n✗ ${result.error.message}`);
+      console.error(`✗ ${result.error.message}`);
       process.exit(1);
     }
 
-    const t = result.value;
-    console.log(`\nTenant "${t.name}" spawned successfully.`);
-    console.log(
-      `  CID: ${t.cid}  IP: ${t.ipAddress}  Port: ${t.gatewayPort}  PID: ${t.vmPid}`,
-    );
+    if (opts.json) {
+      console.log(JSON.stringify(result.value, null, 2));
+    } else if (result.value.length === 0) {
+      console.log("Tenants already match the manifest.");
+    } else {
+      if (opts.dryRun) {
+        console.log("Plan (dry run):");
+      }
+      for (const r of result.value) {
+        const outcome = r.status === "failed" ? ` — failed: ${r.error}` : "";
+        console.log(
+          `${APPLY_PREFIX[r.op]} ${r.tenant}: ${r.op} ${r.detail}${outcome}`,
+        );
+      }
+    }
+    process.exit(result.value.some((r) => r.status === "failed") ? 1 : 0);
   });
 
 // ── evict ─────────────────────────────────────────────────────────────────────
 
 program
   .command("evict <name>")
-  .description("Remove a tenant (with confirmation)")
+  .description("Remove a tenant (with confirmation), keeping it in the trash")
   .option("-y, --yes", "Skip confirmation")
-  .action(async (name: string, opts: { yes?: boolean }) => {
+  .option("--no-archive", "Delete the overlay and SSH keys instead of trashing")
+  .action(async (name: string, opts: { yes?: boolean; archive: boolean }) => {
     if (!opts.yes) {
       process.stdout.write(
-        `Remove tenant "${name}"? This destroys the VM and all data. [y/N] `,
+        opts.archive
+          ? `Remove tenant "${name}"? The VM is destroyed; data stays in the trash. [y/N] `
+          : `Remove tenant "${name}"? This destroys the VM and all data. [y/N] `,
       );
       const response = await new Promise<string>((resolve) => {
         process.stdin.setEncoding("utf8");
@@ -162,7 +364,7 @@ program
     }
 
     console.log(`Evicting tenant "${name}"...`);
-    const result = await runEvict(name, (p) => {
+    const result = await runEvict(name, { archive: opts.archive }, (p) => {
       console.log(`  [${p.step}] ${p.detail}`);
     });
 
@@ -174,23 +376,125 @@ program
     console.log(`\nTenant "${name}" evicted.`);
   });
 
-// ── exec ─────────────────────────────────────────────────────────────────────
+// ── trash ─────────────────────────────────────────────────────────────────────
 
-program
-  .command("exec <name> [command...]")
-  .description("Run a command inside a tenant VM via SSH")
-  .passThroughOptions()
-  .action(async (name: string, command: string[]) => {
-    const result = await runExec(name, command);
+const trash = program
+  .command("trash")
+  .description("List, restore or purge evicted tenants");
+
+trash
+  .command("list")
+  .description("List evicted tenants still in the trash")
+  .option("--json", "Output as JSON")
+  .action(async (opts: { json?: boolean }) => {
+    const result = await runTrashList();
+
+    if (result.isErr()) {
+      console.error(`✗ ${result.error.message}`);
+      process.exit(1);
+    }
+
+    if (opts.json) {
+      console.log(JSON.stringify(result.value, null, 2));
+      return;
+    }
+    if (result.value.length === 0) {
+      console.log("Trash is empty.");
+      return;
+    }
+    for (const e of result.value) {
+      console.log(
+        `${e.id}  tenant=${e.tenant.name}  deleted=${e.deletedAt}  expires=${e.expiresAt}`,
+      );
+    }
+  });
+
+trash
+  .command("restore <id>")
+  .description(
+    "Restore an evicted tenant (by entry ID or tenant name) as stopped",
+  )
+  .action(async (id: string) => {
+    const result = await runTrashRestore(id, (p) => {
+      console.log(`  [${p.step}] ${p.detail}`);
+    });
 
     if (result.isErr()) {
       console.error(`\n✗ ${result.error.message}`);
       process.exit(1);
     }
 
-    process.exit(result.value);
+    const { name } = result.value;
+    console.log(
+      `\nTenant "${name}" restored. Run \`lobsterd start ${name}\` to boot it.`,
+    );
+  });
+
+trash
+  .command("purge [id]")
+  .description("Permanently delete expired entries, one entry, or --all")
+  .option("--all", "Purge every entry, expired or not")
+  .action(async (id: string | undefined, opts: { all?: boolean }) => {
+    const result = await runTrashPurge({ id, all: opts.all }, (p) => {
+      console.log(`  [${p.step}] ${p.detail}`);
+    });
+
+    if (result.isErr()) {
+      console.error(`✗ ${result.error.message}`);
+      process.exit(1);
+    }
+
+    console.log(
+      `Purged ${result.value.length} trash entr${result.value.length === 1 ? "y" : "ies"}.`,
+    );
   });
 
+// ── exec ─────────────────────────────────────────────────────────────────────
+
+program
+  .command("exec [name] [command...]")
+  .description("Run a command inside a tenant VM via SSH")
+  .option(SELECTOR_FLAGS, "Run the command in every matching tenant")
+  .passThroughOptions()
+  .action(
+    async (
+      name: string | undefined,
+      command: string[],
+      opts: { selector?: string },
+    ) => {
+      if (!opts.selector) {
+        const [target] = await resolveTargets(name, undefined);
+        const result = await runExec(target, command);
+
+        if (result.isErr()) {
+          console.error(`\n✗ ${result.error.message}`);
+          process.exit(1);
+        }
+
+        process.exit(result.value);
+      }
+
+      // With a selector every positional argument belongs to the command
+      const argv = name ? [name, ...command] : command;
+      if (argv.length === 0) {
+        console.error("✗ exec -l needs a command (no interactive shell)");
+        process.exit(1);
+      }
+      let exitCode = 0;
+      for (const target of await resolveTargets(undefined, opts.selector)) {
+        console.log(`── ${target} ──`);
+        const result = await runExec(target, argv);
+        if (result.isErr()) {
+          console.error(`✗ ${result.error.message}`);
+          exitCode = 1;
+        } else if (result.value !== 0) {
+          exitCode = result.value;
+        }
+      }
+      process.exit(exitCode);
+    },
+  );
+
 // ── configure ────────────────────────────────────────────────────────────────
 
 program
@@ -226,11 +530,70 @@ program
 // ── suspend ──────────────────────────────────────────────────────────────────
 
 program
-  .command("suspend <name>")
+  .command("suspend [name]")
   .description("Suspend a tenant VM to disk (snapshot + kill)")
-  .action(async (name: string) => {
-    console.log(`Suspending tenant "${name}"...`);
-    const result = await runSuspend(name, (p) => {
+  .option(SELECTOR_FLAGS, "Suspend every matching tenant")
+  .action(async (name: string | undefined, opts: { selector?: string }) => {
+    let failed = false;
+    for (const target of await resolveTargets(name, opts.selector)) {
+      console.log(`Suspending tenant "${target}"...`);
+      const result = await runSuspend(target, (p) => {
+        console.log(`  [${p.step}] ${p.detail}`);
+      });
+
+      if (result.isErr()) {
+        console.error(`\n✗ ${result.error.message}`);
+        failed = true;
+        continue;
+      }
+
+      const t = result.value;
+      const nextWake = t.suspendInfo?.nextWakeAtMs
+        ? `  Next cron wake: ${new Date(t.suspendInfo.nextWakeAtMs).toISOString()}`
+        : "";
+      console.log(`\nTenant "${t.name}" suspended.${nextWake}`);
+    }
+    process.exit(failed ? 1 : 0);
+  });
+
+// ── resume ───────────────────────────────────────────────────────────────────
+
+program
+  .command("resume [name]")
+  .description("Resume a suspended tenant VM from snapshot")
+  .option(SELECTOR_FLAGS, "Resume every matching tenant")
+  .action(async (name: string | undefined, opts: { selector?: string }) => {
+    let failed = false;
+    for (const target of await resolveTargets(name, opts.selector)) {
+      console.log(`Resuming tenant "${target}"...`);
+      const result = await runResume(target, (p) => {
+        console.log(`  [${p.step}] ${p.detail}`);
+      });
+
+      if (result.isErr()) {
+        console.error(`\n✗ ${result.error.message}`);
+        failed = true;
+        continue;
+      }
+
+      const t = result.value;
+      console.log(`\nTenant "${t.name}" resumed.`);
+      console.log(
+        `  CID: ${t.cid}  IP: ${t.ipAddress}  Port: ${t.gatewayPort}  PID: ${t.vmPid}`,
+      );
+    }
+    process.exit(failed ? 1 : 0);
+  });
+
+// ── stop ─────────────────────────────────────────────────────────────────────
+
+program
+  .command("stop <name>")
+  .description("Shut a tenant VM down cold (no memory snapshot)")
+  .option("--park", "Keep TAP, NAT and Caddy route in place")
+  .action(async (name: string, opts: { park?: boolean }) => {
+    console.log(`Stopping tenant "${name}"...`);
+    const result = await runStop(name, opts, (p) => {
       console.log(`  [${p.step}] ${p.detail}`);
     });
 
@@ -239,21 +602,44 @@ program
       process.exit(1);
     }
 
-    const t = result.value;
-    const nextWake = t.suspendInfo?.nextWakeAtMs
-      ? `  Next cron wake: ${new Date(t.suspendInfo.nextWakeAtMs).toISOString()}`
+    const parked = result.value.stopInfo?.networkParked
+      ? " Network left parked."
       : "";
-    console.log(`\nTenant "${t.name}" suspended.${nextWake}`);
+    console.log(`\nTenant "${name}" stopped.${parked}`);
   });
 
-// ── resume ───────────────────────────────────────────────────────────────────
+// ── start ────────────────────────────────────────────────────────────────────
 
 program
-  .command("resume <name>")
-  .description("Resume a suspended tenant VM from snapshot")
+  .command("start <name>")
+  .description("Boot a stopped tenant fresh from its overlay")
   .action(async (name: string) => {
-    console.log(`Resuming tenant "${name}"...`);
-    const result = await runResume(name, (p) => {
+    console.log(`Starting tenant "${name}"...`);
+    const result = await runStart(name, (p) => {
+      console.log(`  [${p.step}] ${p.detail}`);
+    });
+
+    if (result.isErr()) {
+      console.error(`\n✗ ${result.error.message}`);
+      process.exit(1);
+    }
+
+    const t = result.value;
+    console.log(`\nTenant "${t.name}" started.`);
+    console.log(
+      `  CID: ${t.cid}  IP: ${t.ipAddress}  Port: ${t.gatewayPort}  PID: ${t.vmPid}`,
+    );
+  });
+
+// ── reboot ───────────────────────────────────────────────────────────────────
+
+program
+  .command("reboot <name>")
+  .description("Restart a tenant VM (Ctrl+Alt+Del, then kill after a timeout)")
+  .option("--hard", "Kill the VM immediately instead of shutting down")
+  .action(async (name: string, opts: { hard?: boolean }) => {
+    console.log(`Rebooting tenant "${name}"...`);
+    const result = await runReboot(name, opts, (p) => {
       console.log(`  [${p.step}] ${p.detail}`);
     });
 
@@ -263,26 +649,144 @@ program
     }
 
     const t = result.value;
-    console.log(`\nTenant "${t.name}" resumed.`);
+    console.log(`\nTenant "${t.name}" rebooted.`);
     console.log(
       `  CID: ${t.cid}  IP: ${t.ipAddress}  Port: ${t.gatewayPort}  PID: ${t.vmPid}`,
     );
   });
 
+// ── grow ─────────────────────────────────────────────────────────────────────
+
+program
+  .command("grow <name>")
+  .description("Grow a tenant's overlay disk (never shrinks)")
+  .requiredOption("--size <size>", "New overlay size (e.g. 8G)")
+  .action(async (name: string, opts: { size: string }) => {
+    const sizeMb = parseSizeMb(opts.size);
+    if (sizeMb === null) {
+      console.error(`✗ Invalid size "${opts.size}" (expected e.g. 8G)`);
+      process.exit(1);
+    }
+
+    console.log(`Growing overlay of "${name}" to ${sizeMb}MB...`);
+    const result = await runGrow(name, sizeMb, (p) => {
+      console.log(`  [${p.step}] ${p.detail}`);
+    });
+
+    if (result.isErr()) {
+      console.error(`\n✗ ${result.error.message}`);
+      process.exit(1);
+    }
+
+    const pending = result.value.suspendInfo?.pendingFsResize
+      ? " Filesystem grows on next resume."
+      : "";
+    console.log(`\nOverlay of "${name}" grown to ${sizeMb}MB.${pending}`);
+  });
+
+// ── throttle ─────────────────────────────────────────────────────────────────
+
+program
+  .command("throttle <name>")
+  .description("Change a tenant's rate limits (applied live if running)")
+  .option("--net-rx <rate>", "Inbound bandwidth in bytes/s (e.g. 10M, off)")
+  .option("--net-tx <rate>", "Outbound bandwidth in bytes/s (e.g. 10M, off)")
+  .option("--disk <rate>", "Disk bandwidth in bytes/s (e.g. 50M, off)")
+  .action(
+    async (
+      name: string,
+      opts: { netRx?: string; netTx?: string; disk?: string },
+    ) => {
+      const overrides = parseRateLimitOverrides(opts);
+      if (overrides.isErr()) {
+        console.error(`✗ ${overrides.error.message}`);
+        process.exit(1);
+      }
+
+      console.log(`Throttling tenant "${name}"...`);
+      const result = await runThrottle(name, overrides.value, (p) => {
+        console.log(`  [${p.step}] ${p.detail}`);
+      });
+
+      if (result.isErr()) {
+        console.error(`\n✗ ${result.error.message}`);
+        process.exit(1);
+      }
+
+      console.log(`\nLimits for "${name}" updated.`);
+    },
+  );
+
+// ── balloon ──────────────────────────────────────────────────────────────────
+
+program
+  .command("balloon <name>")
+  .description("Set or show a tenant's memory balloon")
+  .option(
+    "--target <size>",
+    "Balloon size, i.e. memory taken from the guest (e.g. 256M, 0 to deflate)",
+  )
+  .option("--json", "Output as JSON")
+  .action(async (name: string, opts: { target?: string; json?: boolean }) => {
+    let targetMb: number | undefined;
+    if (opts.target !== undefined) {
+      const parsed = parseBalloonTarget(opts.target);
+      if (parsed === null) {
+        console.error(`✗ Invalid target "${opts.target}" (expected e.g. 256M)`);
+        process.exit(1);
+      }
+      targetMb = parsed;
+    }
+
+    const result = await runBalloon(name, { targetMb });
+    if (result.isErr()) {
+      console.error(`✗ ${result.error.message}`);
+      process.exit(1);
+    }
+
+    const stats = result.value;
+    if (opts.json) {
+      console.log(JSON.stringify(stats, null, 2));
+      return;
+    }
+    console.log(
+      `Balloon for "${name}": target ${stats.targetMib}MB, inflated ${stats.actualMib}MB`,
+    );
+    if (stats.availableMemoryBytes !== undefined) {
+      console.log(
+        `  Guest available: ${Math.round(stats.availableMemoryBytes / (1024 * 1024))}MB`,
+      );
+    }
+  });
+
 // ── molt ──────────────────────────────────────────────────────────────────────
 
 program
   .command("molt [name]")
   .description("Idempotent repair — one tenant or all")
-  .action(async (name?: string) => {
-    const target = name ? `tenant "${name}"` : "all tenants";
+  .option(SELECTOR_FLAGS, "Only active tenants matching a label selector")
+  .action(async (name: string | undefined, opts: { selector?: string }) => {
+    if (name && opts.selector) {
+      console.error("✗ Give a tenant name or -l <selector>, not both");
+      process.exit(1);
+    }
+    const selector = opts.selector ? selectorOrExit(opts.selector) : undefined;
+    const target = name
+      ? `tenant "${name}"`
+      : selector
+        ? `tenants matching "${opts.selector}"`
+        : "all tenants";
     console.log(`Molting ${target}...`);
 
-    const result = await runMolt(name, (p) => {
-      console.log(
-        `  [${p.tenant}] ${p.phase}${p.detail ? `: ${p.detail}` : ""}`,
-      );
-    });
+    const result = await runMolt(
+      name,
+      (p) => {
+        console.log(
+          `  [${p.tenant}] ${p.phase}${p.detail ? `: ${p.detail}` : ""}`,
+        );
+      },
+      selector,
+    );
 
     if (result.isErr()) {
       console.error(`\n✗ ${result.error.message}`);
@@ -298,11 +802,35 @@ program
     process.exit(allHealthy ? 0 : 1);
   });
 
+// ── recover ───────────────────────────────────────────────────────────────────
+
+program
+  .command("recover")
+  .description("Finish or roll back spawns interrupted by a crash")
+  .action(async () => {
+    const result = await runRecover((p) => {
+      console.log(`  [${p.tenant}] ${p.detail}`);
+    });
+
+    if (result.isErr()) {
+      console.error(`✗ ${result.error.message}`);
+      process.exit(1);
+    }
+
+    if (result.value.length === 0) {
+      console.log("No interrupted spawns found.");
+      return;
+    }
+    for (const r of result.value) {
+      console.log(`${r.tenant}: ${r.action} — ${r.detail}`);
+    }
+  });
+
 // ── snap ──────────────────────────────────────────────────────────────────────
 
 program
   .command("snap <name>")
-  .description("Snapshot overlay as sparse tarball into ./snaps/")
+  .description(`Snapshot overlay as sparse tarball into ${SNAPS_DIR}/`)
   .option("--json", "Output result as JSON")
   .action(async (name: string, opts: { json?: boolean }) => {
     const result = await runSnap(name, opts);
@@ -316,9 +844,278 @@ program
       console.log(JSON.stringify(result.value));
     } else {
       console.log(`Snapshot created: ${result.value.path}`);
+      console.log(`  sha256: ${result.value.sha256}`);
+      console.log(`  consistency: ${result.value.consistency}`);
+      for (const id of result.value.pruned) {
+        console.log(`  pruned ${id}`);
+      }
+    }
+  });
+
+// ── snaps ─────────────────────────────────────────────────────────────────────
+
+function formatSnap(e: SnapEntry): string {
+  const mb = (e.sizeBytes / (1024 * 1024)).toFixed(1);
+  const consistency = e.consistency ? `  consistency=${e.consistency}` : "";
+  return `${e.id}  tenant=${e.tenant}  created=${e.createdAt}  size=${mb}MB  sha256=${e.sha256.slice(0, 12)}${consistency}`;
+}
+
+const snaps = program
+  .command("snaps")
+  .description("List, remove or prune overlay snaps");
+
+snaps
+  .command("list [name]")
+  .description("List recorded snaps, optionally for one tenant")
+  .option("--json", "Output as JSON")
+  .action(async (name: string | undefined, opts: { json?: boolean }) => {
+    const result = await runSnapsList(name);
+
+    if (result.isErr()) {
+      console.error(`✗ ${result.error.message}`);
+      process.exit(1);
+    }
+
+    if (opts.json) {
+      console.log(JSON.stringify(result.value, null, 2));
+      return;
+    }
+    if (result.value.length === 0) {
+      console.log("No snaps.");
+      return;
+    }
+    for (const e of result.value) {
+      console.log(formatSnap(e));
+    }
+  });
+
+snaps
+  .command("rm <id>")
+  .description("Delete a snap and its index entry")
+  .action(async (id: string) => {
+    const result = await runSnapsRm(id);
+
+    if (result.isErr()) {
+      console.error(`✗ ${result.error.message}`);
+      process.exit(1);
+    }
+    console.log(`Removed ${result.value.path}`);
+  });
+
+snaps
+  .command("prune [name]")
+  .description(
+    "Delete snaps beyond overlay.snapshotRetention per tenant and forget missing files",
+  )
+  .option("--keep <n>", "Snaps to keep per tenant instead of the config value")
+  .option("--json", "Output as JSON")
+  .action(
+    async (
+      name: string | undefined,
+      opts: { keep?: string; json?: boolean },
+    ) => {
+      const keep = opts.keep !== undefined ? Number(opts.keep) : undefined;
+      if (keep !== undefined && (!Number.isInteger(keep) || keep < 0)) {
+        console.error(`✗ Invalid --keep "${opts.keep}"`);
+        process.exit(1);
+      }
+      const result = await runSnapsPrune({ tenant: name, keep });
+
+      if (result.isErr()) {
+        console.error(`✗ ${result.error.message}`);
+        process.exit(1);
+      }
+
+      if (opts.json) {
+        console.log(JSON.stringify(result.value, null, 2));
+        return;
+      }
+      if (result.value.length === 0) {
+        console.log("Nothing to prune.");
+        return;
+      }
+      for (const e of result.value) {
+        console.log(`Removed ${e.id}`);
+      }
+    },
+  );
+
+// ── clone ─────────────────────────────────────────────────────────────────────
+
+program
+  .command("clone <src> <dst>")
+  .description("Copy a tenant's overlay into a new tenant")
+  .action(async (src: string, dst: string) => {
+    console.log(`Cloning tenant "${src}" into "${dst}"...`);
+    const result = await runClone(src, dst, (p) => {
+      console.log(`  [${p.step}] ${p.detail}`);
+    });
+
+    if (result.isErr()) {
+      console.error(`\n✗ ${result.error.message}`);
+      process.exit(1);
+    }
+
+    const t = result.value;
+    console.log(`\nTenant "${t.name}" cloned from "${src}".`);
+    console.log(
+      `  CID: ${t.cid}  IP: ${t.ipAddress}  Port: ${t.gatewayPort}  PID: ${t.vmPid}`,
+    );
+  });
+
+// ── restore ───────────────────────────────────────────────────────────────────
+
+program
+  .command("restore <name> <tarball>")
+  .description("Restore a tenant's overlay from a snap tarball")
+  .option("--as <new-name>", "Spawn the snapshot as a new tenant instead")
+  .action(async (name: string, tarball: string, opts: { as?: string }) => {
+    const target = opts.as ?? name;
+    console.log(`Restoring tenant "${target}" from ${tarball}...`);
+    const result = await runRestore(name, tarball, opts, (p) => {
+      console.log(`  [${p.step}] ${p.detail}`);
+    });
+
+    if (result.isErr()) {
+      console.error(`\n✗ ${result.error.message}`);
+      process.exit(1);
+    }
+
+    const t = result.value;
+    console.log(`\nTenant "${t.name}" restored.`);
+    console.log(
+      `  CID: ${t.cid}  IP: ${t.ipAddress}  Port: ${t.gatewayPort}  PID: ${t.vmPid}`,
+    );
+  });
+
+// ── export / import ───────────────────────────────────────────────────────────
+
+program
+  .command("export <name>")
+  .description(
+    "Write a tenant (overlay, suspend snapshot, SSH keys, tokens, secrets) to a bundle",
+  )
+  .requiredOption("-o, --output <path>", "Bundle file to write")
+  .action(async (name: string, opts: { output: string }) => {
+    console.log(`Exporting tenant "${name}" to ${opts.output}...`);
+    const result = await runExport(name, opts.output, (p) => {
+      console.log(`  [${p.step}] ${p.detail}`);
+    });
+
+    if (result.isErr()) {
+      console.error(`\n✗ ${result.error.message}`);
+      process.exit(1);
+    }
+
+    const { path, manifest } = result.value;
+    console.log(`\nTenant "${name}" exported to ${path}.`);
+    console.log(
+      `  Status: ${manifest.tenant.status}  Snapshot: ${manifest.snapshot ? "yes" : "no"}  Firecracker: ${manifest.firecrackerVersion ?? "unknown"}`,
+    );
+  });
+
+program
+  .command("import <bundle>")
+  .description("Register a tenant from an export bundle")
+  .option("--as <new-name>", "Import under a different name")
+  .action(async (bundle: string, opts: { as?: string }) => {
+    console.log(`Importing ${bundle}...`);
+    const result = await runImport(bundle, opts, (p) => {
+      console.log(`  [${p.step}] ${p.detail}`);
+    });
+
+    if (result.isErr()) {
+      console.error(`\n✗ ${result.error.message}`);
+      process.exit(1);
+    }
+
+    const t = result.value;
+    const next =
+      t.status === "suspended"
+        ? `\`lobsterd resume ${t.name}\` (or the watchdog on traffic)`
+        : `\`lobsterd start ${t.name}\``;
+    console.log(
+      `\nTenant "${t.name}" imported as ${t.status}. Run ${next} to boot it.`,
+    );
+    console.log(`  CID: ${t.cid}  IP: ${t.ipAddress}  Port: ${t.gatewayPort}`);
+  });
+
+program
+  .command("migrate <name>")
+  .description(
+    "Move a tenant to another host's buoy, evicting it here once it is healthy there",
+  )
+  .requiredOption("--to <buoy-url>", "Receiving buoy, e.g. http://host-b:7070")
+  .requiredOption("--token <token>", "API token of the receiving buoy")
+  .action(async (name: string, opts: { to: string; token: string }) => {
+    console.log(`Migrating tenant "${name}" to ${opts.to}...`);
+    const result = await runMigrate(name, opts, (p) => {
+      console.log(`  [${p.step}] ${p.detail}`);
+    });
+
+    if (result.isErr()) {
+      console.error(`\n✗ ${result.error.message}`);
+      process.exit(1);
     }
+
+    const { tenant } = result.value;
+    console.log(`\nTenant "${name}" is ${tenant.status} on ${opts.to}.`);
+    console.log(
+      `  CID: ${tenant.cid}  IP: ${tenant.ipAddress}  Port: ${tenant.gatewayPort}`,
+    );
   });
 
+// ── rollback ──────────────────────────────────────────────────────────────────
+
+program
+  .command("rollback <name>")
+  .description(
+    "Roll a tenant's memory and overlay back to a kept suspend snapshot",
+  )
+  .option("--to <ts>", "Rollback point to use (default: newest)")
+  .option("--list", "List rollback points instead")
+  .option("--json", "Output as JSON (with --list)")
+  .action(
+    async (
+      name: string,
+      opts: { to?: string; list?: boolean; json?: boolean },
+    ) => {
+      if (opts.list) {
+        const result = await runRollbackList(name);
+        if (result.isErr()) {
+          console.error(`✗ ${result.error.message}`);
+          process.exit(1);
+        }
+        if (opts.json) {
+          console.log(JSON.stringify(result.value, null, 2));
+        } else if (result.value.points.length === 0) {
+          console.log(`No rollback points for "${name}".`);
+        } else {
+          for (const id of result.value.points) {
+            console.log(id);
+          }
+        }
+        return;
+      }
+
+      console.log(`Rolling back tenant "${name}"...`);
+      const result = await runRollback(name, { to: opts.to }, (p) => {
+        console.log(`  [${p.step}] ${p.detail}`);
+      });
+
+      if (result.isErr()) {
+        console.error(`\n✗ ${result.error.message}`);
+        process.exit(1);
+      }
+
+      const t = result.value;
+      console.log(`\nTenant "${t.name}" rolled back.`);
+      console.log(
+        `  CID: ${t.cid}  IP: ${t.ipAddress}  Port: ${t.gatewayPort}  PID: ${t.vmPid}`,
+      );
+    },
+  );
+
 // ── watch ─────────────────────────────────────────────────────────────────────
 
 program
@@ -336,11 +1133,51 @@ program
   .command("tank")
   .description("TUI dashboard showing all tenant health")
   .option("--json", "Output as JSON")
-  .action(async (opts: { json?: boolean }) => {
-    const code = await runTank({ json: opts.json });
+  .option(SELECTOR_FLAGS, "Only show tenants matching a label selector")
+  .action(async (opts: { json?: boolean; selector?: string }) => {
+    const selector = opts.selector ? selectorOrExit(opts.selector) : undefined;
+    const code = await runTank({ json: opts.json, selector });
     process.exit(code);
   });
 
+// ── capacity ──────────────────────────────────────────────────────────────────
+
+program
+  .command("capacity")
+  .description(
+    "Show committed host memory, vCPUs and disk, and the headroom left",
+  )
+  .option("--json", "Output as JSON")
+  .action(async (opts: { json?: boolean }) => {
+    const result = await runCapacity();
+
+    if (result.isErr()) {
+      console.error(`✗ ${result.error.message}`);
+      process.exit(1);
+    }
+
+    const r = result.value;
+    if (opts.json) {
+      console.log(JSON.stringify(r, null, 2));
+      return;
+    }
+    const { policy } = r;
+    console.log(
+      `Memory  ${r.memMb.committed}/${r.memMb.limit}MB committed  headroom ${r.memMb.headroom}MB  (host ${r.host.memAvailableMb}/${r.host.memTotalMb}MB free, ${policy.memOvercommitRatio}x, ${policy.reserveMemMb}MB reserved)`,
+    );
+    console.log(
+      `vCPU    ${r.vcpu.committed}/${r.vcpu.limit} committed  headroom ${r.vcpu.headroom}  (host ${r.host.cpuCount} CPUs, ${policy.vcpuOvercommitRatio}x)`,
+    );
+    console.log(
+      `Disk    ${r.diskMb.committed}/${r.diskMb.limit}MB provisioned  headroom ${r.diskMb.headroom}MB  (host ${r.host.diskFreeMb}/${r.host.diskTotalMb}MB free, ${policy.diskOvercommitRatio}x, ${policy.reserveDiskMb}MB reserved)`,
+    );
+    if (!r.enforced) {
+      console.log(
+        "\nNo `capacity` section in config — spawn and resume are not limited.",
+      );
+    }
+  });
+
 // ── logs ──────────────────────────────────────────────────────────────────────
 
 program
@@ -385,6 +1222,182 @@ program
     console.log(tenant.gatewayToken);
   });
 
+program
+  .command("rotate-token [name]")
+  .description("Replace a tenant's gateway and/or agent token")
+  .option("--gateway", "Rotate the gateway token")
+  .option("--agent", "Rotate the guest agent token")
+  .option("--all", "Rotate both (default)")
+  .option(SELECTOR_FLAGS, "Rotate every matching tenant")
+  .option("--all-tenants", "Rotate every tenant")
+  .action(
+    async (
+      name: string | undefined,
+      opts: {
+        gateway?: boolean;
+        agent?: boolean;
+        all?: boolean;
+        selector?: string;
+        allTenants?: boolean;
+      },
+    ) => {
+      let targets: string[];
+      if (opts.allTenants) {
+        if (name || opts.selector) {
+          console.error("✗ --all-tenants takes no tenant name or selector");
+          process.exit(1);
+        }
+        const reg = await loadRegistry();
+        if (reg.isErr()) {
+          console.error(`✗ ${reg.error.message}`);
+          process.exit(1);
+        }
+        targets = reg.value.tenants.map((t) => t.name);
+      } else {
+        targets = await resolveTargets(name, opts.selector);
+      }
+      const both = opts.all || (!opts.gateway && !opts.agent);
+      const rotate = {
+        gateway: both || opts.gateway,
+        agent: both || opts.agent,
+      };
+
+      let failed = false;
+      for (const target of targets) {
+        console.log(`Rotating tokens for "${target}"...`);
+        const result = await runRotateToken(target, rotate, (p) => {
+          console.log(`  [${p.step}] ${p.detail}`);
+        });
+
+        if (result.isErr()) {
+          console.error(`\n✗ ${result.error.message}`);
+          failed = true;
+          continue;
+        }
+
+        const kinds = [rotate.gateway && "gateway", rotate.agent && "agent"]
+          .filter(Boolean)
+          .join(" and ");
+        console.log(`\nRotated ${kinds} token for "${target}".`);
+        if (rotate.gateway) {
+          console.log(`  Gateway token: ${result.value.gatewayToken}`);
+        }
+      }
+      process.exit(failed ? 1 : 0);
+    },
+  );
+
+// ── secrets ──────────────────────────────────────────────────────────────────
+
+function reportSecretsUpdate(name: string, update: SecretsUpdate) {
+  console.log(
+    update.pushed
+      ? `  Pushed to "${name}" (gateway restarted)`
+      : `  "${name}" picks it up on its next start, resume or repair`,
+  );
+}
+
+const secrets = program
+  .command("secrets")
+  .description("Manage per-tenant secrets, encrypted at rest on this host");
+
+secrets
+  .command("set <name> <key> [value]")
+  .description(
+    "Store a secret as a guest environment variable (value read from stdin if omitted)",
+  )
+  .action(async (name: string, key: string, value: string | undefined) => {
+    const input = value ?? (await Bun.stdin.text()).replace(/\r?\n$/, "");
+    const result = await runSecretsSet(name, key, input);
+
+    if (result.isErr()) {
+      console.error(`✗ ${result.error.message}`);
+      process.exit(1);
+    }
+    console.log(`Set ${key} on "${name}".`);
+    reportSecretsUpdate(name, result.value);
+  });
+
+secrets
+  .command("get <name> <key>")
+  .description("Print a decrypted secret")
+  .action(async (name: string, key: string) => {
+    const result = await runSecretsGet(name, key);
+
+    if (result.isErr()) {
+      console.error(`✗ ${result.error.message}`);
+      process.exit(1);
+    }
+    console.log(result.value);
+  });
+
+secrets
+  .command("list <name>")
+  .description("List a tenant's secret keys (not values)")
+  .option("--json", "Output as JSON")
+  .action(async (name: string, opts: { json?: boolean }) => {
+    const result = await runSecretsList(name);
+
+    if (result.isErr()) {
+      console.error(`✗ ${result.error.message}`);
+      process.exit(1);
+    }
+
+    if (opts.json) {
+      console.log(JSON.stringify(result.value, null, 2));
+      return;
+    }
+    if (result.value.length === 0) {
+      console.log("No secrets.");
+      return;
+    }
+    for (const key of result.value) {
+      console.log(key);
+    }
+  });
+
+secrets
+  .command("rm <name> <key>")
+  .description("Remove a secret")
+  .action(async (name: string, key: string) => {
+    const result = await runSecretsRm(name, key);
+
+    if (result.isErr()) {
+      console.error(`✗ ${result.error.message}`);
+      process.exit(1);
+    }
+    console.log(`Removed ${key} from "${name}".`);
+    reportSecretsUpdate(name, result.value);
+  });
+
+// ── encrypt-tokens ───────────────────────────────────────────────────────────
+
+program
+  .command("encrypt-tokens")
+  .description(
+    "Encrypt plaintext tokens in config.json, registry.json, spawn journals and trash (host key, or $LOBSTERD_PASSPHRASE when set)",
+  )
+  .option("--dry-run", "Show what would change without writing")
+  .action(async (opts: { dryRun?: boolean }) => {
+    const result = await runEncryptTokens({ dryRun: opts.dryRun }, (p) => {
+      console.log(`  [${p.step}] ${p.detail}`);
+    });
+
+    if (result.isErr()) {
+      console.error(`✗ ${result.error.message}`);
+      process.exit(1);
+    }
+
+    for (const { path, before, after } of result.value) {
+      if (before === after) {
+        console.log(`${path}: ${before}, nothing to do`);
+      } else {
+        const verb = opts.dryRun ? "would encrypt" : "encrypted";
+        console.log(`${path}: ${before} → ${after} (${verb})`);
+      }
+    }
+  });
+
 // ── buoy ─────────────────────────────────────────────────────────────────────
 
 program
@@ -7,6 +7,7 @@ import { errorToStatus, stripSecrets } from "./errors.js";
 describe("errorToStatus", () => {
   test.each([
     ["TENANT_NOT_FOUND", 404],
+    ["SNAP_NOT_FOUND", 404],
     ["TENANT_EXISTS", 409],
     ["VSOCK_CONNECT_FAILED", 502],
     ["EXEC_TIMEOUT", 504],
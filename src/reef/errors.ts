@@ -18,6 +18,7 @@ const STATUS_MAP: Record<ErrorCode, number> = {
   CONFIG_INVALID: 500,
   TENANT_EXISTS: 409,
   TENANT_NOT_FOUND: 404,
+  SNAP_NOT_FOUND: 404,
   PERMISSION_DENIED: 403,
   VALIDATION_FAILED: 422,
   LOCK_FAILED: 503,
@@ -26,6 +27,17 @@ const STATUS_MAP: Record<ErrorCode, number> = {
   SUSPEND_FAILED: 500,
   SUSPEND_SKIPPED: 422,
   RESUME_FAILED: 500,
+  RESTORE_FAILED: 500,
+  ROLLBACK_FAILED: 500,
+  EXPORT_FAILED: 500,
+  IMPORT_FAILED: 500,
+  MIGRATE_FAILED: 500,
+  SECRET_NOT_FOUND: 404,
+  CRYPTO_FAILED: 500,
+  BALLOON_FAILED: 500,
+  SUBNET_EXHAUSTED: 409,
+  PORTS_EXHAUSTED: 409,
+  CAPACITY_EXCEEDED: 503,
   UNINIT_FAILED: 500,
   UNKNOWN: 500,
 };
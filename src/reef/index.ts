@@ -1,13 +1,44 @@
 import { OpenAPIHono } from "@hono/zod-openapi";
-import { DEFAULT_BUOY_CONFIG } from "../config/defaults.js";
+import { DEFAULT_BUOY_CONFIG, LOBSTERD_VERSION } from "../config/defaults.js";
 import { loadConfig, saveConfig } from "../config/loader.js";
 import type { BuoyConfig } from "../types/index.js";
 import { bearerAuth } from "./auth.js";
 import { registerHealthRoutes } from "./routes/health.js";
+import { registerMigrateRoutes } from "./routes/migrate.js";
+import { registerSecretsRoutes } from "./routes/secrets.js";
 import { registerTenantInfoRoutes } from "./routes/tenant-info.js";
 import { registerTenantOpsRoutes } from "./routes/tenant-ops.js";
 import { registerTenantRoutes } from "./routes/tenants.js";
 
+/** The buoy API behind bearer auth, ready to hand to `Bun.serve` */
+export function createBuoyApp(apiToken: string): OpenAPIHono {
+  const app = new OpenAPIHono();
+
+  // Auth middleware
+  app.use("*", bearerAuth(apiToken));
+
+  // Register routes
+  registerHealthRoutes(app);
+  registerTenantRoutes(app);
+  registerTenantOpsRoutes(app);
+  registerTenantInfoRoutes(app);
+  registerMigrateRoutes(app);
+  registerSecretsRoutes(app);
+
+  // OpenAPI spec
+  app.doc("/openapi.json", {
+    openapi: "3.1.0",
+    info: {
+      title: "lobsterd buoy API",
+      version: LOBSTERD_VERSION,
+      description:
+        "REST API for the lobsterd Firecracker MicroVM Tenant Orchestrator",
+    },
+  });
+
+  return app;
+}
+
 export async function startBuoy(opts: {
   port?: number;
   host?: string;
@@ -36,27 +67,7 @@ export async function startBuoy(opts: {
   const port = opts.port ?? buoy.port;
   const host = opts.host ?? buoy.host;
 
-  const app = new OpenAPIHono();
-
-  // Auth middleware
-  app.use("*", bearerAuth(buoy.apiToken));
-
-  // Register routes
-  registerHealthRoutes(app);
-  registerTenantRoutes(app);
-  registerTenantOpsRoutes(app);
-  registerTenantInfoRoutes(app);
-
-  // OpenAPI spec
-  app.doc("/openapi.json", {
-    openapi: "3.1.0",
-    info: {
-      title: "lobsterd buoy API",
-      version: "0.2.0",
-      description:
-        "REST API for the lobsterd Firecracker MicroVM Tenant Orchestrator",
-    },
-  });
+  const app = createBuoyApp(buoy.apiToken);
 
   console.log(`\nlobsterd buoy starting...`);
   console.log(`  URL:   http://${host}:${port}`);
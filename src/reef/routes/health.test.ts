@@ -1,9 +1,12 @@
-import { describe, expect, mock, test } from "bun:test";
+import { afterAll, describe, expect, mock, test } from "bun:test";
 import { Hono } from "hono";
 import { err, ok, type Result } from "neverthrow";
 import { z } from "zod";
 import type { LobsterError, TenantRegistry } from "../../types/index.js";
 
+const realOpenAPI = { ...(await import("@hono/zod-openapi")) };
+const realLoader = { ...(await import("../../config/loader.js")) };
+
 // Patch .openapi() on zod prototypes so schemas load without the OpenAPI registry
 for (const Proto of [
   z.ZodObject.prototype,
@@ -40,10 +43,6 @@ mock.module("@hono/zod-openapi", () => ({
 
 const TWO_TENANTS = {
   tenants: [{} as never, {} as never],
-  nextCid: 5,
-  nextSubnetIndex: 3,
-  nextGatewayPort: 9002,
-  nextJailUid: 10002,
 } as TenantRegistry;
 
 let registryResult: Result<TenantRegistry, LobsterError> = ok(TWO_TENANTS);
@@ -52,6 +51,12 @@ mock.module("../../config/loader.js", () => ({
   loadRegistry: () => registryResult,
 }));
 
+// Put the real modules back for the files that run after this one
+afterAll(() => {
+  mock.module("@hono/zod-openapi", () => realOpenAPI);
+  mock.module("../../config/loader.js", () => realLoader);
+});
+
 const { registerHealthRoutes } = await import("./health.js");
 
 describe("GET /health", () => {
@@ -0,0 +1,222 @@
+import type { OpenAPIHono } from "@hono/zod-openapi";
+import { createRoute, z } from "@hono/zod-openapi";
+import type { Server } from "bun";
+import type { Context } from "hono";
+import {
+  runDiscardReceive,
+  runMigrate,
+  runReceive,
+  runReceivePart,
+} from "../../commands/migrate.js";
+import { errorToStatus, stripSecrets } from "../errors.js";
+import {
+  ErrorResponse,
+  MigrateRequestBody,
+  MigrateResultSchema,
+  ReceivePartResultSchema,
+  ReceiveResultSchema,
+  TenantNameParam,
+  UploadIdParam,
+} from "../schemas.js";
+import { toTenantResponse } from "./tenants.js";
+
+// ── PUT /tenants/receive/:id ────────────────────────────────────────────────
+
+const receivePartRoute = createRoute({
+  method: "put",
+  path: "/tenants/receive/{id}",
+  tags: ["Migration"],
+  request: {
+    params: z.object({ id: UploadIdParam }),
+    query: z.object({
+      offset: z.coerce
+        .number()
+        .int()
+        .min(0)
+        .openapi({ description: "Bytes of the upload sent so far" }),
+    }),
+    body: {
+      content: {
+        "application/octet-stream": {
+          schema: z.string().openapi({ format: "binary" }),
+        },
+      },
+      description: "Next part of a bundle written by `lobsterd export`",
+      required: true,
+    },
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: ReceivePartResultSchema } },
+      description: "Part stored",
+    },
+    422: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Missing body or offset out of order",
+    },
+    500: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Server error",
+    },
+  },
+});
+
+// ── POST /tenants/receive/:id ───────────────────────────────────────────────
+
+const receiveRoute = createRoute({
+  method: "post",
+  path: "/tenants/receive/{id}",
+  tags: ["Migration"],
+  request: {
+    params: z.object({ id: UploadIdParam }),
+  },
+  responses: {
+    201: {
+      content: { "application/json": { schema: ReceiveResultSchema } },
+      description: "Tenant imported, booted and healthy on this host",
+    },
+    409: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Tenant already exists or no free network slots",
+    },
+    422: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Missing or invalid bundle",
+    },
+    503: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Not enough host capacity",
+    },
+    500: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Server error",
+    },
+  },
+});
+
+// ── DELETE /tenants/receive/:id ─────────────────────────────────────────────
+
+const discardReceiveRoute = createRoute({
+  method: "delete",
+  path: "/tenants/receive/{id}",
+  tags: ["Migration"],
+  request: {
+    params: z.object({ id: UploadIdParam }),
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: z.object({ message: z.string() }),
+        },
+      },
+      description: "Partial upload removed",
+    },
+    500: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Server error",
+    },
+  },
+});
+
+// ── POST /tenants/:name/migrate ─────────────────────────────────────────────
+
+const migrateRoute = createRoute({
+  method: "post",
+  path: "/tenants/{name}/migrate",
+  tags: ["Migration"],
+  request: {
+    params: z.object({ name: TenantNameParam }),
+    body: {
+      content: { "application/json": { schema: MigrateRequestBody } },
+      required: true,
+    },
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: MigrateResultSchema } },
+      description: "Tenant moved and evicted from this host",
+    },
+    404: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Tenant not found",
+    },
+    422: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Validation error",
+    },
+    500: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Server error",
+    },
+  },
+});
+
+// ── Registration ────────────────────────────────────────────────────────────
+
+/**
+ * Importing, booting and health-checking a tenant (or the whole migration on
+ * the source) runs far past the server's idle timeout. Lift it for this
+ * request only; each step is bounded by its own timeout.
+ */
+function liftIdleTimeout(c: Context) {
+  (c.env as Server<unknown> | undefined)?.timeout(c.req.raw, 0);
+}
+
+export function registerMigrateRoutes(app: OpenAPIHono) {
+  app.openapi(receivePartRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const { offset } = c.req.valid("query");
+    const body = c.req.raw.body;
+    if (!body) {
+      return c.json(
+        { code: "VALIDATION_FAILED", message: "Missing bundle body" },
+        422,
+      );
+    }
+    const result = await runReceivePart(id, offset, body);
+    if (result.isErr()) {
+      const status = errorToStatus(result.error) as 422 | 500;
+      return c.json(stripSecrets(result.error), status);
+    }
+    return c.json(result.value, 200);
+  });
+
+  app.openapi(receiveRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    liftIdleTimeout(c);
+    const result = await runReceive(id);
+    if (result.isErr()) {
+      const status = errorToStatus(result.error) as 409 | 422 | 500 | 503;
+      return c.json(stripSecrets(result.error), status);
+    }
+    return c.json(
+      {
+        tenant: toTenantResponse(result.value.tenant),
+        checks: result.value.checks,
+      },
+      201,
+    );
+  });
+
+  app.openapi(discardReceiveRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const result = await runDiscardReceive(id);
+    if (result.isErr()) {
+      return c.json(stripSecrets(result.error), 500);
+    }
+    return c.json({ message: `Upload ${id} discarded` }, 200);
+  });
+
+  app.openapi(migrateRoute, async (c) => {
+    const { name } = c.req.valid("param");
+    const body = c.req.valid("json");
+    liftIdleTimeout(c);
+    const result = await runMigrate(name, { to: body.to, token: body.token });
+    if (result.isErr()) {
+      const status = errorToStatus(result.error) as 404 | 422 | 500;
+      return c.json(stripSecrets(result.error), status);
+    }
+    return c.json(result.value, 200);
+  });
+}
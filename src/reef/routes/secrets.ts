@@ -0,0 +1,171 @@
+import type { OpenAPIHono } from "@hono/zod-openapi";
+import { createRoute, z } from "@hono/zod-openapi";
+import {
+  runSecretsGet,
+  runSecretsList,
+  runSecretsRm,
+  runSecretsSet,
+} from "../../commands/secrets.js";
+import { errorToStatus, stripSecrets } from "../errors.js";
+import {
+  ErrorResponse,
+  SecretKeyParam,
+  SecretKeysResponse,
+  SecretResponse,
+  SecretsUpdateSchema,
+  SecretValueBody,
+  TenantNameParam,
+} from "../schemas.js";
+
+// ── GET /tenants/:name/secrets ──────────────────────────────────────────────
+
+const listRoute = createRoute({
+  method: "get",
+  path: "/tenants/{name}/secrets",
+  tags: ["Secrets"],
+  request: {
+    params: z.object({ name: TenantNameParam }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: SecretKeysResponse } },
+      description: "Secret keys of the tenant (values are not listed)",
+    },
+    404: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Tenant not found",
+    },
+    500: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Server error",
+    },
+  },
+});
+
+// ── PUT /tenants/:name/secrets/:key ─────────────────────────────────────────
+
+const setRoute = createRoute({
+  method: "put",
+  path: "/tenants/{name}/secrets/{key}",
+  tags: ["Secrets"],
+  request: {
+    params: z.object({ name: TenantNameParam, key: SecretKeyParam }),
+    body: {
+      content: { "application/json": { schema: SecretValueBody } },
+      required: true,
+    },
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: SecretsUpdateSchema } },
+      description: "Secret stored (and pushed to the guest if running)",
+    },
+    404: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Tenant not found",
+    },
+    422: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Reserved key or value too large",
+    },
+    500: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Server error",
+    },
+  },
+});
+
+// ── GET /tenants/:name/secrets/:key ─────────────────────────────────────────
+
+const getRoute = createRoute({
+  method: "get",
+  path: "/tenants/{name}/secrets/{key}",
+  tags: ["Secrets"],
+  request: {
+    params: z.object({ name: TenantNameParam, key: SecretKeyParam }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: SecretResponse } },
+      description: "Decrypted secret value",
+    },
+    404: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Tenant or secret not found",
+    },
+    500: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Server error",
+    },
+  },
+});
+
+// ── DELETE /tenants/:name/secrets/:key ──────────────────────────────────────
+
+const rmRoute = createRoute({
+  method: "delete",
+  path: "/tenants/{name}/secrets/{key}",
+  tags: ["Secrets"],
+  request: {
+    params: z.object({ name: TenantNameParam, key: SecretKeyParam }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: SecretsUpdateSchema } },
+      description: "Secret removed (and from the guest if running)",
+    },
+    404: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Tenant or secret not found",
+    },
+    500: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Server error",
+    },
+  },
+});
+
+// ── Registration ────────────────────────────────────────────────────────────
+
+export function registerSecretsRoutes(app: OpenAPIHono) {
+  app.openapi(listRoute, async (c) => {
+    const { name } = c.req.valid("param");
+    const result = await runSecretsList(name);
+    if (result.isErr()) {
+      const status = errorToStatus(result.error) as 404 | 500;
+      return c.json(stripSecrets(result.error), status);
+    }
+    return c.json({ keys: result.value }, 200);
+  });
+
+  app.openapi(setRoute, async (c) => {
+    const { name, key } = c.req.valid("param");
+    const { value } = c.req.valid("json");
+    const result = await runSecretsSet(name, key, value);
+    if (result.isErr()) {
+      const status = errorToStatus(result.error) as 404 | 422 | 500;
+      return c.json(stripSecrets(result.error), status);
+    }
+    return c.json(result.value, 200);
+  });
+
+  app.openapi(getRoute, async (c) => {
+    const { name, key } = c.req.valid("param");
+    const result = await runSecretsGet(name, key);
+    if (result.isErr()) {
+      const status = errorToStatus(result.error) as 404 | 500;
+      return c.json(stripSecrets(result.error), status);
+    }
+    return c.json({ key, value: result.value }, 200);
+  });
+
+  app.openapi(rmRoute, async (c) => {
+    const { name, key } = c.req.valid("param");
+    const result = await runSecretsRm(name, key);
+    if (result.isErr()) {
+      const status = errorToStatus(result.error) as 404 | 500;
+      return c.json(stripSecrets(result.error), status);
+    }
+    return c.json(result.value, 200);
+  });
+}
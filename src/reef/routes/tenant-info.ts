@@ -1,10 +1,12 @@
 import type { OpenAPIHono } from "@hono/zod-openapi";
 import { createRoute, z } from "@hono/zod-openapi";
+import { runSnapsList } from "../../commands/snaps.js";
 import { loadConfig, loadRegistry } from "../../config/loader.js";
 import { fetchLogs } from "../../system/logs.js";
 import {
   ErrorResponse,
   LogsResponse,
+  SnapListResponse,
   TenantNameParam,
   TokenResponse,
 } from "../schemas.js";
@@ -59,6 +61,28 @@ const logsRoute = createRoute({
   },
 });
 
+// ── GET /tenants/:name/snaps ────────────────────────────────────────────────
+
+const snapsRoute = createRoute({
+  method: "get",
+  path: "/tenants/{name}/snaps",
+  tags: ["Tenant Info"],
+  request: {
+    params: z.object({ name: TenantNameParam }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: SnapListResponse } },
+      description:
+        "Overlay snaps recorded for the tenant, oldest first (kept after evict)",
+    },
+    500: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Server error",
+    },
+  },
+});
+
 // ── Registration ────────────────────────────────────────────────────────────
 
 export function registerTenantInfoRoutes(app: OpenAPIHono) {
@@ -116,4 +140,13 @@ export function registerTenantInfoRoutes(app: OpenAPIHono) {
       );
     }
   });
+
+  app.openapi(snapsRoute, async (c) => {
+    const { name } = c.req.valid("param");
+    const result = await runSnapsList(name);
+    if (result.isErr()) {
+      return c.json({ code: "UNKNOWN", message: result.error.message }, 500);
+    }
+    return c.json(result.value, 200);
+  });
 }
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { OpenAPIHono } from "@hono/zod-openapi";
+import { errAsync, okAsync } from "neverthrow";
+import * as restore from "../../commands/restore.js";
+import * as start from "../../commands/start.js";
+import * as loader from "../../config/loader.js";
+import { makeTenant } from "../../test-helpers.js";
+import { registerTenantOpsRoutes } from "./tenant-ops.js";
+
+const app = new OpenAPIHono();
+registerTenantOpsRoutes(app);
+
+const s = {} as Record<string, ReturnType<typeof spyOn>>;
+
+beforeEach(() => {
+  s.loadSnapIndex = spyOn(loader, "loadSnapIndex").mockReturnValue(
+    okAsync({ snaps: [] }) as never,
+  );
+  s.runRestore = spyOn(restore, "runRestore").mockReturnValue(
+    okAsync(makeTenant()) as never,
+  );
+});
+
+afterEach(() => {
+  for (const spy of Object.values(s)) {
+    spy.mockRestore();
+  }
+});
+
+function post(path: string, body: unknown) {
+  return app.request(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("request bodies", () => {
+  test("grow without a body is a validation error, not a crash", async () => {
+    const res = await app.request("/tenants/test-tenant/grow", {
+      method: "POST",
+    });
+    expect(res.status).toBe(400);
+  });
+
+  test("balloon without a body is a validation error, not a crash", async () => {
+    const res = await app.request("/tenants/test-tenant/balloon", {
+      method: "PATCH",
+    });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("restore", () => {
+  test("restores a catalogued snap by id", async () => {
+    const path = "/var/lib/lobsterd/snaps/a/20250101-120000-a.tar.gz";
+    s.loadSnapIndex.mockReturnValue(
+      okAsync({ snaps: [{ id: "20250101-120000-a", path }] }) as never,
+    );
+    const res = await post("/tenants/a/restore", {
+      snap: "20250101-120000-a",
+      as: "b",
+    });
+    expect(res.status).toBe(200);
+    expect(s.runRestore).toHaveBeenCalledWith("a", path, { as: "b" });
+  });
+
+  test("refuses a tarball outside the snaps dir", async () => {
+    const res = await post("/tenants/test-tenant/restore", {
+      tarball: "/etc/shadow",
+    });
+    expect(res.status).toBe(422);
+    expect(s.runRestore).not.toHaveBeenCalled();
+  });
+
+  test("returns 404 for an unknown snap id", async () => {
+    const res = await post("/tenants/test-tenant/restore", { snap: "nope" });
+    expect(res.status).toBe(404);
+    expect(((await res.json()) as { code: string }).code).toBe(
+      "SNAP_NOT_FOUND",
+    );
+    expect(s.runRestore).not.toHaveBeenCalled();
+  });
+});
+
+describe("capacity", () => {
+  test("restore reports a full host as 503", async () => {
+    s.runRestore.mockReturnValue(
+      errAsync({ code: "CAPACITY_EXCEEDED", message: "host full" }) as never,
+    );
+    const res = await post("/tenants/test-tenant/restore", {
+      tarball: "/var/lib/lobsterd/snaps/test-tenant/x.tar.gz",
+    });
+    expect(res.status).toBe(503);
+  });
+
+  test("start reports a full host as 503", async () => {
+    s.runStart = spyOn(start, "runStart").mockReturnValue(
+      errAsync({ code: "CAPACITY_EXCEEDED", message: "host full" }) as never,
+    );
+    const res = await post("/tenants/test-tenant/start", {});
+    expect(res.status).toBe(503);
+  });
+});
@@ -1,14 +1,39 @@
 import type { OpenAPIHono } from "@hono/zod-openapi";
 import { createRoute, z } from "@hono/zod-openapi";
+import { parseBalloonTarget, runBalloon } from "../../commands/balloon.js";
+import { runClone } from "../../commands/clone.js";
+import { runGrow } from "../../commands/grow.js";
 import { runMolt } from "../../commands/molt.js";
+import { runReboot } from "../../commands/reboot.js";
+import { runRestore } from "../../commands/restore.js";
+import { runRotateToken } from "../../commands/rotate-token.js";
 import { runSnap } from "../../commands/snap.js";
+import { findSnap, snapsDirPath } from "../../commands/snaps.js";
+import { runStart } from "../../commands/start.js";
+import { runStop } from "../../commands/stop.js";
+import { runThrottle } from "../../commands/throttle.js";
+import { SNAPS_DIR } from "../../config/defaults.js";
+import { parseRateLimitOverrides } from "../../config/rate-limits.js";
+import { parseSizeMb } from "../../config/resources.js";
 import { errorToStatus, stripSecrets } from "../errors.js";
 import {
+  BalloonRequestBody,
+  BalloonStatsSchema,
+  CloneRequestBody,
   ErrorResponse,
+  GrowRequestBody,
+  LimitsRequestBody,
   MoltResultSchema,
+  RebootRequestBody,
+  RestoreRequestBody,
+  RotateTokenRequestBody,
   SnapResultSchema,
+  StopRequestBody,
   TenantNameParam,
+  TenantResponse,
+  TokenResponse,
 } from "../schemas.js";
+import { toTenantResponse } from "./tenants.js";
 
 // ── POST /tenants/:name/molt ────────────────────────────────────────────────
 
@@ -60,6 +85,331 @@ const snapRoute = createRoute({
   },
 });
 
+// ── POST /tenants/:name/restore ─────────────────────────────────────────────
+
+const restoreRoute = createRoute({
+  method: "post",
+  path: "/tenants/{name}/restore",
+  tags: ["Tenant Operations"],
+  request: {
+    params: z.object({ name: TenantNameParam }),
+    body: {
+      content: { "application/json": { schema: RestoreRequestBody } },
+      required: true,
+    },
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: TenantResponse } },
+      description: "Tenant restored from snapshot",
+    },
+    404: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Snap not found",
+    },
+    409: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Target tenant already exists",
+    },
+    422: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Validation error or tarball outside the snaps directory",
+    },
+    503: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Not enough host capacity",
+    },
+    500: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Server error",
+    },
+  },
+});
+
+// ── POST /tenants/:name/clone ───────────────────────────────────────────────
+
+const cloneRoute = createRoute({
+  method: "post",
+  path: "/tenants/{name}/clone",
+  tags: ["Tenant Operations"],
+  request: {
+    params: z.object({ name: TenantNameParam }),
+    body: {
+      content: { "application/json": { schema: CloneRequestBody } },
+      required: true,
+    },
+  },
+  responses: {
+    201: {
+      content: { "application/json": { schema: TenantResponse } },
+      description: "Clone spawned successfully",
+    },
+    404: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Source tenant not found",
+    },
+    409: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Target tenant already exists",
+    },
+    422: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Validation error",
+    },
+    503: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Not enough host capacity",
+    },
+    500: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Server error",
+    },
+  },
+});
+
+// ── POST /tenants/:name/stop ────────────────────────────────────────────────
+
+const stopRoute = createRoute({
+  method: "post",
+  path: "/tenants/{name}/stop",
+  tags: ["Tenant Operations"],
+  request: {
+    params: z.object({ name: TenantNameParam }),
+    body: {
+      content: { "application/json": { schema: StopRequestBody } },
+      required: false,
+    },
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: TenantResponse } },
+      description: "Tenant stopped",
+    },
+    404: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Tenant not found",
+    },
+    422: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Tenant already stopped or being removed",
+    },
+    500: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Server error",
+    },
+  },
+});
+
+// ── POST /tenants/:name/start ───────────────────────────────────────────────
+
+const startRoute = createRoute({
+  method: "post",
+  path: "/tenants/{name}/start",
+  tags: ["Tenant Operations"],
+  request: {
+    params: z.object({ name: TenantNameParam }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: TenantResponse } },
+      description: "Tenant started",
+    },
+    404: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Tenant not found",
+    },
+    422: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Tenant is not stopped",
+    },
+    503: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Not enough host capacity",
+    },
+    500: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Server error",
+    },
+  },
+});
+
+// ── POST /tenants/:name/reboot ──────────────────────────────────────────────
+
+const rebootRoute = createRoute({
+  method: "post",
+  path: "/tenants/{name}/reboot",
+  tags: ["Tenant Operations"],
+  request: {
+    params: z.object({ name: TenantNameParam }),
+    body: {
+      content: { "application/json": { schema: RebootRequestBody } },
+      required: false,
+    },
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: TenantResponse } },
+      description: "Tenant rebooted",
+    },
+    404: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Tenant not found",
+    },
+    422: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Tenant is not active",
+    },
+    500: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Server error",
+    },
+  },
+});
+
+// ── POST /tenants/:name/grow ────────────────────────────────────────────────
+
+const growRoute = createRoute({
+  method: "post",
+  path: "/tenants/{name}/grow",
+  tags: ["Tenant Operations"],
+  request: {
+    params: z.object({ name: TenantNameParam }),
+    body: {
+      content: { "application/json": { schema: GrowRequestBody } },
+      required: true,
+    },
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: TenantResponse } },
+      description: "Overlay grown",
+    },
+    404: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Tenant not found",
+    },
+    422: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description:
+        "Invalid size, shrink refused or tenant not in a growable state",
+    },
+    500: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Server error",
+    },
+  },
+});
+
+// ── PATCH /tenants/:name/limits ─────────────────────────────────────────────
+
+const limitsRoute = createRoute({
+  method: "patch",
+  path: "/tenants/{name}/limits",
+  tags: ["Tenant Operations"],
+  request: {
+    params: z.object({ name: TenantNameParam }),
+    body: {
+      content: { "application/json": { schema: LimitsRequestBody } },
+    },
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: TenantResponse } },
+      description: "Limits updated",
+    },
+    404: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Tenant not found",
+    },
+    422: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Invalid limit or tenant being removed",
+    },
+    500: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Server error",
+    },
+  },
+});
+
+// ── GET/PATCH /tenants/:name/balloon ────────────────────────────────────────
+
+const balloonResponses = {
+  200: {
+    content: { "application/json": { schema: BalloonStatsSchema } },
+    description: "Balloon statistics",
+  },
+  404: {
+    content: { "application/json": { schema: ErrorResponse } },
+    description: "Tenant not found",
+  },
+  422: {
+    content: { "application/json": { schema: ErrorResponse } },
+    description: "Invalid target or tenant not running",
+  },
+  500: {
+    content: { "application/json": { schema: ErrorResponse } },
+    description: "Server error",
+  },
+} as const;
+
+const balloonStatsRoute = createRoute({
+  method: "get",
+  path: "/tenants/{name}/balloon",
+  tags: ["Tenant Operations"],
+  request: {
+    params: z.object({ name: TenantNameParam }),
+  },
+  responses: balloonResponses,
+});
+
+const balloonRoute = createRoute({
+  method: "patch",
+  path: "/tenants/{name}/balloon",
+  tags: ["Tenant Operations"],
+  request: {
+    params: z.object({ name: TenantNameParam }),
+    body: {
+      content: { "application/json": { schema: BalloonRequestBody } },
+      required: true,
+    },
+  },
+  responses: balloonResponses,
+});
+
+// ── POST /tenants/:name/rotate-token ────────────────────────────────────────
+
+const rotateTokenRoute = createRoute({
+  method: "post",
+  path: "/tenants/{name}/rotate-token",
+  tags: ["Tenant Operations"],
+  request: {
+    params: z.object({ name: TenantNameParam }),
+    body: {
+      content: { "application/json": { schema: RotateTokenRequestBody } },
+      required: false,
+    },
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: TokenResponse } },
+      description: "Tokens rotated; returns the (possibly new) gateway token",
+    },
+    404: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Tenant not found",
+    },
+    422: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Tenant being removed",
+    },
+    500: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Server error",
+    },
+  },
+});
+
 // ── Registration ────────────────────────────────────────────────────────────
 
 export function registerTenantOpsRoutes(app: OpenAPIHono) {
@@ -90,4 +440,166 @@ export function registerTenantOpsRoutes(app: OpenAPIHono) {
     }
     return c.json(result.value, 200);
   });
+
+  app.openapi(restoreRoute, async (c) => {
+    const { name } = c.req.valid("param");
+    const body = c.req.valid("json");
+    // Only catalogued snaps, or tarballs in the snaps dir: tar runs as root
+    let tarball: string | null = null;
+    if (body.snap) {
+      const snap = await findSnap(body.snap);
+      if (snap.isErr()) {
+        const status = errorToStatus(snap.error) as 404 | 500;
+        return c.json(stripSecrets(snap.error), status);
+      }
+      tarball = snap.value.path;
+    } else if (body.tarball) {
+      tarball = snapsDirPath(body.tarball);
+    }
+    if (!tarball) {
+      return c.json(
+        {
+          code: "VALIDATION_FAILED",
+          message: `Expected a snap id or a tarball under ${SNAPS_DIR}`,
+        },
+        422,
+      );
+    }
+    const result = await runRestore(name, tarball, { as: body.as });
+    if (result.isErr()) {
+      const status = errorToStatus(result.error) as 404 | 409 | 422 | 500 | 503;
+      return c.json(stripSecrets(result.error), status);
+    }
+    return c.json(toTenantResponse(result.value), 200);
+  });
+
+  app.openapi(cloneRoute, async (c) => {
+    const { name } = c.req.valid("param");
+    const body = c.req.valid("json");
+    const result = await runClone(name, body.name);
+    if (result.isErr()) {
+      const status = errorToStatus(result.error) as 404 | 409 | 422 | 500 | 503;
+      return c.json(stripSecrets(result.error), status);
+    }
+    return c.json(toTenantResponse(result.value), 201);
+  });
+
+  app.openapi(stopRoute, async (c) => {
+    const { name } = c.req.valid("param");
+    const body = c.req.valid("json") ?? {};
+    const result = await runStop(name, { park: body.park });
+    if (result.isErr()) {
+      const status = errorToStatus(result.error) as 404 | 422 | 500;
+      return c.json(stripSecrets(result.error), status);
+    }
+    return c.json(toTenantResponse(result.value), 200);
+  });
+
+  app.openapi(startRoute, async (c) => {
+    const { name } = c.req.valid("param");
+    const result = await runStart(name);
+    if (result.isErr()) {
+      const status = errorToStatus(result.error) as 404 | 422 | 500 | 503;
+      return c.json(stripSecrets(result.error), status);
+    }
+    return c.json(toTenantResponse(result.value), 200);
+  });
+
+  app.openapi(rotateTokenRoute, async (c) => {
+    const { name } = c.req.valid("param");
+    const body = c.req.valid("json") ?? {};
+    // Neither flag rotates both, as `--all` does
+    const both = body.gateway === undefined && body.agent === undefined;
+    const result = await runRotateToken(name, {
+      gateway: both || body.gateway,
+      agent: both || body.agent,
+    });
+    if (result.isErr()) {
+      const status = errorToStatus(result.error) as 404 | 422 | 500;
+      return c.json(stripSecrets(result.error), status);
+    }
+    return c.json({ token: result.value.gatewayToken }, 200);
+  });
+
+  app.openapi(rebootRoute, async (c) => {
+    const { name } = c.req.valid("param");
+    const body = c.req.valid("json") ?? {};
+    const result = await runReboot(name, { hard: body.hard });
+    if (result.isErr()) {
+      const status = errorToStatus(result.error) as 404 | 422 | 500;
+      return c.json(stripSecrets(result.error), status);
+    }
+    return c.json(toTenantResponse(result.value), 200);
+  });
+
+  app.openapi(growRoute, async (c) => {
+    const { name } = c.req.valid("param");
+    const body = c.req.valid("json");
+    const sizeMb = parseSizeMb(body.size);
+    if (sizeMb === null) {
+      return c.json(
+        {
+          code: "VALIDATION_FAILED",
+          message: `Invalid size "${body.size}" (expected e.g. 8G)`,
+        },
+        422,
+      );
+    }
+    const result = await runGrow(name, sizeMb);
+    if (result.isErr()) {
+      const status = errorToStatus(result.error) as 404 | 422 | 500;
+      return c.json(stripSecrets(result.error), status);
+    }
+    return c.json(toTenantResponse(result.value), 200);
+  });
+
+  app.openapi(limitsRoute, async (c) => {
+    const { name } = c.req.valid("param");
+    const body = c.req.valid("json");
+    const overrides = parseRateLimitOverrides({
+      netRx: body.networkRx,
+      netTx: body.networkTx,
+      disk: body.disk,
+    });
+    if (overrides.isErr()) {
+      return c.json(overrides.error, 422);
+    }
+    const result = await runThrottle(name, overrides.value);
+    if (result.isErr()) {
+      const status = errorToStatus(result.error) as 404 | 422 | 500;
+      return c.json(stripSecrets(result.error), status);
+    }
+    return c.json(toTenantResponse(result.value), 200);
+  });
+
+  app.openapi(balloonStatsRoute, async (c) => {
+    const { name } = c.req.valid("param");
+    const result = await runBalloon(name);
+    if (result.isErr()) {
+      const status = errorToStatus(result.error) as 404 | 422 | 500;
+      return c.json(stripSecrets(result.error), status);
+    }
+    return c.json(result.value, 200);
+  });
+
+  app.openapi(balloonRoute, async (c) => {
+    const { name } = c.req.valid("param");
+    const body = c.req.valid("json");
+    const targetMb = parseBalloonTarget(body.target);
+    if (targetMb === null) {
+      return c.json(
+        {
+          code: "VALIDATION_FAILED",
+          message: `Invalid target "${body.target}" (expected e.g. 256M)`,
+        },
+        422,
+      );
+    }
+    const result = await runBalloon(name, { targetMb });
+    if (result.isErr()) {
+      const status = errorToStatus(result.error) as 404 | 422 | 500;
+      return c.json(stripSecrets(result.error), status);
+    }
+    return c.json(result.value, 200);
+  });
 }
@@ -3,7 +3,9 @@ import { createRoute, z } from "@hono/zod-openapi";
 import { runEvict } from "../../commands/evict.js";
 import { runSpawn } from "../../commands/spawn.js";
 import { buildTankEntries } from "../../commands/tank-data.js";
+import { parseSelector, selectTenants } from "../../config/labels.js";
 import { loadConfig, loadRegistry } from "../../config/loader.js";
+import type { Tenant } from "../../types/index.js";
 import { errorToStatus, stripSecrets } from "../errors.js";
 import {
   ErrorResponse,
@@ -19,6 +21,18 @@ const listTenantsRoute = createRoute({
   method: "get",
   path: "/tenants",
   tags: ["Tenants"],
+  request: {
+    query: z.object({
+      labelSelector: z
+        .string()
+        .openapi({
+          description:
+            "Only list tenants whose labels match, e.g. team=foo,env!=prod",
+          example: "team=foo",
+        })
+        .optional(),
+    }),
+  },
   responses: {
     200: {
       content: {
@@ -26,6 +40,10 @@ const listTenantsRoute = createRoute({
       },
       description: "List of all tenants with health info",
     },
+    422: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Invalid label selector",
+    },
     500: {
       content: { "application/json": { schema: ErrorResponse } },
       description: "Server error",
@@ -58,6 +76,10 @@ const spawnTenantRoute = createRoute({
       content: { "application/json": { schema: ErrorResponse } },
       description: "Validation error",
     },
+    503: {
+      content: { "application/json": { schema: ErrorResponse } },
+      description: "Not enough host capacity",
+    },
     500: {
       content: { "application/json": { schema: ErrorResponse } },
       description: "Server error",
@@ -73,6 +95,15 @@ const evictTenantRoute = createRoute({
   tags: ["Tenants"],
   request: {
     params: z.object({ name: TenantNameParam }),
+    query: z.object({
+      purge: z
+        .enum(["true", "false"])
+        .openapi({
+          description:
+            "Delete the overlay and SSH keys instead of moving them to the trash",
+        })
+        .optional(),
+    }),
   },
   responses: {
     200: {
@@ -96,8 +127,30 @@ const evictTenantRoute = createRoute({
 
 // ── Registration ────────────────────────────────────────────────────────────
 
+/** Public view of a tenant record (no tokens) */
+export function toTenantResponse(t: Tenant) {
+  return {
+    name: t.name,
+    cid: t.cid,
+    ipAddress: t.ipAddress,
+    gatewayPort: t.gatewayPort,
+    vmPid: t.vmPid,
+    status: t.status,
+    createdAt: t.createdAt,
+    resources: t.resources,
+    template: t.template,
+    rateLimits: t.rateLimits,
+    labels: t.labels,
+  };
+}
+
 export function registerTenantRoutes(app: OpenAPIHono) {
   app.openapi(listTenantsRoute, async (c) => {
+    const { labelSelector } = c.req.valid("query");
+    const selector = labelSelector ? parseSelector(labelSelector) : undefined;
+    if (selector?.isErr()) {
+      return c.json(stripSecrets(selector.error), 422);
+    }
     const configResult = await loadConfig();
     if (configResult.isErr()) {
       return c.json(stripSecrets(configResult.error), 500);
@@ -107,40 +160,33 @@ export function registerTenantRoutes(app: OpenAPIHono) {
       return c.json(stripSecrets(registryResult.error), 500);
     }
 
-    const entries = await buildTankEntries(
-      registryResult.value.tenants,
-      configResult.value,
-    );
+    const tenants = selector?.isOk()
+      ? selectTenants(registryResult.value.tenants, selector.value)
+      : registryResult.value.tenants;
+    const entries = await buildTankEntries(tenants, configResult.value);
     return c.json(entries, 200);
   });
 
   app.openapi(spawnTenantRoute, async (c) => {
     const body = c.req.valid("json");
 
-    const result = await runSpawn(body.name);
+    const result = await runSpawn(body.name, {
+      template: body.template,
+      resources: body.resources,
+      labels: body.labels,
+    });
     if (result.isErr()) {
-      const status = errorToStatus(result.error) as 409 | 422 | 500;
+      const status = errorToStatus(result.error) as 409 | 422 | 500 | 503;
       return c.json(stripSecrets(result.error), status);
     }
 
-    const t = result.value;
-    return c.json(
-      {
-        name: t.name,
-        cid: t.cid,
-        ipAddress: t.ipAddress,
-        gatewayPort: t.gatewayPort,
-        vmPid: t.vmPid,
-        status: t.status,
-        createdAt: t.createdAt,
-      },
-      201,
-    );
+    return c.json(toTenantResponse(result.value), 201);
   });
 
   app.openapi(evictTenantRoute, async (c) => {
     const { name } = c.req.valid("param");
-    const result = await runEvict(name);
+    const { purge } = c.req.valid("query");
+    const result = await runEvict(name, { archive: purge !== "true" });
     if (result.isErr()) {
       const status = errorToStatus(result.error) as 404 | 500;
       return c.json(stripSecrets(result.error), status);
@@ -1,7 +1,9 @@
-import { describe, expect, mock, test } from "bun:test";
+import { afterAll, describe, expect, mock, test } from "bun:test";
 import { Hono } from "hono";
 import { z } from "zod";
 
+const realOpenAPI = { ...(await import("@hono/zod-openapi")) };
+
 // @hono/zod-openapi extends zod schemas with .openapi() for metadata.
 // In test context the openapi registry crashes, so we mock the module
 // and patch .openapi() as a no-op passthrough on the zod prototype.
@@ -40,6 +42,11 @@ mock.module("@hono/zod-openapi", () => ({
   OpenAPIHono: FakeOpenAPIHono,
 }));
 
+// Put the real module back for the files that run after this one
+afterAll(() => {
+  mock.module("@hono/zod-openapi", () => realOpenAPI);
+});
+
 const { HealthResponse, SpawnRequestBody, TenantNameParam, TenantResponse } =
   await import("./schemas.js");
 
@@ -79,6 +86,22 @@ describe("SpawnRequestBody", () => {
     const result = SpawnRequestBody.safeParse({ name: "BAD!" });
     expect(result.success).toBe(false);
   });
+
+  test("accepts partial resources", () => {
+    const result = SpawnRequestBody.safeParse({
+      name: "test-tenant",
+      resources: { vcpuCount: 4 },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  test("rejects non-integer resources", () => {
+    const result = SpawnRequestBody.safeParse({
+      name: "test-tenant",
+      resources: { memSizeMb: 512.5 },
+    });
+    expect(result.success).toBe(false);
+  });
 });
 
 // ── HealthResponse ──────────────────────────────────────────────────────────
@@ -1,5 +1,11 @@
 import { z } from "@hono/zod-openapi";
-import { TENANT_NAME_REGEX } from "../config/schema.js";
+import { SNAPS_DIR } from "../config/defaults.js";
+import {
+  LABEL_KEY_REGEX,
+  LABEL_VALUE_REGEX,
+  SECRET_KEY_REGEX,
+  TENANT_NAME_REGEX,
+} from "../config/schema.js";
 
 // ── Shared ──────────────────────────────────────────────────────────────────
 
@@ -27,6 +33,11 @@ export const HealthResponse = z
 
 // ── Tenants ─────────────────────────────────────────────────────────────────
 
+const LabelsSchema = z.record(
+  z.string().regex(LABEL_KEY_REGEX),
+  z.string().regex(LABEL_VALUE_REGEX),
+);
+
 export const TankEntrySchema = z
   .object({
     name: z.string(),
@@ -37,12 +48,37 @@ export const TankEntrySchema = z
     status: z.string(),
     memoryMb: z.number().optional(),
     state: z.string(),
+    labels: LabelsSchema.optional(),
   })
   .openapi("TankEntry");
 
+export const TenantResourcesSchema = z
+  .object({
+    vcpuCount: z.number().int(),
+    memSizeMb: z.number().int(),
+    diskSizeMb: z.number().int(),
+  })
+  .openapi("TenantResources");
+
+const TokenBucketSchema = z.object({
+  size: z.number().int(),
+  oneTimeBurst: z.number().int().optional(),
+  refillTime: z.number().int(),
+});
+
+export const RateLimiterSchema = z
+  .object({
+    bandwidth: TokenBucketSchema.optional(),
+    ops: TokenBucketSchema.optional(),
+  })
+  .openapi("RateLimiter");
+
 export const SpawnRequestBody = z
   .object({
     name: z.string().regex(TENANT_NAME_REGEX),
+    template: z.string().regex(TENANT_NAME_REGEX).optional(),
+    resources: TenantResourcesSchema.partial().optional(),
+    labels: LabelsSchema.optional(),
   })
   .openapi("SpawnRequest");
 
@@ -55,6 +91,16 @@ export const TenantResponse = z
     vmPid: z.number().nullable(),
     status: z.string(),
     createdAt: z.string(),
+    resources: TenantResourcesSchema.optional(),
+    template: z.string().optional(),
+    rateLimits: z
+      .object({
+        networkRx: RateLimiterSchema.optional(),
+        networkTx: RateLimiterSchema.optional(),
+        disk: RateLimiterSchema.optional(),
+      })
+      .optional(),
+    labels: LabelsSchema.optional(),
   })
   .openapi("TenantResponse");
 
@@ -88,13 +134,164 @@ export const MoltResultSchema = z
   })
   .openapi("MoltResult");
 
-export const SnapResultSchema = z
+export const SnapEntrySchema = z
   .object({
-    path: z.string(),
+    id: z.string().openapi({ example: "20250101-120000-my-tenant" }),
     tenant: z.string(),
     timestamp: z.string(),
+    createdAt: z.string(),
+    path: z.string(),
+    sizeBytes: z.number(),
+    sha256: z.string(),
+    consistency: z
+      .enum(["fsfreeze", "paused", "offline"])
+      .openapi({ description: "How the overlay was quiesced for the copy" })
+      .optional(),
+  })
+  .openapi("SnapEntry");
+
+export const SnapResultSchema = SnapEntrySchema.extend({
+  pruned: z.array(z.string()),
+}).openapi("SnapResult");
+
+export const SnapListResponse = z.array(SnapEntrySchema).openapi("SnapList");
+
+export const StopRequestBody = z
+  .object({
+    park: z.boolean().optional(),
+  })
+  .openapi("StopRequest");
+
+export const RebootRequestBody = z
+  .object({
+    hard: z.boolean().optional(),
+  })
+  .openapi("RebootRequest");
+
+export const RotateTokenRequestBody = z
+  .object({
+    gateway: z.boolean().optional(),
+    agent: z.boolean().optional(),
+  })
+  .openapi("RotateTokenRequest");
+
+export const GrowRequestBody = z
+  .object({
+    size: z.string().min(1).openapi({ example: "8G" }),
+  })
+  .openapi("GrowRequest");
+
+export const LimitsRequestBody = z
+  .object({
+    networkRx: z.string().openapi({ example: "10M" }).optional(),
+    networkTx: z.string().openapi({ example: "10M" }).optional(),
+    disk: z.string().openapi({ example: "off" }).optional(),
+  })
+  .openapi("LimitsRequest");
+
+export const BalloonRequestBody = z
+  .object({
+    target: z.string().min(1).openapi({ example: "256M" }),
+  })
+  .openapi("BalloonRequest");
+
+export const BalloonStatsSchema = z
+  .object({
+    targetMib: z.number(),
+    actualMib: z.number(),
+    totalMemoryBytes: z.number().optional(),
+    availableMemoryBytes: z.number().optional(),
+    freeMemoryBytes: z.number().optional(),
+  })
+  .openapi("BalloonStats");
+
+export const CloneRequestBody = z
+  .object({
+    name: z.string().regex(TENANT_NAME_REGEX),
+  })
+  .openapi("CloneRequest");
+
+export const RestoreRequestBody = z
+  .object({
+    snap: z
+      .string()
+      .min(1)
+      .openapi({ example: "20250101-120000-my-tenant" })
+      .optional(),
+    tarball: z
+      .string()
+      .min(1)
+      .openapi({ description: `Snap tarball under ${SNAPS_DIR}` })
+      .optional(),
+    as: z.string().regex(TENANT_NAME_REGEX).optional(),
+  })
+  .openapi("RestoreRequest");
+
+// ── Migration ───────────────────────────────────────────────────────────────
+
+export const MigrateRequestBody = z
+  .object({
+    to: z.string().url().openapi({ example: "http://host-b:7070" }),
+    token: z.string().min(1),
   })
-  .openapi("SnapResult");
+  .openapi("MigrateRequest");
+
+export const UploadIdParam = z
+  .uuid()
+  .openapi({ param: { name: "id", in: "path" } });
+
+export const ReceivePartResultSchema = z
+  .object({ received: z.number().int() })
+  .openapi("ReceivePartResult");
+
+export const ReceiveResultSchema = z
+  .object({
+    tenant: TenantResponse,
+    checks: z.array(
+      z.object({
+        check: z.string(),
+        status: z.string(),
+        message: z.string(),
+      }),
+    ),
+  })
+  .openapi("ReceiveResult");
+
+export const MigrateResultSchema = ReceiveResultSchema.extend({
+  destination: z.string(),
+}).openapi("MigrateResult");
+
+// ── Secrets ─────────────────────────────────────────────────────────────────
+
+export const SecretKeyParam = z
+  .string()
+  .regex(SECRET_KEY_REGEX)
+  .openapi({ param: { name: "key", in: "path" }, example: "OPENAI_API_KEY" });
+
+export const SecretValueBody = z
+  .object({
+    value: z.string(),
+  })
+  .openapi("SecretValue");
+
+export const SecretResponse = z
+  .object({
+    key: z.string(),
+    value: z.string(),
+  })
+  .openapi("Secret");
+
+export const SecretKeysResponse = z
+  .object({
+    keys: z.array(z.string()),
+  })
+  .openapi("SecretKeys");
+
+export const SecretsUpdateSchema = SecretKeysResponse.extend({
+  pushed: z
+    .boolean()
+    .openapi({ description: "Whether the running guest already has it" }),
+}).openapi("SecretsUpdate");
 
 // ── Tenant Info ─────────────────────────────────────────────────────────────
 
@@ -1,4 +1,5 @@
 import { ok, ResultAsync } from "neverthrow";
+import { tenantConfig } from "../config/templates.js";
 import type {
   HealthCheckResult,
   LobsterdConfig,
@@ -47,10 +48,13 @@ export function runRepairs(
     return ResultAsync.fromSafePromise(Promise.resolve([]));
   }
 
+  // Rebuild with the tenant's template, same as spawn did
+  const effectiveConfig = tenantConfig(tenant, config);
+
   return repairFns.reduce<ResultAsync<RepairResult[], LobsterError>>(
     (acc, fn) =>
       acc.andThen((results) =>
-        fn(tenant, config, registry)
+        fn(tenant, effectiveConfig, registry)
           .map((result) => [...results, result])
           .orElse(() =>
             ok([
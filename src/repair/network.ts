@@ -42,7 +42,7 @@ export function repairCaddyRoute(
   config: LobsterdConfig,
 ): ResultAsync<RepairResult, LobsterError> {
   return caddy
-    .removeRoute(config.caddy.adminApi, tenant.name)
+    .removeRoute(config.caddy.adminApi, tenant.name, config.instance)
     .andThen(() =>
       caddy.addRoute(
         config.caddy.adminApi,
@@ -50,6 +50,7 @@ export function repairCaddyRoute(
         config.caddy.domain,
         tenant.ipAddress,
         9000,
+        config.instance,
       ),
     )
     .map(
@@ -1,5 +1,6 @@
 import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
 import { errAsync, okAsync } from "neverthrow";
+import * as secrets from "../commands/secrets.js";
 import * as loader from "../config/loader.js";
 import * as exec from "../system/exec.js";
 import * as fc from "../system/firecracker.js";
@@ -73,6 +74,9 @@ describe("repairVmProcess", () => {
       addNetworkInterface: spyOn(fc, "addNetworkInterface").mockReturnValue(
         okAsync(undefined) as never,
       ),
+      addBalloon: spyOn(fc, "addBalloon").mockReturnValue(
+        okAsync(undefined) as never,
+      ),
       startInstance: spyOn(fc, "startInstance").mockReturnValue(
         okAsync(undefined) as never,
       ),
@@ -111,12 +115,57 @@ describe("repairVmProcess", () => {
     expect(s.setBootSource).toHaveBeenCalledTimes(1);
     expect(s.addDrive).toHaveBeenCalledTimes(2);
     expect(s.addNetworkInterface).toHaveBeenCalledTimes(1);
+    expect(s.addBalloon).toHaveBeenCalledTimes(1);
     expect(s.startInstance).toHaveBeenCalledTimes(1);
     expect(s.waitForAgent).toHaveBeenCalledTimes(1);
     expect(s.injectSecrets).toHaveBeenCalledTimes(1);
     expect(s.saveRegistry).toHaveBeenCalledTimes(1);
   });
 
+  test("drops a diff snapshot base left by the previous VM", async () => {
+    const tenant = makeTenant({
+      vmPid: 12345,
+      snapshotBase: {
+        dir: "/var/lib/lobsterd/snapshots/test-tenant",
+        vmPid: 12345,
+      },
+    });
+    const config = makeConfig();
+    const registry = makeRegistry([tenant]);
+
+    await unwrapOk(repairVmProcess(tenant, config, registry));
+
+    expect(s.execUnchecked).toHaveBeenCalledWith([
+      "rm",
+      "-rf",
+      "/var/lib/lobsterd/snapshots/test-tenant",
+    ]);
+    expect(tenant.snapshotBase).toBeUndefined();
+  });
+
+  test("still repairs the VM when stored secrets can't be injected", async () => {
+    const injectStoredSecrets = spyOn(
+      secrets,
+      "injectStoredSecrets",
+    ).mockReturnValue(
+      errAsync<void, LobsterError>({
+        code: "CRYPTO_FAILED",
+        message: "Host key missing",
+      }) as never,
+    );
+    const tenant = makeTenant({ vmPid: 12345 });
+
+    const result = await unwrapOk(
+      repairVmProcess(tenant, makeConfig(), makeRegistry([tenant])),
+    );
+    injectStoredSecrets.mockRestore();
+
+    expect(result.fixed).toBe(true);
+    expect(result.actions).toContain(
+      "Failed to inject secrets: Host key missing",
+    );
+  });
+
   test("returns fixed: false on startInstance failure", async () => {
     s.startInstance.mockReturnValue(
       errAsync<void, LobsterError>({
@@ -177,6 +226,25 @@ describe("repairVmResponsive", () => {
     expect(result.actions).toContain("Ensured gateway is running");
   });
 
+  test("pushes stored secrets before ensuring the gateway", async () => {
+    s.injectStoredSecrets = spyOn(
+      secrets,
+      "injectStoredSecrets",
+    ).mockReturnValue(
+      errAsync({ code: "CRYPTO_FAILED", message: "bad key" }) as never,
+    );
+    s.ensureGateway = spyOn(vsock, "ensureGateway").mockReturnValue(
+      okAsync(undefined) as never,
+    );
+
+    const result = await unwrapOk(
+      repairVmResponsive(makeTenant(), makeConfig()),
+    );
+
+    expect(s.injectStoredSecrets).toHaveBeenCalledTimes(1);
+    expect(result.fixed).toBe(true);
+  });
+
   test("returns fixed: false when ensureGateway fails", async () => {
     s.ensureGateway = spyOn(vsock, "ensureGateway").mockReturnValue(
       errAsync<void, LobsterError>({
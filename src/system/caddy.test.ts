@@ -108,6 +108,17 @@ describe("removeRoute", () => {
     const result = await removeRoute(ADMIN, "gone");
     expect(result.isOk()).toBe(true);
   });
+
+  test("only touches the routes of its own instance", async () => {
+    fetchSpy.mockResolvedValueOnce(okResponse());
+    fetchSpy.mockResolvedValueOnce(okResponse());
+
+    const result = await removeRoute(ADMIN, "myapp", "b");
+    expect(result.isOk()).toBe(true);
+
+    expect(callAt(0).url).toBe(`${ADMIN}/id/lobsterb-myapp-ws`);
+    expect(callAt(1).url).toBe(`${ADMIN}/id/lobsterb-myapp`);
+  });
 });
 
 describe("listRoutes", () => {
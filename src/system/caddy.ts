@@ -32,13 +32,20 @@ function caddyApi(
   );
 }
 
+/** Caddy `@id` of a tenant's HTTP route; the WebSocket route appends `-ws`. */
+export function routeId(tenantName: string, instance?: string): string {
+  return `lobster${instance ?? ""}-${tenantName}`;
+}
+
 export function addRoute(
   adminApi: string,
   tenantName: string,
   domain: string,
   guestIp: string,
   guestPort: number,
+  instance?: string,
 ): ResultAsync<void, LobsterError> {
+  const id = routeId(tenantName, instance);
   const host = `${tenantName}.${domain}`;
   const upstream = { dial: `${guestIp}:${guestPort}` };
   const transport = { protocol: "http", dial_timeout: "3s" };
@@ -47,7 +54,7 @@ export function addRoute(
   // WebSocket route must come first — matches requests with Connection: Upgrade
   // and proxies without setting Connection: close (which would break the upgrade).
   const wsRoute = {
-    "@id": `lobster-${tenantName}-ws`,
+    "@id": `${id}-ws`,
     match: [{ host: [host], header: { Connection: ["*Upgrade*"] } }],
     handle: [
       {
@@ -63,7 +70,7 @@ export function addRoute(
   // upstream connections, which would be counted as active by the guest
   // agent and block auto-suspend.
   const httpRoute = {
-    "@id": `lobster-${tenantName}`,
+    "@id": id,
     match: [{ host: [host] }],
     handle: [
       {
@@ -87,14 +94,14 @@ export function addRoute(
 export function removeRoute(
   adminApi: string,
   tenantName: string,
+  instance?: string,
 ): ResultAsync<void, LobsterError> {
+  const id = routeId(tenantName, instance);
   const deleteOne = (id: string) =>
     caddyApi(adminApi, "DELETE", `/id/${id}`)
       .map(() => undefined)
       .orElse(() => okAsync(undefined));
-  return deleteOne(`lobster-${tenantName}-ws`).andThen(() =>
-    deleteOne(`lobster-${tenantName}`),
-  );
+  return deleteOne(`${id}-ws`).andThen(() => deleteOne(id));
 }
 
 export function listRoutes(
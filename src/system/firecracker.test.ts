@@ -12,6 +12,8 @@ const {
   resumeVm,
   createSnapshot,
   loadSnapshot,
+  updateBalloon,
+  getBalloonStats,
 } = await import("./firecracker.js");
 
 afterEach(() => {
@@ -189,6 +191,13 @@ describe("createSnapshot", () => {
     expect(body.mem_file_path).toBe("/mem.bin");
   });
 
+  test("can take a Diff snapshot", async () => {
+    fetchSpy.mockResolvedValueOnce(okResponse());
+
+    await createSnapshot("/tmp/fc.sock", "/snap.bin", "/mem.diff", "Diff");
+    expect(lastBody().snapshot_type).toBe("Diff");
+  });
+
   test("returns SNAPSHOT_FAILED on error", async () => {
     fetchSpy.mockResolvedValueOnce(errResponse(500, "snap err"));
 
@@ -213,6 +222,16 @@ describe("loadSnapshot", () => {
     expect(body.snapshot_path).toBe("/snap.bin");
     expect(body.mem_file_path).toBe("/mem.bin");
     expect(body.resume_vm).toBe(true);
+    expect(body.track_dirty_pages).toBeUndefined();
+  });
+
+  test("enables dirty-page tracking on request", async () => {
+    fetchSpy.mockResolvedValueOnce(okResponse());
+
+    await loadSnapshot("/tmp/fc.sock", "/snap.bin", "/mem.bin", {
+      trackDirtyPages: true,
+    });
+    expect(lastBody().track_dirty_pages).toBe(true);
   });
 
   test("returns SNAPSHOT_FAILED on error", async () => {
@@ -223,3 +242,49 @@ describe("loadSnapshot", () => {
     expect(result._unsafeUnwrapErr().code).toBe("SNAPSHOT_FAILED");
   });
 });
+
+describe("updateBalloon", () => {
+  test("sends PATCH /balloon with amount_mib", async () => {
+    fetchSpy.mockResolvedValueOnce(okResponse());
+
+    const result = await updateBalloon("/tmp/fc.sock", 512);
+    expect(result.isOk()).toBe(true);
+
+    const { url, init } = lastFetchCall();
+    expect(url).toBe("http://localhost/balloon");
+    expect(init.method).toBe("PATCH");
+    expect(lastBody()).toEqual({ amount_mib: 512 });
+  });
+
+  test("returns BALLOON_FAILED when no balloon device is attached", async () => {
+    fetchSpy.mockResolvedValueOnce(errResponse(400, "balloon not found"));
+
+    const result = await updateBalloon("/tmp/fc.sock", 512);
+    expect(result._unsafeUnwrapErr().code).toBe("BALLOON_FAILED");
+  });
+});
+
+describe("getBalloonStats", () => {
+  test("maps Firecracker's snake_case statistics", async () => {
+    fetchSpy.mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          target_mib: 512,
+          actual_mib: 300,
+          available_memory: 1024,
+        }),
+        { status: 200 },
+      ),
+    );
+
+    const result = await getBalloonStats("/tmp/fc.sock");
+    expect(result._unsafeUnwrap()).toEqual({
+      targetMib: 512,
+      actualMib: 300,
+      totalMemoryBytes: undefined,
+      availableMemoryBytes: 1024,
+      freeMemoryBytes: undefined,
+    });
+    expect(lastFetchCall().url).toBe("http://localhost/balloon/statistics");
+  });
+});
@@ -1,5 +1,10 @@
 import { ResultAsync } from "neverthrow";
-import type { LobsterError, RateLimiter, TokenBucket } from "../types/index.js";
+import type {
+  BalloonStats,
+  LobsterError,
+  RateLimiter,
+  TokenBucket,
+} from "../types/index.js";
 
 function toFcBucket(bucket: TokenBucket): Record<string, unknown> {
   return {
@@ -93,6 +98,27 @@ export function addDrive(
   );
 }
 
+/**
+ * Update a drive on a running VM. Re-sending `path_on_host` makes Firecracker
+ * re-read the backing file's size and notify the guest of the new capacity.
+ */
+export function updateDrive(
+  socketPath: string,
+  driveId: string,
+  update: { pathOnHost?: string; rateLimiter?: RateLimiter },
+): ResultAsync<void, LobsterError> {
+  const body: Record<string, unknown> = { drive_id: driveId };
+  if (update.pathOnHost) {
+    body.path_on_host = update.pathOnHost;
+  }
+  if (update.rateLimiter) {
+    body.rate_limiter = toFcRateLimiter(update.rateLimiter);
+  }
+  return fcApi(socketPath, "PATCH", `/drives/${driveId}`, body).map(
+    () => undefined,
+  );
+}
+
 export function addVsock(
   socketPath: string,
   guestCid: number,
@@ -125,6 +151,71 @@ export function addNetworkInterface(
   );
 }
 
+/** Swap the rate limiters of a running VM's network interface. */
+export function updateNetworkInterface(
+  socketPath: string,
+  ifaceId: string,
+  rxRateLimiter?: RateLimiter,
+  txRateLimiter?: RateLimiter,
+): ResultAsync<void, LobsterError> {
+  const body: Record<string, unknown> = { iface_id: ifaceId };
+  if (rxRateLimiter) {
+    body.rx_rate_limiter = toFcRateLimiter(rxRateLimiter);
+  }
+  if (txRateLimiter) {
+    body.tx_rate_limiter = toFcRateLimiter(txRateLimiter);
+  }
+  return fcApi(socketPath, "PATCH", `/network-interfaces/${ifaceId}`, body).map(
+    () => undefined,
+  );
+}
+
+/** Attach a balloon device. Must happen before InstanceStart. */
+export function addBalloon(
+  socketPath: string,
+  config: { amountMib: number; deflateOnOom: boolean; statsIntervalS: number },
+): ResultAsync<void, LobsterError> {
+  return fcApi(socketPath, "PUT", "/balloon", {
+    amount_mib: config.amountMib,
+    deflate_on_oom: config.deflateOnOom,
+    stats_polling_interval_s: config.statsIntervalS,
+  }).map(() => undefined);
+}
+
+export function updateBalloon(
+  socketPath: string,
+  amountMib: number,
+): ResultAsync<void, LobsterError> {
+  return fcApi(socketPath, "PATCH", "/balloon", {
+    amount_mib: amountMib,
+  })
+    .map(() => undefined)
+    .mapErr((e) => ({
+      ...e,
+      code: "BALLOON_FAILED" as const,
+    }));
+}
+
+export function getBalloonStats(
+  socketPath: string,
+): ResultAsync<BalloonStats, LobsterError> {
+  return fcApi(socketPath, "GET", "/balloon/statistics")
+    .map((raw) => {
+      const data = raw as Record<string, number | undefined>;
+      return {
+        targetMib: data.target_mib ?? 0,
+        actualMib: data.actual_mib ?? 0,
+        totalMemoryBytes: data.total_memory,
+        availableMemoryBytes: data.available_memory,
+        freeMemoryBytes: data.free_memory,
+      };
+    })
+    .mapErr((e) => ({
+      ...e,
+      code: "BALLOON_FAILED" as const,
+    }));
+}
+
 export function startInstance(
   socketPath: string,
 ): ResultAsync<void, LobsterError> {
@@ -153,13 +244,18 @@ export function resumeVm(socketPath: string): ResultAsync<void, LobsterError> {
   }).map(() => undefined);
 }
 
+/**
+ * "Diff" writes only the pages dirtied since the snapshot was loaded, as a
+ * sparse file; the VM must have been loaded with dirty-page tracking.
+ */
 export function createSnapshot(
   socketPath: string,
   snapshotPath: string,
   memFilePath: string,
+  snapshotType: "Full" | "Diff" = "Full",
 ): ResultAsync<void, LobsterError> {
   return fcApi(socketPath, "PUT", "/snapshot/create", {
-    snapshot_type: "Full",
+    snapshot_type: snapshotType,
     snapshot_path: snapshotPath,
     mem_file_path: memFilePath,
   })
@@ -174,11 +270,13 @@ export function loadSnapshot(
   socketPath: string,
   snapshotPath: string,
   memFilePath: string,
+  opts: { trackDirtyPages?: boolean } = {},
 ): ResultAsync<void, LobsterError> {
   return fcApi(socketPath, "PUT", "/snapshot/load", {
     snapshot_path: snapshotPath,
     mem_file_path: memFilePath,
     resume_vm: true,
+    ...(opts.trackDirtyPages ? { track_dirty_pages: true } : {}),
   })
     .map(() => undefined)
     .mapErr((e) => ({
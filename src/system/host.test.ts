@@ -0,0 +1,21 @@
+import { describe, expect, test } from "bun:test";
+import { parseMemInfo } from "./host.js";
+
+describe("parseMemInfo", () => {
+  test("reads MemTotal and MemAvailable in MiB", () => {
+    const info = parseMemInfo(
+      [
+        "MemTotal:       16384000 kB",
+        "MemFree:          512000 kB",
+        "MemAvailable:    2048000 kB",
+        "Buffers:           10240 kB",
+      ].join("\n"),
+    );
+    expect(info).toEqual({ totalMb: 16000, availableMb: 2000 });
+  });
+
+  test("falls back to MemFree on kernels without MemAvailable", () => {
+    const info = parseMemInfo("MemTotal:  1048576 kB\nMemFree:    524288 kB\n");
+    expect(info.availableMb).toBe(512);
+  });
+});
@@ -0,0 +1,65 @@
+import { statfsSync } from "node:fs";
+import { ResultAsync } from "neverthrow";
+import type { LobsterError } from "../types/index.js";
+
+export interface HostMemInfo {
+  totalMb: number;
+  /** MemAvailable — free memory plus what the kernel can reclaim cheaply */
+  availableMb: number;
+}
+
+/** Parse the kB fields of /proc/meminfo that lobsterd cares about. */
+export function parseMemInfo(text: string): HostMemInfo {
+  const fields = new Map<string, number>();
+  for (const line of text.split("\n")) {
+    const match = line.match(/^(\w+):\s+(\d+)\s*kB/);
+    if (match) {
+      fields.set(match[1], Number(match[2]));
+    }
+  }
+  const totalKb = fields.get("MemTotal") ?? 0;
+  const availableKb = fields.get("MemAvailable") ?? fields.get("MemFree") ?? 0;
+  return {
+    totalMb: Math.floor(totalKb / 1024),
+    availableMb: Math.floor(availableKb / 1024),
+  };
+}
+
+export interface HostDiskInfo {
+  totalMb: number;
+  /** Space available to unprivileged writers (statfs f_bavail) */
+  freeMb: number;
+}
+
+export function hostDiskInfo(
+  path: string,
+): ResultAsync<HostDiskInfo, LobsterError> {
+  return ResultAsync.fromPromise(
+    (async () => {
+      const stat = statfsSync(path);
+      const toMb = (blocks: number) =>
+        Math.floor((blocks * stat.bsize) / (1024 * 1024));
+      return { totalMb: toMb(stat.blocks), freeMb: toMb(stat.bavail) };
+    })(),
+    (e) => ({
+      code: "EXEC_FAILED" as const,
+      message: `Failed to stat ${path}: ${e instanceof Error ? e.message : String(e)}`,
+      cause: e,
+    }),
+  );
+}
+
+export function hostMemInfo(
+  path = "/proc/meminfo",
+): ResultAsync<HostMemInfo, LobsterError> {
+  return ResultAsync.fromPromise(
+    Bun.file(path)
+      .text()
+      .then((text) => parseMemInfo(text)),
+    (e) => ({
+      code: "EXEC_FAILED" as const,
+      message: `Failed to read ${path}: ${e instanceof Error ? e.message : String(e)}`,
+      cause: e,
+    }),
+  );
+}
@@ -1,4 +1,5 @@
 import type { ResultAsync } from "neverthrow";
+import { REBASE_SNAP_PATH } from "../config/defaults.js";
 import type { LobsterError } from "../types/index.js";
 import { exec } from "./exec.js";
 
@@ -20,6 +21,43 @@ export function deleteOverlay(path: string): ResultAsync<void, LobsterError> {
   return exec(["rm", "-f", path]).map(() => undefined);
 }
 
+export function copyOverlay(
+  src: string,
+  dest: string,
+): ResultAsync<void, LobsterError> {
+  return exec(["cp", "--sparse=always", src, dest], { timeout: 120_000 }).map(
+    () => undefined,
+  );
+}
+
+/** Move a pre-populated overlay image into place (same filesystem → atomic rename). */
+export function moveOverlay(
+  src: string,
+  dest: string,
+): ResultAsync<void, LobsterError> {
+  return exec(["mv", "-f", src, dest], { timeout: 120_000 }).map(
+    () => undefined,
+  );
+}
+
+/** Apparent (not allocated) size of an overlay image in MiB. */
+export function overlaySizeMb(path: string): ResultAsync<number, LobsterError> {
+  return exec(["stat", "-c", "%s", path]).map((r) =>
+    Math.floor(Number(r.stdout.trim()) / (1024 * 1024)),
+  );
+}
+
+/**
+ * Extend the backing file only, leaving the filesystem alone — for overlays
+ * a guest has mounted, which must grow the filesystem itself.
+ */
+export function extendOverlay(
+  path: string,
+  newSizeMb: number,
+): ResultAsync<void, LobsterError> {
+  return exec(["truncate", "-s", `${newSizeMb}M`, path]).map(() => undefined);
+}
+
 export function resizeOverlay(
   path: string,
   newSizeMb: number,
@@ -31,3 +69,23 @@ export function resizeOverlay(
     .andThen(() => exec(["resize2fs", path]))
     .map(() => undefined);
 }
+
+/** Write the pages present in a sparse Diff memory file onto its base. */
+export function mergeDiffSnapshot(
+  basePath: string,
+  diffPath: string,
+): ResultAsync<void, LobsterError> {
+  return exec([
+    REBASE_SNAP_PATH,
+    "--base-file",
+    basePath,
+    "--diff-file",
+    diffPath,
+  ])
+    .map(() => undefined)
+    .mapErr((e) => ({
+      ...e,
+      code: "SNAPSHOT_FAILED" as const,
+      message: `Failed to merge diff snapshot into ${basePath}: ${e.message}`,
+    }));
+}
@@ -55,6 +55,18 @@ export function cleanupChroot(
     .orElse(() => okAsync(undefined));
 }
 
+/** Cgroup limits for a VM: RAM plus 128MB of VMM overhead, one core per vCPU. */
+export function cgroupLimits(
+  vcpuCount: number,
+  memSizeMb: number,
+): { memLimitBytes: number; cpuQuotaUs: number; cpuPeriodUs: number } {
+  return {
+    memLimitBytes: (memSizeMb + 128) * 1024 * 1024,
+    cpuQuotaUs: vcpuCount * 100_000,
+    cpuPeriodUs: 100_000,
+  };
+}
+
 /** Build the jailer command-line arguments. */
 export function buildJailerArgs(
   jailerConfig: JailerConfig,
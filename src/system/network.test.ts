@@ -1,5 +1,5 @@
 import { afterEach, describe, expect, mock, test } from "bun:test";
-import { okAsync, type ResultAsync } from "neverthrow";
+import { errAsync, okAsync, type ResultAsync } from "neverthrow";
 import type { ExecResult, LobsterError } from "../types/index.js";
 
 const execMock = mock();
@@ -84,6 +84,26 @@ describe("createTap", () => {
       "net.ipv6.conf.tap0.disable_ipv6=1",
     ]);
   });
+
+  test("deletes the TAP again when setting it up fails", async () => {
+    allOk(1);
+    execMock.mockReturnValueOnce(
+      errAsync({ code: "EXEC_FAILED", message: "no addr" }),
+    );
+    allOk(1);
+    const result = await createTap("tap0", "10.0.0.1", "10.0.0.2");
+    expect(result._unsafeUnwrapErr().code).toBe("TAP_CREATE_FAILED");
+    expect(execMock.mock.calls[2][0]).toEqual(["ip", "link", "delete", "tap0"]);
+  });
+
+  test("leaves a TAP alone that it couldn't add", async () => {
+    execMock.mockReturnValueOnce(
+      errAsync({ code: "EXEC_FAILED", message: "Device or resource busy" }),
+    );
+    const result = await createTap("tap0", "10.0.0.1", "10.0.0.2");
+    expect(result._unsafeUnwrapErr().code).toBe("TAP_CREATE_FAILED");
+    expect(execMock).toHaveBeenCalledTimes(1);
+  });
 });
 
 // ── deleteTap ────────────────────────────────────────────────────────────────
@@ -1,4 +1,4 @@
-import { okAsync, type ResultAsync } from "neverthrow";
+import { errAsync, okAsync, type ResultAsync } from "neverthrow";
 import type { LobsterError } from "../types/index.js";
 import { exec, execUnchecked } from "./exec.js";
 
@@ -70,21 +70,23 @@ export function createTap(
   _guestIp: string,
 ): ResultAsync<void, LobsterError> {
   const cidr = `${hostIp}/30`;
-  return (
-    exec(["ip", "tuntap", "add", "dev", name, "mode", "tap"])
-      .andThen(() => exec(["ip", "addr", "add", cidr, "dev", name]))
-      .andThen(() => exec(["ip", "link", "set", name, "up"]))
-      // Disable IPv6 on the TAP device to prevent guest IPv6 escape
-      .andThen(() =>
-        exec(["sysctl", "-w", `net.ipv6.conf.${name}.disable_ipv6=1`]),
-      )
-      .map(() => undefined)
-      .mapErr((e) => ({
-        ...e,
-        code: "TAP_CREATE_FAILED" as const,
-        message: `Failed to create TAP ${name}: ${e.message}`,
-      }))
-  );
+  return exec(["ip", "tuntap", "add", "dev", name, "mode", "tap"])
+    .andThen(() =>
+      exec(["ip", "addr", "add", cidr, "dev", name])
+        .andThen(() => exec(["ip", "link", "set", name, "up"]))
+        // Disable IPv6 on the TAP device to prevent guest IPv6 escape
+        .andThen(() =>
+          exec(["sysctl", "-w", `net.ipv6.conf.${name}.disable_ipv6=1`]),
+        )
+        // The device is ours from here on, so don't leave it half set up
+        .orElse((e) => deleteTap(name).andThen(() => errAsync(e))),
+    )
+    .map(() => undefined)
+    .mapErr((e) => ({
+      ...e,
+      code: "TAP_CREATE_FAILED" as const,
+      message: `Failed to create TAP ${name}: ${e.message}`,
+    }));
 }
 
 export function deleteTap(name: string): ResultAsync<void, LobsterError> {
@@ -2,7 +2,13 @@ import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
 import { errAsync, okAsync } from "neverthrow";
 import type { ExecResult, LobsterError } from "../types/index.js";
 import * as execMod from "./exec.js";
-import { generateKeypair, getPrivateKeyPath, removeKeypair } from "./ssh.js";
+import {
+  generateKeypair,
+  getPrivateKeyPath,
+  removeKeypair,
+  stashKeypair,
+  unstashKeypair,
+} from "./ssh.js";
 
 describe("getPrivateKeyPath", () => {
   test("returns correct path for tenant", () => {
@@ -75,3 +81,37 @@ describe("removeKeypair", () => {
     expect(result.isOk()).toBe(true);
   });
 });
+
+describe("stashKeypair / unstashKeypair", () => {
+  let execSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    execSpy = spyOn(execMod, "exec").mockReturnValue(
+      okAsync({ exitCode: 0, stdout: "", stderr: "" }),
+    );
+  });
+
+  afterEach(() => {
+    execSpy.mockRestore();
+  });
+
+  test("stash moves the key dir to the destination", async () => {
+    const result = await stashKeypair("my-tenant", "/trash/x/ssh");
+    expect(result.isOk()).toBe(true);
+    expect(execSpy).toHaveBeenCalledWith([
+      "mv",
+      "/var/lib/lobsterd/ssh/my-tenant",
+      "/trash/x/ssh",
+    ]);
+  });
+
+  test("unstash moves the key dir back into place", async () => {
+    const result = await unstashKeypair("my-tenant", "/trash/x/ssh");
+    expect(result.isOk()).toBe(true);
+    expect(execSpy).toHaveBeenLastCalledWith([
+      "mv",
+      "/trash/x/ssh",
+      "/var/lib/lobsterd/ssh/my-tenant",
+    ]);
+  });
+});
@@ -1,17 +1,16 @@
 import { okAsync, type ResultAsync } from "neverthrow";
+import { SSH_DIR } from "../config/defaults.js";
 import type { LobsterError } from "../types/index.js";
 import { exec } from "./exec.js";
 
-const SSH_BASE_DIR = "/var/lib/lobsterd/ssh";
-
 export function getPrivateKeyPath(tenantName: string): string {
-  return `${SSH_BASE_DIR}/${tenantName}/id_ed25519`;
+  return `${SSH_DIR}/${tenantName}/id_ed25519`;
 }
 
 export function generateKeypair(
   tenantName: string,
 ): ResultAsync<string, LobsterError> {
-  const keyDir = `${SSH_BASE_DIR}/${tenantName}`;
+  const keyDir = `${SSH_DIR}/${tenantName}`;
   const keyPath = `${keyDir}/id_ed25519`;
 
   return exec(["mkdir", "-p", keyDir])
@@ -41,8 +40,36 @@ export function generateKeypair(
 export function removeKeypair(
   tenantName: string,
 ): ResultAsync<void, LobsterError> {
-  const keyDir = `${SSH_BASE_DIR}/${tenantName}`;
+  const keyDir = `${SSH_DIR}/${tenantName}`;
   return exec(["rm", "-rf", keyDir])
     .map(() => undefined)
     .orElse(() => okAsync(undefined));
 }
+
+/** Move a tenant's key dir to `dest` (e.g. into the trash) */
+export function stashKeypair(
+  tenantName: string,
+  dest: string,
+): ResultAsync<void, LobsterError> {
+  return exec(["mv", `${SSH_DIR}/${tenantName}`, dest]).map(() => undefined);
+}
+
+/** Copy a tenant's key dir to `dest`, leaving it in place (e.g. for export) */
+export function copyKeypair(
+  tenantName: string,
+  dest: string,
+): ResultAsync<void, LobsterError> {
+  return exec(["cp", "-a", `${SSH_DIR}/${tenantName}`, dest]).map(
+    () => undefined,
+  );
+}
+
+/** Move a key dir stashed with stashKeypair back into place */
+export function unstashKeypair(
+  tenantName: string,
+  src: string,
+): ResultAsync<void, LobsterError> {
+  return exec(["mkdir", "-p", SSH_DIR])
+    .andThen(() => exec(["mv", src, `${SSH_DIR}/${tenantName}`]))
+    .map(() => undefined);
+}
@@ -35,6 +35,16 @@ describe("generateWatchUnit", () => {
   test("has Restart=on-failure", () => {
     expect(unit).toContain("Restart=on-failure");
   });
+
+  test("loads the optional env file", () => {
+    expect(unit).toContain("EnvironmentFile=-/etc/lobsterd/env");
+  });
+
+  test("pins the config and data dirs", () => {
+    expect(unit).toContain("WorkingDirectory=/var/lib/lobsterd\n");
+    expect(unit).toContain("Environment=LOBSTERD_CONFIG_DIR=/etc/lobsterd\n");
+    expect(unit).toContain("Environment=LOBSTERD_BASE_DIR=/var/lib/lobsterd\n");
+  });
 });
 
 // ── Mocked tests for installService, enableAndStart, stopAndRemove ───────────
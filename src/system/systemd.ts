@@ -1,5 +1,13 @@
 import { chmodSync } from "node:fs";
 import { ResultAsync } from "neverthrow";
+import {
+  BASE_DIR_ENV,
+  CONFIG_DIR,
+  CONFIG_DIR_ENV,
+  ENV_FILE_PATH,
+  LOBSTERD_BASE,
+  WATCH_SERVICE,
+} from "../config/defaults.js";
 import type { LobsterError } from "../types/index.js";
 import { exec, execUnchecked } from "./exec.js";
 
@@ -16,10 +24,13 @@ Type=simple
 ExecStart=${bunPath} run ${entryPoint} watch --daemon
 Restart=on-failure
 RestartSec=5
-WorkingDirectory=/var/lib/lobsterd
+WorkingDirectory=${LOBSTERD_BASE}
+Environment=${CONFIG_DIR_ENV}=${CONFIG_DIR}
+Environment=${BASE_DIR_ENV}=${LOBSTERD_BASE}
+EnvironmentFile=-${ENV_FILE_PATH}
 StandardOutput=journal
 StandardError=journal
-SyslogIdentifier=lobsterd-watch
+SyslogIdentifier=${WATCH_SERVICE}
 
 [Install]
 WantedBy=multi-user.target
@@ -3,6 +3,7 @@ import { createServer, type Server } from "node:net";
 import {
   acquireHold,
   ensureGateway,
+  freezeGuestFs,
   getActiveConnections,
   getCronSchedules,
   getHeartbeatSchedule,
@@ -11,8 +12,11 @@ import {
   healthPing,
   injectSecrets,
   pokeCron,
+  rekeyAgent,
   releaseHold,
+  resizeGuestFs,
   setGuestTime,
+  thawGuestFs,
   waitForAgent,
 } from "./vsock.js";
 
@@ -146,6 +150,54 @@ describe("setGuestTime", () => {
   });
 });
 
+describe("resizeGuestFs", () => {
+  test("returns Ok when agent confirms with ok:true", async () => {
+    handler = () => JSON.stringify({ ok: true });
+    const result = await resizeGuestFs("127.0.0.1", port, "test-token");
+    expect(result.isOk()).toBe(true);
+  });
+
+  test("returns Err carrying the agent's error", async () => {
+    handler = () => JSON.stringify({ error: "resize2fs: Bad magic number" });
+    const result = await resizeGuestFs("127.0.0.1", port, "test-token");
+    expect(result.isErr()).toBe(true);
+    expect(result._unsafeUnwrapErr().message).toContain("Bad magic number");
+  });
+});
+
+describe("freezeGuestFs", () => {
+  test("sends the ttl and returns Ok on ok:true", async () => {
+    let sent: Record<string, unknown> = {};
+    handler = (data) => {
+      sent = JSON.parse(data);
+      return JSON.stringify({ ok: true });
+    };
+    const result = await freezeGuestFs("127.0.0.1", port, "test-token", 5000);
+    expect(result.isOk()).toBe(true);
+    expect(sent).toMatchObject({ type: "fs-freeze", ttlMs: 5000 });
+  });
+
+  test("returns Err when the agent doesn't know the message", async () => {
+    handler = () =>
+      JSON.stringify({ error: "Unknown message type: fs-freeze" });
+    const result = await freezeGuestFs("127.0.0.1", port, "test-token", 5000);
+    expect(result._unsafeUnwrapErr().message).toContain("Unknown message");
+  });
+});
+
+describe("thawGuestFs", () => {
+  test("reports whether the filesystem was still frozen", async () => {
+    handler = () => JSON.stringify({ ok: true, wasFrozen: true });
+    expect(
+      (await thawGuestFs("127.0.0.1", port, "test-token"))._unsafeUnwrap(),
+    ).toBe(true);
+    handler = () => JSON.stringify({ ok: true, wasFrozen: false });
+    expect(
+      (await thawGuestFs("127.0.0.1", port, "test-token"))._unsafeUnwrap(),
+    ).toBe(false);
+  });
+});
+
 describe("pokeCron", () => {
   test("returns Ok when response has no error field", async () => {
     handler = () => JSON.stringify({});
@@ -250,3 +302,31 @@ describe("waitForAgent", () => {
     expect(result.isOk()).toBe(true);
   });
 });
+
+describe("rekeyAgent", () => {
+  test("sends the new token under the current one", async () => {
+    let received: Record<string, unknown> = {};
+    handler = (data) => {
+      received = JSON.parse(data);
+      return JSON.stringify({ ok: true });
+    };
+    const result = await rekeyAgent(
+      "127.0.0.1",
+      port,
+      "old-token",
+      "new-token",
+    );
+    expect(result.isOk()).toBe(true);
+    expect(received).toEqual({
+      type: "rekey",
+      token: "old-token",
+      newToken: "new-token",
+    });
+  });
+
+  test("fails when the agent rejects the token", async () => {
+    handler = () => JSON.stringify({ ok: false, error: "token too short" });
+    const result = await rekeyAgent("127.0.0.1", port, "old-token", "x");
+    expect(result._unsafeUnwrapErr().message).toContain("token too short");
+  });
+});
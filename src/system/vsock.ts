@@ -234,6 +234,118 @@ export function setGuestTime(
   );
 }
 
+/** Ask the guest agent to grow the overlay filesystem to fill its device. */
+export function resizeGuestFs(
+  guestIp: string,
+  port: number,
+  agentToken: string,
+): ResultAsync<void, LobsterError> {
+  const payload = JSON.stringify({ type: "resize-fs", token: agentToken });
+  return ResultAsync.fromPromise(
+    (async () => {
+      const response = await tcpSend(guestIp, port, `${payload}\n`, 60_000);
+      const data = JSON.parse(response.trim());
+      if (!data.ok) {
+        throw new Error(data.error ?? "resize-fs rejected");
+      }
+    })(),
+    (e) => ({
+      code: "VSOCK_CONNECT_FAILED" as const,
+      message: `Failed to resize guest filesystem: ${e instanceof Error ? e.message : String(e)}`,
+      cause: e,
+    }),
+  );
+}
+
+/**
+ * Ask the guest agent to sync and fsfreeze the overlay filesystem. The agent
+ * thaws it on its own after `ttlMs` should `thawGuestFs` never arrive.
+ */
+export function freezeGuestFs(
+  guestIp: string,
+  port: number,
+  agentToken: string,
+  ttlMs: number,
+): ResultAsync<void, LobsterError> {
+  const payload = JSON.stringify({
+    type: "fs-freeze",
+    token: agentToken,
+    ttlMs,
+  });
+  return ResultAsync.fromPromise(
+    (async () => {
+      const response = await tcpSend(guestIp, port, `${payload}\n`, 15_000);
+      const data = JSON.parse(response.trim());
+      if (!data.ok) {
+        throw new Error(data.error ?? "fs-freeze rejected");
+      }
+    })(),
+    (e) => ({
+      code: "VSOCK_CONNECT_FAILED" as const,
+      message: `Failed to freeze guest filesystem: ${e instanceof Error ? e.message : String(e)}`,
+      cause: e,
+    }),
+  );
+}
+
+/**
+ * Thaw the overlay filesystem. Resolves to false if the agent had already
+ * thawed it because the freeze outlived its ttl.
+ */
+export function thawGuestFs(
+  guestIp: string,
+  port: number,
+  agentToken: string,
+): ResultAsync<boolean, LobsterError> {
+  const payload = JSON.stringify({ type: "fs-thaw", token: agentToken });
+  return ResultAsync.fromPromise(
+    (async () => {
+      const response = await tcpSend(guestIp, port, `${payload}\n`, 15_000);
+      const data = JSON.parse(response.trim());
+      if (!data.ok) {
+        throw new Error(data.error ?? "fs-thaw rejected");
+      }
+      return data.wasFrozen === true;
+    })(),
+    (e) => ({
+      code: "VSOCK_CONNECT_FAILED" as const,
+      message: `Failed to thaw guest filesystem: ${e instanceof Error ? e.message : String(e)}`,
+      cause: e,
+    }),
+  );
+}
+
+/**
+ * Switch the guest agent over to `newToken`. The agent keeps it across its
+ * own restarts; a reboot picks the new token up from the boot args.
+ */
+export function rekeyAgent(
+  guestIp: string,
+  port: number,
+  agentToken: string,
+  newToken: string,
+): ResultAsync<void, LobsterError> {
+  const payload = JSON.stringify({
+    type: "rekey",
+    token: agentToken,
+    newToken,
+  });
+  return ResultAsync.fromPromise(
+    (async () => {
+      const response = await tcpSend(guestIp, port, `${payload}\n`, 5000);
+      const data = JSON.parse(response.trim());
+      if (!data.ok) {
+        throw new Error(data.error ?? "rekey rejected");
+      }
+    })(),
+    (e) => ({
+      code: "VSOCK_CONNECT_FAILED" as const,
+      message: `Failed to re-key guest agent: ${e instanceof Error ? e.message : String(e)}`,
+      cause: e,
+    }),
+  );
+}
+
 export function pokeCron(
   guestIp: string,
   port: number,
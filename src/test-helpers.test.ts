@@ -76,9 +76,9 @@ describe("makeRegistry", () => {
   });
 
   test("applies overrides", () => {
-    const r = makeRegistry(undefined, { nextCid: 50 });
-    expect(r.nextCid).toBe(50);
-    expect(r.tenants).toEqual([]);
+    const t = makeTenant();
+    const r = makeRegistry(undefined, { tenants: [t] });
+    expect(r.tenants).toEqual([t]);
   });
 });
 
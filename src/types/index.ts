@@ -1,6 +1,6 @@
 // ── Tenant ──────────────────────────────────────────────────────────────────
 
-export type TenantStatus = "active" | "suspended" | "removing";
+export type TenantStatus = "active" | "suspended" | "stopped" | "removing";
 
 export interface CronSchedule {
   kind: "cron" | "every" | "at";
@@ -32,6 +32,29 @@ export interface SuspendInfo {
   wakeReason: "cron" | "heartbeat" | null;
   lastRxBytes: number;
   heartbeatSchedule?: HeartbeatScheduleInfo | null;
+  /** Overlay file was grown while suspended; the guest filesystem grows on resume */
+  pendingFsResize?: boolean;
+  /** The overlay was copied next to the snapshot, making it a rollback point */
+  overlayCaptured?: boolean;
+}
+
+export interface StopInfo {
+  stoppedAt: string;
+  /** TAP/NAT/Caddy route were left in place so `start` can skip recreating them */
+  networkParked: boolean;
+}
+
+export interface TenantResources {
+  vcpuCount: number;
+  memSizeMb: number;
+  diskSizeMb: number;
+}
+
+/** Per-tenant rate-limit overrides, merged over the template/global limiters */
+export interface TenantRateLimits {
+  networkRx?: RateLimiter;
+  networkTx?: RateLimiter;
+  disk?: RateLimiter;
 }
 
 export interface Tenant {
@@ -51,6 +74,25 @@ export interface Tenant {
   jailUid: number;
   agentToken: string;
   suspendInfo: SuspendInfo | null;
+  stopInfo?: StopInfo | null;
+  /** Absent on tenants spawned before per-tenant sizing — see tenantResources() */
+  resources?: TenantResources;
+  /** Name of the config template the tenant was spawned from, if any */
+  template?: string;
+  /** Free-form key/value tags, e.g. from an `apply` manifest */
+  labels?: Record<string, string>;
+  /** Set by `lobsterd throttle` — see tenantConfig() */
+  rateLimits?: TenantRateLimits;
+  /**
+   * Memory file a running VM was resumed from with dirty-page tracking on.
+   * Only the VM with this PID may suspend with a Diff snapshot onto it.
+   */
+  snapshotBase?: SnapshotBase;
+}
+
+export interface SnapshotBase {
+  dir: string;
+  vmPid: number;
 }
 
 // ── Health ───────────────────────────────────────────────────────────────────
@@ -77,7 +119,8 @@ export type WatchState =
   | "DEGRADED"
   | "FAILED"
   | "RECOVERING"
-  | "SUSPENDED";
+  | "SUSPENDED"
+  | "STOPPED";
 
 export interface TenantWatchState {
   state: WatchState;
@@ -119,12 +162,20 @@ export interface FirecrackerConfig {
   networkRxRateLimit?: RateLimiter;
   networkTxRateLimit?: RateLimiter;
   diskRateLimit?: RateLimiter;
+  /**
+   * Resume VMs with dirty-page tracking and suspend them again with Diff
+   * snapshots merged onto the memory file kept from the last suspend
+   */
+  diffSnapshots?: boolean;
 }
 
 export interface NetworkConfig {
   bridgeName: string;
   subnetBase: string;
+  /** Per-tenant subnet mask (each tenant gets a /30) */
   subnetMask: number;
+  /** Prefix of the pool tenant /30s are allocated from (default /16) */
+  poolPrefix?: number;
   gatewayPortStart: number;
 }
 
@@ -149,6 +200,8 @@ export interface OverlayConfig {
   baseDir: string;
   defaultSizeMb: number;
   snapshotRetention: number;
+  /** Longest a running tenant is frozen or paused while `snap` copies its overlay */
+  snapshotFreezeTimeoutMs?: number;
 }
 
 export interface WatchdogConfig {
@@ -181,6 +234,70 @@ export interface OpenclawConfig {
   defaultConfig: OpenclawDefaultConfig;
 }
 
+export interface AutoSuspendPolicy {
+  enabled: boolean;
+  /** Overrides watchdog.idleThresholdMs for tenants using the template */
+  idleThresholdMs?: number;
+}
+
+export interface BackupPolicy {
+  enabled: boolean;
+  /** Overrides backup.schedule for tenants using the template */
+  schedule?: string;
+}
+
+export interface TenantTemplate {
+  resources?: Partial<TenantResources>;
+  networkRxRateLimit?: RateLimiter;
+  networkTxRateLimit?: RateLimiter;
+  diskRateLimit?: RateLimiter;
+  /** Deep-merged over openclaw.defaultConfig */
+  openclaw?: OpenclawDefaultConfig;
+  autoSuspend?: AutoSuspendPolicy;
+  backup?: BackupPolicy;
+}
+
+export interface BalloonConfig {
+  /** Attach a virtio-balloon device when booting VMs */
+  enabled: boolean;
+  deflateOnOom: boolean;
+  statsIntervalS: number;
+  /** Scheduler inflates idle tenants while host MemAvailable is below this */
+  hostLowWatermarkMb: number;
+  /** Guest memory an idle tenant keeps once its balloon is inflated */
+  idleGuestMb: number;
+}
+
+export interface CapacityConfig {
+  /** Guest memory of running tenants may add up to this multiple of host RAM */
+  memOvercommitRatio: number;
+  /** Running tenants' vCPUs may add up to this multiple of host CPUs */
+  vcpuOvercommitRatio: number;
+  /** Overlay sizes (sparse) may add up to this multiple of the overlay filesystem */
+  diskOvercommitRatio: number;
+  /** Host memory kept back for the kernel, Caddy and lobsterd itself */
+  reserveMemMb: number;
+  /** Free space on overlay.baseDir below which no VM is admitted */
+  reserveDiskMb: number;
+}
+
+export interface TrashConfig {
+  /** Days an evicted tenant stays restorable before the watchdog purges it */
+  retentionDays: number;
+}
+
+export interface RollbackConfig {
+  /** Suspend snapshots kept per tenant after resuming from them (0 = none) */
+  retention: number;
+}
+
+export interface BackupConfig {
+  /** Five-field cron expression (host local time) for watchdog snaps */
+  schedule: string;
+  /** Pause between two tenants' snaps when several fall due together */
+  staggerMs: number;
+}
+
 export interface BuoyConfig {
   port: number;
   host: string;
@@ -198,6 +315,26 @@ export interface LobsterdConfig {
   watchdog: WatchdogConfig;
   openclaw: OpenclawConfig;
   buoy?: BuoyConfig;
+  balloon?: BalloonConfig;
+  trash?: TrashConfig;
+  capacity?: CapacityConfig;
+  rollback?: RollbackConfig;
+  backup?: BackupConfig;
+  templates?: Record<string, TenantTemplate>;
+  /** Prefix for TAP devices, VM ids and Caddy route ids (a second instance on the host) */
+  instance?: string;
+}
+
+// ── Balloon ─────────────────────────────────────────────────────────────────
+
+export interface BalloonStats {
+  /** Size the balloon is being driven to */
+  targetMib: number;
+  /** Size the guest has actually given up so far */
+  actualMib: number;
+  totalMemoryBytes?: number;
+  availableMemoryBytes?: number;
+  freeMemoryBytes?: number;
 }
 
 // ── Active Connections ──────────────────────────────────────────────────────
@@ -220,12 +357,138 @@ export interface GuestStats {
 
 export interface TenantRegistry {
   tenants: Tenant[];
-  nextCid: number;
-  nextSubnetIndex: number;
-  nextGatewayPort: number;
-  nextJailUid: number;
 }
 
+// ── Spawn Journal ───────────────────────────────────────────────────────────
+
+/** Side-effecting spawn steps, in the order runSpawn performs them */
+export type SpawnStep =
+  | "overlay"
+  | "tap"
+  | "nat"
+  | "isolation"
+  | "lockdown"
+  | "vm"
+  | "ssh"
+  | "caddy"
+  | "registry";
+
+/**
+ * On-disk record of an in-flight spawn. A step is appended before it runs,
+ * so recovery undoes every step that may have left something behind.
+ */
+export interface SpawnJournal {
+  op: "spawn";
+  /** PID of the lobsterd process running the spawn */
+  pid: number;
+  startedAt: string;
+  tenant: Tenant;
+  steps: SpawnStep[];
+}
+
+// ── Trash ───────────────────────────────────────────────────────────────────
+
+/**
+ * An evicted tenant kept for restore: the registry entry as it was (parked
+ * as stopped), with its overlay and SSH keys moved under the entry's dir.
+ */
+export interface TrashEntry {
+  id: string;
+  tenant: Tenant;
+  deletedAt: string;
+  expiresAt: string;
+}
+
+// ── Snaps ───────────────────────────────────────────────────────────────────
+
+/**
+ * How a snap's overlay was quiesced: the guest filesystem was fsfrozen, the
+ * VM was paused (agent unreachable), or the tenant wasn't running
+ */
+export type SnapConsistency = "fsfreeze" | "paused" | "offline";
+
+/** An overlay tarball written by `lobsterd snap`, as recorded in the index */
+export interface SnapEntry {
+  /** Tarball name without `.tar.gz`: `<timestamp>-<tenant>` */
+  id: string;
+  tenant: string;
+  timestamp: string;
+  createdAt: string;
+  path: string;
+  sizeBytes: number;
+  sha256: string;
+  /** Absent on snaps taken before consistency modes were recorded */
+  consistency?: SnapConsistency;
+}
+
+export interface SnapIndex {
+  snaps: SnapEntry[];
+}
+
+// ── Bundles ─────────────────────────────────────────────────────────────────
+
+/** `manifest.json` at the root of a `lobsterd export` bundle */
+export interface BundleManifest {
+  format: 1;
+  lobsterdVersion: string;
+  /** `firecracker --version` of the exporting host, if it could be read */
+  firecrackerVersion: string | null;
+  exportedAt: string;
+  /** The tenant record as registered on the exporting host */
+  tenant: Tenant;
+  /** The bundle carries the tenant's suspend snapshot under `snapshot/` */
+  snapshot: boolean;
+  /** The bundle carries the tenant's secrets, decrypted, in `secrets.json` */
+  secrets?: boolean;
+}
+
+/** What a receiving buoy reports once a migrated tenant is up and healthy */
+export interface MigrateResult {
+  /** Buoy URL the tenant was moved to */
+  destination: string;
+  tenant: Pick<
+    Tenant,
+    | "name"
+    | "cid"
+    | "ipAddress"
+    | "gatewayPort"
+    | "vmPid"
+    | "status"
+    | "createdAt"
+  >;
+  /** Health checks that passed on the destination before the source evicted */
+  checks: HealthCheckResult[];
+}
+
+// ── Secrets ─────────────────────────────────────────────────────────────────
+
+/** AES-256-GCM ciphertext as stored on disk; all fields base64 */
+export interface EncryptedBlob {
+  alg: "aes-256-gcm";
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/** Per-tenant secret store, decrypted: env var name → value */
+export type TenantSecrets = Record<string, string>;
+
+/** What wraps the data key of an encrypted file */
+export type KekSource = "host-key" | "passphrase";
+
+/**
+ * Header of a file whose sensitive fields are encrypted: a per-save data key,
+ * itself sealed under the host key or a passphrase-derived key.
+ */
+export interface Envelope {
+  kek: KekSource;
+  /** scrypt salt (base64), for `kek: "passphrase"` */
+  salt?: string;
+  dataKey: EncryptedBlob;
+}
+
+export type FileEncryption = "missing" | "plaintext" | KekSource;
+
 // ── Exec ─────────────────────────────────────────────────────────────────────
 
 export interface ExecResult {
@@ -252,6 +515,7 @@ export type ErrorCode =
   | "CONFIG_INVALID"
   | "TENANT_EXISTS"
   | "TENANT_NOT_FOUND"
+  | "SNAP_NOT_FOUND"
   | "PERMISSION_DENIED"
   | "VALIDATION_FAILED"
   | "LOCK_FAILED"
@@ -260,6 +524,17 @@ export type ErrorCode =
   | "SUSPEND_FAILED"
   | "SUSPEND_SKIPPED"
   | "RESUME_FAILED"
+  | "RESTORE_FAILED"
+  | "ROLLBACK_FAILED"
+  | "EXPORT_FAILED"
+  | "IMPORT_FAILED"
+  | "MIGRATE_FAILED"
+  | "SECRET_NOT_FOUND"
+  | "CRYPTO_FAILED"
+  | "BALLOON_FAILED"
+  | "SUBNET_EXHAUSTED"
+  | "PORTS_EXHAUSTED"
+  | "CAPACITY_EXCEEDED"
   | "UNINIT_FAILED"
   | "UNKNOWN";
 
@@ -299,4 +574,18 @@ export interface WatchdogEvents {
   };
   "resume-complete": { tenant: string; vmPid: number | null };
   "resume-failed": { tenant: string; error: string };
+  "balloon-inflate": {
+    tenant: string;
+    amountMib: number;
+    hostAvailableMb: number;
+  };
+  "balloon-deflate": { tenant: string };
+  "trash-purged": { id: string; tenant: string };
+  "backup-complete": {
+    tenant: string;
+    id: string;
+    path: string;
+    pruned: string[];
+  };
+  "backup-failed": { tenant: string; error: string };
 }
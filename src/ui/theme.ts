@@ -13,6 +13,7 @@ export const WATCH_STATE_COLORS: Record<WatchState, string> = {
   FAILED: "red",
   RECOVERING: "cyan",
   SUSPENDED: "blue",
+  STOPPED: "gray",
 };
 
 export const STATUS_SYMBOLS: Record<HealthStatus, string> = {
@@ -28,6 +29,7 @@ export const WATCH_STATE_SYMBOLS: Record<WatchState, string> = {
   FAILED: "✗",
   RECOVERING: "↻",
   SUSPENDED: "⏸",
+  STOPPED: "■",
 };
 
 export const LOBSTER = "🦞";
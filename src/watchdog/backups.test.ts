@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { errAsync, okAsync } from "neverthrow";
+import * as snap from "../commands/snap.js";
+import { makeConfig, makeTenant } from "../test-helpers.js";
+import type { WatchdogEvents } from "../types/index.js";
+import { type BackupSlot, dueBackups, runBackups } from "./backups.js";
+import { WatchdogEmitter } from "./events.js";
+
+const config = makeConfig({
+  backup: { schedule: "0 3 * * *", staggerMs: 0 },
+  templates: { scratch: { backup: { enabled: false } } },
+});
+const at = (hour: number, minute = 0) =>
+  new Date(2025, 0, 1, hour, minute).getTime();
+
+describe("dueBackups", () => {
+  test("slots new tenants at their next run without firing", () => {
+    const slots = new Map<string, BackupSlot>();
+    expect(dueBackups(config, [makeTenant()], slots, at(2))).toEqual([]);
+    expect(slots.get("test-tenant")).toEqual({
+      schedule: "0 3 * * *",
+      nextRunAt: at(3),
+    });
+  });
+
+  test("reports tenants whose slot has passed", () => {
+    const slots = new Map<string, BackupSlot>([
+      ["test-tenant", { schedule: "0 3 * * *", nextRunAt: at(3) }],
+    ]);
+    expect(dueBackups(config, [makeTenant()], slots, at(3, 1))).toEqual([
+      "test-tenant",
+    ]);
+  });
+
+  test("re-slots when the schedule changes", () => {
+    const slots = new Map<string, BackupSlot>([
+      ["test-tenant", { schedule: "0 1 * * *", nextRunAt: at(1) }],
+    ]);
+    expect(dueBackups(config, [makeTenant()], slots, at(2))).toEqual([]);
+    expect(slots.get("test-tenant")?.nextRunAt).toBe(at(3));
+  });
+
+  test("drops opted-out, removing and evicted tenants", () => {
+    const slot = { schedule: "0 3 * * *", nextRunAt: at(3) };
+    const slots = new Map<string, BackupSlot>([
+      ["scratch", slot],
+      ["leaving", slot],
+      ["gone", slot],
+    ]);
+    const tenants = [
+      makeTenant({ name: "scratch", template: "scratch" }),
+      makeTenant({ name: "leaving", status: "removing" }),
+    ];
+    expect(dueBackups(config, tenants, slots, at(4))).toEqual([]);
+    expect(slots.size).toBe(0);
+  });
+
+  test("does nothing without a backup config", () => {
+    const slots = new Map<string, BackupSlot>();
+    expect(dueBackups(makeConfig(), [makeTenant()], slots, at(4))).toEqual([]);
+    expect(slots.size).toBe(0);
+  });
+});
+
+describe("runBackups", () => {
+  let s: Record<string, ReturnType<typeof spyOn>>;
+  let emitter: WatchdogEmitter;
+  let complete: WatchdogEvents["backup-complete"][];
+  let failed: WatchdogEvents["backup-failed"][];
+  const opts = { staggerMs: 0, isRunning: () => true };
+
+  beforeEach(() => {
+    s = {
+      runSnap: spyOn(snap, "runSnap").mockImplementation(
+        (name: string) =>
+          okAsync({
+            id: `20250101-030000-${name}`,
+            tenant: name,
+            timestamp: "20250101-030000",
+            createdAt: "2025-01-01T03:00:00.000Z",
+            path: `/var/lib/lobsterd/snaps/${name}/20250101-030000-${name}.tar.gz`,
+            sizeBytes: 1024,
+            sha256: "abc",
+            pruned: [],
+          }) as never,
+      ),
+    };
+    emitter = new WatchdogEmitter();
+    complete = [];
+    failed = [];
+    emitter.on("backup-complete", (e) => complete.push(e));
+    emitter.on("backup-failed", (e) => failed.push(e));
+  });
+
+  afterEach(() => {
+    for (const spy of Object.values(s)) {
+      spy.mockRestore();
+    }
+  });
+
+  test("snaps each tenant and emits backup-complete", async () => {
+    const attempted = await runBackups(["a", "b"], emitter, new Set(), opts);
+    expect(attempted).toEqual(["a", "b"]);
+    expect(s.runSnap.mock.calls.map((c: unknown[]) => c[0])).toEqual([
+      "a",
+      "b",
+    ]);
+    expect(complete.map((e) => e.id)).toEqual([
+      "20250101-030000-a",
+      "20250101-030000-b",
+    ]);
+  });
+
+  test("skips tenants that are mid-resume", async () => {
+    const attempted = await runBackups(
+      ["a", "b"],
+      emitter,
+      new Set(["a"]),
+      opts,
+    );
+    expect(attempted).toEqual(["b"]);
+    expect(s.runSnap).toHaveBeenCalledTimes(1);
+  });
+
+  test("emits backup-failed and carries on", async () => {
+    s.runSnap.mockImplementationOnce(() =>
+      errAsync({ code: "EXEC_FAILED", message: "disk full" }),
+    );
+    await runBackups(["a", "b"], emitter, new Set(), opts);
+    expect(failed).toEqual([{ tenant: "a", error: "disk full" }]);
+    expect(complete.map((e) => e.tenant)).toEqual(["b"]);
+  });
+
+  test("staggers consecutive snaps", async () => {
+    const started = Date.now();
+    await runBackups(["a", "b", "c"], emitter, new Set(), {
+      ...opts,
+      staggerMs: 20,
+    });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+  });
+
+  test("stops once the watchdog shuts down", async () => {
+    const attempted = await runBackups(["a"], emitter, new Set(), {
+      ...opts,
+      isRunning: () => false,
+    });
+    expect(attempted).toEqual([]);
+    expect(s.runSnap).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,153 @@
+import { runSnap } from "../commands/snap.js";
+import { nextCronRun, parseCron } from "../config/cron.js";
+import { backupPolicy } from "../config/templates.js";
+import type { LobsterdConfig, Tenant, TenantRegistry } from "../types/index.js";
+import type { WatchdogEmitter } from "./events.js";
+
+/** Schedules have minute resolution, so polling twice a minute is plenty */
+export const BACKUP_POLL_INTERVAL_MS = 30_000;
+
+export interface BackupSlot {
+  schedule: string;
+  /** Epoch ms of the next scheduled snap */
+  nextRunAt: number;
+}
+
+export interface BackupsHandle {
+  stop: () => void;
+}
+
+/**
+ * Tenants whose scheduled backup is due at `now`. Tenants seen for the first
+ * time (or whose schedule changed) are slotted at their next run rather than
+ * backed up straight away; tenants without a backup policy are dropped.
+ */
+export function dueBackups(
+  config: LobsterdConfig,
+  tenants: Tenant[],
+  slots: Map<string, BackupSlot>,
+  now: number,
+): string[] {
+  const due: string[] = [];
+  for (const name of slots.keys()) {
+    if (!tenants.some((t) => t.name === name)) {
+      slots.delete(name);
+    }
+  }
+  for (const tenant of tenants) {
+    const policy = backupPolicy(tenant, config);
+    if (!policy.enabled || !policy.schedule || tenant.status === "removing") {
+      slots.delete(tenant.name);
+      continue;
+    }
+    const slot = slots.get(tenant.name);
+    if (slot && slot.schedule === policy.schedule) {
+      if (slot.nextRunAt <= now) {
+        due.push(tenant.name);
+      }
+      continue;
+    }
+    const spec = parseCron(policy.schedule);
+    const next = spec.isOk() ? nextCronRun(spec.value, new Date(now)) : null;
+    if (next) {
+      slots.set(tenant.name, {
+        schedule: policy.schedule,
+        nextRunAt: next.getTime(),
+      });
+    } else {
+      slots.delete(tenant.name);
+    }
+  }
+  return due;
+}
+
+/**
+ * Snap `names` one after another, `staggerMs` apart. Tenants that are mid
+ * resume or suspend are left out and stay due for the next poll. Returns
+ * the tenants that were attempted.
+ */
+export async function runBackups(
+  names: string[],
+  emitter: WatchdogEmitter,
+  inFlight: Set<string>,
+  opts: { staggerMs: number; isRunning: () => boolean },
+): Promise<string[]> {
+  const attempted: string[] = [];
+  for (const name of names) {
+    if (!opts.isRunning()) {
+      break;
+    }
+    if (inFlight.has(name)) {
+      continue;
+    }
+    if (attempted.length > 0 && opts.staggerMs > 0) {
+      await Bun.sleep(opts.staggerMs);
+      if (!opts.isRunning() || inFlight.has(name)) {
+        continue;
+      }
+    }
+    attempted.push(name);
+    const result = await runSnap(name);
+    if (result.isOk()) {
+      emitter.emit("backup-complete", {
+        tenant: name,
+        id: result.value.id,
+        path: result.value.path,
+        pruned: result.value.pruned,
+      });
+    } else {
+      emitter.emit("backup-failed", {
+        tenant: name,
+        error: result.error.message,
+      });
+    }
+  }
+  return attempted;
+}
+
+/**
+ * Take scheduled overlay snaps per the `backup` config and template
+ * policies. Backups don't claim `inFlight`, so a traffic-triggered resume is
+ * never held up behind a long copy.
+ */
+export function startBackups(
+  config: LobsterdConfig,
+  registry: TenantRegistry,
+  emitter: WatchdogEmitter,
+  inFlight: Set<string>,
+): BackupsHandle {
+  const slots = new Map<string, BackupSlot>();
+  let running = true;
+  let pollInProgress = false;
+
+  async function poll() {
+    if (!running || pollInProgress) {
+      return;
+    }
+    pollInProgress = true;
+    try {
+      const due = dueBackups(config, registry.tenants, slots, Date.now());
+      const attempted = await runBackups(due, emitter, inFlight, {
+        staggerMs: config.backup?.staggerMs ?? 0,
+        isRunning: () => running,
+      });
+      for (const name of attempted) {
+        // Re-slot from now so a run that overshot the next tick isn't repeated
+        slots.delete(name);
+      }
+      dueBackups(config, registry.tenants, slots, Date.now());
+    } finally {
+      pollInProgress = false;
+    }
+  }
+
+  poll();
+  const interval = setInterval(poll, BACKUP_POLL_INTERVAL_MS);
+
+  return {
+    stop: () => {
+      running = false;
+      clearInterval(interval);
+    },
+  };
+}
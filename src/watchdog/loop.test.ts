@@ -1,6 +1,7 @@
 import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
 import { errAsync, okAsync } from "neverthrow";
 import * as checks from "../checks/index.js";
+import * as trash from "../commands/trash.js";
 import * as loader from "../config/loader.js";
 import * as repair from "../repair/index.js";
 import { makeConfig, makeRegistry, makeTenant } from "../test-helpers.js";
@@ -81,6 +82,9 @@ describe("startWatchdog", () => {
       runRepairs: spyOn(repair, "runRepairs").mockReturnValue(
         okAsync([]) as never,
       ),
+      purgeExpiredTrash: spyOn(trash, "purgeExpiredTrash").mockReturnValue(
+        okAsync([]) as never,
+      ),
     };
   });
 
@@ -442,4 +446,23 @@ describe("startWatchdog", () => {
     expect(handle.states()[t.name].state).toBe("UNKNOWN");
     expect(s.runRepairs).not.toHaveBeenCalled();
   });
+
+  test("purges expired trash entries and reports them", async () => {
+    s.purgeExpiredTrash.mockReturnValue(
+      okAsync([
+        {
+          id: "gone-1",
+          tenant: makeTenant({ name: "gone" }),
+          deletedAt: "2025-01-01T00:00:00.000Z",
+          expiresAt: "2025-01-08T00:00:00.000Z",
+        },
+      ]) as never,
+    );
+
+    handle = startWatchdog(singleTickConfig(), makeRegistry([]), new Set());
+    const purged = collectEvents(handle.emitter, "trash-purged");
+    await waitForEvent(handle.emitter, "tick-complete");
+
+    expect(purged).toEqual([{ id: "gone-1", tenant: "gone" }]);
+  });
 });
@@ -1,4 +1,5 @@
 import { runAllChecks } from "../checks/index.js";
+import { purgeExpiredTrash } from "../commands/trash.js";
 import { loadRegistry } from "../config/loader.js";
 import { runRepairs } from "../repair/index.js";
 import type {
@@ -9,6 +10,9 @@ import type {
 import { WatchdogEmitter } from "./events.js";
 import { initialWatchState, transition } from "./state.js";
 
+/** Trash retention is measured in days, so checking hourly is plenty */
+export const TRASH_PURGE_INTERVAL_MS = 60 * 60_000;
+
 export interface WatchdogHandle {
   emitter: WatchdogEmitter;
   stop: () => void;
@@ -24,6 +28,7 @@ export function startWatchdog(
   const tenantStates: Record<string, TenantWatchState> = {};
   let running = true;
   let tickInProgress = false;
+  let lastTrashPurgeAt = 0;
 
   // Initialize states
   for (const tenant of registry.tenants) {
@@ -84,19 +89,22 @@ export function startWatchdog(
         if (tenant.status === "removing" || inFlight.has(tenant.name)) {
           continue;
         }
-        if (tenant.status === "suspended") {
+        if (tenant.status === "suspended" || tenant.status === "stopped") {
+          // Parked on purpose — nothing to check or repair
+          const parkedState =
+            tenant.status === "suspended" ? "SUSPENDED" : "STOPPED";
           const oldState = (tenantStates[tenant.name] ?? initialWatchState())
             .state;
-          if (oldState !== "SUSPENDED") {
+          if (oldState !== parkedState) {
             tenantStates[tenant.name] = {
               ...initialWatchState(),
-              state: "SUSPENDED",
+              state: parkedState,
               lastCheck: new Date().toISOString(),
             };
             emitter.emit("state-change", {
               tenant: tenant.name,
               from: oldState,
-              to: "SUSPENDED",
+              to: parkedState,
             });
           }
           continue;
@@ -183,6 +191,19 @@ export function startWatchdog(
         }
       }
 
+      if (running && Date.now() - lastTrashPurgeAt >= TRASH_PURGE_INTERVAL_MS) {
+        lastTrashPurgeAt = Date.now();
+        const purged = await purgeExpiredTrash();
+        if (purged.isOk()) {
+          for (const entry of purged.value) {
+            emitter.emit("trash-purged", {
+              id: entry.id,
+              tenant: entry.tenant.name,
+            });
+          }
+        }
+      }
+
       emitter.emit("tick-complete", {
         timestamp: new Date().toISOString(),
         states: { ...tenantStates },
@@ -3,6 +3,8 @@ import { errAsync, okAsync } from "neverthrow";
 import * as resume from "../commands/resume.js";
 import * as suspend from "../commands/suspend.js";
 import * as exec from "../system/exec.js";
+import * as fc from "../system/firecracker.js";
+import * as host from "../system/host.js";
 import * as vsock from "../system/vsock.js";
 import { makeConfig, makeRegistry, makeTenant } from "../test-helpers.js";
 import type {
@@ -95,6 +97,12 @@ describe("startScheduler", () => {
       pokeCron: spyOn(vsock, "pokeCron").mockReturnValue(
         okAsync(undefined) as never,
       ),
+      hostMemInfo: spyOn(host, "hostMemInfo").mockReturnValue(
+        okAsync({ totalMb: 16384, availableMb: 8192 }) as never,
+      ),
+      updateBalloon: spyOn(fc, "updateBalloon").mockReturnValue(
+        okAsync(undefined) as never,
+      ),
       bunListen: spyOn(Bun, "listen").mockImplementation(
         () =>
           ({
@@ -187,6 +195,65 @@ describe("startScheduler", () => {
     expect(pollData.idleFor).toBeNull(); // active connections → no idle
   });
 
+  test("inflates an idle tenant's balloon under host memory pressure, deflates on traffic", async () => {
+    const t = makeTenant({ template: "pinned" });
+    const registry = makeRegistry([t]);
+    const emitter = new WatchdogEmitter();
+    const inFlight = new Set<string>();
+    const config = {
+      ...schedulerConfig(),
+      templates: { pinned: { autoSuspend: { enabled: false } } },
+    };
+
+    s.hostMemInfo.mockReturnValue(
+      okAsync({ totalMb: 16384, availableMb: 512 }) as never,
+    );
+
+    schedulerHandle = startScheduler(
+      config,
+      registry,
+      emitter,
+      healthyStates(t.name),
+      inFlight,
+    );
+
+    const inflate = await waitForEvent(emitter, "balloon-inflate");
+    expect(inflate.tenant).toBe(t.name);
+    // Default 1024MB guest keeps balloon.idleGuestMb (256MB)
+    expect(inflate.amountMib).toBe(768);
+    expect(s.updateBalloon).toHaveBeenCalledWith(t.socketPath, 768);
+    expect(s.runSuspend).not.toHaveBeenCalled();
+
+    s.getActiveConnections.mockReturnValue(
+      okAsync({ tcp: 1, cron: 0, hold: 0 }) as never,
+    );
+    const deflate = await waitForEvent(emitter, "balloon-deflate");
+    expect(deflate.tenant).toBe(t.name);
+    expect(s.updateBalloon).toHaveBeenLastCalledWith(t.socketPath, 0);
+  });
+
+  test("leaves balloons alone when host memory is plentiful", async () => {
+    const t = makeTenant({ template: "pinned" });
+    const registry = makeRegistry([t]);
+    const emitter = new WatchdogEmitter();
+    const config = {
+      ...schedulerConfig(),
+      templates: { pinned: { autoSuspend: { enabled: false } } },
+    };
+
+    schedulerHandle = startScheduler(
+      config,
+      registry,
+      emitter,
+      healthyStates(t.name),
+      new Set<string>(),
+    );
+
+    await Bun.sleep(200);
+    expect(s.hostMemInfo).toHaveBeenCalled();
+    expect(s.updateBalloon).not.toHaveBeenCalled();
+  });
+
   test("suspend failure reverts status and emits suspend-failed", async () => {
     const t = makeTenant();
     const registry = makeRegistry([t]);
@@ -1,10 +1,15 @@
 import { okAsync } from "neverthrow";
 import { runResume } from "../commands/resume.js";
 import { runSuspend } from "../commands/suspend.js";
+import { tenantResources } from "../config/resources.js";
+import { autoSuspendPolicy, tenantConfig } from "../config/templates.js";
 import { execUnchecked } from "../system/exec.js";
+import * as fc from "../system/firecracker.js";
+import * as host from "../system/host.js";
 import * as vsock from "../system/vsock.js";
 import type {
   ActiveConnectionsInfo,
+  BalloonConfig,
   LobsterdConfig,
   Tenant,
   TenantRegistry,
@@ -89,6 +94,9 @@ export function startScheduler(
   // Track sentinel listeners for suspended tenants
   const sentinels = new Map<string, SentinelHandle>();
 
+  // Tenants whose balloon the scheduler inflated (deflated again on activity)
+  const ballooned = new Set<string>();
+
   function clearCronTimer(name: string) {
     const timer = cronTimers.get(name);
     if (timer) {
@@ -260,11 +268,65 @@ export function startScheduler(
     inFlight.delete(name);
   }
 
+  async function inflateBalloon(
+    tenant: Tenant,
+    balloon: BalloonConfig,
+    hostMem: { availableMb: number },
+  ) {
+    if (ballooned.has(tenant.name)) {
+      return;
+    }
+    const { memSizeMb } = tenantResources(tenant, tenantConfig(tenant, config));
+    const amountMib = memSizeMb - balloon.idleGuestMb;
+    if (amountMib <= 0) {
+      return;
+    }
+    const result = await fc.updateBalloon(tenant.socketPath, amountMib);
+    if (result.isOk()) {
+      ballooned.add(tenant.name);
+      emitter.emit("balloon-inflate", {
+        tenant: tenant.name,
+        amountMib,
+        hostAvailableMb: hostMem.availableMb,
+      });
+      // Assume the guest gives the memory back so one tick doesn't squeeze
+      // every idle tenant when a few would do
+      hostMem.availableMb += amountMib;
+    }
+  }
+
+  async function deflateBalloon(tenant: Tenant) {
+    if (!ballooned.has(tenant.name)) {
+      return;
+    }
+    const result = await fc.updateBalloon(tenant.socketPath, 0);
+    if (result.isOk()) {
+      ballooned.delete(tenant.name);
+      emitter.emit("balloon-deflate", { tenant: tenant.name });
+    }
+  }
+
   // ── Idle detection (auto-suspend) ────────────────────────────────────────
   const idleInterval = setInterval(async () => {
     if (!running) {
       return;
     }
+    const balloon = config.balloon?.enabled ? config.balloon : null;
+    // Host memory is read at most once per tick, and only if someone is idle.
+    // Resolves to the info when below the balloon watermark, else null.
+    let hostMem: { availableMb: number } | null | undefined;
+    const tightHostMemory = async () => {
+      if (hostMem === undefined) {
+        const info = await host.hostMemInfo();
+        hostMem = info.isOk() ? { availableMb: info.value.availableMb } : null;
+      }
+      return hostMem &&
+        balloon &&
+        hostMem.availableMb < balloon.hostLowWatermarkMb
+        ? hostMem
+        : null;
+    };
+
     for (const tenant of registry.tenants) {
       if (tenant.status === "suspended") {
         // Ensure sentinel exists for suspended tenants (covers manual suspend)
@@ -281,6 +343,11 @@ export function startScheduler(
       if (inFlight.has(tenant.name)) {
         continue;
       }
+      const policy = autoSuspendPolicy(tenant, config);
+      if (!policy.enabled && !balloon) {
+        idleSince.delete(tenant.name);
+        continue;
+      }
 
       // Don't poll or suspend if watchdog reports unhealthy — let repair finish.
       // Exclude SUSPENDED: after a cron resume the VM is active but the
@@ -318,8 +385,13 @@ export function startScheduler(
           connections: info,
           idleFor: elapsed,
         });
-        if (elapsed >= config.watchdog.idleThresholdMs) {
+        if (policy.enabled && elapsed >= policy.idleThresholdMs) {
           triggerSuspend(tenant.name);
+        } else if (balloon && elapsed >= config.watchdog.trafficPollMs) {
+          const tight = await tightHostMemory();
+          if (tight) {
+            await inflateBalloon(tenant, balloon, tight);
+          }
         }
       } else {
         emitter.emit("scheduler-poll", {
@@ -329,6 +401,7 @@ export function startScheduler(
         });
         if (total > 0) {
           idleSince.delete(tenant.name);
+          await deflateBalloon(tenant);
         }
       }
       // info === null means agent unreachable, don't change idle tracking
@@ -158,6 +158,16 @@ describe("transition", () => {
     expect(next.state).toBe("HEALTHY");
     expect(needsRepair).toBe(false);
   });
+
+  test("STOPPED + ok -> HEALTHY", () => {
+    const { next, needsRepair } = transition(
+      stateWith({ state: "STOPPED" }),
+      [okResult],
+      config,
+    );
+    expect(next.state).toBe("HEALTHY");
+    expect(needsRepair).toBe(false);
+  });
 });
 
 // ── resetToMolting ──────────────────────────────────────────────────────────
@@ -83,7 +83,8 @@ export function transition(
       return { next: { ...base, state: "FAILED" }, needsRepair: false };
 
     case "SUSPENDED":
-      // After resume, health checks run again — transition based on results
+    case "STOPPED":
+      // After resume/start, health checks run again — transition based on results
       if (allOk) {
         return {
           next: { ...base, state: "HEALTHY", repairAttempts: 0 },